@@ -1,11 +1,11 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import AudioRecorder from './components/AudioRecorder';
 import ResultsDisplay from './components/ResultsDisplay';
-import { AppStatus, IdentifiedError } from './types';
-import { processMedia, createChat, blobToBase64, base64ToBlob, createChatFromText, identifyPotentialErrors } from './services/geminiService';
+import { AppStatus, AuditEditAction, CriticalClassification, IdentifiedError, ImpressionCrossCheck, HistoryEntry, HistorySource, ReportVersion, ReportVersionSource, TranscriptSegment } from './types';
+import { processMediaWithTranscript, createChat, createChatFromText, classifyCriticalFindings, crossCheckImpression, identifyPotentialErrors, sendChatMessage } from './services/geminiService';
 import Spinner from './components/ui/Spinner';
-import { Chat } from '@google/genai';
+import { ChatSession, PROVIDER_OPTIONS, isMockMode, isProviderConfigured, loadProviderSettings } from './services/aiProvider';
 // FIX: Changed import to a named import based on the error message.
 import { BatchProcessor } from './components/BatchProcessor';
 import LiveDictation from './components/LiveDictation';
@@ -13,8 +13,43 @@ import WaveformIcon from './components/icons/WaveformIcon';
 import SunIcon from './components/icons/SunIcon';
 import MoonIcon from './components/icons/MoonIcon';
 import KeyIcon from './components/icons/KeyIcon';
+import PencilIcon from './components/icons/PencilIcon';
+import BrainIcon from './components/icons/BrainIcon';
+import SparklesIcon from './components/icons/SparklesIcon';
+import HistoryIcon from './components/icons/HistoryIcon';
 import CustomPromptInput from './components/ui/CustomPromptInput';
 import ApiKeyModal from './components/ApiKeyModal';
+import TranscriptionRulesModal from './components/TranscriptionRulesModal';
+import VocabularyModal from './components/VocabularyModal';
+import MacrosModal from './components/MacrosModal';
+import HistoryModal from './components/HistoryModal';
+import { migrateLegacyTemplatePrompt } from './services/templateLibrary';
+import { applyTranscriptionRulesToFindings } from './services/transcriptionRules';
+import { applyVocabularyToFindings } from './services/vocabulary';
+import { applyPhiGuardToFindings, getRedactionLog, subscribeToRedactionLog } from './services/phiRedaction';
+import { archiveReport, createHistoryId, historyEntryTitle, purgeHistory } from './services/historyStore';
+import { describeStorageError, releaseBlobs, restoreBlobs, saveOwnedBlobs } from './services/blobStore';
+import StorageWarning from './components/ui/StorageWarning';
+import { getSecureItem, getVaultAutoLockMinutes, isVaultEnabled, isVaultUnlocked, lockVault, registerSecureStorageKeys, removeSecureItem, setSecureItem } from './services/vault';
+import VaultUnlockModal from './components/VaultUnlockModal';
+import VaultSettingsModal from './components/VaultSettingsModal';
+import LockIcon from './components/icons/LockIcon';
+import ShieldIcon from './components/icons/ShieldIcon';
+import PhiReviewModal from './components/PhiReviewModal';
+import AuditLogModal from './components/AuditLogModal';
+import ClipboardListIcon from './components/icons/ClipboardListIcon';
+import PdfSettingsModal from './components/PdfSettingsModal';
+import ExportProfilesModal from './components/ExportProfilesModal';
+import DocumentIcon from './components/icons/DocumentIcon';
+import UploadIcon from './components/icons/UploadIcon';
+import CopyIcon from './components/icons/CopyIcon';
+import { importDiagnosticReport } from './services/fhir';
+import { recordEdit } from './services/auditLog';
+import { checkReport } from './services/reportChecks';
+import { currentCrossCheckErrors, impressionCheckKey } from './services/impressionCheck';
+import { criticalFindingsFor } from './services/criticalFindings';
+import { appendReportVersion, createReportVersion } from './services/reportVersions';
+import { useInactivityTimer } from './hooks/useInactivityTimer';
 
 interface ChatMessage {
   author: 'You' | 'AI';
@@ -23,6 +58,10 @@ interface ChatMessage {
 
 const SINGLE_MODE_STORAGE_KEY = 'radiologyDictationSingleMode';
 const ERROR_CHECK_ENABLED_KEY = 'radiologyErrorCheckEnabled';
+const CORRECTIONS_ENABLED_KEY = 'radiologyCorrectionsEnabled';
+const CRITICAL_AI_CHECK_ENABLED_KEY = 'radiologyCriticalAiCheckEnabled';
+
+registerSecureStorageKeys(SINGLE_MODE_STORAGE_KEY);
 
 const getCleanMimeType = (blob: Blob): string => {
     let mimeType = blob.type;
@@ -44,16 +83,35 @@ const App: React.FC = () => {
   const [status, setStatus] = useState<AppStatus>(AppStatus.Idle);
   const [findings, setFindings] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [imageBlobs, setImageBlobs] = useState<Blob[]>([]);
-  const [chat, setChat] = useState<Chat | null>(null);
+  const [chat, setChat] = useState<ChatSession | null>(null);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [isChatting, setIsChatting] = useState<boolean>(false);
   // CHANGED: Default model to gemini-3-flash-preview as requested
   const [selectedModel, setSelectedModel] = useState<string>('gemini-3-flash-preview');
   const [customPrompt, setCustomPrompt] = useState<string>('');
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  // The history entry the current report is archived under; a new report gets a new entry.
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [historySource, setHistorySource] = useState<HistorySource>('single');
+  // Batch reports keep their batch name in history; other reports are named after their content.
+  const [historyName, setHistoryName] = useState<string | null>(null);
+  const [versions, setVersions] = useState<ReportVersion[]>([]);
+  const [dictationTranscript, setDictationTranscript] = useState<TranscriptSegment[]>([]);
+  // What produced the next change to `findings`; the effect below turns that change into a version.
+  const pendingVersionRef = useRef<{ source: ReportVersionSource; model?: string } | null>(null);
+  const fhirInputRef = useRef<HTMLInputElement>(null);
   const [identifiedErrors, setIdentifiedErrors] = useState<IdentifiedError[]>([]);
   const [errorCheckStatus, setErrorCheckStatus] = useState<'idle' | 'checking' | 'complete'>('idle');
+  // Rule-based checks run on every report, whether or not the AI error check is enabled.
+  const reportCheckErrors = useMemo(() => checkReport(findings), [findings]);
+  const [impressionCheck, setImpressionCheck] = useState<ImpressionCrossCheck | null>(null);
+  const impressionKey = useMemo(() => impressionCheckKey(findings), [findings]);
+  const impressionErrors = useMemo(() => currentCrossCheckErrors(impressionCheck, findings), [impressionCheck, findings]);
+  const [criticalClassification, setCriticalClassification] = useState<CriticalClassification | null>(null);
+  const criticalFindings = useMemo(() => criticalFindingsFor(findings, criticalClassification), [findings, criticalClassification]);
   const [theme, setTheme] = useState(() => {
     const storedTheme = localStorage.getItem('theme');
     if (storedTheme) {
@@ -65,23 +123,64 @@ const App: React.FC = () => {
     const saved = localStorage.getItem(ERROR_CHECK_ENABLED_KEY);
     return saved ? JSON.parse(saved) : false; // Default is OFF
   });
+  const [isCorrectionsEnabled, setIsCorrectionsEnabled] = useState(() => {
+    const saved = localStorage.getItem(CORRECTIONS_ENABLED_KEY);
+    return saved ? JSON.parse(saved) : false; // Default is OFF
+  });
+  const [isCriticalAiCheckEnabled, setIsCriticalAiCheckEnabled] = useState(() => {
+    const saved = localStorage.getItem(CRITICAL_AI_CHECK_ENABLED_KEY);
+    return saved ? JSON.parse(saved) : false; // Default is OFF
+  });
 
-  // API Key Management State
-  const [hasApiKey, setHasApiKey] = useState<boolean>(false);
+  // AI Provider Settings State
+  const [isProviderReady, setIsProviderReady] = useState<boolean>(false);
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState<boolean>(false);
+  const [isRulesModalOpen, setIsRulesModalOpen] = useState<boolean>(false);
+  const [isVocabularyModalOpen, setIsVocabularyModalOpen] = useState<boolean>(false);
+  const [isMacrosModalOpen, setIsMacrosModalOpen] = useState<boolean>(false);
+  const [isHistoryModalOpen, setIsHistoryModalOpen] = useState<boolean>(false);
+  const [isVaultModalOpen, setIsVaultModalOpen] = useState<boolean>(false);
+  const [isPhiModalOpen, setIsPhiModalOpen] = useState<boolean>(false);
+  const [redactionCount, setRedactionCount] = useState<number>(0);
+  const [isAuditModalOpen, setIsAuditModalOpen] = useState<boolean>(false);
+  const [isPdfSettingsModalOpen, setIsPdfSettingsModalOpen] = useState<boolean>(false);
+  const [isExportProfilesModalOpen, setIsExportProfilesModalOpen] = useState<boolean>(false);
+
+  useEffect(() => subscribeToRedactionLog(() => {
+    setRedactionCount(getRedactionLog().reduce((total, event) => total + event.redactions.length, 0));
+  }), []);
+
+  // Encrypted vault: while locked nothing saved can be read, so the provider check and session
+  // restore wait for the unlock screen.
+  const [isVaultOn, setIsVaultOn] = useState<boolean>(isVaultEnabled);
+  const [isVaultLocked, setIsVaultLocked] = useState<boolean>(() => isVaultEnabled() && !isVaultUnlocked());
+  const [vaultAutoLockMinutes, setVaultAutoLockMinutes] = useState<number>(getVaultAutoLockMinutes);
 
   useEffect(() => {
-    const storedKey = localStorage.getItem('gemini_api_key');
-    if (storedKey) {
-        setHasApiKey(true);
+    if (isVaultLocked) return;
+    if (isProviderConfigured()) {
+        setIsProviderReady(true);
     } else {
-        setHasApiKey(false);
+        setIsProviderReady(false);
         setIsApiKeyModalOpen(true);
     }
-  }, []);
+  }, [isVaultLocked]);
+
+  // Reloading drops every decrypted report from memory; the session is restored after unlocking.
+  const handleLockVault = () => {
+    lockVault();
+    window.location.reload();
+  };
+
+  const handleVaultChange = () => {
+    setIsVaultOn(isVaultEnabled());
+    setVaultAutoLockMinutes(getVaultAutoLockMinutes());
+  };
 
-  const handleApiKeySave = (key: string) => {
-      setHasApiKey(true);
+  useInactivityTimer(vaultAutoLockMinutes * 60 * 1000, handleLockVault, isVaultOn && !isVaultLocked);
+
+  const handleApiKeySave = () => {
+      setIsProviderReady(isProviderConfigured());
       setIsApiKeyModalOpen(false);
   };
 
@@ -104,60 +203,71 @@ const App: React.FC = () => {
     localStorage.setItem(ERROR_CHECK_ENABLED_KEY, JSON.stringify(isErrorCheckEnabled));
   }, [isErrorCheckEnabled]);
 
+  useEffect(() => {
+    localStorage.setItem(CORRECTIONS_ENABLED_KEY, JSON.stringify(isCorrectionsEnabled));
+  }, [isCorrectionsEnabled]);
+
+  useEffect(() => {
+    localStorage.setItem(CRITICAL_AI_CHECK_ENABLED_KEY, JSON.stringify(isCriticalAiCheckEnabled));
+  }, [isCriticalAiCheckEnabled]);
+
   const toggleTheme = () => {
     setTheme(prevTheme => (prevTheme === 'light' ? 'dark' : 'light'));
   };
 
-  // Load state from localStorage on initial render
+  // Load state from localStorage on initial render; media is restored from the blob store
   useEffect(() => {
-    try {
-      const savedStateJSON = localStorage.getItem(SINGLE_MODE_STORAGE_KEY);
-      if (savedStateJSON) {
+    const loadState = async () => {
+      try {
+        const savedStateJSON = getSecureItem(SINGLE_MODE_STORAGE_KEY);
+        if (!savedStateJSON) return;
         const savedState = JSON.parse(savedStateJSON);
-        if (savedState.findings && savedState.findings.length > 0) {
-          // Allow restoring state without audio blob (for live sessions or image-only)
-          if (savedState.audio) {
-            const blob = base64ToBlob(savedState.audio.data, savedState.audio.type);
-            setAudioBlob(blob);
-          } else {
-            setAudioBlob(null);
-          }
+        if (!savedState.findings || savedState.findings.length === 0) return;
 
-          if (savedState.images && Array.isArray(savedState.images)) {
-              const loadedImages = savedState.images.map((img: any) => base64ToBlob(img.data, img.type));
-              setImageBlobs(loadedImages);
-          } else {
-              setImageBlobs([]);
-          }
+        // Allow restoring state without audio blob (for live sessions or image-only)
+        const [restoredAudio] = savedState.audio ? await restoreBlobs([savedState.audio]) : [];
+        const restoredImages = Array.isArray(savedState.images) ? await restoreBlobs(savedState.images) : [];
+        setAudioBlob(restoredAudio ?? null);
+        setImageBlobs(restoredImages);
 
-          setFindings(savedState.findings);
-          setChatHistory(savedState.chatHistory || []);
-          setStatus(AppStatus.Success);
-          
-          setSelectedModel(savedState.selectedModel || 'gemini-3-flash-preview');
+        setFindings(savedState.findings);
+        setVersions(savedState.versions || [createReportVersion(savedState.findings, savedState.historySource === 'live' ? 'live' : 'dictation', savedState.selectedModel)]);
+        setDictationTranscript(savedState.transcript || []);
+        setImpressionCheck(savedState.impressionCheck ?? null);
+        setChatHistory(savedState.chatHistory || []);
+        // Reports saved before the history archive existed are archived as a new entry.
+        setHistoryId(savedState.historyId || createHistoryId());
+        setHistorySource(savedState.historySource || 'single');
+        setHistoryName(savedState.historyName ?? null);
+        setStatus(AppStatus.Success);
+
+        setSelectedModel(savedState.selectedModel || 'gemini-3-flash-preview');
+        if (savedState.templateId !== undefined) {
           setCustomPrompt(savedState.customPrompt || '');
+          setTemplateId(savedState.templateId);
+        } else {
+          const migrated = migrateLegacyTemplatePrompt(savedState.customPrompt || '');
+          setCustomPrompt(migrated.customPrompt);
+          setTemplateId(migrated.templateId);
+        }
 
-          // Recreate chat session asynchronously
-          if (hasApiKey) {
-              let chatPromise;
-              if (savedState.audio) {
-                 const ab = base64ToBlob(savedState.audio.data, savedState.audio.type);
-                 chatPromise = createChat(ab, savedState.findings, savedState.customPrompt);
-              } else {
-                 chatPromise = createChatFromText(savedState.findings, savedState.customPrompt);
-              }
-    
-              chatPromise
-                .then(setChat)
-                .catch(err => console.error("Failed to recreate chat session from saved state:", err));
-          }
+        // Recreate chat session asynchronously
+        if (isProviderReady) {
+          const chatPromise = restoredAudio
+            ? createChat(restoredAudio, savedState.findings, savedState.customPrompt)
+            : createChatFromText(savedState.findings, savedState.customPrompt);
+
+          chatPromise
+            .then(setChat)
+            .catch(err => console.error("Failed to recreate chat session from saved state:", err));
         }
+      } catch (err) {
+        console.error("Failed to load state from localStorage:", err);
+        removeSecureItem(SINGLE_MODE_STORAGE_KEY);
       }
-    } catch (err) {
-      console.error("Failed to load state from localStorage:", err);
-      localStorage.removeItem(SINGLE_MODE_STORAGE_KEY);
-    }
-  }, [hasApiKey]);
+    };
+    loadState();
+  }, [isProviderReady]);
 
   // Save state to localStorage whenever it changes
   useEffect(() => {
@@ -170,34 +280,73 @@ const App: React.FC = () => {
             chatHistory,
             selectedModel,
             customPrompt,
+            templateId,
+            historyId,
+            historySource,
+            historyName,
+            versions,
+            transcript: dictationTranscript,
+            impressionCheck,
           };
+          // Only refs go to localStorage; media already in the blob store is not written again.
+          const mediaRefs = await saveOwnedBlobs('single', audioBlob ? [audioBlob, ...imageBlobs] : imageBlobs);
           if (audioBlob) {
-            stateToSave.audio = {
-              data: await blobToBase64(audioBlob),
-              type: getCleanMimeType(audioBlob),
-            };
+            stateToSave.audio = mediaRefs[0];
           }
-          if (imageBlobs.length > 0) {
-              stateToSave.images = await Promise.all(imageBlobs.map(async (blob) => ({
-                  data: await blobToBase64(blob),
-                  type: blob.type
-              })));
-          }
-          localStorage.setItem(SINGLE_MODE_STORAGE_KEY, JSON.stringify(stateToSave));
+          stateToSave.images = audioBlob ? mediaRefs.slice(1) : mediaRefs;
+          await setSecureItem(SINGLE_MODE_STORAGE_KEY, JSON.stringify(stateToSave));
+          setStorageWarning(null);
         } catch (err) {
           console.error("Failed to save state to localStorage:", err);
+          setStorageWarning(describeStorageError(err));
         }
       }
     };
     saveState();
-  }, [status, findings, audioBlob, imageBlobs, chatHistory, selectedModel, customPrompt]);
+  }, [status, findings, audioBlob, imageBlobs, chatHistory, selectedModel, customPrompt, templateId, historyId, historySource, historyName, versions, dictationTranscript, impressionCheck]);
+
+  // Archive every completed report, and every later change to it, in the history store.
+  useEffect(() => {
+    if (status !== AppStatus.Success || findings.length === 0 || !historyId) return;
+    archiveReport({
+      id: historyId,
+      source: historySource,
+      name: historyName ?? historyEntryTitle(findings, 'Untitled report'),
+      findings,
+      audio: audioBlob,
+      images: imageBlobs,
+      customPrompt,
+      templateId,
+      model: selectedModel,
+      chatHistory,
+      versions,
+      transcript: dictationTranscript,
+      impressionCheck: impressionCheck ?? undefined,
+    }).catch(err => {
+      console.error("Failed to archive report:", err);
+      setStorageWarning(describeStorageError(err));
+    });
+  }, [status, findings, audioBlob, imageBlobs, chatHistory, selectedModel, customPrompt, templateId, historyId, historySource, historyName, versions, dictationTranscript, impressionCheck]);
+
+  useEffect(() => {
+    const pending = pendingVersionRef.current;
+    if (!pending || findings.length === 0) return;
+    pendingVersionRef.current = null;
+    // Processing the same report again is a reprocess; the first run is its original dictation.
+    setVersions(prev => appendReportVersion(prev, findings, pending.source === 'dictation' && prev.length > 0 ? 'reprocess' : pending.source, pending.model));
+  }, [findings]);
+
+  useEffect(() => {
+    if (isVaultLocked) return;
+    purgeHistory().catch(err => console.error("Failed to apply history retention:", err));
+  }, [isVaultLocked]);
 
 
   // useEffect to run error check in background
   useEffect(() => {
     const checkForErrors = async () => {
         // Only run when enabled, processing is successful and we have findings
-        if (isErrorCheckEnabled && status === AppStatus.Success && findings.length > 0 && hasApiKey) {
+        if (isErrorCheckEnabled && status === AppStatus.Success && findings.length > 0 && isProviderReady) {
             setErrorCheckStatus('checking');
             setIdentifiedErrors([]); // Clear previous errors
             try {
@@ -217,7 +366,41 @@ const App: React.FC = () => {
     };
 
     checkForErrors();
-  }, [findings, status, selectedModel, isErrorCheckEnabled, hasApiKey]);
+  }, [findings, status, selectedModel, isErrorCheckEnabled, isProviderReady]);
+
+  // Cross-check the impression against the findings whenever one is created or regenerated, when the
+  // error check is enabled. A result saved with the report for the same impression is reused.
+  useEffect(() => {
+    if (!isErrorCheckEnabled || status !== AppStatus.Success || !impressionKey) {
+      setImpressionCheck(null);
+      return;
+    }
+    if (!isProviderReady || (impressionCheck && impressionCheckKey(impressionCheck.findings) === impressionKey)) return;
+    let isCurrent = true;
+    const checkedFindings = findings;
+    crossCheckImpression(checkedFindings, selectedModel).then(errors => {
+      if (isCurrent) setImpressionCheck({ findings: checkedFindings, errors });
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [impressionKey, impressionCheck, status, selectedModel, isErrorCheckEnabled, isProviderReady]);
+
+  // Model classification of critical results, on top of the lexicon, when enabled.
+  useEffect(() => {
+    if (!isCriticalAiCheckEnabled || status !== AppStatus.Success || findings.length === 0 || !isProviderReady) {
+      setCriticalClassification(null);
+      return;
+    }
+    let isCurrent = true;
+    const classifiedFindings = findings;
+    classifyCriticalFindings(classifiedFindings, selectedModel).then(critical => {
+      if (isCurrent) setCriticalClassification({ findings: classifiedFindings, critical });
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [findings, status, selectedModel, isCriticalAiCheckEnabled, isProviderReady]);
 
 
   const handleMediaProcessing = useCallback(async (audio: Blob | null, images: Blob[]) => {
@@ -231,11 +414,15 @@ const App: React.FC = () => {
     setFindings([]);
     setAudioBlob(audio);
     setImageBlobs(images);
+    // Reprocessing the same recording updates its existing history entry.
+    setHistoryId(prev => prev ?? createHistoryId());
 
     try {
       // processMedia will handle model switching for images
-      const processedText = await processMedia(audio, images, selectedModel, customPrompt);
+      const { findings: processedText, transcript } = await processMediaWithTranscript(audio, images, selectedModel, customPrompt, templateId, isCorrectionsEnabled);
+      pendingVersionRef.current = { source: 'dictation', model: selectedModel };
       setFindings(processedText);
+      setDictationTranscript(transcript);
 
       let chatSession;
       if (audio) {
@@ -256,7 +443,7 @@ const App: React.FC = () => {
       setError(err instanceof Error ? err.message : 'An unknown error occurred during processing.');
       setStatus(AppStatus.Error);
     }
-  }, [selectedModel, customPrompt]);
+  }, [selectedModel, customPrompt, templateId, isCorrectionsEnabled]);
   
   const handleLiveDictationComplete = useCallback(async (transcript: string, audioBlob: Blob | null) => {
     setStatus(AppStatus.Processing);
@@ -264,10 +451,20 @@ const App: React.FC = () => {
     setFindings([]);
     setAudioBlob(audioBlob); // Set the captured audio blob from the live session
     setImageBlobs([]);
+    setHistoryId(createHistoryId());
+    setHistorySource('live');
+    setHistoryName(null);
 
     try {
-        const processedText = transcript.split('\n').filter(line => line.trim() !== '');
+        // The live stream is shown as it arrives; the deterministic rules, vocabulary and PHI guard run once on the final transcript.
+        const processedText = applyPhiGuardToFindings(
+          applyVocabularyToFindings(applyTranscriptionRulesToFindings(transcript.split('\n').filter(line => line.trim() !== ''))),
+          'Live dictation'
+        );
+        pendingVersionRef.current = null;
         setFindings(processedText);
+        setVersions([createReportVersion(processedText, 'live')]);
+        setDictationTranscript([]);
         
         // Use the custom prompt from single mode for the follow-up chat
         const chatSession = await createChatFromText(processedText, customPrompt);
@@ -293,11 +490,12 @@ const App: React.FC = () => {
       setStatus(AppStatus.Error);
       return;
     }
-    // This re-uses the main processing logic with the current `selectedModel` and `customPrompt`
+    // This re-uses the main processing logic with the current `selectedModel`, `customPrompt` and `templateId`
     await handleMediaProcessing(audioBlob, imageBlobs);
   }, [audioBlob, imageBlobs, handleMediaProcessing]);
 
-  const handleUpdateFinding = (index: number, newText: string) => {
+  const handleUpdateFinding = (index: number, newText: string, action: AuditEditAction) => {
+    pendingVersionRef.current = { source: action };
     setFindings(prevFindings => {
       const updatedFindings = [...prevFindings];
       if (updatedFindings[index] !== undefined) {
@@ -307,6 +505,11 @@ const App: React.FC = () => {
     });
   };
 
+  const handleAllFindingsUpdate = (newFindings: string[], action: AuditEditAction) => {
+    pendingVersionRef.current = { source: action };
+    setFindings(newFindings);
+  };
+
   const handleContinueDictation = useCallback(async (newAudioBlob: Blob) => {
     if (!audioBlob) {
         // If we started with images only, we can't "continue" audio dictation in the same way 
@@ -318,10 +521,13 @@ const App: React.FC = () => {
     }
 
     try {
-      // So we just process the new audio blob as media.
-      const newFindings = await processMedia(newAudioBlob, [], selectedModel, customPrompt);
+      // So we just process the new audio blob as media. The template is left out: it would rebuild a whole report.
+      const { findings: newFindings, transcript } = await processMediaWithTranscript(newAudioBlob, [], selectedModel, customPrompt, null, isCorrectionsEnabled);
       const updatedFindings = [...findings, ...newFindings];
+      pendingVersionRef.current = { source: 'continueDictation', model: selectedModel };
       setFindings(updatedFindings);
+      setDictationTranscript(prev => [...prev, ...transcript]);
+      recordEdit(historyId, 'continueDictation', [], newFindings);
 
       let mergedBlob = newAudioBlob;
       if (audioBlob) {
@@ -339,7 +545,7 @@ const App: React.FC = () => {
       console.error("Error during dictation continuation:", err);
       throw err; // Propagate error to the UI component
     }
-  }, [audioBlob, findings, selectedModel, customPrompt]);
+  }, [audioBlob, findings, selectedModel, customPrompt, historyId, isCorrectionsEnabled]);
 
   const handleSendMessage = async (message: string | Blob) => {
     if (!chat || isChatting) return;
@@ -349,23 +555,7 @@ const App: React.FC = () => {
     setChatHistory(prev => [...prev, { author: 'You', text: userMessageText }]);
 
     try {
-      let response;
-      if (typeof message === 'string') {
-        response = await chat.sendMessage({ message });
-      } else { // It's a Blob
-        const base64Audio = await blobToBase64(message);
-        const audioPart = {
-          inlineData: {
-            mimeType: getCleanMimeType(message),
-            data: base64Audio,
-          },
-        };
-        // Adding a text part to guide the model.
-        const textPart = { text: "Please analyze this audio in the context of our conversation." };
-        // The `message` property can be an array of parts for multipart messages.
-        response = await chat.sendMessage({ message: [audioPart, textPart] });
-      }
-      const responseText = response.text;
+      const responseText = await sendChatMessage(chat, message);
       setChatHistory(prev => [...prev, { author: 'AI', text: responseText }]);
     } catch (err) {
       console.error("Chat error:", err);
@@ -387,14 +577,96 @@ const App: React.FC = () => {
     setIsChatting(false);
     setMode('single');
     setCustomPrompt(''); // Reset custom prompt as well
+    setTemplateId(null);
+    setHistoryId(null);
+    setHistorySource('single');
+    setHistoryName(null);
+    setVersions([]);
+    setDictationTranscript([]);
+    pendingVersionRef.current = null;
     setIdentifiedErrors([]);
     setErrorCheckStatus('idle');
-    // Clear saved state on reset
+    // Clear saved state on reset; the report itself stays in history
     try {
-      localStorage.removeItem(SINGLE_MODE_STORAGE_KEY);
+      removeSecureItem(SINGLE_MODE_STORAGE_KEY);
     } catch (error) {
       console.error("Failed to remove item from localStorage:", error);
     }
+    releaseBlobs('single').catch(err => console.error("Failed to release saved media:", err));
+  };
+
+  const handleOpenHistoryEntry = async (entry: HistoryEntry) => {
+    setIsHistoryModalOpen(false);
+    setMode('single');
+    setError(null);
+    setFindings(entry.findings);
+    setVersions(entry.versions || [createReportVersion(entry.findings, entry.source === 'live' ? 'live' : 'dictation', entry.model)]);
+    setDictationTranscript(entry.transcript || []);
+    setImpressionCheck(entry.impressionCheck ?? null);
+    pendingVersionRef.current = null;
+    setAudioBlob(entry.audio);
+    setImageBlobs(entry.images);
+    setChatHistory(entry.chatHistory);
+    setIsChatting(false);
+    setSelectedModel(entry.model || 'gemini-3-flash-preview');
+    setCustomPrompt(entry.customPrompt);
+    setTemplateId(entry.templateId);
+    setHistoryId(entry.id);
+    setHistorySource(entry.source);
+    setHistoryName(entry.source === 'batch' ? entry.name : null);
+    setIdentifiedErrors([]);
+    setErrorCheckStatus('idle');
+    setChat(null);
+    setStatus(AppStatus.Success);
+
+    try {
+      const chatSession = entry.audio
+        ? await createChat(entry.audio, entry.findings, entry.customPrompt)
+        : await createChatFromText(entry.findings, entry.customPrompt);
+      setChat(chatSession);
+    } catch (err) {
+      console.error("Failed to recreate chat session for history entry:", err);
+    }
+  };
+
+  // A DiagnosticReport from the EHR opens as a new report, editable like a processed dictation.
+  const handleImportFhir = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    let imported: string[];
+    try {
+      imported = applyPhiGuardToFindings(importDiagnosticReport(await file.text()), 'FHIR import');
+    } catch (err) {
+      console.error("Failed to import FHIR DiagnosticReport:", err);
+      setError(err instanceof Error ? err.message : 'Could not read the selected file.');
+      setStatus(AppStatus.Error);
+      return;
+    }
+
+    setMode('single');
+    setError(null);
+    setFindings(imported);
+    setVersions([createReportVersion(imported, 'fhirImport')]);
+    setDictationTranscript([]);
+    pendingVersionRef.current = null;
+    setAudioBlob(null);
+    setImageBlobs([]);
+    setChatHistory([]);
+    setIsChatting(false);
+    setHistoryId(createHistoryId());
+    setHistorySource('single');
+    setHistoryName(null);
+    setIdentifiedErrors([]);
+    setErrorCheckStatus('idle');
+    setChat(null);
+    setStatus(AppStatus.Success);
+
+    try {
+      setChat(await createChatFromText(imported, customPrompt));
+    } catch (err) {
+      console.error("Failed to create chat session for imported report:", err);
+    }
   };
 
   const handleDownload = () => {
@@ -424,6 +696,22 @@ const App: React.FC = () => {
         return (
           <>
             <div className="flex justify-end items-center gap-4 mb-4 -mt-4">
+                 <button
+                    onClick={() => setIsHistoryModalOpen(true)}
+                    className="flex items-center gap-1.5 text-sm font-semibold text-slate-600 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200 transition-colors"
+                >
+                    <HistoryIcon className="w-4 h-4" />
+                    History
+                </button>
+                 <button
+                    onClick={() => fhirInputRef.current?.click()}
+                    className="flex items-center gap-1.5 text-sm font-semibold text-slate-600 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200 transition-colors"
+                    title="Open a FHIR DiagnosticReport (or a Bundle containing one) for editing"
+                >
+                    <UploadIcon className="w-4 h-4" />
+                    Import FHIR
+                </button>
+                <input ref={fhirInputRef} type="file" accept=".json,application/json,application/fhir+json" onChange={handleImportFhir} className="hidden" aria-hidden="true" />
                  <button 
                     onClick={() => setMode('live')} 
                     className="flex items-center gap-1.5 text-sm font-semibold text-green-600 hover:text-green-800 dark:text-green-400 dark:hover:text-green-300 transition-colors"
@@ -441,6 +729,8 @@ const App: React.FC = () => {
              <CustomPromptInput
                 prompt={customPrompt}
                 onPromptChange={setCustomPrompt}
+                templateId={templateId}
+                onTemplateChange={setTemplateId}
                 className="mb-6"
             />
             <AudioRecorder
@@ -486,12 +776,19 @@ const App: React.FC = () => {
             onModelChange={setSelectedModel}
             onReprocess={handleReprocess}
             onUpdateFinding={handleUpdateFinding}
-            onAllFindingsUpdate={setFindings}
+            onAllFindingsUpdate={handleAllFindingsUpdate}
             onContinueDictation={handleContinueDictation}
             customPrompt={customPrompt}
             onCustomPromptChange={setCustomPrompt}
-            identifiedErrors={identifiedErrors}
+            templateId={templateId}
+            onTemplateChange={setTemplateId}
+            identifiedErrors={[...reportCheckErrors, ...impressionErrors, ...identifiedErrors]}
             errorCheckStatus={errorCheckStatus}
+            reportId={historyId}
+            versions={versions}
+            transcript={dictationTranscript}
+            onTranscriptChange={setDictationTranscript}
+            criticalFindings={criticalFindings}
           />
         );
       case AppStatus.Error:
@@ -523,7 +820,7 @@ const App: React.FC = () => {
   };
 
   const renderContent = () => {
-    if (!hasApiKey) return null; // Wait for API key
+    if (!isProviderReady) return null; // Wait for API key
 
     switch (mode) {
       case 'single':
@@ -532,6 +829,8 @@ const App: React.FC = () => {
         return <BatchProcessor 
                     selectedModel={selectedModel} 
                     isErrorCheckEnabled={isErrorCheckEnabled}
+                    isCorrectionsEnabled={isCorrectionsEnabled}
+                    isCriticalAiCheckEnabled={isCriticalAiCheckEnabled}
                     onBack={() => {
                         resetSingleMode();
                         setMode('single');
@@ -554,13 +853,65 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-slate-900 flex flex-col items-center justify-center p-4 font-sans transition-colors duration-300">
       
+      <VaultUnlockModal
+        isOpen={isVaultLocked}
+        onUnlock={() => setIsVaultLocked(false)}
+      />
+
+      <PhiReviewModal
+        isOpen={isPhiModalOpen}
+        onClose={() => setIsPhiModalOpen(false)}
+      />
+
+      <AuditLogModal
+        isOpen={isAuditModalOpen}
+        onClose={() => setIsAuditModalOpen(false)}
+      />
+
+      <PdfSettingsModal
+        isOpen={isPdfSettingsModalOpen}
+        onClose={() => setIsPdfSettingsModalOpen(false)}
+      />
+
+      <ExportProfilesModal
+        isOpen={isExportProfilesModalOpen}
+        onClose={() => setIsExportProfilesModalOpen(false)}
+      />
+
+      <VaultSettingsModal
+        isOpen={isVaultModalOpen}
+        onClose={() => setIsVaultModalOpen(false)}
+        onVaultChange={handleVaultChange}
+      />
+
       <ApiKeyModal 
         isOpen={isApiKeyModalOpen} 
         onSave={handleApiKeySave} 
-        canClose={hasApiKey} 
+        canClose={isProviderReady} 
         onClose={() => setIsApiKeyModalOpen(false)}
       />
 
+      <TranscriptionRulesModal
+        isOpen={isRulesModalOpen}
+        onClose={() => setIsRulesModalOpen(false)}
+      />
+
+      <VocabularyModal
+        isOpen={isVocabularyModalOpen}
+        onClose={() => setIsVocabularyModalOpen(false)}
+      />
+
+      <MacrosModal
+        isOpen={isMacrosModalOpen}
+        onClose={() => setIsMacrosModalOpen(false)}
+      />
+
+      <HistoryModal
+        isOpen={isHistoryModalOpen}
+        onClose={() => setIsHistoryModalOpen(false)}
+        onOpenEntry={handleOpenHistoryEntry}
+      />
+
       <div className="w-full max-w-3xl mx-auto flex-grow flex flex-col justify-center">
         <header className="text-center mb-8 relative">
           <h1 className="text-4xl font-bold text-slate-800 dark:text-slate-100">Radiology Dictation Corrector</h1>
@@ -613,22 +964,157 @@ const App: React.FC = () => {
                         />
                     </button>
                 </div>
+                 <div className="flex items-center gap-2">
+                    <label htmlFor="corrections-toggle" className="text-sm font-medium text-slate-700 dark:text-slate-300" title="Also transcribe the dictation word for word, so every word the AI changed can be highlighted and reverted">
+                        Show AI Corrections
+                    </label>
+                    <button
+                        onClick={() => setIsCorrectionsEnabled(!isCorrectionsEnabled)}
+                        className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-slate-900 ${
+                        isCorrectionsEnabled ? 'bg-blue-600' : 'bg-gray-200 dark:bg-slate-600'
+                        }`}
+                        role="switch"
+                        aria-checked={isCorrectionsEnabled}
+                        id="corrections-toggle"
+                    >
+                        <span
+                        className={`inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${
+                            isCorrectionsEnabled ? 'translate-x-5' : 'translate-x-0'
+                        }`}
+                        />
+                    </button>
+                </div>
+                 <div className="flex items-center gap-2">
+                    <label htmlFor="critical-ai-toggle" className="text-sm font-medium text-slate-700 dark:text-slate-300" title="Also ask the AI to classify critical results; the keyword lexicon always runs">
+                        AI Critical Result Check
+                    </label>
+                    <button
+                        onClick={() => setIsCriticalAiCheckEnabled(!isCriticalAiCheckEnabled)}
+                        className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-slate-900 ${
+                        isCriticalAiCheckEnabled ? 'bg-blue-600' : 'bg-gray-200 dark:bg-slate-600'
+                        }`}
+                        role="switch"
+                        aria-checked={isCriticalAiCheckEnabled}
+                        id="critical-ai-toggle"
+                    >
+                        <span
+                        className={`inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${
+                            isCriticalAiCheckEnabled ? 'translate-x-5' : 'translate-x-0'
+                        }`}
+                        />
+                    </button>
+                </div>
             </div>
         </header>
         <main className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl p-4 sm:p-8 min-h-[300px]">
+          {storageWarning && mode === 'single' && (
+            <StorageWarning message={storageWarning} onDismiss={() => setStorageWarning(null)} />
+          )}
           {renderContent()}
         </main>
       </div>
-      <footer className="w-full text-center mt-8 py-4 text-sm text-slate-500 dark:text-slate-500 border-t dark:border-slate-800 flex justify-center items-center gap-4">
-          <p>Powered by Gemini AI</p>
+      <footer className="w-full text-center mt-8 py-4 text-sm text-slate-500 dark:text-slate-500 border-t dark:border-slate-800 flex flex-wrap justify-center items-center gap-4">
+          {isMockMode() ? (
+            <p className="px-2 py-0.5 rounded bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300 font-medium">Mock mode: canned responses, no AI calls</p>
+          ) : (
+            <p>Powered by {PROVIDER_OPTIONS.find(option => option.id === loadProviderSettings().provider)?.label ?? 'Gemini AI'}</p>
+          )}
           <span className="text-slate-300 dark:text-slate-700">|</span>
           <button 
             onClick={openApiKeyModal}
             className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
           >
             <KeyIcon className="w-4 h-4" />
-            Edit API Key
+            AI Settings
+          </button>
+          <span className="text-slate-300 dark:text-slate-700">|</span>
+          <button
+            onClick={() => setIsRulesModalOpen(true)}
+            className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <PencilIcon className="w-4 h-4" />
+            Transcription Rules
+          </button>
+          <span className="text-slate-300 dark:text-slate-700">|</span>
+          <button
+            onClick={() => setIsVocabularyModalOpen(true)}
+            className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <BrainIcon className="w-4 h-4" />
+            Vocabulary
+          </button>
+          <span className="text-slate-300 dark:text-slate-700">|</span>
+          <button
+            onClick={() => setIsMacrosModalOpen(true)}
+            className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <SparklesIcon className="w-4 h-4" />
+            Macros
+          </button>
+          <span className="text-slate-300 dark:text-slate-700">|</span>
+          <button
+            onClick={() => setIsHistoryModalOpen(true)}
+            className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <HistoryIcon className="w-4 h-4" />
+            History
+          </button>
+          <span className="text-slate-300 dark:text-slate-700">|</span>
+          <button
+            onClick={() => setIsPhiModalOpen(true)}
+            className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <ShieldIcon className="w-4 h-4" />
+            PHI Guard
+            {redactionCount > 0 && (
+              <span className="ml-0.5 text-xs px-1.5 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300" title="Items redacted this session">
+                {redactionCount}
+              </span>
+            )}
+          </button>
+          <span className="text-slate-300 dark:text-slate-700">|</span>
+          <button
+            onClick={() => setIsAuditModalOpen(true)}
+            className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <ClipboardListIcon className="w-4 h-4" />
+            Audit Log
+          </button>
+          <span className="text-slate-300 dark:text-slate-700">|</span>
+          <button
+            onClick={() => setIsPdfSettingsModalOpen(true)}
+            className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <DocumentIcon className="w-4 h-4" />
+            PDF Letterhead
           </button>
+          <span className="text-slate-300 dark:text-slate-700">|</span>
+          <button
+            onClick={() => setIsExportProfilesModalOpen(true)}
+            className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <CopyIcon className="w-4 h-4" />
+            Export Profiles
+          </button>
+          <span className="text-slate-300 dark:text-slate-700">|</span>
+          <button
+            onClick={() => setIsVaultModalOpen(true)}
+            className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <LockIcon className="w-4 h-4" />
+            Vault{isVaultOn ? ' (on)' : ''}
+          </button>
+          {isVaultOn && (
+            <>
+              <span className="text-slate-300 dark:text-slate-700">|</span>
+              <button
+                onClick={handleLockVault}
+                className="flex items-center gap-1 font-semibold hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+              >
+                Lock Now
+              </button>
+            </>
+          )}
       </footer>
     </div>
   );
@@ -1,62 +1,164 @@
-
 import React, { useState, useEffect } from 'react';
+import {
+  PROVIDER_OPTIONS,
+  ProviderSettings,
+  getGeminiApiKey,
+  loadProviderSettings,
+  saveGeminiApiKey,
+  saveProviderSettings,
+} from '../services/aiProvider';
 
 interface ApiKeyModalProps {
-  onSave: (apiKey: string) => void;
+  onSave: () => void;
   isOpen: boolean;
   onClose?: () => void;
   canClose: boolean;
 }
 
+const inputClassName = "w-full p-2 border border-slate-300 rounded-md bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-700 dark:text-white dark:border-slate-600";
+const labelClassName = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1";
+
 const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onSave, isOpen, onClose, canClose }) => {
+  const [settings, setSettings] = useState<ProviderSettings>(loadProviderSettings);
   const [apiKey, setApiKey] = useState('');
   const [error, setError] = useState('');
 
-  // Pre-fill if exists in localStorage, so user can edit easily
+  // Pre-fill if already saved, so user can edit easily
   useEffect(() => {
     if (isOpen) {
-      const storedKey = localStorage.getItem('gemini_api_key');
+      setSettings(loadProviderSettings());
+      const storedKey = getGeminiApiKey();
       if (storedKey) setApiKey(storedKey);
     }
   }, [isOpen]);
 
+  const updateSettings = (changes: Partial<ProviderSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    setError('');
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!apiKey.trim()) {
+    if (settings.provider === 'gemini' && !apiKey.trim()) {
       setError('API Key is required.');
       return;
     }
-    localStorage.setItem('gemini_api_key', apiKey.trim());
-    onSave(apiKey.trim());
+    if (settings.provider === 'openai-compatible' && !settings.openAIBaseUrl.trim()) {
+      setError('Base URL is required.');
+      return;
+    }
+    // The Gemini key is kept even when another provider is active, since live dictation still needs it.
+    // Saved values are readable right away; with the vault on they are encrypted in the background.
+    if (apiKey.trim()) {
+      saveGeminiApiKey(apiKey.trim()).catch(err => console.error("Failed to save API key:", err));
+    }
+    saveProviderSettings({
+      ...settings,
+      openAIBaseUrl: settings.openAIBaseUrl.trim(),
+      openAIApiKey: settings.openAIApiKey.trim(),
+      openAIModel: settings.openAIModel.trim(),
+      openAITranscriptionModel: settings.openAITranscriptionModel.trim(),
+    }).catch(err => console.error("Failed to save provider settings:", err));
+    onSave();
     setError('');
   };
 
   if (!isOpen) return null;
 
+  const selectedOption = PROVIDER_OPTIONS.find(option => option.id === settings.provider);
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
-      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-md p-6">
-        <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100 mb-4">Enter Gemini API Key</h2>
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-md p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100 mb-4">AI Provider Settings</h2>
         <p className="text-slate-600 dark:text-slate-400 mb-6 text-sm">
-          To use this application, you need to provide your own Google Gemini API Key. It will be stored securely in your browser's local storage and used for all requests.
+          Choose which AI service processes your dictations. Keys are stored in your browser's local storage, encrypted if the vault is enabled, and used for all requests.
         </p>
-        
+
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
-            <label htmlFor="api-key" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
-              API Key
+            <label htmlFor="ai-provider" className={labelClassName}>
+              Provider
+            </label>
+            <select
+              id="ai-provider"
+              value={settings.provider}
+              onChange={(e) => updateSettings({ provider: e.target.value as ProviderSettings['provider'] })}
+              className={inputClassName}
+            >
+              {PROVIDER_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+            {selectedOption && <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{selectedOption.description}</p>}
+          </div>
+
+          <div>
+            <label htmlFor="api-key" className={labelClassName}>
+              Gemini API Key{settings.provider !== 'gemini' && ' (optional, used for live dictation)'}
             </label>
             <input
               type="password"
               id="api-key"
               value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-700 dark:text-white dark:border-slate-600"
+              onChange={(e) => { setApiKey(e.target.value); setError(''); }}
+              className={inputClassName}
               placeholder="AIza..."
             />
-            {error && <p className="text-red-500 text-sm mt-1">{error}</p>}
           </div>
-          
+
+          {settings.provider === 'openai-compatible' && (
+            <>
+              <div>
+                <label htmlFor="openai-base-url" className={labelClassName}>Base URL</label>
+                <input
+                  type="url"
+                  id="openai-base-url"
+                  value={settings.openAIBaseUrl}
+                  onChange={(e) => updateSettings({ openAIBaseUrl: e.target.value })}
+                  className={inputClassName}
+                  placeholder="https://api.openai.com/v1"
+                />
+              </div>
+              <div>
+                <label htmlFor="openai-api-key" className={labelClassName}>API Key (optional for local servers)</label>
+                <input
+                  type="password"
+                  id="openai-api-key"
+                  value={settings.openAIApiKey}
+                  onChange={(e) => updateSettings({ openAIApiKey: e.target.value })}
+                  className={inputClassName}
+                  placeholder="sk-..."
+                />
+              </div>
+              <div>
+                <label htmlFor="openai-model" className={labelClassName}>Model</label>
+                <input
+                  type="text"
+                  id="openai-model"
+                  value={settings.openAIModel}
+                  onChange={(e) => updateSettings({ openAIModel: e.target.value })}
+                  className={inputClassName}
+                  placeholder="gpt-4o"
+                />
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Used for every request instead of the Gemini model selected in the app.</p>
+              </div>
+              <div>
+                <label htmlFor="openai-transcription-model" className={labelClassName}>Transcription Model</label>
+                <input
+                  type="text"
+                  id="openai-transcription-model"
+                  value={settings.openAITranscriptionModel}
+                  onChange={(e) => updateSettings({ openAITranscriptionModel: e.target.value })}
+                  className={inputClassName}
+                  placeholder="whisper-1"
+                />
+              </div>
+            </>
+          )}
+
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+
           <div className="flex justify-end gap-3 pt-2">
             {canClose && onClose && (
                 <button
@@ -71,15 +173,15 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onSave, isOpen, onClose, canC
               type="submit"
               className="px-6 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-slate-800 transition-colors"
             >
-              Save Key
+              Save Settings
             </button>
           </div>
         </form>
-        
+
         <div className="mt-6 pt-4 border-t border-slate-200 dark:border-slate-700 text-center">
-            <a 
-                href="https://aistudio.google.com/app/apikey" 
-                target="_blank" 
+            <a
+                href="https://aistudio.google.com/app/apikey"
+                target="_blank"
                 rel="noopener noreferrer"
                 className="text-xs text-blue-600 hover:underline dark:text-blue-400"
             >
@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AuditEntry } from '../types';
+import {
+  AUDIT_ACTION_LABELS,
+  AuditSettings,
+  auditLogToCsv,
+  auditLogToJson,
+  listAuditEntries,
+  loadAuditSettings,
+  saveAuditSettings,
+  subscribeToAuditLog,
+} from '../services/auditLog';
+import CloseIcon from './icons/CloseIcon';
+import SearchIcon from './icons/SearchIcon';
+import DownloadIcon from './icons/DownloadIcon';
+import Spinner from './ui/Spinner';
+
+interface AuditLogModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type KindFilter = 'all' | AuditEntry['kind'];
+
+// Rendering thousands of entries makes the dialog sluggish; exports always include every match.
+const MAX_VISIBLE_ENTRIES = 200;
+
+const inputClassName = "p-1.5 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-900 dark:text-white dark:border-slate-600";
+
+const entrySearchText = (entry: AuditEntry): string =>
+  (entry.kind === 'ai'
+    ? [entry.operator, entry.task, entry.provider, entry.model, entry.promptHash, entry.outcome, entry.error ?? '']
+    : [entry.operator, entry.reportId ?? '', AUDIT_ACTION_LABELS[entry.action], entry.before, entry.after]
+  ).join('\n').toLowerCase();
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const AuditLogModal: React.FC<AuditLogModalProps> = ({ isOpen, onClose }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+  const [settings, setSettings] = useState<AuditSettings>(loadAuditSettings);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listAuditEntries());
+      setError('');
+    } catch (err) {
+      console.error("Failed to load the audit log:", err);
+      setError(err instanceof Error ? err.message : 'Could not load the audit log.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSearchTerm('');
+    setKindFilter('all');
+    setSettings(loadAuditSettings());
+    setIsLoading(true);
+    refresh();
+    return subscribeToAuditLog(refresh);
+  }, [isOpen, refresh]);
+
+  if (!isOpen) return null;
+
+  const handleOperatorChange = (operator: string) => {
+    const next = { ...settings, operator };
+    setSettings(next);
+    saveAuditSettings(next);
+  };
+
+  const words = searchTerm.toLowerCase().split(/\s+/).filter(word => word !== '');
+  const matchingEntries = entries.filter(entry =>
+    (kindFilter === 'all' || entry.kind === kindFilter) &&
+    (words.length === 0 || words.every(word => entrySearchText(entry).includes(word)))
+  );
+  const visibleEntries = matchingEntries.slice(0, MAX_VISIBLE_ENTRIES);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="audit-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-3xl flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="audit-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              Audit Log
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Every AI request and every change to a report on this device. Entries cannot be edited or deleted.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close audit log">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        <div className="p-4 border-b dark:border-slate-700 flex-shrink-0 space-y-3">
+          <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+            Recorded as
+            <input
+              value={settings.operator}
+              onChange={(e) => handleOperatorChange(e.target.value)}
+              placeholder="Your name or initials"
+              className={`${inputClassName} flex-grow`}
+            />
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <div className="relative flex-grow">
+              <SearchIcon className="w-4 h-4 absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search reports, models, people and text..."
+                className={`${inputClassName} w-full pl-8`}
+              />
+            </div>
+            <select value={kindFilter} onChange={(e) => setKindFilter(e.target.value as KindFilter)} className={inputClassName} aria-label="Entry type">
+              <option value="all">All entries</option>
+              <option value="ai">AI requests</option>
+              <option value="edit">Report edits</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto p-4 flex-grow">
+          {isLoading ? (
+            <div className="flex justify-center py-8"><Spinner className="w-6 h-6" /></div>
+          ) : error ? (
+            <p className="text-center text-red-500 py-8">{error}</p>
+          ) : visibleEntries.length === 0 ? (
+            <p className="text-center text-slate-500 dark:text-slate-400 py-8">
+              {entries.length === 0 ? 'Nothing recorded yet.' : 'No entries match your filters.'}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {visibleEntries.map(entry => (
+                <li key={entry.seq} className="p-3 rounded-lg border dark:border-slate-700 text-sm">
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    #{entry.seq} &middot; {new Date(entry.at).toLocaleString()} &middot; {entry.operator || 'Unnamed user'}
+                  </p>
+                  {entry.kind === 'ai' ? (
+                    <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1">
+                      <span className="font-semibold text-slate-800 dark:text-slate-100">{entry.task}</span>
+                      <span className="text-slate-600 dark:text-slate-300">{entry.model} ({entry.provider})</span>
+                      <span className="text-slate-500 dark:text-slate-400">{(entry.latencyMs / 1000).toFixed(1)} s</span>
+                      {entry.retries > 0 && <span className="text-amber-600 dark:text-amber-400">{entry.retries} {entry.retries === 1 ? 'retry' : 'retries'}</span>}
+                      <span className={entry.outcome === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'} title={entry.error}>
+                        {entry.outcome === 'success' ? 'Succeeded' : 'Failed'}
+                      </span>
+                      <span className="font-mono text-xs text-slate-400" title={`Prompt SHA-256: ${entry.promptHash}`}>{entry.promptHash.slice(0, 12)}</span>
+                    </div>
+                  ) : (
+                    <div className="mt-1">
+                      <p>
+                        <span className="font-semibold text-slate-800 dark:text-slate-100">{AUDIT_ACTION_LABELS[entry.action]}</span>
+                        <span className="text-slate-500 dark:text-slate-400"> &middot; {entry.reportId ?? 'Unsaved report'}</span>
+                      </p>
+                      <div className="mt-1 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        <pre className="whitespace-pre-wrap font-sans text-xs p-2 rounded bg-red-50 text-red-900 dark:bg-red-900/20 dark:text-red-200 max-h-32 overflow-y-auto">{entry.before || '(empty)'}</pre>
+                        <pre className="whitespace-pre-wrap font-sans text-xs p-2 rounded bg-green-50 text-green-900 dark:bg-green-900/20 dark:text-green-200 max-h-32 overflow-y-auto">{entry.after || '(empty)'}</pre>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <footer className="p-4 border-t dark:border-slate-700 flex flex-wrap items-center gap-3 flex-shrink-0 text-sm">
+          <p className="text-slate-500 dark:text-slate-400">
+            {matchingEntries.length > visibleEntries.length
+              ? `Showing the latest ${visibleEntries.length} of ${matchingEntries.length} entries.`
+              : `${matchingEntries.length} ${matchingEntries.length === 1 ? 'entry' : 'entries'}.`}
+          </p>
+          <button
+            onClick={() => downloadFile(auditLogToCsv(matchingEntries), `audit-log-${stamp}.csv`, 'text/csv')}
+            disabled={matchingEntries.length === 0}
+            className="ml-auto flex items-center gap-1 font-medium py-1.5 px-3 rounded-lg bg-blue-100 text-blue-800 hover:bg-blue-200 disabled:opacity-40 dark:bg-blue-900/50 dark:text-blue-300 dark:hover:bg-blue-900/80"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            onClick={() => downloadFile(auditLogToJson(matchingEntries), `audit-log-${stamp}.json`, 'application/json')}
+            disabled={matchingEntries.length === 0}
+            className="flex items-center gap-1 font-medium py-1.5 px-3 rounded-lg bg-blue-100 text-blue-800 hover:bg-blue-200 disabled:opacity-40 dark:bg-blue-900/50 dark:text-blue-300 dark:hover:bg-blue-900/80"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            JSON
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogModal;
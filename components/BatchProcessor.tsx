@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useAudioRecorder } from '../hooks/useAudioRecorder';
-import { processMedia, createChat, blobToBase64, continueAudioDictation, base64ToBlob, modifyFindingWithAudio, modifyReportWithAudio, identifyPotentialErrors, runComplexImpressionGeneration, transcribeAudioForPrompt, createChatFromText } from '../services/geminiService';
+import { processMediaWithTranscript, createChat, continueAudioDictation, modifyFindingWithAudio, modifyReportWithAudio, identifyPotentialErrors, crossCheckImpression, classifyCriticalFindings, runComplexImpressionGeneration, transcribeAudioForPrompt, createChatFromText, sendChatMessage } from '../services/geminiService';
 import Spinner from './ui/Spinner';
 import MicIcon from './icons/MicIcon';
 import StopIcon from './icons/StopIcon';
@@ -9,12 +9,14 @@ import ResumeIcon from './icons/ResumeIcon';
 import UploadIcon from './icons/UploadIcon';
 import PhotoIcon from './icons/PhotoIcon';
 import ChevronDownIcon from './icons/ChevronDownIcon';
-import { Chat } from '@google/genai';
+import { ChatSession } from '../services/aiProvider';
 import ChatInterface from './ChatInterface';
 import PencilIcon from './icons/PencilIcon';
 import MicPlusIcon from './icons/MicPlusIcon';
 import TrashIcon from './icons/TrashIcon';
 import { generateBatchDictationHTML } from '../services/htmlGenerator';
+import { generateBatchReportDocx, generateExpertNotesDocx } from '../services/docxGenerator';
+import { generateBatchReportPdf } from '../services/pdfGenerator';
 import SelectionCopier from './ui/SelectionCopier';
 import MicPencilIcon from './icons/MicPencilIcon';
 import DownloadIcon from './icons/DownloadIcon';
@@ -22,7 +24,35 @@ import ReorderIcon from './icons/ReorderIcon';
 import MergeIcon from './icons/MergeIcon';
 import MicScribbleIcon from './icons/MicScribbleIcon';
 import CustomPromptInput from './ui/CustomPromptInput';
-import { IdentifiedError } from '../types';
+import { AuditEditAction, CriticalClassification, IdentifiedError, ImpressionCrossCheck, ReportVersion, ReportVersionSource, TranscriptSegment } from '../types';
+import { addImpressionPoint, appendToFinding, applyEditedText, findingToPlainText, mergeFindings, parseReportLine, reportLineToEditableText, serializeReportLine } from '../services/reportModel';
+import { EXPORT_FORMAT_LABELS, RenderedReport, exportBatchReportFile, renderBatches, renderFindings, renderSnippet } from '../services/exportProfiles';
+import { useExportProfile } from '../hooks/useExportProfile';
+import ReportLineView from './ui/ReportLineView';
+import MacroBadge from './ui/MacroBadge';
+import RelatedFindingLinks from './ui/RelatedFindingLinks';
+import CriticalResultBanner from './ui/CriticalResultBanner';
+import CriticalCommunicationModal from './CriticalCommunicationModal';
+import RadsScoringModal from './RadsScoringModal';
+import Hl7ExportModal from './Hl7ExportModal';
+import ExportProfileSelect from './ui/ExportProfileSelect';
+import CalculatorIcon from './icons/CalculatorIcon';
+import { radsSystemsFor, reportContext } from '../services/radsScoring';
+import CorrectedLineView from './ui/CorrectedLineView';
+import { CorrectionChange, CorrectionChunk, correctionsInFinding, findTranscriptSegment, revertCorrectionInFinding, updateTranscriptSegment } from '../services/corrections';
+import { expandMacrosInFinding, revertMacroExpansion } from '../services/macros';
+import { migrateLegacyTemplatePrompt } from '../services/templateLibrary';
+import { archiveReport } from '../services/historyStore';
+import { recordEdit } from '../services/auditLog';
+import { checkReport } from '../services/reportChecks';
+import { currentCrossCheckErrors, impressionCheckKey } from '../services/impressionCheck';
+import { criticalFindingsFor, pendingCriticalFindings, uniqueLabels } from '../services/criticalFindings';
+import { appendReportVersion } from '../services/reportVersions';
+import VersionHistoryModal from './VersionHistoryModal';
+import HistoryIcon from './icons/HistoryIcon';
+import { SerializedBlob, describeStorageError, releaseBlobs, restoreBlobs, saveOwnedBlobs } from '../services/blobStore';
+import StorageWarning from './ui/StorageWarning';
+import { getSecureItem, registerSecureStorageKeys, removeSecureItem, setSecureItem } from '../services/vault';
 import WarningIcon from './icons/WarningIcon';
 import BrainIcon from './icons/BrainIcon';
 
@@ -43,65 +73,63 @@ interface Batch {
     status: BatchStatus;
     selectedModel: string;
     customPrompt: string;
+    templateId: string | null;
     error?: string;
-    chat?: Chat | null;
+    chat?: ChatSession | null;
     chatHistory?: ChatMessage[];
     isChatting?: boolean;
     identifiedErrors?: IdentifiedError[];
     errorCheckStatus?: 'idle' | 'checking' | 'complete';
+    impressionCheck?: ImpressionCrossCheck;
+    criticalClassification?: CriticalClassification;
+    versions?: ReportVersion[];
+    // What was said for each line, when the batch was processed with AI corrections shown.
+    transcript?: TranscriptSegment[];
 }
 
 interface BatchProcessorProps {
     onBack: () => void;
     selectedModel: string;
     isErrorCheckEnabled: boolean;
+    isCorrectionsEnabled: boolean;
+    isCriticalAiCheckEnabled: boolean;
 }
 
 const BATCH_MODE_STORAGE_KEY = 'radiologyDictationBatchMode';
 const BATCH_GLOBAL_PROMPT_KEY = 'radiologyDictationBatchGlobalPrompt';
+const BATCH_GLOBAL_TEMPLATE_KEY = 'radiologyDictationBatchGlobalTemplate';
+
+registerSecureStorageKeys(BATCH_MODE_STORAGE_KEY);
+
+// Batches are archived, and their edits audited, under this history id.
+const batchHistoryId = (batchId: string) => `batch-${batchId}`;
+
+// Rule-based checks and the impression cross-check run on every batch; the AI error check adds its results when enabled.
+const identifiedErrorsFor = (batch: Batch): IdentifiedError[] => [
+    ...checkReport(batch.findings ?? []),
+    ...currentCrossCheckErrors(batch.impressionCheck, batch.findings ?? []),
+    ...(batch.identifiedErrors ?? []),
+];
+
+// Sets a batch's findings and records them as a new version. Processing a batch that already has
+// versions is a reprocess.
+const withFindingsVersion = (batch: Batch, findings: string[], source: ReportVersionSource, model?: string): Batch => {
+    const versions = batch.versions ?? [];
+    const versionSource = source === 'dictation' && versions.length > 0 ? 'reprocess' : source;
+    return { ...batch, findings, versions: appendReportVersion(versions, findings, versionSource, model) };
+};
 
-// Define serializable types for localStorage
-interface SerializableAudioBlob {
-    data: string;
-    type: string;
-}
+// Define serializable types for localStorage; media lives in the blob store and only refs are saved here
 // Omit non-serializable 'chat' property
 interface SerializableBatch extends Omit<Batch, 'audioBlobs' | 'imageBlobs' | 'chat'> {
-    audioBlobs: SerializableAudioBlob[];
-    imageBlobs: SerializableAudioBlob[];
+    audioBlobs: SerializedBlob[];
+    imageBlobs: SerializedBlob[];
 }
 
-const parseStructuredFinding = (finding: string) => {
-  const parts = finding.split('###');
-  if (parts.length > 1 && parts[0].trim() !== '') {
-    return {
-      isStructured: true,
-      title: parts[0],
-      points: parts.slice(1).filter(p => p.trim() !== ''),
-    };
-  }
-  return {
-    isStructured: false,
-    title: finding,
-    points: [],
-  };
-};
-
 
 declare const ClipboardItem: any;
 
-const getCleanMimeType = (blob: Blob): string => {
-    let mimeType = blob.type;
-    if (!mimeType) {
-        return 'audio/ogg';
-    }
-    if (mimeType.startsWith('audio/webm') || mimeType.startsWith('video/webm')) {
-        return 'audio/webm';
-    }
-    return mimeType.split(';')[0];
-};
-
-export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selectedModel, isErrorCheckEnabled }) => {
+export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selectedModel, isErrorCheckEnabled, isCorrectionsEnabled, isCriticalAiCheckEnabled }) => {
     const [batches, setBatches] = useState<Batch[]>([]);
     const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
     const { isRecording: isMainRecording, isPaused: isMainPaused, stopRecording: stopMainRecording, startRecording: startMainRecording, pauseRecording: pauseMainRecording, resumeRecording: resumeMainRecording, error: mainRecorderError } = useAudioRecorder();
@@ -138,6 +166,12 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
     // State for Drag and Drop
     const [reorderBatchId, setReorderBatchId] = useState<string | null>(null);
     const [mergeBatchId, setMergeBatchId] = useState<string | null>(null);
+    const [versionHistoryBatchId, setVersionHistoryBatchId] = useState<string | null>(null);
+    const [communicationBatchId, setCommunicationBatchId] = useState<string | null>(null);
+    const [scoringState, setScoringState] = useState<{ batchId: string; index: number } | null>(null);
+    const [isHl7ExportOpen, setIsHl7ExportOpen] = useState<boolean>(false);
+    const exportProfile = useExportProfile();
+    const [hiddenCorrectionsBatchIds, setHiddenCorrectionsBatchIds] = useState<Set<string>>(new Set());
     const [draggedState, setDraggedState] = useState<{ batchId: string; index: number } | null>(null);
     const [dragOverState, setDragOverState] = useState<{ batchId: string; index: number } | null>(null);
     const dragItem = useRef<{ batchId: string; index: number } | null>(null);
@@ -157,6 +191,9 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
     const [globalCustomPrompt, setGlobalCustomPrompt] = useState<string>(() => {
         return localStorage.getItem(BATCH_GLOBAL_PROMPT_KEY) || '';
     });
+    const [globalTemplateId, setGlobalTemplateId] = useState<string | null>(() => {
+        return localStorage.getItem(BATCH_GLOBAL_TEMPLATE_KEY);
+    });
     const [isMakingSelection, setIsMakingSelection] = useState<boolean>(false);
 
     // State for 'Complex Impression Generation' per batch
@@ -170,6 +207,18 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
     
     // For triggering error checks
     const processedFindingsRef = useRef<Map<string, string>>(new Map());
+    // Impression last cross-checked per batch, as an impressionCheckKey.
+    const checkedImpressionsRef = useRef<Map<string, string>>(new Map());
+    // Findings last classified for critical results per batch.
+    const classifiedFindingsRef = useRef<Map<string, string>>(new Map());
+    // Last archived state per batch, so only batches that actually changed are rewritten to history.
+    const archivedBatchesRef = useRef<Map<string, string>>(new Map());
+    // Archived audio per batch recording list. Reusing the merged blob lets the blob store's hash cache skip
+    // rehashing the audio every time the report is edited.
+    const archivedAudioRef = useRef<WeakMap<Blob[], Blob>>(new WeakMap());
+    // Saving waits for the restore to finish, otherwise the initial empty state would release the saved media.
+    const isStateLoadedRef = useRef(false);
+    const [storageWarning, setStorageWarning] = useState<string | null>(null);
 
     useEffect(() => {
         const container = findingsContainerRef.current;
@@ -206,19 +255,19 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
     useEffect(() => {
         const loadState = async () => {
         try {
-            const savedStateJSON = localStorage.getItem(BATCH_MODE_STORAGE_KEY);
+            const savedStateJSON = getSecureItem(BATCH_MODE_STORAGE_KEY);
             if (savedStateJSON) {
             const savedBatches: SerializableBatch[] = JSON.parse(savedStateJSON);
             
             const restoredBatches: Batch[] = await Promise.all(savedBatches.map(async (savedBatch) => {
-                const audioBlobs = savedBatch.audioBlobs.map(sa => base64ToBlob(sa.data, sa.type));
+                const audioBlobs = await restoreBlobs(savedBatch.audioBlobs);
                 
                 let imageBlobs: Blob[] = [];
                 if (savedBatch.imageBlobs) {
-                     imageBlobs = savedBatch.imageBlobs.map(si => base64ToBlob(si.data, si.type));
+                     imageBlobs = await restoreBlobs(savedBatch.imageBlobs);
                 }
 
-                let chat: Chat | null = null;
+                let chat: ChatSession | null = null;
                 // Recreate chat session for batches that have been processed
                 if (savedBatch.status === 'complete' && savedBatch.findings && audioBlobs.length > 0) {
                 try {
@@ -229,8 +278,14 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                 }
                 }
 
+                // Batches saved before templates were chosen explicitly carry them inside the prompt.
+                const templateSelection = savedBatch.templateId !== undefined
+                    ? { customPrompt: savedBatch.customPrompt, templateId: savedBatch.templateId }
+                    : migrateLegacyTemplatePrompt(savedBatch.customPrompt || '');
+
                 return {
                 ...savedBatch,
+                ...templateSelection,
                 audioBlobs,
                 imageBlobs,
                 chat,
@@ -248,63 +303,105 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
             }
         } catch (error) {
             console.error("Failed to load batch state from localStorage:", error);
-            localStorage.removeItem(BATCH_MODE_STORAGE_KEY);
+            removeSecureItem(BATCH_MODE_STORAGE_KEY);
+        } finally {
+            isStateLoadedRef.current = true;
         }
         };
         loadState();
     }, []);
 
-    // Save state to localStorage whenever batches change
+    // Save state to localStorage whenever batches change. Only blob refs are serialised, and media
+    // already in the blob store is not written again, so edits stay cheap in long sessions.
     useEffect(() => {
         const saveState = async () => {
-            if (batches.length === 0) {
-                // If user removes all batches, clear storage
-                if (localStorage.getItem(BATCH_MODE_STORAGE_KEY)) {
-                    localStorage.removeItem(BATCH_MODE_STORAGE_KEY);
-                }
-                return;
-            }
-            
+            if (!isStateLoadedRef.current) return;
             try {
-                const serializableBatches: SerializableBatch[] = await Promise.all(
-                    batches.map(async (batch) => {
-                        const serializableAudioBlobs = await Promise.all(
-                            batch.audioBlobs.map(async (blob) => ({
-                                data: await blobToBase64(blob),
-                                type: getCleanMimeType(blob),
-                            }))
-                        );
-                        
-                        const serializableImageBlobs = await Promise.all(
-                            batch.imageBlobs.map(async (blob) => ({
-                                data: await blobToBase64(blob),
-                                type: blob.type,
-                            }))
-                        );
-
-                        const { chat, ...rest } = batch;
+                if (batches.length === 0) {
+                    // If user removes all batches, clear storage
+                    if (getSecureItem(BATCH_MODE_STORAGE_KEY)) {
+                        removeSecureItem(BATCH_MODE_STORAGE_KEY);
+                    }
+                    await releaseBlobs('batch');
+                    return;
+                }
 
-                        return {
-                        ...rest,
-                        audioBlobs: serializableAudioBlobs,
-                        imageBlobs: serializableImageBlobs,
-                        };
-                    })
-                );
+                const allBlobs = batches.flatMap(batch => [...batch.audioBlobs, ...batch.imageBlobs]);
+                const refs = await saveOwnedBlobs('batch', allBlobs);
+                let offset = 0;
+                const serializableBatches: SerializableBatch[] = batches.map((batch) => {
+                    const audioBlobs = refs.slice(offset, offset + batch.audioBlobs.length);
+                    offset += batch.audioBlobs.length;
+                    const imageBlobs = refs.slice(offset, offset + batch.imageBlobs.length);
+                    offset += batch.imageBlobs.length;
+
+                    const { chat, ...rest } = batch;
+
+                    return {
+                    ...rest,
+                    audioBlobs,
+                    imageBlobs,
+                    };
+                });
 
-                localStorage.setItem(BATCH_MODE_STORAGE_KEY, JSON.stringify(serializableBatches));
+                await setSecureItem(BATCH_MODE_STORAGE_KEY, JSON.stringify(serializableBatches));
+                setStorageWarning(null);
             } catch (error) {
                 console.error("Failed to save batch state to localStorage:", error);
+                setStorageWarning(describeStorageError(error));
             }
         };
-        
         saveState();
     }, [batches]);
 
+    const archivedAudio = (audioBlobs: Blob[]): Blob | null => {
+        if (audioBlobs.length === 0) return null;
+        if (audioBlobs.length === 1) return audioBlobs[0];
+        let merged = archivedAudioRef.current.get(audioBlobs);
+        if (!merged) {
+            merged = new Blob(audioBlobs, { type: audioBlobs[0].type });
+            archivedAudioRef.current.set(audioBlobs, merged);
+        }
+        return merged;
+    };
+
+    // Archive completed batches in the report history; removing a batch here leaves its report there.
+    useEffect(() => {
+        batches.forEach(batch => {
+            if (batch.status !== 'complete' || !batch.findings) return;
+            const signature = JSON.stringify([batch.name, batch.findings, batch.chatHistory, batch.customPrompt, batch.templateId, batch.selectedModel, batch.impressionCheck]);
+            if (archivedBatchesRef.current.get(batch.id) === signature) return;
+            archivedBatchesRef.current.set(batch.id, signature);
+            archiveReport({
+                id: batchHistoryId(batch.id),
+                source: 'batch',
+                name: batch.name,
+                findings: batch.findings,
+                audio: archivedAudio(batch.audioBlobs),
+                images: batch.imageBlobs,
+                customPrompt: batch.customPrompt,
+                templateId: batch.templateId,
+                model: batch.selectedModel,
+                chatHistory: batch.chatHistory ?? [],
+                versions: batch.versions,
+                transcript: batch.transcript,
+                impressionCheck: batch.impressionCheck,
+            }).catch(error => console.error(`Failed to archive batch ${batch.name}:`, error));
+        });
+    }, [batches]);
+
     useEffect(() => {
         localStorage.setItem(BATCH_GLOBAL_PROMPT_KEY, globalCustomPrompt);
     }, [globalCustomPrompt]);
 
+    useEffect(() => {
+        if (globalTemplateId) {
+            localStorage.setItem(BATCH_GLOBAL_TEMPLATE_KEY, globalTemplateId);
+        } else {
+            localStorage.removeItem(BATCH_GLOBAL_TEMPLATE_KEY);
+        }
+    }, [globalTemplateId]);
+
 
     // useEffect to run error check in background for batches
     useEffect(() => {
@@ -346,6 +443,63 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
         });
     }, [batches, isErrorCheckEnabled]);
 
+    // Cross-check each batch's impression against its findings whenever one is created or regenerated, when
+    // the error check is enabled. A result saved with the batch for the same impression is reused.
+    useEffect(() => {
+        if (!isErrorCheckEnabled) {
+            if (batches.some(b => b.impressionCheck)) {
+                setBatches(prev => prev.map(b => ({ ...b, impressionCheck: undefined })));
+            }
+            checkedImpressionsRef.current.clear();
+            return;
+        }
+
+        batches.forEach(batch => {
+            const findings = batch.findings ?? [];
+            const key = impressionCheckKey(findings);
+            if (checkedImpressionsRef.current.get(batch.id) === key) return;
+            checkedImpressionsRef.current.set(batch.id, key);
+            if (batch.impressionCheck && impressionCheckKey(batch.impressionCheck.findings) === key) return;
+
+            if (!key) {
+                if (batch.impressionCheck) {
+                    setBatches(prev => prev.map(b => b.id === batch.id ? { ...b, impressionCheck: undefined } : b));
+                }
+                return;
+            }
+            crossCheckImpression(findings, batch.selectedModel).then(errors => {
+                // A newer impression is already being checked.
+                if (checkedImpressionsRef.current.get(batch.id) !== key) return;
+                setBatches(prev => prev.map(b => b.id === batch.id ? { ...b, impressionCheck: { findings, errors } } : b));
+            });
+        });
+    }, [batches, isErrorCheckEnabled]);
+
+    // Model classification of critical results, on top of the lexicon, when enabled.
+    useEffect(() => {
+        if (!isCriticalAiCheckEnabled) {
+            if (batches.some(b => b.criticalClassification)) {
+                setBatches(prev => prev.map(b => ({ ...b, criticalClassification: undefined })));
+            }
+            classifiedFindingsRef.current.clear();
+            return;
+        }
+
+        batches.forEach(batch => {
+            if (!batch.findings || batch.findings.length === 0) {
+                classifiedFindingsRef.current.delete(batch.id);
+                return;
+            }
+            const findings = batch.findings;
+            const findingsKey = JSON.stringify(findings);
+            if (classifiedFindingsRef.current.get(batch.id) === findingsKey) return;
+            classifiedFindingsRef.current.set(batch.id, findingsKey);
+            classifyCriticalFindings(findings, batch.selectedModel).then(critical => {
+                setBatches(prev => prev.map(b => b.id === batch.id ? { ...b, criticalClassification: { findings, critical } } : b));
+            });
+        });
+    }, [batches, isCriticalAiCheckEnabled]);
+
 
     // Add mouse up handler for text selection
     useEffect(() => {
@@ -468,6 +622,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
             // Default model to gemini-3-flash-preview as requested
             selectedModel: 'gemini-3-flash-preview',
             customPrompt: globalCustomPrompt,
+            templateId: globalTemplateId,
         };
         setBatches(prev => [...prev, newBatch]);
     };
@@ -513,6 +668,10 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
         setBatches(prev => prev.map(b => b.id === id ? { ...b, customPrompt: prompt } : b));
     };
 
+    const updateBatchTemplate = (id: string, templateId: string | null) => {
+        setBatches(prev => prev.map(b => b.id === id ? { ...b, templateId } : b));
+    };
+
     const handleRecordOrResume = async (batch: Batch) => {
         if (isBusy) return;
         setIsBusy(true);
@@ -670,7 +829,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                     mergedAudioBlob = new Blob(batch.audioBlobs, { type: mimeType });
                 }
 
-                const findings = await processMedia(mergedAudioBlob, batch.imageBlobs, batch.selectedModel, batch.customPrompt);
+                const { findings, transcript } = await processMediaWithTranscript(mergedAudioBlob, batch.imageBlobs, batch.selectedModel, batch.customPrompt, batch.templateId, isCorrectionsEnabled);
                 
                 let chatSession;
                 if (mergedAudioBlob) {
@@ -683,7 +842,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                 const aiGreeting = "I have reviewed the media and transcript for this dictation. How can I help you further?";
                 const initialChatHistory = [{ author: 'AI' as const, text: `${findings.join('\n\n')}\n\n${aiGreeting}` }];
 
-                setBatches(prev => prev.map(b => b.id === batch.id ? { ...b, status: 'complete', findings, chat: chatSession, chatHistory: initialChatHistory, isChatting: false } : b));
+                setBatches(prev => prev.map(b => b.id === batch.id ? { ...withFindingsVersion(b, findings, 'dictation', batch.selectedModel), transcript, status: 'complete', chat: chatSession, chatHistory: initialChatHistory, isChatting: false } : b));
             } catch (err) {
                  const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
                 setBatches(prev => prev.map(b => b.id === batch.id ? { ...b, status: 'error', error: errorMessage } : b));
@@ -708,7 +867,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                 mergedAudioBlob = new Blob(batch.audioBlobs, { type: mimeType });
             }
 
-            const findings = await processMedia(mergedAudioBlob, batch.imageBlobs, batch.selectedModel, batch.customPrompt);
+            const { findings, transcript } = await processMediaWithTranscript(mergedAudioBlob, batch.imageBlobs, batch.selectedModel, batch.customPrompt, batch.templateId, isCorrectionsEnabled);
             
             let chatSession;
             if (mergedAudioBlob) {
@@ -720,7 +879,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
             const aiGreeting = "I have reviewed the media and transcript for this dictation. How can I help you further?";
             const initialChatHistory = [{ author: 'AI' as const, text: `${findings.join('\n\n')}\n\n${aiGreeting}` }];
 
-            setBatches(prev => prev.map(b => b.id === batchId ? { ...b, status: 'complete', findings, chat: chatSession, chatHistory: initialChatHistory, isChatting: false } : b));
+            setBatches(prev => prev.map(b => b.id === batchId ? { ...withFindingsVersion(b, findings, 'reprocess', batch.selectedModel), transcript, status: 'complete', chat: chatSession, chatHistory: initialChatHistory, isChatting: false } : b));
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
             setBatches(prev => prev.map(b => b.id === batchId ? { ...b, status: 'error', error: errorMessage, findings: null } : b));
@@ -740,18 +899,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
         setBatches(prev => prev.map(b => b.id === batchId ? { ...b, isChatting: true, chatHistory: updatedHistory } : b));
 
         try {
-            let response;
-            if (typeof message === 'string') {
-                response = await batch.chat.sendMessage({ message });
-            } else {
-                const base64Audio = await blobToBase64(message);
-                const audioPart = {
-                    inlineData: { mimeType: getCleanMimeType(message), data: base64Audio },
-                };
-                const textPart = { text: "Please analyze this audio in the context of our conversation." };
-                response = await batch.chat.sendMessage({ message: [audioPart, textPart] });
-            }
-            const responseText = response.text;
+            const responseText = await sendChatMessage(batch.chat, message);
             setBatches(prev => prev.map(b => b.id === batchId ? {...b, chatHistory: [...updatedHistory, { author: 'AI' as const, text: responseText }]} : b));
         } catch (err) {
             console.error("Chat error:", err);
@@ -762,24 +910,96 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
         }
     };
 
-    const handleUpdateFindingForBatch = (batchId: string, findingIndex: number, newText: string) => {
+    const handleUpdateFindingForBatch = (batchId: string, findingIndex: number, newText: string, action: AuditEditAction) => {
         setBatches(prevBatches => prevBatches.map(b => {
             if (b.id === batchId && b.findings) {
                 const updatedFindings = [...b.findings];
                 updatedFindings[findingIndex] = newText;
-                return { ...b, findings: updatedFindings };
+                return withFindingsVersion(b, updatedFindings, action);
             }
             return b;
         }));
     };
+
+    const recordBatchEdit = (batchId: string, action: AuditEditAction, before: string[], after: string[]) =>
+        recordEdit(batchHistoryId(batchId), action, before, after);
     
+    const handleRevertMacroForBatch = (batchId: string, findingIndex: number) => {
+        const batch = batches.find(b => b.id === batchId);
+        if (!batch || !batch.findings) return;
+        setUndoStates(prev => ({ ...prev, [batchId]: [...batch.findings!] }));
+        const newFindings = revertMacroExpansion(batch.findings, findingIndex);
+        setBatches(prev => prev.map(b => b.id === batchId ? withFindingsVersion(b, newFindings, 'revertMacro') : b));
+        recordBatchEdit(batchId, 'revertMacro', batch.findings, newFindings);
+    };
+
+    const handleAddCommunicationForBatch = (batchId: string, sentence: string) => {
+        const batch = batches.find(b => b.id === batchId);
+        if (!batch || !batch.findings) return;
+        setUndoStates(prev => ({ ...prev, [batchId]: [...batch.findings!] }));
+        const newFindings = [...batch.findings, sentence];
+        setBatches(prev => prev.map(b => b.id === batchId ? withFindingsVersion(b, newFindings, 'criticalCommunication') : b));
+        recordBatchEdit(batchId, 'criticalCommunication', [], [sentence]);
+    };
+
+    const handleAddRadsToFindingForBatch = (batchId: string, findingIndex: number, sentence: string) => {
+        const batch = batches.find(b => b.id === batchId);
+        if (!batch || !batch.findings) return;
+        const finding = batch.findings[findingIndex];
+        const newFindings = [...batch.findings];
+        newFindings[findingIndex] = appendToFinding(finding, sentence);
+        setUndoStates(prev => ({ ...prev, [batchId]: [...batch.findings!] }));
+        setBatches(prev => prev.map(b => b.id === batchId ? withFindingsVersion(b, newFindings, 'radsCategory') : b));
+        recordBatchEdit(batchId, 'radsCategory', [finding], [newFindings[findingIndex]]);
+    };
+
+    const handleAddRadsToImpressionForBatch = (batchId: string, sentence: string) => {
+        const batch = batches.find(b => b.id === batchId);
+        if (!batch || !batch.findings) return;
+        const newFindings = addImpressionPoint(batch.findings, sentence);
+        setUndoStates(prev => ({ ...prev, [batchId]: [...batch.findings!] }));
+        setBatches(prev => prev.map(b => b.id === batchId ? withFindingsVersion(b, newFindings, 'radsCategory') : b));
+        recordBatchEdit(batchId, 'radsCategory', batch.findings, newFindings);
+    };
+
+    const handleRevertCorrectionForBatch = (batchId: string, findingIndex: number, chunks: CorrectionChunk[], change: CorrectionChange) => {
+        const batch = batches.find(b => b.id === batchId);
+        if (!batch || !batch.findings) return;
+        const finding = batch.findings[findingIndex];
+        const newFinding = revertCorrectionInFinding(finding, chunks, change);
+        setUndoStates(prev => ({ ...prev, [batchId]: [...batch.findings!] }));
+        setBatches(prev => prev.map(b => {
+            if (b.id !== batchId || !b.findings) return b;
+            const updatedFindings = [...b.findings];
+            updatedFindings[findingIndex] = newFinding;
+            return { ...withFindingsVersion(b, updatedFindings, 'revertCorrection'), transcript: b.transcript && updateTranscriptSegment(b.transcript, finding, newFinding) };
+        }));
+        recordBatchEdit(batchId, 'revertCorrection', [finding], [newFinding]);
+    };
+
+    const handleToggleCorrectionsForBatch = (batchId: string) => {
+        setHiddenCorrectionsBatchIds(prev => {
+            const next = new Set(prev);
+            if (next.has(batchId)) {
+                next.delete(batchId);
+            } else {
+                next.add(batchId);
+            }
+            return next;
+        });
+    };
+
     const showNotification = (text: string) => {
       setCopyNotification({ text, visible: true });
       setTimeout(() => setCopyNotification({ text: '', visible: false }), 2000);
     };
 
-    const copyToClipboard = async (plainText: string, htmlText: string) => {
+    const copyToClipboard = async ({ text: plainText, html: htmlText }: RenderedReport) => {
         try {
+          if (htmlText === null) {
+            await navigator.clipboard.writeText(plainText);
+            return true;
+          }
           const htmlBlob = new Blob([htmlText], { type: 'text/html' });
           const textBlob = new Blob([plainText], { type: 'text/plain' });
           const clipboardItem = new (window as any).ClipboardItem({
@@ -811,50 +1031,14 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
 
       const sortedIndices = Array.from(selection).sort((a, b) => a - b);
       
-      const { plain, html } = sortedIndices.reduce((acc, i) => {
+      const selected = sortedIndices.map(i => {
         const snippet = (selectionSnippets[batchId] || {})[i];
-        if (snippet) {
-          acc.plain.push(snippet);
-          acc.html.push(`<strong>${snippet}</strong>`);
-        } else {
-          const finding = batch.findings![i];
-          const isBold = finding.startsWith('BOLD::');
-          const cleanFinding = isBold ? finding.substring(6) : finding;
-          const isTitle = cleanFinding.trim() === 'C.T.SCAN OF BRAIN (PLAIN)';
-          const { isStructured, title, points } = parseStructuredFinding(cleanFinding);
-          const isImpression = isStructured && title.trim().toUpperCase() === 'IMPRESSION:';
-          const isItalic = !isStructured && cleanFinding.startsWith('*') && cleanFinding.endsWith('*');
-          
-          if (isTitle) {
-            acc.plain.push(cleanFinding);
-            acc.html.push(`<p style="text-align:center;"><strong><u>${cleanFinding}</u></strong></p>`);
-          } else if (isImpression) {
-            acc.plain.push(`${title.toUpperCase()}\n${points.map(p => `• ${p}`).join('\n')}`);
-            acc.html.push(`<p><strong style="text-decoration: underline;">${title.toUpperCase()}</strong></p><ul>${points.map(p => `<li><strong>${p}</strong></li>`).join('')}</ul>`);
-          } else if (isStructured) {
-            acc.plain.push([title, ...points].join('\n'));
-            let htmlContent = isBold ? `<p><strong>${title}</strong></p>` : `<p>${title}</p>`;
-            htmlContent += points.map(p => isBold ? `<p><strong>${p}</strong></p>` : `<p>${p}</p>`).join('');
-            acc.html.push(htmlContent);
-          } else {
-            if (isItalic) {
-                acc.plain.push(cleanFinding.slice(1, -1));
-                acc.html.push(`<p><em>${cleanFinding.slice(1, -1)}</em></p>`);
-            } else {
-                acc.plain.push(cleanFinding);
-                acc.html.push(isBold ? `<p><strong>${cleanFinding}</strong></p>` : `<p>${cleanFinding}</p>`);
-            }
-          }
-        }
-        return acc;
-      }, { plain: [] as string[], html: [] as string[] });
-
-      const plainText = plain.join('\n');
-      const htmlText = html.join('');
+        return snippet ? serializeReportLine({ kind: 'finding', text: snippet, emphasis: 'bold' }) : batch.findings![i];
+      });
       
-      const success = await copyToClipboard(plainText, htmlText);
+      const success = await copyToClipboard(renderFindings(selected, exportProfile));
       const notificationText = success
-        ? `Copied ${plain.length} finding${plain.length > 1 ? 's' : ''}!`
+        ? `Copied ${selected.length} finding${selected.length > 1 ? 's' : ''}!`
         : 'Copy failed!';
       showNotification(notificationText);
     };
@@ -922,37 +1106,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
         if (!batch || !batch.findings) return;
         
         const findingToCopy = batch.findings[findingIndex];
-        const isBold = findingToCopy.startsWith('BOLD::');
-        const cleanFinding = isBold ? findingToCopy.substring(6) : findingToCopy;
-        const isTitle = cleanFinding.trim() === 'C.T.SCAN OF BRAIN (PLAIN)';
-        const { isStructured, title, points } = parseStructuredFinding(cleanFinding);
-        const isImpression = isStructured && title.trim().toUpperCase() === 'IMPRESSION:';
-        const isItalic = !isStructured && cleanFinding.startsWith('*') && cleanFinding.endsWith('*');
-        let plainText: string;
-        let htmlText: string;
-        
-        if (isTitle) {
-          plainText = cleanFinding;
-          htmlText = `<p style="text-align:center;"><strong><u>${cleanFinding}</u></strong></p>`;
-        } else if (isImpression) {
-            plainText = `${title.toUpperCase()}\n${points.map(p => `• ${p}`).join('\n')}`;
-            htmlText = `<p><strong style="text-decoration: underline;">${title.toUpperCase()}</strong></p><ul>${points.map(p => `<li><strong>${p}</strong></li>`).join('')}</ul>`;
-        } else if (isStructured) {
-            plainText = [title, ...points].join('\n');
-            let htmlContent = isBold ? `<p><strong>${title}</strong></p>` : `<p>${title}</p>`;
-            htmlContent += points.map(p => isBold ? `<p><strong>${p}</strong></p>` : `<p>${p}</p>`).join('');
-            htmlText = htmlContent;
-        } else {
-            if (isItalic) {
-                plainText = cleanFinding.slice(1, -1);
-                htmlText = `<p><em>${plainText}</em></p>`;
-            } else {
-                plainText = cleanFinding;
-                htmlText = isBold ? `<p><strong>${cleanFinding}</strong></p>` : `<p>${cleanFinding}</p>`;
-            }
-        }
-
-        const success = await copyToClipboard(plainText, htmlText);
+        const success = await copyToClipboard(renderFindings([findingToCopy], exportProfile));
 
         if (success) {
             setSelections({ [batchId]: new Set([findingIndex]) });
@@ -971,47 +1125,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
 
     const handleCopyAllForBatch = async (batch: Batch) => {
         if (!batch.findings || batch.findings.length === 0) return;
-        const allTextPlain = batch.findings.map(f => {
-            const isBold = f.startsWith('BOLD::');
-            const cleanFinding = isBold ? f.substring(6) : f;
-            const { isStructured, title, points } = parseStructuredFinding(cleanFinding);
-            const isImpression = isStructured && title.trim().toUpperCase() === 'IMPRESSION:';
-            if (isImpression) {
-                return `${title.toUpperCase()}\n${points.map(p => `• ${p}`).join('\n')}`;
-            }
-            if (isStructured) {
-              return [title, ...points].join('\n');
-            }
-            if (cleanFinding.startsWith('*') && cleanFinding.endsWith('*')) {
-              return cleanFinding.slice(1, -1);
-            }
-            return cleanFinding;
-        }).join('\n\n');
-
-        const allTextHtml = batch.findings.map(f => {
-            const isBold = f.startsWith('BOLD::');
-            const cleanFinding = isBold ? f.substring(6) : f;
-            const isTitle = cleanFinding.trim() === 'C.T.SCAN OF BRAIN (PLAIN)';
-            const { isStructured, title, points } = parseStructuredFinding(cleanFinding);
-            const isImpression = isStructured && title.trim().toUpperCase() === 'IMPRESSION:';
-            if (isTitle) {
-              return `<p style="text-align:center;"><strong><u>${cleanFinding}</u></strong></p>`;
-            }
-            if (isImpression) {
-                return `<p><strong style="text-decoration: underline;">${title.toUpperCase()}</strong></p><ul>${points.map(p => `<li><strong>${p}</strong></li>`).join('')}</ul>`;
-            }
-            if (isStructured) {
-                let htmlContent = isBold ? `<p><strong>${title}</strong></p>` : `<p>${title}</p>`;
-                htmlContent += points.map(p => isBold ? `<p><strong>${p}</strong></p>` : `<p>${p}</p>`).join('');
-                return htmlContent;
-            }
-            if (cleanFinding.startsWith('*') && cleanFinding.endsWith('*')) {
-                return `<p><em>${cleanFinding.slice(1, -1)}</em></p>`;
-            }
-            return isBold ? `<p><strong>${cleanFinding}</strong></p>` : `<p>${cleanFinding}</p>`;
-        }).join('');
-
-        const success = await copyToClipboard(allTextPlain, allTextHtml);
+        const success = await copyToClipboard(renderFindings(batch.findings, exportProfile));
         if (success) {
           setAllCopiedId(batch.id);
           setTimeout(() => setAllCopiedId(null), 2000);
@@ -1022,43 +1136,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
         const batchesWithFindings = batches.filter(b => b.findings && b.findings.length > 0);
         if (batchesWithFindings.length === 0) return;
 
-        let allTextPlain = '';
-        let allTextHtml = '';
-
-        batchesWithFindings.forEach(b => {
-            const name = b.name;
-            const plainFindings = b.findings!.map(f => {
-                const isBold = f.startsWith('BOLD::');
-                const cleanFinding = isBold ? f.substring(6) : f;
-                const { isStructured, title, points } = parseStructuredFinding(cleanFinding);
-                const isImpression = isStructured && title.trim().toUpperCase() === 'IMPRESSION:';
-                if (isImpression) return `${title.toUpperCase()}\n${points.map(p => `• ${p}`).join('\n')}`;
-                if (isStructured) return [title, ...points].join('\n');
-                if (cleanFinding.startsWith('*') && cleanFinding.endsWith('*')) return cleanFinding.slice(1, -1);
-                return cleanFinding;
-            }).join('\n');
-            const htmlFindings = b.findings!.map(f => {
-                const isBold = f.startsWith('BOLD::');
-                const cleanFinding = f.substring(6);
-                const isTitle = cleanFinding.trim() === 'C.T.SCAN OF BRAIN (PLAIN)';
-                const { isStructured, title, points } = parseStructuredFinding(cleanFinding);
-                const isImpression = isStructured && title.trim().toUpperCase() === 'IMPRESSION:';
-                if (isTitle) return `<p style="text-align:center;"><strong><u>${cleanFinding}</u></strong></p>`;
-                if (isImpression) return `<p><strong style="text-decoration: underline;">${title.toUpperCase()}</strong></p><ul>${points.map(p => `<li><strong>${p}</strong></li>`).join('')}</ul>`;
-                if (isStructured) {
-                  let htmlContent = isBold ? `<p><strong>${title}</strong></p>` : `<p>${title}</p>`;
-                  htmlContent += points.map(p => isBold ? `<p><strong>${p}</strong></p>` : `<p>${p}</p>`).join('');
-                  return htmlContent;
-                }
-                if (cleanFinding.startsWith('*') && cleanFinding.endsWith('*')) return `<p><em>${cleanFinding.slice(1, -1)}</em></p>`;
-                return isBold ? `<p><strong>${cleanFinding}</strong></p>` : `<p>${cleanFinding}</p>`;
-            }).join('');
-            
-            allTextPlain += `[${name}]\n${plainFindings}\n\n`;
-            allTextHtml += `<h3>${name}</h3>` + htmlFindings;
-        });
-
-        const success = await copyToClipboard(allTextPlain.trim(), allTextHtml.trim());
+        const success = await copyToClipboard(renderBatches(batchesWithFindings.map(b => ({ name: b.name, findings: b.findings! })), exportProfile));
         if (success) {
           setIsAllBatchesCopied(true);
           setTimeout(() => setIsAllBatchesCopied(false), 2000);
@@ -1111,6 +1189,79 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
         }
     };
 
+    const handleDownloadDocx = async () => {
+        const batchesWithFindings = batches.filter(b => b.findings && b.findings.length > 0);
+        if (batchesWithFindings.length === 0) {
+            showNotification("No processed transcripts to download.");
+            return;
+        };
+
+        try {
+            const blob = await generateBatchReportDocx(batchesWithFindings.map(b => ({ ...b, expertNotes: expertNotesForBatches[b.id] })));
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.style.display = 'none';
+            a.href = url;
+            a.download = 'batch-radiology-report.docx';
+            document.body.appendChild(a);
+            a.click();
+            window.URL.revokeObjectURL(url);
+            a.remove();
+        } catch (err) {
+            console.error('Failed to generate or download batch Word document:', err);
+            showNotification("Failed to create Word file.");
+        }
+    };
+
+    const handleDownloadFormatted = () => {
+        const batchesWithFindings = batches.filter(b => b.findings && b.findings.length > 0);
+        if (batchesWithFindings.length === 0) {
+            showNotification("No processed transcripts to download.");
+            return;
+        };
+
+        try {
+            const file = exportBatchReportFile(batchesWithFindings.map(b => ({ name: b.name, findings: b.findings! })), exportProfile);
+            const blob = new Blob([file.content], { type: file.mimeType });
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.style.display = 'none';
+            a.href = url;
+            a.download = `batch-radiology-report.${file.extension}`;
+            document.body.appendChild(a);
+            a.click();
+            window.URL.revokeObjectURL(url);
+            a.remove();
+        } catch (err) {
+            console.error('Failed to generate or download formatted batch report:', err);
+            showNotification("Failed to create file.");
+        }
+    };
+
+    const handleDownloadPdf = () => {
+        const batchesWithFindings = batches.filter(b => b.findings && b.findings.length > 0);
+        if (batchesWithFindings.length === 0) {
+            showNotification("No processed transcripts to download.");
+            return;
+        };
+
+        try {
+            const blob = generateBatchReportPdf(batchesWithFindings);
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.style.display = 'none';
+            a.href = url;
+            a.download = 'batch-radiology-report.pdf';
+            document.body.appendChild(a);
+            a.click();
+            window.URL.revokeObjectURL(url);
+            a.remove();
+        } catch (err) {
+            console.error('Failed to generate or download batch PDF:', err);
+            showNotification("Failed to create PDF file.");
+        }
+    };
+
     // --- Batch Edit Mode Handlers ---
     const handleStartEdit = (batchId: string, index: number) => {
         clearUndoStateForBatch(batchId);
@@ -1119,11 +1270,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
         
         setEditingState({ batchId, index });
         
-        const findingToEdit = batch.findings[index];
-        const isBold = findingToEdit.startsWith('BOLD::');
-        const cleanFinding = isBold ? findingToEdit.substring(6) : findingToEdit;
-        const { isStructured, title, points } = parseStructuredFinding(cleanFinding);
-        const textForEditing = isStructured ? [title, ...points].join('\n') : cleanFinding;
+        const textForEditing = reportLineToEditableText(parseReportLine(batch.findings[index]));
         
         setEditingText(textForEditing);
 
@@ -1143,20 +1290,10 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
             const batch = batches.find(b => b.id === editingState.batchId);
             if (batch && batch.findings) {
                 setUndoStates(prev => ({ ...prev, [editingState.batchId]: [...batch.findings!] }));
-                const originalFinding = batch.findings[editingState.index];
-                const isBold = originalFinding.startsWith('BOLD::');
-                const { isStructured } = parseStructuredFinding(originalFinding);
-
-                let newText = editingText;
-                if (isStructured) {
-                    newText = editingText.split('\n').filter(line => line.trim() !== '').join('###');
-                }
-                
-                if (isBold) {
-                  newText = `BOLD::${newText}`;
-                }
+                const newText = applyEditedText(batch.findings[editingState.index], editingText);
 
-                handleUpdateFindingForBatch(editingState.batchId, editingState.index, newText);
+                handleUpdateFindingForBatch(editingState.batchId, editingState.index, newText, 'edit');
+                recordBatchEdit(editingState.batchId, 'edit', [batch.findings[editingState.index]], [newText]);
             }
         }
         handleCancelEdit();
@@ -1185,10 +1322,10 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
             setProcessingState({ batchId, index });
             try {
                 const existingText = batch.findings[index];
-                const newText = await continueAudioDictation(existingText, audioBlob, batch.customPrompt);
-                const separator = existingText.trim().length > 0 && !existingText.endsWith(' ') ? ' ' : '';
-                const updatedText = existingText + separator + newText.trim();
-                handleUpdateFindingForBatch(batchId, index, updatedText);
+                const newText = await continueAudioDictation(findingToPlainText(existingText), audioBlob, batch.customPrompt);
+                const updatedText = expandMacrosInFinding(appendToFinding(existingText, newText));
+                handleUpdateFindingForBatch(batchId, index, updatedText, 'dictatedAddition');
+                recordBatchEdit(batchId, 'dictatedAddition', [existingText], [updatedText]);
             } catch (err) {
                 const message = err instanceof Error ? err.message : 'An unknown error occurred.';
                 setContinuationError({ batchId, index, message });
@@ -1221,8 +1358,11 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
             setProcessingState({ batchId, index });
             try {
                 const existingText = batch.findings[index];
-                const newText = await modifyFindingWithAudio(existingText, audioBlob, batch.customPrompt);
-                handleUpdateFindingForBatch(batchId, index, newText);
+                const editableText = reportLineToEditableText(parseReportLine(existingText));
+                const newText = await modifyFindingWithAudio(editableText, audioBlob, batch.customPrompt);
+                const updatedText = expandMacrosInFinding(applyEditedText(existingText, newText));
+                handleUpdateFindingForBatch(batchId, index, updatedText, 'dictatedEdit');
+                recordBatchEdit(batchId, 'dictatedEdit', [existingText], [updatedText]);
             } catch (err) {
                 const message = err instanceof Error ? err.message : 'An unknown error occurred.';
                 setContinuationError({ batchId, index, message });
@@ -1233,7 +1373,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
     };
     
     const handleCopyFromCopier = async (text: string) => {
-      const success = await copyToClipboard(text, `<strong>${text}</strong>`);
+      const success = await copyToClipboard(renderSnippet(text, exportProfile));
       showNotification(success ? 'Copied selection!' : 'Copy failed!');
       setCopier(null);
     };
@@ -1267,9 +1407,9 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                 // However, continueAudioDictation is specialized for appending.
                 // We will stick to processMedia for new content if we want consistent model usage?
                 // But continueAudioDictation is better for context.
-                // Let's assume standard flow for new audio chunk.
+                // Let's assume standard flow for new audio chunk, without the template (it would rebuild a whole report).
                 
-                const newFindings = await processMedia(newAudioBlob, [], batch.selectedModel, batch.customPrompt);
+                const { findings: newFindings, transcript } = await processMediaWithTranscript(newAudioBlob, [], batch.selectedModel, batch.customPrompt, null, isCorrectionsEnabled);
                 const updatedFindings = [...batch.findings, ...newFindings];
                 
                 const updatedAudioBlobs = [...batch.audioBlobs, newAudioBlob];
@@ -1284,12 +1424,13 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                 const updatedChatHistory = [{ author: 'AI' as const, text: `${updatedFindings.join('\n\n')}\n\n${aiGreeting}` }];
 
                 setBatches(prev => prev.map(b => b.id === batchId ? { 
-                    ...b,
-                    findings: updatedFindings,
+                    ...withFindingsVersion(b, updatedFindings, 'continueDictation', batch.selectedModel),
+                    transcript: [...(b.transcript ?? []), ...transcript],
                     audioBlobs: updatedAudioBlobs,
                     chat: chatSession,
                     chatHistory: updatedChatHistory,
                 } : b));
+                recordBatchEdit(batchId, 'continueDictation', [], newFindings);
 
                 setContinuationState({ batchId: null, status: 'idle', error: null });
 
@@ -1340,12 +1481,12 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                 const updatedChatHistory = [{ author: 'AI' as const, text: `${newFindings.join('\n\n')}\n\n${aiGreeting}` }];
     
                 setBatches(prev => prev.map(b => b.id === batchId ? { 
-                    ...b, 
-                    findings: newFindings,
+                    ...withFindingsVersion(b, newFindings, 'reportDictation'),
                     chat: chatSession,
                     chatHistory: updatedChatHistory,
                     isChatting: false,
                  } : b));
+                recordBatchEdit(batchId, 'reportDictation', batchToModify.findings, newFindings);
                 setModificationState({ batchId: null, status: 'idle' });
             } catch (err) {
                 const message = err instanceof Error ? err.message : 'An unknown error occurred.';
@@ -1392,7 +1533,8 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
             const complexInput = complexInputs[batchId] || '';
             const result = await runComplexImpressionGeneration(batch.findings, complexInput);
             
-            setBatches(prevBatches => prevBatches.map(b => b.id === batchId ? { ...b, findings: result.findings } : b));
+            setBatches(prevBatches => prevBatches.map(b => b.id === batchId ? withFindingsVersion(b, result.findings, 'complexImpression') : b));
+            recordBatchEdit(batchId, 'complexImpression', batch.findings, result.findings);
             setExpertNotesForBatches(prev => ({ ...prev, [batchId]: result.expertNotes }));
             
             setComplexGeneratorVisibleForBatchId(null);
@@ -1405,31 +1547,23 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
         }
     };
 
-    const handleDownloadExpertNotes = (batchId: string) => {
+    const handleDownloadExpertNotes = async (batchId: string) => {
         const expertNotes = expertNotesForBatches[batchId];
         if (!expertNotes) return;
-        
-        let htmlContent = expertNotes
-          .replace(/^## (.*$)/gim, '<h2>$1</h2>')
-          .replace(/^### (.*$)/gim, '<h3>$1</h3>')
-          .replace(/\n/g, '<br />');
-    
-        const header = "<html xmlns:o='urn:schemas-microsoft-com:office:office' "+
-                   "xmlns:w='urn:schemas-microsoft-com:office:word' "+
-                   "xmlns='http://www.w3.org/TR/REC-html40'>"+
-                   "<head><meta charset='utf-8'><title>Expert Notes</title></head><body>";
-        const footer = "</body></html>";
-        const source = header + htmlContent + footer;
-    
-        const fileBlob = new Blob([source], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
-        const url = URL.createObjectURL(fileBlob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'expert-notes.docx';
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        try {
+            const fileBlob = await generateExpertNotesDocx(expertNotes);
+            const url = URL.createObjectURL(fileBlob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = 'expert-notes.docx';
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            console.error('Failed to generate or download expert notes:', err);
+            showNotification("Failed to create Word file.");
+        }
     };
 
     // --- Drag and Drop Handlers for Findings ---
@@ -1457,6 +1591,9 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
             const batch = batches.find(b => b.id === batchId);
             if(batch && batch.findings) {
                 setUndoStates(prev => ({ ...prev, [batchId]: [...batch.findings!] }));
+                const reordered = [...batch.findings];
+                reordered.splice(dragOverIndex, 0, reordered.splice(dragIndex, 1)[0]);
+                recordBatchEdit(batchId, 'reorder', batch.findings, reordered);
             }
 
             setBatches(prevBatches => {
@@ -1468,7 +1605,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                 newFindings.splice(dragOverIndex, 0, draggedItemContent);
                 
                 const newBatches = [...prevBatches];
-                newBatches[batchIndex].findings = newFindings;
+                newBatches[batchIndex] = withFindingsVersion(newBatches[batchIndex], newFindings, 'reorder');
                 return newBatches;
             });
         }
@@ -1503,15 +1640,16 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
 
         const sourceFinding = batch.findings[sourceIndex];
         const targetFinding = batch.findings[targetIndex];
-        const mergedText = targetFinding + ' ' + sourceFinding;
+        const mergedText = mergeFindings(targetFinding, sourceFinding);
 
         const newFindings = batch.findings
             .map((finding, index) => index === targetIndex ? mergedText : finding)
             .filter((_, index) => index !== sourceIndex);
 
         setBatches(prev => prev.map(b => 
-            b.id === sourceBatchId ? { ...b, findings: newFindings } : b
+            b.id === sourceBatchId ? withFindingsVersion(b, newFindings, 'merge') : b
         ));
+        recordBatchEdit(sourceBatchId, 'merge', [targetFinding, sourceFinding], [mergedText]);
 
         setDragOverState(null);
         setDraggedState(null);
@@ -1520,12 +1658,22 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
     const handleUndo = (batchId: string) => {
         const findingsToRestore = undoStates[batchId];
         if (findingsToRestore) {
+            const batch = batches.find(b => b.id === batchId);
             setBatches(prev => prev.map(b => 
-                b.id === batchId ? { ...b, findings: findingsToRestore } : b
+                b.id === batchId ? withFindingsVersion(b, findingsToRestore, 'undo') : b
             ));
+            recordBatchEdit(batchId, 'undo', batch?.findings ?? [], findingsToRestore);
             clearUndoStateForBatch(batchId);
         }
     };
+
+    const handleRestoreVersion = (batchId: string, version: ReportVersion) => {
+        const batch = batches.find(b => b.id === batchId);
+        if (!batch?.findings) return;
+        setUndoStates(prev => ({ ...prev, [batchId]: [...batch.findings!] }));
+        setBatches(prev => prev.map(b => b.id === batchId ? withFindingsVersion(b, version.findings, 'restore') : b));
+        recordBatchEdit(batchId, 'restore', batch.findings, version.findings);
+    };
     
     // --- Drag and Drop Handlers for Batches ---
     const handleBatchDragStart = (e: React.DragEvent, index: number) => {
@@ -1570,7 +1718,14 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
     const allProcessed = batches.every(b => b.status !== 'processing');
     const hasProcessableRecordings = batches.some(b => (b.status === 'complete' || b.status === 'paused') && (b.audioBlobs.length > 0 || b.imageBlobs.length > 0) && !b.findings);
     const hasAnyResults = batches.some(b => b.findings);
-    const hasAnyErrors = batches.some(b => b.identifiedErrors && b.identifiedErrors.length > 0);
+    const errorsByBatchId = new Map(batches.map(b => [b.id, identifiedErrorsFor(b)]));
+    const hasAnyErrors = Array.from(errorsByBatchId.values()).some(errors => errors.length > 0);
+    const versionHistoryBatch = batches.find(b => b.id === versionHistoryBatchId);
+    const criticalByBatchId = new Map(batches.map(b => [b.id, criticalFindingsFor(b.findings ?? [], b.criticalClassification)]));
+    const pendingCriticalFor = (batch: Batch) => pendingCriticalFindings(batch.findings ?? [], criticalByBatchId.get(batch.id) ?? []);
+    const communicationBatch = batches.find(b => b.id === communicationBatchId);
+    const scoringBatch = batches.find(b => b.id === scoringState?.batchId);
+    const radsContextByBatchId = new Map(batches.map(b => [b.id, reportContext(b.findings ?? [])]));
 
     return (
         <div>
@@ -1613,6 +1768,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                 </div>
             )}
             <button onClick={onBack} className="text-sm text-blue-600 hover:underline dark:text-blue-400 dark:hover:text-blue-300 mb-4 inline-block">&larr; Back to Single Dictation</button>
+            {storageWarning && <StorageWarning message={storageWarning} onDismiss={() => setStorageWarning(null)} />}
             <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" accept="audio/*" aria-hidden="true" />
             <input type="file" ref={imageInputRef} onChange={handleImageSelect} className="hidden" accept="image/*" multiple aria-hidden="true" />
             
@@ -1624,6 +1780,8 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                 <CustomPromptInput
                     prompt={globalCustomPrompt}
                     onPromptChange={setGlobalCustomPrompt}
+                    templateId={globalTemplateId}
+                    onTemplateChange={setGlobalTemplateId}
                 />
             </div>
 
@@ -1751,6 +1909,35 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                 >
                     Download Report as HTML
                 </button>
+                <button
+                    onClick={handleDownloadDocx}
+                    disabled={!hasAnyResults}
+                    className="bg-blue-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed w-full sm:w-auto"
+                >
+                    Download Report as Word
+                </button>
+                <button
+                    onClick={handleDownloadPdf}
+                    disabled={!hasAnyResults}
+                    className="bg-blue-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed w-full sm:w-auto"
+                >
+                    Download Report as PDF
+                </button>
+                <button
+                    onClick={handleDownloadFormatted}
+                    disabled={!hasAnyResults}
+                    title={`Formatted with the "${exportProfile.name}" export profile`}
+                    className="bg-blue-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed w-full sm:w-auto"
+                >
+                    Download as {EXPORT_FORMAT_LABELS[exportProfile.format]}
+                </button>
+                <button
+                    onClick={() => setIsHl7ExportOpen(true)}
+                    disabled={!hasAnyResults}
+                    className="bg-blue-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed w-full sm:w-auto"
+                >
+                    Export HL7
+                </button>
                 <button
                     onClick={clearAllBatches}
                     disabled={batches.length === 0}
@@ -1767,7 +1954,8 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                     </div>
                     {hasAnyErrors && <ErrorLegend />}
                     {hasAnyResults && (
-                        <div className="flex justify-end mb-4">
+                        <div className="flex justify-end items-center gap-2 mb-4">
+                            <ExportProfileSelect />
                             <button
                                 onClick={handleCopyAllBatches}
                                 className={`text-base font-semibold py-2 px-4 rounded-lg transition-colors ${isAllBatchesCopied ? 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300' : 'bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600'}`}
@@ -1780,7 +1968,12 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                         {batches.filter(b => b.findings || (b.status === 'error' && b.findings === null)).map(batch => (
                              <div key={batch.id} className="border dark:border-slate-700 rounded-lg overflow-hidden">
                                 <button onClick={() => setOpenAccordion(openAccordion === batch.id ? null : batch.id)} className="w-full text-left p-4 bg-slate-100 hover:bg-slate-200 dark:bg-slate-700/50 dark:hover:bg-slate-700 flex justify-between items-center">
-                                    <span className="font-semibold text-slate-800 dark:text-slate-200">{batch.name}</span>
+                                    <span className="flex items-center gap-2 font-semibold text-slate-800 dark:text-slate-200">
+                                        {batch.name}
+                                        {pendingCriticalFor(batch).length > 0 && (
+                                            <span className="text-xs font-bold uppercase tracking-wide py-0.5 px-2 rounded-full bg-red-600 text-white">Critical</span>
+                                        )}
+                                    </span>
                                     <span className={`transition-transform transform ${openAccordion === batch.id ? 'rotate-180' : ''}`}><ChevronDownIcon /></span>
                                 </button>
                                 {openAccordion === batch.id && (
@@ -1794,6 +1987,11 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                                             </div>
                                         ) : batch.findings ? (
                                             <>
+                                                <CriticalResultBanner
+                                                    critical={criticalByBatchId.get(batch.id) ?? []}
+                                                    pending={pendingCriticalFor(batch)}
+                                                    onRecord={() => setCommunicationBatchId(batch.id)}
+                                                />
                                                 <div className="flex justify-between items-center mb-4">
                                                   <div className="flex items-center gap-2">
                                                     <h4 className="text-lg font-bold text-slate-800 dark:text-slate-200">Transcript</h4>
@@ -1831,6 +2029,8 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                                                 <CustomPromptInput 
                                                     prompt={batch.customPrompt}
                                                     onPromptChange={(p) => updateBatchCustomPrompt(batch.id, p)}
+                                                    templateId={batch.templateId}
+                                                    onTemplateChange={(t) => updateBatchTemplate(batch.id, t)}
                                                     className="mb-6"
                                                 />
                                                 <p className="text-slate-600 dark:text-slate-400 mb-6 text-sm">Click any finding to copy it. To select multiple, click the circle on the left. The 'Continue Dictation' button below adds new findings to this batch.</p>
@@ -1854,6 +2054,23 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                                                             Undo
                                                         </button>
                                                     )}
+                                                    {batch.transcript && batch.transcript.length > 0 && (
+                                                        <button
+                                                            onClick={() => handleToggleCorrectionsForBatch(batch.id)}
+                                                            className={`text-sm font-semibold py-1 px-3 rounded-lg transition-colors ${!hiddenCorrectionsBatchIds.has(batch.id) ? 'bg-amber-400 text-amber-900 hover:bg-amber-500' : 'bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600'}`}
+                                                            aria-pressed={!hiddenCorrectionsBatchIds.has(batch.id)}
+                                                            title="Highlight the words the AI changed from what was dictated"
+                                                        >
+                                                            AI Corrections
+                                                        </button>
+                                                    )}
+                                                    <button
+                                                        onClick={() => setVersionHistoryBatchId(batch.id)}
+                                                        className="text-sm font-semibold py-1 px-3 rounded-lg transition-colors flex items-center gap-1.5 bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600"
+                                                    >
+                                                        <HistoryIcon className="w-4 h-4 text-slate-600 dark:text-slate-400" />
+                                                        Versions ({batch.versions?.length ?? 0})
+                                                    </button>
                                                     <button
                                                         onClick={() => handleToggleMergeMode(batch.id)}
                                                         className={`text-sm font-semibold py-1 px-3 rounded-lg transition-colors flex items-center gap-1.5 ${mergeBatchId === batch.id ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600'}`}
@@ -1877,21 +2094,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                                                 </div>
                                                 <div className="space-y-3">
                                                     {batch.findings.map((finding, index) => {
-                                                        const isBold = finding.startsWith('BOLD::');
-                                                        const cleanFinding = isBold ? finding.substring(6) : finding;
-                                                        const isTitle = cleanFinding.trim() === 'C.T.SCAN OF BRAIN (PLAIN)';
-                                                        const { isStructured, title, points } = parseStructuredFinding(cleanFinding);
-                                                        const isItalic = !isStructured && cleanFinding.startsWith('*') && cleanFinding.endsWith('*');
-                                                        const textToDisplay = isItalic ? cleanFinding.slice(1, -1) : isStructured ? title : cleanFinding;
-
-                                                        const textContainerClasses = isTitle
-                                                            ? 'text-center font-bold underline'
-                                                            : isItalic
-                                                            ? 'italic'
-                                                            : isBold
-                                                            ? 'font-bold'
-                                                            : '';
-                                                        
+                                                        const radsSystems = radsSystemsFor(finding, radsContextByBatchId.get(batch.id) ?? '');
                                                         const isSelected = selections[batch.id]?.has(index) ?? false;
                                                         const isEditingThis = editingState?.batchId === batch.id && editingState?.index === index;
                                                         const isDictatingThis = dictatingState?.batchId === batch.id && dictatingState?.index === index;
@@ -1899,13 +2102,18 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                                                         const isProcessingThis = processingState?.batchId === batch.id && processingState?.index === index;
                                                         const hasErrorThis = continuationError?.batchId === batch.id && continuationError?.index === index;
                                                         const isCurrentlyActive = isEditingThis || isDictatingThis || isProcessingThis || hasErrorThis || isDictateEditingThis;
+                                                        const line = parseReportLine(finding, index);
+                                                        const startsMacroExpansion = !!line.macro && (index === 0 || parseReportLine(batch.findings![index - 1]).macro?.expansionId !== line.macro.expansionId);
+                                                        const spokenSegment = hiddenCorrectionsBatchIds.has(batch.id) ? undefined : findTranscriptSegment(batch.transcript, finding);
+                                                        const corrections = spokenSegment ? correctionsInFinding(spokenSegment, finding) : null;
+                                                        const hasCorrections = !!corrections && corrections.some(chunk => chunk.type === 'change');
                                                         
                                                         const isReorderingThisBatch = reorderBatchId === batch.id;
                                                         const isMergingThisBatch = mergeBatchId === batch.id;
                                                         const isDraggingThis = draggedState?.batchId === batch.id && draggedState?.index === index;
                                                         const isDragOverTarget = isMergingThisBatch && dragOverState?.batchId === batch.id && dragOverState?.index === index && draggedState?.index !== index;
                                                         
-                                                        const errorsForThisFinding = batch.identifiedErrors?.filter(e => e.findingIndex === index) || [];
+                                                        const errorsForThisFinding = (errorsByBatchId.get(batch.id) ?? []).filter(e => e.findingIndex === index);
                                                         
                                                         let highestSeverity: IdentifiedError['severity'] | null = null;
                                                         if (errorsForThisFinding.length > 0) {
@@ -1931,9 +2139,6 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                                                             INFO: 'text-sky-400',
                                                         };
 
-                                                        const isImpression = isStructured && title.trim().toUpperCase() === 'IMPRESSION:';
-
-
                                                         return (
                                                             <div
                                                                 key={`${batch.id}-${index}`}
@@ -2016,25 +2221,17 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                                                                 ) : (
                                                                     <>
                                                                         <div
-                                                                            className={`text-slate-700 dark:text-slate-200 whitespace-pre-wrap ${!isCurrentlyActive && !isReorderingThisBatch && !isMergingThisBatch ? 'cursor-pointer' : 'cursor-default'} ${textContainerClasses}`}
+                                                                            className={`text-slate-700 dark:text-slate-200 whitespace-pre-wrap ${!isCurrentlyActive && !isReorderingThisBatch && !isMergingThisBatch ? 'cursor-pointer' : 'cursor-default'} ${line.macro ? 'border-l-2 border-violet-300 dark:border-violet-700 pl-2' : ''}`}
                                                                         >
-                                                                            {isImpression ? (
-                                                                                <>
-                                                                                    <span className="font-bold underline uppercase">{title}</span>
-                                                                                    <ul className="list-disc list-inside pl-4 mt-1">
-                                                                                        {points.map((point, i) => (
-                                                                                            <li key={i} className="font-bold">${point}</li>
-                                                                                        ))}
-                                                                                    </ul>
-                                                                                </>
-                                                                            ) : isStructured ? (
-                                                                              <>
-                                                                                <span>{title}</span>
-                                                                                {points.map((point, i) => (<span key={i} className="block">{point}</span>))}
-                                                                              </>
+                                                                            {hasCorrections && !isReorderingThisBatch && !isMergingThisBatch ? (
+                                                                                <CorrectedLineView chunks={corrections!} onRevert={(change) => handleRevertCorrectionForBatch(batch.id, index, corrections!, change)} />
                                                                             ) : (
-                                                                              textToDisplay
+                                                                                <ReportLineView line={line} />
+                                                                            )}
+                                                                            {startsMacroExpansion && line.macro && (
+                                                                                <MacroBadge spoken={line.macro.spoken} onRevert={() => handleRevertMacroForBatch(batch.id, index)} />
                                                                             )}
+                                                                            <RelatedFindingLinks errors={errorsForThisFinding} findings={batch.findings!} />
                                                                         </div>
                                                                         {isDictatingThis ? (
                                                                             <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-2 bg-white dark:bg-slate-800 p-1 rounded-full shadow-lg border border-slate-200 dark:border-slate-700">
@@ -2074,6 +2271,11 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                                                                                  <button onClick={() => handleStartDictateEditForBatch(batch.id, index)} aria-label="Dictate changes" className="p-1 text-slate-600 dark:text-slate-300 hover:text-blue-600 dark:hover:text-blue-400 rounded-full hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors">
                                                                                     <MicPencilIcon />
                                                                                 </button>
+                                                                                {radsSystems.length > 0 && (
+                                                                                    <button onClick={() => setScoringState({ batchId: batch.id, index })} aria-label="Score with a classification system" title={radsSystems.join(', ')} className="p-1 text-slate-600 dark:text-slate-300 hover:text-blue-600 dark:hover:text-blue-400 rounded-full hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors">
+                                                                                        <CalculatorIcon />
+                                                                                    </button>
+                                                                                )}
                                                                             </div>
                                                                         )}
                                                                     </>
@@ -2270,6 +2472,30 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({ onBack, selected
                      </div>
                 </div>
             )}
+            <VersionHistoryModal
+                isOpen={!!versionHistoryBatch}
+                onClose={() => setVersionHistoryBatchId(null)}
+                versions={versionHistoryBatch?.versions ?? []}
+                onRestore={(version) => versionHistoryBatch && handleRestoreVersion(versionHistoryBatch.id, version)}
+            />
+            <CriticalCommunicationModal
+                isOpen={!!communicationBatch}
+                onClose={() => setCommunicationBatchId(null)}
+                labels={communicationBatch ? uniqueLabels(pendingCriticalFor(communicationBatch)) : []}
+                onSave={(sentence) => communicationBatch && handleAddCommunicationForBatch(communicationBatch.id, sentence)}
+            />
+            <RadsScoringModal
+                findings={scoringBatch?.findings ?? []}
+                findingIndex={scoringBatch?.findings ? scoringState!.index : null}
+                onClose={() => setScoringState(null)}
+                onAddToFinding={(index, sentence) => scoringBatch && handleAddRadsToFindingForBatch(scoringBatch.id, index, sentence)}
+                onAddToImpression={(sentence) => scoringBatch && handleAddRadsToImpressionForBatch(scoringBatch.id, sentence)}
+            />
+            <Hl7ExportModal
+                isOpen={isHl7ExportOpen}
+                reports={batches.flatMap(b => (b.findings && b.findings.length > 0 ? [{ id: b.id, name: b.name, findings: b.findings }] : []))}
+                onClose={() => setIsHl7ExportOpen(false)}
+            />
         </div>
     );
 };
@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { CommunicationMethod, CriticalCommunication } from '../types';
+import { COMMUNICATION_METHOD_LABELS, communicationSentence } from '../services/criticalFindings';
+import CloseIcon from './icons/CloseIcon';
+
+interface CriticalCommunicationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Critical results the note covers.
+  labels: string[];
+  // Receives the standard sentence to append to the report.
+  onSave: (sentence: string) => void;
+}
+
+const inputClassName = "w-full p-1.5 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-900 dark:text-white dark:border-slate-600";
+
+// Value for a datetime-local input, which takes local time without a zone.
+const toLocalInputValue = (at: number): string => {
+  const date = new Date(at);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const CriticalCommunicationModal: React.FC<CriticalCommunicationModalProps> = ({ isOpen, onClose, labels, onSave }) => {
+  const [recipient, setRecipient] = useState('');
+  const [when, setWhen] = useState('');
+  const [method, setMethod] = useState<CommunicationMethod>('telephone');
+  const [readBack, setReadBack] = useState(true);
+
+  // The time defaults to when the dialog opens, which is usually just after the call.
+  useEffect(() => {
+    if (isOpen) {
+      setRecipient('');
+      setWhen(toLocalInputValue(Date.now()));
+      setMethod('telephone');
+      setReadBack(true);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const at = new Date(when).getTime();
+  const isComplete = recipient.trim() !== '' && Number.isFinite(at);
+  const communication: CriticalCommunication = { recipient, at, method, readBack };
+  const sentence = isComplete ? communicationSentence(labels, communication) : '';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="critical-communication-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-lg flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="critical-communication-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              Record Critical Result Communication
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {labels.join(', ')}. The note is added to the end of the report as a standard sentence.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close critical result communication">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!isComplete) return;
+            onSave(sentence);
+            onClose();
+          }}
+          className="overflow-y-auto p-4 space-y-4"
+        >
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+            Who was informed
+            <input
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+              placeholder="e.g. Dr A Smith (ED registrar)"
+              className={`${inputClassName} mt-1`}
+              autoFocus
+              required
+            />
+          </label>
+          <div className="flex flex-col sm:flex-row gap-4">
+            <label className="block flex-1 text-sm font-medium text-slate-700 dark:text-slate-300">
+              When
+              <input type="datetime-local" value={when} onChange={(e) => setWhen(e.target.value)} className={`${inputClassName} mt-1`} required />
+            </label>
+            <label className="block flex-1 text-sm font-medium text-slate-700 dark:text-slate-300">
+              How
+              <select value={method} onChange={(e) => setMethod(e.target.value as CommunicationMethod)} className={`${inputClassName} mt-1`}>
+                {(Object.keys(COMMUNICATION_METHOD_LABELS) as CommunicationMethod[]).map(key => (
+                  <option key={key} value={key}>{COMMUNICATION_METHOD_LABELS[key]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+            <input type="checkbox" checked={readBack} onChange={(e) => setReadBack(e.target.checked)} />
+            The result was read back and confirmed
+          </label>
+
+          <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50 text-sm text-slate-700 dark:text-slate-200">
+            {sentence || <span className="text-slate-400">Enter who was informed and when to preview the sentence.</span>}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={onClose} className="text-sm font-semibold py-1.5 px-3 rounded-lg bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-600 dark:text-slate-300 dark:hover:bg-slate-500">Cancel</button>
+            <button type="submit" disabled={!isComplete} className="text-sm font-semibold py-1.5 px-3 rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed">Add to Report</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CriticalCommunicationModal;
@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { ExportFormat, ExportProfile } from '../types';
+import {
+  DEFAULT_EXPORT_PROFILES,
+  EXPORT_FORMAT_LABELS,
+  createExportProfile,
+  getActiveExportProfile,
+  loadExportProfiles,
+  renderFindings,
+  saveExportProfiles,
+  setActiveExportProfile,
+  validateExportProfile,
+} from '../services/exportProfiles';
+import CloseIcon from './icons/CloseIcon';
+import TrashIcon from './icons/TrashIcon';
+
+interface ExportProfilesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full p-1.5 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-900 dark:text-white dark:border-slate-600";
+
+const PREVIEW_FINDINGS = [
+  'TITLE::CT Abdomen and Pelvis',
+  '*Clinical Profile: Right iliac fossa pain.*',
+  'BOLD::The appendix is dilated to 11 mm with periappendiceal fat stranding.',
+  'No free fluid or collection.',
+  'IMPRESSION:###Acute appendicitis.###No collection.',
+];
+
+const OPTIONS: { key: 'uppercaseHeadings' | 'numberedImpression' | 'blankLines' | 'keepEmphasis'; label: string }[] = [
+  { key: 'uppercaseHeadings', label: 'Uppercase headings' },
+  { key: 'numberedImpression', label: 'Numbered impression' },
+  { key: 'blankLines', label: 'Blank line between findings' },
+  { key: 'keepEmphasis', label: 'Bold and italics' },
+];
+
+const ExportProfilesModal: React.FC<ExportProfilesModalProps> = ({ isOpen, onClose }) => {
+  const [profiles, setProfiles] = useState<ExportProfile[]>([]);
+  const [activeId, setActiveId] = useState('');
+  const [previewId, setPreviewId] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      const active = getActiveExportProfile();
+      setProfiles(loadExportProfiles());
+      setActiveId(active.id);
+      setPreviewId(active.id);
+      setError('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateProfile = (id: string, changes: Partial<ExportProfile>) => {
+    setProfiles(prev => prev.map(profile => (profile.id === id ? { ...profile, ...changes } : profile)));
+    setPreviewId(id);
+    setError('');
+  };
+
+  const handleAdd = () => {
+    const profile = createExportProfile();
+    setProfiles(prev => [...prev, profile]);
+    setPreviewId(profile.id);
+  };
+
+  const handleSave = () => {
+    if (profiles.length === 0) {
+      setError('Keep at least one profile.');
+      return;
+    }
+    for (const profile of profiles) {
+      const problem = validateExportProfile(profile, profiles);
+      if (problem) {
+        setError(problem);
+        return;
+      }
+    }
+    saveExportProfiles(profiles.map(profile => ({ ...profile, name: profile.name.trim() })));
+    setActiveExportProfile(profiles.some(profile => profile.id === activeId) ? activeId : profiles[0].id);
+    onClose();
+  };
+
+  const handleResetDefaults = () => {
+    if (window.confirm('Replace your export profiles with the default set?')) {
+      setProfiles(DEFAULT_EXPORT_PROFILES.map(profile => ({ ...profile })));
+      setActiveId(DEFAULT_EXPORT_PROFILES[0].id);
+      setPreviewId(DEFAULT_EXPORT_PROFILES[0].id);
+    }
+  };
+
+  const previewProfile = profiles.find(profile => profile.id === previewId) ?? profiles[0];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="export-profiles-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-3xl flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="export-profiles-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              Export Profiles
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              How copied and downloaded reports are formatted for each destination. The selected profile is used by Copy, Copy All and the formatted download. RTF profiles copy as rich text, since browsers cannot put RTF on the clipboard, and download as .rtf.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close export profiles">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        <div className="overflow-y-auto p-4 space-y-3">
+          {profiles.map(profile => (
+            <div
+              key={profile.id}
+              className={`p-3 rounded-lg border bg-slate-50 dark:bg-slate-700/50 space-y-2 ${profile.id === previewId ? 'border-blue-400 dark:border-blue-500' : 'dark:border-slate-700'}`}
+              onFocus={() => setPreviewId(profile.id)}
+            >
+              <div className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="active-export-profile"
+                  checked={profile.id === activeId}
+                  onChange={() => setActiveId(profile.id)}
+                  aria-label={`Use ${profile.name || 'this profile'}`}
+                  title="Use this profile"
+                />
+                <input
+                  value={profile.name}
+                  onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                  placeholder='Profile name, e.g. "RIS text box"'
+                  className={`${inputClassName} font-semibold`}
+                  aria-label="Profile name"
+                />
+                <select
+                  value={profile.format}
+                  onChange={(e) => updateProfile(profile.id, { format: e.target.value as ExportFormat })}
+                  className={`${inputClassName} w-36 flex-shrink-0`}
+                  aria-label="Format"
+                >
+                  {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                    <option key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setProfiles(prev => prev.filter(p => p.id !== profile.id))}
+                  className="p-1 rounded text-slate-500 hover:text-red-600 hover:bg-slate-200 dark:hover:bg-slate-700"
+                  aria-label={`Delete ${profile.name || 'profile'}`}
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-slate-700 dark:text-slate-300 pl-6">
+                {OPTIONS.map(({ key, label }) => (
+                  <label key={key} className="flex items-center gap-1.5">
+                    <input type="checkbox" checked={profile[key]} onChange={(e) => updateProfile(profile.id, { [key]: e.target.checked })} />
+                    {label}
+                  </label>
+                ))}
+                {profile.format === 'plain' && !profile.numberedImpression && (
+                  <label className="flex items-center gap-1.5">
+                    Bullet
+                    <input
+                      value={profile.bullet}
+                      onChange={(e) => updateProfile(profile.id, { bullet: e.target.value })}
+                      className={`${inputClassName} w-12 text-center`}
+                      maxLength={3}
+                    />
+                  </label>
+                )}
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={handleAdd}
+            className="text-sm font-medium py-1.5 px-3 rounded-lg bg-blue-100 text-blue-800 hover:bg-blue-200 dark:bg-blue-900/50 dark:text-blue-300 dark:hover:bg-blue-900/80"
+          >
+            + Add Profile
+          </button>
+
+          {previewProfile && (
+            <section>
+              <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">
+                Preview: {previewProfile.name || 'Untitled profile'}
+              </h3>
+              {(previewProfile.format === 'html' || previewProfile.format === 'rtf') && (
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">Pasted as rich text where the destination accepts it; this is the plain-text form.</p>
+              )}
+              <pre className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900 text-xs text-slate-700 dark:text-slate-300 whitespace-pre-wrap">
+                {renderFindings(PREVIEW_FINDINGS, previewProfile).text}
+              </pre>
+            </section>
+          )}
+        </div>
+
+        <footer className="p-4 border-t dark:border-slate-700 flex items-center gap-2 flex-shrink-0">
+          <button onClick={handleResetDefaults} className="text-sm text-slate-600 hover:underline dark:text-slate-300">Reset to defaults</button>
+          {error && <p className="text-sm text-red-500 flex-grow text-center">{error}</p>}
+          <div className="ml-auto flex gap-2">
+            <button onClick={onClose} className="text-sm font-semibold py-1.5 px-4 rounded-lg bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600">Cancel</button>
+            <button onClick={handleSave} className="text-sm font-semibold py-1.5 px-4 rounded-lg bg-blue-600 text-white hover:bg-blue-700">Save Profiles</button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ExportProfilesModal;
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import {
+  FHIR_MIME_TYPE,
+  FhirBundle,
+  FhirExportDetails,
+  FhirSettings,
+  buildDiagnosticReportBundle,
+  loadFhirSettings,
+  postBundle,
+  saveFhirSettings,
+} from '../services/fhir';
+import CloseIcon from './icons/CloseIcon';
+
+interface FhirExportModalProps {
+  isOpen: boolean;
+  findings: string[];
+  onClose: () => void;
+}
+
+const inputClassName = "w-full p-1.5 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-900 dark:text-white dark:border-slate-600";
+const labelClassName = "block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1";
+
+// The embedded HTML and PDF are long base64 strings; the preview shows their size instead.
+const previewJson = (bundle: FhirBundle): string =>
+  JSON.stringify(bundle, (key, value) => (key === 'data' && typeof value === 'string' ? `<${value.length} characters of base64>` : value), 2);
+
+const FhirExportModal: React.FC<FhirExportModalProps> = ({ isOpen, findings, onClose }) => {
+  const [settings, setSettings] = useState<FhirSettings>(loadFhirSettings);
+  const [details, setDetails] = useState<FhirExportDetails>({ patientId: '', accessionNumber: '' });
+  const [bundle, setBundle] = useState<FhirBundle | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSettings(loadFhirSettings());
+    setDetails({ patientId: '', accessionNumber: '' });
+    setStatus(null);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let isCurrent = true;
+    setBundle(null);
+    buildDiagnosticReportBundle(findings, details)
+      .then(built => {
+        if (isCurrent) setBundle(built);
+      })
+      .catch(err => {
+        console.error('Failed to build FHIR bundle:', err);
+        if (isCurrent) setStatus({ text: 'Failed to build the FHIR bundle.', isError: true });
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [isOpen, findings, details]);
+
+  if (!isOpen) return null;
+
+  const updateSettings = (changes: Partial<FhirSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveFhirSettings(next);
+  };
+
+  const updateDetails = (changes: Partial<FhirExportDetails>) => {
+    setDetails(prev => ({ ...prev, ...changes }));
+    setStatus(null);
+  };
+
+  const handleDownload = () => {
+    if (!bundle) return;
+    try {
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: FHIR_MIME_TYPE });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      document.body.appendChild(a);
+      a.style.display = 'none';
+      a.href = url;
+      a.download = 'radiology-report.fhir.json';
+      a.click();
+      window.URL.revokeObjectURL(url);
+      a.remove();
+    } catch (err) {
+      console.error('Failed to create FHIR file:', err);
+      setStatus({ text: 'Failed to create FHIR file.', isError: true });
+    }
+  };
+
+  const handleSend = async () => {
+    if (!bundle) return;
+    setIsSending(true);
+    setStatus(null);
+    try {
+      const location = await postBundle(bundle, settings);
+      setStatus({ text: location ? `Created ${location}.` : 'The server accepted the bundle.', isError: false });
+    } catch (err) {
+      console.error('Failed to send FHIR bundle:', err);
+      setStatus({ text: `Failed to send: ${err instanceof Error ? err.message : String(err)}`, isError: true });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const measurementCount = Math.max(0, (bundle?.entry?.length ?? 1) - 1);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="fhir-export-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-3xl flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="fhir-export-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              FHIR Export
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              A FHIR R4 transaction bundle: a DiagnosticReport with the impression as its conclusion and the report as HTML and PDF, plus an Observation for each measurement.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close FHIR export">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        <div className="overflow-y-auto p-4 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="fhir-patient-id" className={labelClassName}>Patient ID (optional)</label>
+              <input id="fhir-patient-id" value={details.patientId} onChange={(e) => updateDetails({ patientId: e.target.value })} className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="fhir-accession" className={labelClassName}>Accession number (optional)</label>
+              <input id="fhir-accession" value={details.accessionNumber} onChange={(e) => updateDetails({ accessionNumber: e.target.value })} className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="fhir-base-url" className={labelClassName}>FHIR base URL</label>
+              <input id="fhir-base-url" value={settings.baseUrl} onChange={(e) => updateSettings({ baseUrl: e.target.value })} placeholder="e.g. http://localhost:8080/fhir" className={inputClassName} />
+            </div>
+          </div>
+
+          {bundle ? (
+            <>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {measurementCount === 0 ? 'No measurements were found in the report.' : `${measurementCount} measurement${measurementCount === 1 ? '' : 's'} included as Observation resources.`}
+              </p>
+              <pre className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900 text-xs text-slate-700 dark:text-slate-300 overflow-x-auto max-h-96">
+                {previewJson(bundle)}
+              </pre>
+            </>
+          ) : (
+            <p className="text-sm text-slate-500 dark:text-slate-400">Building the bundle...</p>
+          )}
+        </div>
+
+        <footer className="p-4 border-t dark:border-slate-700 flex flex-wrap justify-end items-center gap-2 flex-shrink-0">
+          {status && (
+            <p className={`text-sm mr-auto ${status.isError ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-400'}`}>{status.text}</p>
+          )}
+          <button
+            onClick={handleDownload}
+            disabled={!bundle}
+            className="text-sm font-semibold py-1.5 px-3 rounded-lg bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-slate-600 dark:text-slate-300 dark:hover:bg-slate-500"
+          >
+            Download JSON
+          </button>
+          <button
+            onClick={handleSend}
+            disabled={!bundle || isSending || !settings.baseUrl.trim()}
+            title={settings.baseUrl.trim() ? undefined : 'Set a FHIR base URL first'}
+            className="text-sm font-semibold py-1.5 px-3 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed"
+          >
+            {isSending ? 'Sending...' : 'Send to FHIR Server'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default FhirExportModal;
@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { HistoryEntry, HistorySource } from '../types';
+import {
+  HistorySettings,
+  clearHistory,
+  deleteHistoryEntry,
+  listHistoryEntries,
+  loadHistorySettings,
+  purgeHistory,
+  saveHistorySettings,
+  searchHistoryEntries,
+} from '../services/historyStore';
+import { findingToPlainText } from '../services/reportModel';
+import CloseIcon from './icons/CloseIcon';
+import TrashIcon from './icons/TrashIcon';
+import SearchIcon from './icons/SearchIcon';
+import Spinner from './ui/Spinner';
+
+interface HistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenEntry: (entry: HistoryEntry) => void;
+}
+
+const SOURCE_LABELS: Record<HistorySource, string> = {
+  single: 'Recording',
+  live: 'Live',
+  batch: 'Batch',
+};
+
+const RETENTION_OPTIONS = [
+  { value: 0, label: 'Forever' },
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 365, label: '1 year' },
+];
+
+const MAX_ENTRY_OPTIONS = [
+  { value: 0, label: 'No limit' },
+  { value: 100, label: '100 reports' },
+  { value: 500, label: '500 reports' },
+  { value: 1000, label: '1000 reports' },
+];
+
+const selectClassName = "p-1.5 border border-slate-300 rounded-md text-sm bg-white text-slate-900 dark:bg-slate-900 dark:text-white dark:border-slate-600";
+
+const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, onOpenEntry }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [settings, setSettings] = useState<HistorySettings>(loadHistorySettings);
+  const [error, setError] = useState('');
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await listHistoryEntries());
+      setError('');
+    } catch (err) {
+      console.error("Failed to load history:", err);
+      setError(err instanceof Error ? err.message : 'Could not load the report history.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSearchTerm('');
+      setSettings(loadHistorySettings());
+      refresh();
+    }
+  }, [isOpen, refresh]);
+
+  if (!isOpen) return null;
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!window.confirm(`Delete "${entry.name}" from history? This cannot be undone.`)) return;
+    try {
+      await deleteHistoryEntry(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (err) {
+      console.error("Failed to delete history entry:", err);
+      setError('Could not delete the report.');
+    }
+  };
+
+  const handleClearAll = async () => {
+    if (!window.confirm('Delete every report in history? This cannot be undone.')) return;
+    try {
+      await clearHistory();
+      setEntries([]);
+    } catch (err) {
+      console.error("Failed to clear history:", err);
+      setError('Could not clear the history.');
+    }
+  };
+
+  const handleSettingsChange = async (changes: Partial<HistorySettings>) => {
+    const next = { ...settings, ...changes };
+    const removesReports = (next.retentionDays && (!settings.retentionDays || next.retentionDays < settings.retentionDays))
+      || (next.maxEntries && (!settings.maxEntries || next.maxEntries < settings.maxEntries));
+    if (removesReports && !window.confirm('Reports outside the new limit will be deleted now. Continue?')) return;
+    setSettings(next);
+    saveHistorySettings(next);
+    try {
+      await purgeHistory(next);
+      await refresh();
+    } catch (err) {
+      console.error("Failed to apply history retention:", err);
+      setError('Could not apply the retention setting.');
+    }
+  };
+
+  const visibleEntries = searchHistoryEntries(entries, searchTerm);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="history-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-3xl flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="history-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              Report History
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Every completed report is kept on this device, including its audio and images.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close history">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        <div className="p-4 border-b dark:border-slate-700 flex-shrink-0">
+          <div className="relative">
+            <SearchIcon className="w-4 h-4 absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search findings, prompts and chats..."
+              className="w-full p-2 pl-8 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-900 dark:text-white dark:border-slate-600"
+              autoFocus
+            />
+          </div>
+        </div>
+
+        <div className="overflow-y-auto p-4 flex-grow">
+          {isLoading ? (
+            <div className="flex justify-center py-8"><Spinner className="w-6 h-6" /></div>
+          ) : visibleEntries.length === 0 ? (
+            <p className="text-center text-slate-500 dark:text-slate-400 py-8">
+              {entries.length === 0 ? 'No reports yet. Completed reports appear here automatically.' : 'No reports match your search.'}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {visibleEntries.map(entry => (
+                <li key={entry.id} className="p-3 rounded-lg border dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50 flex items-start gap-3">
+                  <div className="flex-grow min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-semibold text-slate-800 dark:text-slate-100 truncate">{entry.name}</span>
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300">{SOURCE_LABELS[entry.source]}</span>
+                      {entry.audio && <span className="text-xs text-slate-400">audio</span>}
+                      {entry.images.length > 0 && <span className="text-xs text-slate-400">{entry.images.length} image{entry.images.length === 1 ? '' : 's'}</span>}
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {new Date(entry.updatedAt).toLocaleString()} &middot; {entry.model}
+                    </p>
+                    <p className="text-sm text-slate-600 dark:text-slate-300 mt-1 line-clamp-2">
+                      {entry.findings.map(findingToPlainText).join(' ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => onOpenEntry(entry)}
+                      className="text-sm font-semibold py-1 px-3 rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+                    >
+                      Open
+                    </button>
+                    <button
+                      onClick={() => handleDelete(entry)}
+                      className="p-1.5 rounded text-slate-500 hover:text-red-600 hover:bg-slate-200 dark:hover:bg-slate-700"
+                      aria-label={`Delete ${entry.name}`}
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <footer className="p-4 border-t dark:border-slate-700 flex flex-wrap items-center gap-3 flex-shrink-0 text-sm">
+          <label className="flex items-center gap-2 text-slate-600 dark:text-slate-300">
+            Keep reports
+            <select value={settings.retentionDays} onChange={(e) => handleSettingsChange({ retentionDays: Number(e.target.value) })} className={selectClassName}>
+              {RETENTION_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-slate-600 dark:text-slate-300">
+            Keep at most
+            <select value={settings.maxEntries} onChange={(e) => handleSettingsChange({ maxEntries: Number(e.target.value) })} className={selectClassName}>
+              {MAX_ENTRY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+          {error && <p className="text-red-500">{error}</p>}
+          <button
+            onClick={handleClearAll}
+            disabled={entries.length === 0}
+            className="ml-auto text-red-600 hover:underline disabled:opacity-40 disabled:no-underline dark:text-red-400"
+          >
+            Delete all history
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryModal;
@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  HL7_MIME_TYPE,
+  Hl7Order,
+  Hl7Settings,
+  buildOruMessage,
+  createControlId,
+  hasHl7Errors,
+  loadHl7Settings,
+  saveHl7Settings,
+  sendHl7Message,
+  validateHl7Message,
+} from '../services/hl7Export';
+import { parseReport } from '../services/reportModel';
+import CloseIcon from './icons/CloseIcon';
+
+export interface Hl7ExportReport {
+  id: string;
+  name: string;
+  findings: string[];
+}
+
+interface Hl7ExportModalProps {
+  isOpen: boolean;
+  // One message is built for each report; in batch mode that is one per batch.
+  reports: Hl7ExportReport[];
+  onClose: () => void;
+}
+
+const inputClassName = "w-full p-1.5 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-900 dark:text-white dark:border-slate-600";
+const labelClassName = "block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1";
+
+const ORDER_FIELDS: { key: keyof Hl7Order; label: string }[] = [
+  { key: 'accessionNumber', label: 'Accession number' },
+  { key: 'patientId', label: 'Patient ID (MRN)' },
+  { key: 'procedureCode', label: 'Procedure code' },
+  { key: 'procedureName', label: 'Procedure name' },
+];
+
+const Hl7ExportModal: React.FC<Hl7ExportModalProps> = ({ isOpen, reports, onClose }) => {
+  const [settings, setSettings] = useState<Hl7Settings>(loadHl7Settings);
+  const [orders, setOrders] = useState<Record<string, Hl7Order>>({});
+  // Fixed while the modal is open so the preview is exactly what gets downloaded or sent.
+  const [controlIds, setControlIds] = useState<Record<string, string>>({});
+  const [createdAt, setCreatedAt] = useState(Date.now());
+  const [isSending, setIsSending] = useState(false);
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+
+  // Order details start blank each time, except the procedure name, which defaults to the report title.
+  useEffect(() => {
+    if (!isOpen) return;
+    setSettings(loadHl7Settings());
+    setOrders(Object.fromEntries(reports.map(report => [
+      report.id,
+      { accessionNumber: '', patientId: '', procedureCode: '', procedureName: parseReport(report.findings).title ?? '' },
+    ])));
+    setControlIds(Object.fromEntries(reports.map(report => [report.id, createControlId()])));
+    setCreatedAt(Date.now());
+    setStatus(null);
+  }, [isOpen]);
+
+  const messages = useMemo(() => reports
+    .filter(report => orders[report.id] && controlIds[report.id])
+    .map(report => {
+      const message = buildOruMessage(report.findings, orders[report.id], settings, controlIds[report.id], createdAt);
+      return { report, message, issues: validateHl7Message(message) };
+    }), [reports, orders, settings, controlIds, createdAt]);
+
+  if (!isOpen) return null;
+
+  const hasErrors = messages.some(({ issues }) => hasHl7Errors(issues));
+
+  const updateSettings = (changes: Partial<Hl7Settings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveHl7Settings(next);
+  };
+
+  const updateOrder = (id: string, changes: Partial<Hl7Order>) => {
+    setOrders(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+    setStatus(null);
+  };
+
+  const handleDownload = () => {
+    try {
+      const blob = new Blob([messages.map(({ message }) => message).join('\r')], { type: HL7_MIME_TYPE });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      document.body.appendChild(a);
+      a.style.display = 'none';
+      a.href = url;
+      a.download = reports.length > 1 ? 'batch-radiology-report.hl7' : 'radiology-report.hl7';
+      a.click();
+      window.URL.revokeObjectURL(url);
+      a.remove();
+    } catch (err) {
+      console.error('Failed to create HL7 file:', err);
+      setStatus({ text: 'Failed to create HL7 file.', isError: true });
+    }
+  };
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setStatus(null);
+    let sent = 0;
+    try {
+      for (const { message } of messages) {
+        await sendHl7Message(message, settings);
+        sent++;
+      }
+      setStatus({ text: `Sent ${sent} message${sent === 1 ? '' : 's'}.`, isError: false });
+    } catch (err) {
+      console.error('Failed to send HL7 message:', err);
+      const reason = err instanceof Error ? err.message : String(err);
+      setStatus({ text: `${sent > 0 ? `Sent ${sent} of ${messages.length} messages, then failed: ` : 'Failed to send: '}${reason}`, isError: true });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="hl7-export-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-3xl flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="hl7-export-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              HL7 Export
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Builds an HL7 v2.5.1 ORU^R01 result message{reports.length > 1 ? ' for each batch' : ''}. Check the preview before downloading or sending.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close HL7 export">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        <div className="overflow-y-auto p-4 space-y-5">
+          <details className="rounded-lg border dark:border-slate-700">
+            <summary className="px-3 py-2 text-sm font-semibold text-slate-700 dark:text-slate-300 cursor-pointer">Connection settings</summary>
+            <div className="p-3 pt-1 grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="hl7-sending-app" className={labelClassName}>Sending application</label>
+                <input id="hl7-sending-app" value={settings.sendingApplication} onChange={(e) => updateSettings({ sendingApplication: e.target.value })} className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="hl7-sending-facility" className={labelClassName}>Sending facility</label>
+                <input id="hl7-sending-facility" value={settings.sendingFacility} onChange={(e) => updateSettings({ sendingFacility: e.target.value })} className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="hl7-receiving-app" className={labelClassName}>Receiving application</label>
+                <input id="hl7-receiving-app" value={settings.receivingApplication} onChange={(e) => updateSettings({ receivingApplication: e.target.value })} placeholder="e.g. RIS" className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="hl7-receiving-facility" className={labelClassName}>Receiving facility</label>
+                <input id="hl7-receiving-facility" value={settings.receivingFacility} onChange={(e) => updateSettings({ receivingFacility: e.target.value })} className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="hl7-processing-id" className={labelClassName}>Processing ID</label>
+                <select id="hl7-processing-id" value={settings.processingId} onChange={(e) => updateSettings({ processingId: e.target.value as Hl7Settings['processingId'] })} className={inputClassName}>
+                  <option value="P">P (production)</option>
+                  <option value="T">T (training)</option>
+                  <option value="D">D (debugging)</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="hl7-transport" className={labelClassName}>Transport</label>
+                <select id="hl7-transport" value={settings.transport} onChange={(e) => updateSettings({ transport: e.target.value as Hl7Settings['transport'] })} className={inputClassName}>
+                  <option value="http">HTTP POST</option>
+                  <option value="mllp">MLLP-framed, via a local HTTP bridge</option>
+                </select>
+              </div>
+              <div className="sm:col-span-2">
+                <label htmlFor="hl7-endpoint" className={labelClassName}>Endpoint URL</label>
+                <input id="hl7-endpoint" value={settings.endpointUrl} onChange={(e) => updateSettings({ endpointUrl: e.target.value })} placeholder="e.g. http://localhost:8080/hl7" className={inputClassName} />
+              </div>
+            </div>
+          </details>
+
+          {messages.map(({ report, message, issues }) => (
+            <section key={report.id} className="space-y-3">
+              {reports.length > 1 && <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">{report.name}</h3>}
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {ORDER_FIELDS.map(({ key, label }) => (
+                  <div key={key}>
+                    <label htmlFor={`hl7-${report.id}-${key}`} className={labelClassName}>{label}</label>
+                    <input
+                      id={`hl7-${report.id}-${key}`}
+                      value={orders[report.id][key]}
+                      onChange={(e) => updateOrder(report.id, { [key]: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                ))}
+              </div>
+              <pre className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900 text-xs text-slate-700 dark:text-slate-300 overflow-x-auto whitespace-pre">
+                {message.split('\r').join('\n')}
+              </pre>
+              {issues.length === 0 ? (
+                <p className="text-xs text-green-700 dark:text-green-400">The message is valid.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {issues.map((issue, index) => (
+                    <li key={index} className={`text-xs ${issue.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-amber-700 dark:text-amber-400'}`}>
+                      <span className="font-mono font-semibold">{issue.location}</span>: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          ))}
+        </div>
+
+        <footer className="p-4 border-t dark:border-slate-700 flex flex-wrap justify-end items-center gap-2 flex-shrink-0">
+          {status && (
+            <p className={`text-sm mr-auto ${status.isError ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-400'}`}>{status.text}</p>
+          )}
+          <button
+            onClick={handleDownload}
+            disabled={hasErrors || messages.length === 0}
+            className="text-sm font-semibold py-1.5 px-3 rounded-lg bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-slate-600 dark:text-slate-300 dark:hover:bg-slate-500"
+          >
+            Download .hl7
+          </button>
+          <button
+            onClick={handleSend}
+            disabled={hasErrors || messages.length === 0 || isSending || !settings.endpointUrl.trim()}
+            title={settings.endpointUrl.trim() ? undefined : 'Set an endpoint URL in the connection settings first'}
+            className="text-sm font-semibold py-1.5 px-3 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed"
+          >
+            {isSending ? 'Sending...' : 'Send to Endpoint'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default Hl7ExportModal;
@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { DictationMacro } from '../types';
+import { DEFAULT_MACROS, createMacro, loadMacros, macroPlaceholders, saveMacros, validateMacro } from '../services/macros';
+import CloseIcon from './icons/CloseIcon';
+import TrashIcon from './icons/TrashIcon';
+
+interface MacrosModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full p-1.5 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-900 dark:text-white dark:border-slate-600";
+
+const MacrosModal: React.FC<MacrosModalProps> = ({ isOpen, onClose }) => {
+  const [macros, setMacros] = useState<DictationMacro[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setMacros(loadMacros());
+      setError('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateMacro = (id: string, changes: Partial<DictationMacro>) => {
+    setMacros(prev => prev.map(macro => (macro.id === id ? { ...macro, ...changes } : macro)));
+    setError('');
+  };
+
+  const handleSave = () => {
+    for (const macro of macros) {
+      const problem = validateMacro(macro, macros);
+      if (problem) {
+        setError(problem);
+        return;
+      }
+    }
+    saveMacros(macros.map(macro => ({ ...macro, trigger: macro.trigger.trim() })));
+    onClose();
+  };
+
+  const handleResetDefaults = () => {
+    if (window.confirm('Replace your macros with the default set?')) {
+      setMacros(DEFAULT_MACROS.map(macro => ({ ...macro })));
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="macros-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-3xl flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="macros-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              Dictation Macros
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Say a trigger phrase to insert its text. Use {'{placeholders}'} such as {'{side}'} or {'{size}'} for values you dictate with it, e.g. &ldquo;normal kidney, left, 10 cm&rdquo;. Put each finding on its own line.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close macros">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        <div className="overflow-y-auto p-4 space-y-3">
+          {macros.length === 0 && (
+            <p className="text-center text-slate-500 dark:text-slate-400 py-4">No macros. Add one below.</p>
+          )}
+          {macros.map(macro => {
+            const placeholders = macroPlaceholders(macro.expansion);
+            return (
+              <div key={macro.id} className="p-3 rounded-lg border dark:border-slate-700 bg-slate-50 dark:bg-slate-700/50 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    value={macro.trigger}
+                    onChange={(e) => updateMacro(macro.id, { trigger: e.target.value })}
+                    placeholder='Trigger phrase, e.g. "normal chest"'
+                    className={`${inputClassName} font-semibold`}
+                    aria-label="Trigger phrase"
+                  />
+                  <button
+                    onClick={() => setMacros(prev => prev.filter(m => m.id !== macro.id))}
+                    className="p-1 rounded text-slate-500 hover:text-red-600 hover:bg-slate-200 dark:hover:bg-slate-700"
+                    aria-label={`Delete ${macro.trigger || 'macro'}`}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+                <textarea
+                  value={macro.expansion}
+                  onChange={(e) => updateMacro(macro.id, { expansion: e.target.value })}
+                  placeholder="Text to insert"
+                  className={inputClassName}
+                  rows={Math.max(2, macro.expansion.split('\n').length)}
+                  aria-label="Text to insert"
+                />
+                {placeholders.length > 0 && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Values, in dictation order: {placeholders.join(', ')}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+          <button
+            onClick={() => setMacros(prev => [...prev, createMacro()])}
+            className="text-sm font-medium py-1.5 px-3 rounded-lg bg-blue-100 text-blue-800 hover:bg-blue-200 dark:bg-blue-900/50 dark:text-blue-300 dark:hover:bg-blue-900/80"
+          >
+            + Add Macro
+          </button>
+        </div>
+
+        <footer className="p-4 border-t dark:border-slate-700 flex items-center gap-2 flex-shrink-0">
+          <button onClick={handleResetDefaults} className="text-sm text-slate-600 hover:underline dark:text-slate-300">Reset to defaults</button>
+          {error && <p className="text-sm text-red-500 flex-grow text-center">{error}</p>}
+          <div className="ml-auto flex gap-2">
+            <button onClick={onClose} className="text-sm font-semibold py-1.5 px-4 rounded-lg bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600">Cancel</button>
+            <button onClick={handleSave} className="text-sm font-semibold py-1.5 px-4 rounded-lg bg-blue-600 text-white hover:bg-blue-700">Save Macros</button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default MacrosModal;
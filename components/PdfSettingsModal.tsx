@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { PdfSettings, loadPdfSettings, savePdfSettings } from '../services/pdfGenerator';
+import CloseIcon from './icons/CloseIcon';
+
+interface PdfSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full p-1.5 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-900 dark:text-white dark:border-slate-600";
+const labelClassName = "block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1";
+
+const PdfSettingsModal: React.FC<PdfSettingsModalProps> = ({ isOpen, onClose }) => {
+  const [settings, setSettings] = useState<PdfSettings>(loadPdfSettings);
+
+  useEffect(() => {
+    if (isOpen) setSettings(loadPdfSettings());
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateSettings = (changes: Partial<PdfSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    savePdfSettings(next);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="pdf-settings-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-xl flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="pdf-settings-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              PDF Letterhead
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Printed on every page of downloaded PDF reports. Changes are saved as you type.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close PDF letterhead settings">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        <div className="overflow-y-auto p-4 space-y-5">
+          <section className="space-y-3">
+            <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Header</h3>
+            <div>
+              <label htmlFor="pdf-institution" className={labelClassName}>Institution</label>
+              <input id="pdf-institution" value={settings.institution} onChange={(e) => updateSettings({ institution: e.target.value })} placeholder="e.g. City General Hospital, Department of Radiology" className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="pdf-letterhead" className={labelClassName}>Address and contact lines (one per line)</label>
+              <textarea id="pdf-letterhead" rows={3} value={settings.letterheadLines} onChange={(e) => updateSettings({ letterheadLines: e.target.value })} className={inputClassName} />
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-3">Footer</h3>
+            <label htmlFor="pdf-footer" className={labelClassName}>Footer text (page numbers are always added)</label>
+            <input id="pdf-footer" value={settings.footerText} onChange={(e) => updateSettings({ footerText: e.target.value })} placeholder="e.g. Confidential: contains patient information" className={inputClassName} />
+          </section>
+
+          <section className="space-y-3">
+            <div>
+              <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Signature block</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">Left out when no name is given.</p>
+            </div>
+            <div>
+              <label htmlFor="pdf-radiologist" className={labelClassName}>Reporting radiologist</label>
+              <input id="pdf-radiologist" value={settings.radiologistName} onChange={(e) => updateSettings({ radiologistName: e.target.value })} placeholder="e.g. Dr. A. Sharma" className={inputClassName} />
+            </div>
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <label htmlFor="pdf-credentials" className={labelClassName}>Qualifications</label>
+                <input id="pdf-credentials" value={settings.radiologistCredentials} onChange={(e) => updateSettings({ radiologistCredentials: e.target.value })} placeholder="e.g. MD, FRCR" className={inputClassName} />
+              </div>
+              <div className="flex-1">
+                <label htmlFor="pdf-registration" className={labelClassName}>Registration number</label>
+                <input id="pdf-registration" value={settings.registrationNumber} onChange={(e) => updateSettings({ registrationNumber: e.target.value })} className={inputClassName} />
+              </div>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfSettingsModal;
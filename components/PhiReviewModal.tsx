@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import {
+  PHI_CATEGORY_LABELS,
+  PhiSettings,
+  RedactionEvent,
+  clearRedactionLog,
+  getRedactionLog,
+  loadPhiSettings,
+  savePhiSettings,
+  subscribeToRedactionLog,
+} from '../services/phiRedaction';
+import CloseIcon from './icons/CloseIcon';
+
+interface PhiReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClassName = "flex-grow p-1.5 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-900 dark:text-white dark:border-slate-600";
+
+const PhiReviewModal: React.FC<PhiReviewModalProps> = ({ isOpen, onClose }) => {
+  const [settings, setSettings] = useState<PhiSettings>(loadPhiSettings);
+  const [log, setLog] = useState<RedactionEvent[]>(getRedactionLog);
+  const [newTerm, setNewTerm] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSettings(loadPhiSettings());
+    setLog(getRedactionLog());
+    setNewTerm('');
+    return subscribeToRedactionLog(() => setLog(getRedactionLog()));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateSettings = (changes: Partial<PhiSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    savePhiSettings(next);
+  };
+
+  const isAllowed = (term: string) => settings.allowList.some(entry => entry.toLowerCase() === term.toLowerCase());
+
+  const addToAllowList = (term: string) => {
+    const trimmed = term.trim();
+    if (!trimmed || isAllowed(trimmed)) return;
+    updateSettings({ allowList: [...settings.allowList, trimmed] });
+  };
+
+  const handleToggle = (enabled: boolean) => {
+    if (!enabled && !window.confirm('Turn off the PHI guard? Names, MRNs, phone numbers, addresses and dates of birth will no longer be removed from reports.')) return;
+    updateSettings({ enabled });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="phi-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-2xl flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="phi-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              PHI Guard
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Patient names, MRNs and IDs, phone numbers, addresses and dates of birth are replaced with placeholders in image text before it is summarised and in every report the AI returns.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close PHI guard">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        <div className="overflow-y-auto p-4 space-y-5">
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+            <input type="checkbox" checked={settings.enabled} onChange={(e) => handleToggle(e.target.checked)} />
+            Redact patient identifiers
+          </label>
+
+          <section>
+            <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">Allow-list</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">Text that exactly matches an entry is never redacted.</p>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                addToAllowList(newTerm);
+                setNewTerm('');
+              }}
+              className="flex gap-2 mb-2"
+            >
+              <input value={newTerm} onChange={(e) => setNewTerm(e.target.value)} placeholder="e.g. Mr. Hounsfield" className={inputClassName} aria-label="Allowed text" />
+              <button type="submit" className="text-sm font-medium py-1.5 px-3 rounded-lg bg-blue-100 text-blue-800 hover:bg-blue-200 dark:bg-blue-900/50 dark:text-blue-300 dark:hover:bg-blue-900/80">Add</button>
+            </form>
+            {settings.allowList.length === 0 ? (
+              <p className="text-xs text-slate-400">Nothing allowed yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-1.5">
+                {settings.allowList.map(term => (
+                  <span key={term} className="inline-flex items-center gap-1 text-xs rounded-full bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-200 pl-2 pr-1 py-0.5">
+                    {term}
+                    <button
+                      onClick={() => updateSettings({ allowList: settings.allowList.filter(entry => entry !== term) })}
+                      className="rounded-full hover:bg-slate-300 dark:hover:bg-slate-600"
+                      aria-label={`Remove ${term} from the allow-list`}
+                    >
+                      <CloseIcon className="w-3.5 h-3.5" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Redacted this session</h3>
+              {log.length > 0 && (
+                <button onClick={clearRedactionLog} className="text-xs text-slate-500 hover:underline dark:text-slate-400">Clear</button>
+              )}
+            </div>
+            {log.length === 0 ? (
+              <p className="text-xs text-slate-400">Nothing has been redacted yet. This list is not saved and empties when the page is reloaded.</p>
+            ) : (
+              <ul className="space-y-3">
+                {log.map(event => (
+                  <li key={event.id} className="rounded-lg border dark:border-slate-700">
+                    <p className="px-3 py-1.5 text-xs text-slate-500 dark:text-slate-400 border-b dark:border-slate-700">
+                      {event.source} &middot; {new Date(event.at).toLocaleTimeString()}
+                    </p>
+                    <ul className="divide-y dark:divide-slate-700">
+                      {event.redactions.map((redaction, index) => (
+                        <li key={index} className="px-3 py-1.5 flex items-center gap-2 text-sm">
+                          <span className="text-xs px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300 flex-shrink-0">
+                            {PHI_CATEGORY_LABELS[redaction.category]}
+                          </span>
+                          <span className="font-mono text-slate-800 dark:text-slate-200 truncate">{redaction.original}</span>
+                          <span className="text-slate-400">&rarr;</span>
+                          <span className="font-mono text-slate-500 dark:text-slate-400">{redaction.placeholder}</span>
+                          <button
+                            onClick={() => addToAllowList(redaction.original)}
+                            disabled={isAllowed(redaction.original)}
+                            className="ml-auto text-xs text-blue-600 hover:underline disabled:text-slate-400 disabled:no-underline dark:text-blue-400 flex-shrink-0"
+                            title="Stop redacting this exact text in future reports"
+                          >
+                            {isAllowed(redaction.original) ? 'Allowed' : 'Always allow'}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhiReviewModal;
@@ -0,0 +1,130 @@
+import React, { useState, useMemo } from 'react';
+import { RadsSystem } from '../types';
+import { radsSentence, scoreFinding } from '../services/radsScoring';
+import { findingLabel } from '../services/impressionCheck';
+import CloseIcon from './icons/CloseIcon';
+
+interface RadsScoringModalProps {
+  // The report and the finding to score; the modal is closed while the index is null.
+  findings: string[];
+  findingIndex: number | null;
+  onClose: () => void;
+  onAddToFinding: (findingIndex: number, sentence: string) => void;
+  onAddToImpression: (sentence: string) => void;
+}
+
+// Shows how the category follows from what the finding describes, so the reader can check it before inserting it.
+const RadsScoringModal: React.FC<RadsScoringModalProps> = ({ findings, findingIndex, onClose, onAddToFinding, onAddToImpression }) => {
+  const results = useMemo(() => (findingIndex === null ? [] : scoreFinding(findings, findingIndex)), [findings, findingIndex]);
+  // The chosen tab; falls back to the first system when it does not apply to this finding.
+  const [system, setSystem] = useState<RadsSystem | null>(null);
+
+  if (findingIndex === null) return null;
+
+  const result = results.find(r => r.system === system) ?? results[0];
+  const assessment = result?.assessment ?? null;
+  const sentence = assessment ? radsSentence(assessment) : '';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="rads-scoring-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-2xl flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div className="min-w-0">
+            <h2 id="rads-scoring-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              Classification Assistant
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{findingLabel(findings, findingIndex)}</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close classification assistant">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        <div className="overflow-y-auto p-4 space-y-4">
+          {results.length > 1 && (
+            <div className="flex gap-2" role="tablist">
+              {results.map(r => (
+                <button
+                  key={r.system}
+                  role="tab"
+                  aria-selected={r.system === result.system}
+                  onClick={() => setSystem(r.system)}
+                  className={`text-sm font-semibold py-1 px-3 rounded-full transition-colors ${r.system === result.system ? 'bg-blue-600 text-white' : 'bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600'}`}
+                >
+                  {r.system}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {!assessment ? (
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              {result
+                ? `The finding does not describe enough to assign a ${result.system} category. Add the missing descriptors or size and try again.`
+                : 'No supported classification system applies to this finding.'}
+            </p>
+          ) : (
+            <>
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs uppercase text-slate-500 dark:text-slate-400">
+                  <tr>
+                    <th className="px-3 py-2">Feature</th>
+                    <th className="px-3 py-2">Finding</th>
+                    <th className="px-3 py-2">Score</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {assessment.working.map((working, i) => (
+                    <tr key={i} className="border-t dark:border-slate-700 text-slate-700 dark:text-slate-300">
+                      <td className="px-3 py-1.5 font-medium">{working.descriptor}</td>
+                      <td className={`px-3 py-1.5 ${working.assumed ? 'italic text-amber-700 dark:text-amber-400' : ''}`}>
+                        {working.value}{working.assumed && ' (assumed)'}
+                      </td>
+                      <td className="px-3 py-1.5">{working.score ?? ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {assessment.working.some(working => working.assumed) && (
+                <p className="text-xs text-amber-700 dark:text-amber-400">
+                  Assumed values were not described in the finding; check them before inserting the category.
+                </p>
+              )}
+
+              <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50 text-sm text-slate-700 dark:text-slate-200">
+                <p className="font-bold">{assessment.summary}</p>
+                <p>{assessment.management}</p>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => { onAddToFinding(findingIndex, sentence); onClose(); }}
+                  className="text-sm font-semibold py-1.5 px-3 rounded-lg bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-600 dark:text-slate-300 dark:hover:bg-slate-500"
+                >
+                  Add to Finding
+                </button>
+                <button
+                  onClick={() => { onAddToImpression(sentence); onClose(); }}
+                  className="text-sm font-semibold py-1.5 px-3 rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+                >
+                  Add to Impression
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RadsScoringModal;
@@ -7,13 +7,37 @@ import PencilIcon from './icons/PencilIcon';
 import MicPlusIcon from './icons/MicPlusIcon';
 import StopIcon from './icons/StopIcon';
 import { generateSingleDictationHTML } from '../services/htmlGenerator';
+import { generateExpertNotesDocx, generateReportDocx } from '../services/docxGenerator';
+import { generateReportPdf } from '../services/pdfGenerator';
 import SelectionCopier from './ui/SelectionCopier';
 import MicPencilIcon from './icons/MicPencilIcon';
 import MicScribbleIcon from './icons/MicScribbleIcon';
 import ReorderIcon from './icons/ReorderIcon';
 import MergeIcon from './icons/MergeIcon';
 import CustomPromptInput from './ui/CustomPromptInput';
-import { IdentifiedError } from '../types';
+import { AuditEditAction, CriticalFinding, IdentifiedError, ReportVersion, TranscriptSegment } from '../types';
+import { addImpressionPoint, appendToFinding, applyEditedText, findingToPlainText, mergeFindings, parseReportLine, reportLineToEditableText, serializeReportLine } from '../services/reportModel';
+import { EXPORT_FORMAT_LABELS, RenderedReport, exportReportFile, renderFindings, renderSnippet } from '../services/exportProfiles';
+import { useExportProfile } from '../hooks/useExportProfile';
+import ReportLineView from './ui/ReportLineView';
+import MacroBadge from './ui/MacroBadge';
+import RelatedFindingLinks from './ui/RelatedFindingLinks';
+import CorrectedLineView from './ui/CorrectedLineView';
+import MeasurementsPanel from './ui/MeasurementsPanel';
+import CriticalResultBanner from './ui/CriticalResultBanner';
+import CriticalCommunicationModal from './CriticalCommunicationModal';
+import RadsScoringModal from './RadsScoringModal';
+import Hl7ExportModal from './Hl7ExportModal';
+import FhirExportModal from './FhirExportModal';
+import ExportProfileSelect from './ui/ExportProfileSelect';
+import CalculatorIcon from './icons/CalculatorIcon';
+import { radsSystemsFor, reportContext } from '../services/radsScoring';
+import { pendingCriticalFindings, uniqueLabels } from '../services/criticalFindings';
+import { CorrectionChange, CorrectionChunk, correctionsInFinding, findTranscriptSegment, revertCorrectionInFinding, updateTranscriptSegment } from '../services/corrections';
+import { expandMacrosInFinding, revertMacroExpansion } from '../services/macros';
+import { recordEdit } from '../services/auditLog';
+import VersionHistoryModal from './VersionHistoryModal';
+import HistoryIcon from './icons/HistoryIcon';
 import WarningIcon from './icons/WarningIcon';
 import BrainIcon from './icons/BrainIcon';
 import MicIcon from './icons/MicIcon';
@@ -36,11 +60,14 @@ interface ResultsDisplayProps {
   selectedModel: string;
   onModelChange: (model: string) => void;
   onReprocess: () => void;
-  onUpdateFinding: (index: number, newText: string) => void;
-  onAllFindingsUpdate: (findings: string[]) => void;
+  // `action` says what produced the change, for the version history.
+  onUpdateFinding: (index: number, newText: string, action: AuditEditAction) => void;
+  onAllFindingsUpdate: (findings: string[], action: AuditEditAction) => void;
   onContinueDictation: (audioBlob: Blob) => Promise<void>;
   customPrompt: string;
   onCustomPromptChange: (prompt: string) => void;
+  templateId?: string | null;
+  onTemplateChange?: (templateId: string | null) => void;
   isLive?: boolean;
   onStopLive?: () => void;
   liveStatus?: string;
@@ -49,24 +76,17 @@ interface ResultsDisplayProps {
   onResumeLive?: () => void;
   identifiedErrors?: IdentifiedError[];
   errorCheckStatus?: 'idle' | 'checking' | 'complete';
+  // History id the audit log files edits under; null while the report has none.
+  reportId?: string | null;
+  // Version history is only offered when given; restoring goes through onAllFindingsUpdate.
+  versions?: ReportVersion[];
+  // What was said for each line, when the dictation was processed with AI corrections shown.
+  transcript?: TranscriptSegment[];
+  onTranscriptChange?: (transcript: TranscriptSegment[]) => void;
+  // Critical results in the report; each needs a recorded communication.
+  criticalFindings?: CriticalFinding[];
 }
 
-const parseStructuredFinding = (finding: string) => {
-  const parts = finding.split('###');
-  if (parts.length > 1 && parts[0].trim() !== '') {
-    return {
-      isStructured: true,
-      title: parts[0],
-      points: parts.slice(1).filter(p => p.trim() !== ''),
-    };
-  }
-  return {
-    isStructured: false,
-    title: finding,
-    points: [],
-  };
-};
-
 
 declare const ClipboardItem: any;
 
@@ -86,6 +106,8 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
   onContinueDictation,
   customPrompt,
   onCustomPromptChange,
+  templateId = null,
+  onTemplateChange,
   isLive = false,
   onStopLive,
   liveStatus,
@@ -93,7 +115,12 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
   onPauseLive,
   onResumeLive,
   identifiedErrors = [],
-  errorCheckStatus = 'idle'
+  errorCheckStatus = 'idle',
+  reportId = null,
+  versions,
+  transcript,
+  onTranscriptChange,
+  criticalFindings = []
 }) => {
   const [isAllCopied, setIsAllCopied] = useState<boolean>(false);
   const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set<number>());
@@ -146,6 +173,15 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
   const dragItem = useRef<number | null>(null);
   const dragOverItem = useRef<number | null>(null);
   const [undoState, setUndoState] = useState<string[] | null>(null);
+  const [isVersionHistoryOpen, setIsVersionHistoryOpen] = useState<boolean>(false);
+  const [showCorrections, setShowCorrections] = useState<boolean>(true);
+  const [isCommunicationOpen, setIsCommunicationOpen] = useState<boolean>(false);
+  const pendingCritical = pendingCriticalFindings(findings, criticalFindings);
+  const [scoringIndex, setScoringIndex] = useState<number | null>(null);
+  const [isHl7ExportOpen, setIsHl7ExportOpen] = useState<boolean>(false);
+  const [isFhirExportOpen, setIsFhirExportOpen] = useState<boolean>(false);
+  const exportProfile = useExportProfile();
+  const radsContext = reportContext(findings);
   const [isMakingSelection, setIsMakingSelection] = useState<boolean>(false);
 
 
@@ -266,8 +302,13 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
     setTimeout(() => setCopyNotification({ text: '', visible: false }), 2000);
   };
   
-  const copyToClipboard = async (plainText: string, htmlText: string) => {
+  const copyToClipboard = async ({ text: plainText, html: htmlText }: RenderedReport) => {
     try {
+      // Text-only profiles skip the rich copy, so the destination gets exactly the text.
+      if (htmlText === null) {
+        await navigator.clipboard.writeText(plainText);
+        return true;
+      }
       const htmlBlob = new Blob([htmlText], { type: 'text/html' });
       const textBlob = new Blob([plainText], { type: 'text/plain' });
       // The type definition for ClipboardItem is not standard in all environments, so we use `any`
@@ -297,50 +338,15 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
 
     const sortedIndices = Array.from(indices).sort((a, b) => a - b);
     
-    const { plain, html } = sortedIndices.reduce((acc, i) => {
+    // A finding with a saved text selection contributes just that text, in bold.
+    const selected = sortedIndices.map(i => {
       const snippet = selectionSnippets[i];
-      if (snippet) {
-        acc.plain.push(snippet);
-        acc.html.push(`<strong>${snippet}</strong>`);
-      } else {
-        const finding = findings[i];
-        const isBold = finding.startsWith('BOLD::');
-        const cleanFinding = isBold ? finding.substring(6) : finding;
-        const isTitle = cleanFinding.trim() === 'C.T.SCAN OF BRAIN (PLAIN)';
-        const { isStructured, title, points } = parseStructuredFinding(cleanFinding);
-        const isImpression = isStructured && title.trim().toUpperCase() === 'IMPRESSION:';
-        const isItalic = !isStructured && cleanFinding.startsWith('*') && cleanFinding.endsWith('*');
-
-        if (isTitle) {
-          acc.plain.push(cleanFinding);
-          acc.html.push(`<p style="text-align:center;"><strong><u>${cleanFinding}</u></strong></p>`);
-        } else if (isImpression) {
-            acc.plain.push(`${title.toUpperCase()}\n${points.map(p => `• ${p}`).join('\n')}`);
-            acc.html.push(`<p><strong style="text-decoration: underline;">${title.toUpperCase()}</strong></p><ul>${points.map(p => `<li><strong>${p}</strong></li>`).join('')}</ul>`);
-        } else if (isStructured) {
-          acc.plain.push([title, ...points].join('\n'));
-          let htmlContent = isBold ? `<p><strong>${title}</strong></p>` : `<p>${title}</p>`;
-          htmlContent += points.map(p => isBold ? `<p><strong>${p}</strong></p>` : `<p>${p}</p>`).join('');
-          acc.html.push(htmlContent);
-        } else {
-          if (isItalic) {
-              acc.plain.push(cleanFinding.slice(1, -1));
-              acc.html.push(`<p><em>${cleanFinding.slice(1, -1)}</em></p>`);
-          } else {
-              acc.plain.push(cleanFinding);
-              acc.html.push(isBold ? `<p><strong>${cleanFinding}</strong></p>` : `<p>${cleanFinding}</p>`);
-          }
-        }
-      }
-      return acc;
-    }, { plain: [] as string[], html: [] as string[] });
+      return snippet ? serializeReportLine({ kind: 'finding', text: snippet, emphasis: 'bold' }) : findings[i];
+    });
 
-    const plainText = plain.join('\n');
-    const htmlText = html.join('');
-
-    const success = await copyToClipboard(plainText, htmlText);
+    const success = await copyToClipboard(renderFindings(selected, exportProfile));
     const notificationText = success
-      ? `Copied ${plain.length} finding${plain.length > 1 ? 's' : ''}!`
+      ? `Copied ${selected.length} finding${selected.length > 1 ? 's' : ''}!`
       : 'Copy failed!';
     showNotification(notificationText);
   };
@@ -402,38 +408,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
     
     // Single-copy logic
     const findingToCopy = findings[index];
-    const isBold = findingToCopy.startsWith('BOLD::');
-    const cleanFinding = isBold ? findingToCopy.substring(6) : findingToCopy;
-    const isTitle = cleanFinding.trim() === 'C.T.SCAN OF BRAIN (PLAIN)';
-    const { isStructured, title, points } = parseStructuredFinding(cleanFinding);
-    const isImpression = isStructured && title.trim().toUpperCase() === 'IMPRESSION:';
-    const isItalic = !isStructured && cleanFinding.startsWith('*') && cleanFinding.endsWith('*');
-
-    let plainText: string;
-    let htmlText: string;
-
-    if (isTitle) {
-      plainText = cleanFinding;
-      htmlText = `<p style="text-align:center;"><strong><u>${cleanFinding}</u></strong></p>`;
-    } else if (isImpression) {
-        plainText = `${title.toUpperCase()}\n${points.map(p => `• ${p}`).join('\n')}`;
-        htmlText = `<p><strong style="text-decoration: underline;">${title.toUpperCase()}</strong></p><ul>${points.map(p => `<li><strong>${p}</strong></li>`).join('')}</ul>`;
-    } else if (isStructured) {
-        plainText = [title, ...points].join('\n');
-        let htmlContent = isBold ? `<p><strong>${title}</strong></p>` : `<p>${title}</p>`;
-        htmlContent += points.map(p => isBold ? `<p><strong>${p}</strong></p>` : `<p>${p}</p>`).join('');
-        htmlText = htmlContent;
-    } else {
-        if (isItalic) {
-            plainText = cleanFinding.slice(1, -1);
-            htmlText = `<p><em>${plainText}</em></p>`;
-        } else {
-            plainText = cleanFinding;
-            htmlText = isBold ? `<p><strong>${cleanFinding}</strong></p>` : `<p>${cleanFinding}</p>`;
-        }
-    }
-    
-    const success = await copyToClipboard(plainText, htmlText);
+    const success = await copyToClipboard(renderFindings([findingToCopy], exportProfile));
     
     if(success) {
       // Briefly highlight the copied item
@@ -456,50 +431,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
   const handleCopyAll = async () => {
     if (!findings || findings.length === 0) return;
     
-    const allTextPlain = findings.map(f => {
-      const isBold = f.startsWith('BOLD::');
-      const cleanFinding = isBold ? f.substring(6) : f;
-      const { isStructured, title, points } = parseStructuredFinding(cleanFinding);
-      const isImpression = isStructured && title.trim().toUpperCase() === 'IMPRESSION:';
-
-      if (isImpression) {
-          return `${title.toUpperCase()}\n${points.map(p => `• ${p}`).join('\n')}`;
-      }
-      if (isStructured) {
-        return [title, ...points].join('\n');
-      }
-      if (cleanFinding.startsWith('*') && cleanFinding.endsWith('*')) {
-        return cleanFinding.slice(1, -1);
-      }
-      return cleanFinding;
-    }).join('\n\n');
-
-    const allTextHtml = findings.map(f => {
-      const isBold = f.startsWith('BOLD::');
-      const cleanFinding = isBold ? f.substring(6) : f;
-      const isTitle = cleanFinding.trim() === 'C.T.SCAN OF BRAIN (PLAIN)';
-      const { isStructured, title, points } = parseStructuredFinding(cleanFinding);
-      const isImpression = isStructured && title.trim().toUpperCase() === 'IMPRESSION:';
-      
-      if (isTitle) {
-          return `<p style="text-align:center;"><strong><u>${cleanFinding}</u></strong></p>`;
-      }
-      if (isImpression) {
-          return `<p><strong style="text-decoration: underline;">${title.toUpperCase()}</strong></p><ul>${points.map(p => `<li><strong>${p}</strong></li>`).join('')}</ul>`;
-      }
-      if (isStructured) {
-        let htmlContent = isBold ? `<p><strong>${title}</strong></p>` : `<p>${title}</p>`;
-        htmlContent += points.map(p => isBold ? `<p><strong>${p}</strong></p>` : `<p>${p}</p>`).join('');
-        return htmlContent;
-      }
-      if (cleanFinding.startsWith('*') && cleanFinding.endsWith('*')) {
-        return `<p><em>${cleanFinding.slice(1, -1)}</em></p>`;
-      }
-      return isBold ? `<p><strong>${cleanFinding}</strong></p>` : `<p>${cleanFinding}</p>`;
-    }).join('');
-
-
-    const success = await copyToClipboard(allTextPlain, allTextHtml);
+    const success = await copyToClipboard(renderFindings(findings, exportProfile));
     if (success) {
         setIsAllCopied(true);
         setTimeout(() => setIsAllCopied(false), 2000);
@@ -551,17 +483,70 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
     }
   };
 
+  const handleDownloadDocx = async () => {
+    if (!findings || findings.length === 0) return;
+    try {
+      const blob = await generateReportDocx(findings, expertNotes);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      document.body.appendChild(a);
+      a.style.display = 'none';
+      a.href = url;
+      a.download = 'radiology-report.docx';
+      a.click();
+      window.URL.revokeObjectURL(url);
+      a.remove();
+    } catch (err) {
+      console.error('Failed to generate or download Word document:', err);
+      showNotification('Failed to create Word file.');
+    }
+  };
+
+  const handleDownloadFormatted = () => {
+    if (!findings || findings.length === 0) return;
+    try {
+      const file = exportReportFile(findings, exportProfile);
+      const blob = new Blob([file.content], { type: file.mimeType });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      document.body.appendChild(a);
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `radiology-report.${file.extension}`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+      a.remove();
+    } catch (err) {
+      console.error('Failed to generate or download formatted report:', err);
+      showNotification('Failed to create file.');
+    }
+  };
+
+  const handleDownloadPdf = () => {
+    if (!findings || findings.length === 0) return;
+    try {
+      const blob = generateReportPdf(findings);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      document.body.appendChild(a);
+      a.style.display = 'none';
+      a.href = url;
+      a.download = 'radiology-report.pdf';
+      a.click();
+      window.URL.revokeObjectURL(url);
+      a.remove();
+    } catch (err) {
+      console.error('Failed to generate or download PDF:', err);
+      showNotification('Failed to create PDF file.');
+    }
+  };
+
   // --- Edit Mode Handlers ---
   const handleStartEdit = (index: number) => {
     setUndoState(null);
     setEditingIndex(index);
 
-    const findingToEdit = findings[index];
-    const isBold = findingToEdit.startsWith('BOLD::');
-    const cleanFinding = isBold ? findingToEdit.substring(6) : findingToEdit;
-    
-    const { isStructured, title, points } = parseStructuredFinding(cleanFinding);
-    const textForEditing = isStructured ? [title, ...points].join('\n') : cleanFinding;
+    const textForEditing = reportLineToEditableText(parseReportLine(findings[index]));
     
     setEditingText(textForEditing);
     setDictatingIndex(null);
@@ -581,20 +566,10 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
   const handleSaveEdit = () => {
     if (editingIndex !== null) {
       setUndoState(findings);
-      const originalFinding = findings[editingIndex];
-      const isBold = originalFinding.startsWith('BOLD::');
-      const { isStructured } = parseStructuredFinding(originalFinding);
-
-      let newText = editingText;
-      if (isStructured) {
-        newText = editingText.split('\n').filter(line => line.trim() !== '').join('###');
-      }
-      
-      if(isBold) {
-        newText = `BOLD::${newText}`;
-      }
+      const newText = applyEditedText(findings[editingIndex], editingText);
       
-      onUpdateFinding(editingIndex, newText);
+      onUpdateFinding(editingIndex, newText, 'edit');
+      recordEdit(reportId, 'edit', [findings[editingIndex]], [newText]);
     }
     handleCancelEdit();
   };
@@ -625,10 +600,10 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
       setUndoState(findings);
       try {
         const existingText = findings[currentIndex];
-        const newText = await continueAudioDictation(existingText, audioBlob, customPrompt);
-        const separator = existingText.trim().length > 0 && !existingText.endsWith(' ') ? ' ' : '';
-        const updatedText = existingText + separator + newText.trim();
-        onUpdateFinding(currentIndex, updatedText);
+        const newText = await continueAudioDictation(findingToPlainText(existingText), audioBlob, customPrompt);
+        const updatedText = expandMacrosInFinding(appendToFinding(existingText, newText));
+        onUpdateFinding(currentIndex, updatedText, 'dictatedAddition');
+        recordEdit(reportId, 'dictatedAddition', [existingText], [updatedText]);
       } catch (err) {
         const message = err instanceof Error ? err.message : 'An unknown error occurred.';
         setContinuationError({ index: currentIndex, message });
@@ -665,8 +640,11 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
         setUndoState(findings);
         try {
             const existingText = findings[currentIndex];
-            const modifiedText = await modifyFindingWithAudio(existingText, audioBlob, customPrompt);
-            onUpdateFinding(currentIndex, modifiedText);
+            const editableText = reportLineToEditableText(parseReportLine(existingText));
+            const modifiedText = await modifyFindingWithAudio(editableText, audioBlob, customPrompt);
+            const updatedText = expandMacrosInFinding(applyEditedText(existingText, modifiedText));
+            onUpdateFinding(currentIndex, updatedText, 'dictatedEdit');
+            recordEdit(reportId, 'dictatedEdit', [existingText], [updatedText]);
         } catch (err) {
             const message = err instanceof Error ? err.message : 'An unknown error occurred.';
             setContinuationError({ index: currentIndex, message });
@@ -701,7 +679,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
   };
   
   const handleCopyFromCopier = async (text: string) => {
-    const success = await copyToClipboard(text, `<strong>${text}</strong>`);
+    const success = await copyToClipboard(renderSnippet(text, exportProfile));
     showNotification(success ? 'Copied selection!' : 'Copy failed!');
     setCopier(null);
   };
@@ -721,7 +699,8 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
           try {
               setUndoState(findings);
               const newFindings = await modifyReportWithAudio(findings, audioBlob, selectedModel, customPrompt);
-              onAllFindingsUpdate(newFindings);
+              onAllFindingsUpdate(newFindings, 'reportDictation');
+              recordEdit(reportId, 'reportDictation', findings, newFindings);
               setModificationState('idle');
           } catch (err) {
               const message = err instanceof Error ? err.message : 'An unknown error occurred.';
@@ -763,7 +742,8 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
         try {
             setUndoState(findings);
             const result = await runComplexImpressionGeneration(findings, complexInput);
-            onAllFindingsUpdate(result.findings);
+            onAllFindingsUpdate(result.findings, 'complexImpression');
+            recordEdit(reportId, 'complexImpression', findings, result.findings);
             setExpertNotes(result.expertNotes); // Set new notes
             setIsComplexGeneratorVisible(false);
             setComplexInput('');
@@ -775,32 +755,22 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
         }
     };
 
-    const handleDownloadExpertNotes = () => {
+    const handleDownloadExpertNotes = async () => {
         if (!expertNotes) return;
-        
-        // Simple markdown to HTML conversion for Word-compatible file
-        let htmlContent = expertNotes
-          .replace(/^## (.*$)/gim, '<h2>$1</h2>')
-          .replace(/^### (.*$)/gim, '<h3>$1</h3>')
-          .replace(/\n/g, '<br />');
-    
-        const header = "<html xmlns:o='urn:schemas-microsoft-com:office:office' "+
-                   "xmlns:w='urn:schemas-microsoft-com:office:word' "+
-                   "xmlns='http://www.w3.org/TR/REC-html40'>"+
-                   "<head><meta charset='utf-8'><title>Expert Notes</title></head><body>";
-        const footer = "</body></html>";
-        const source = header + htmlContent + footer;
-    
-        const fileBlob = new Blob([source], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
-        // FIX: Fixed variable name from blob to fileBlob
-        const url = URL.createObjectURL(fileBlob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'expert-notes.docx';
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        try {
+            const fileBlob = await generateExpertNotesDocx(expertNotes);
+            const url = URL.createObjectURL(fileBlob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = 'expert-notes.docx';
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            console.error('Failed to generate or download expert notes:', err);
+            showNotification('Failed to create Word file.');
+        }
     };
 
   // --- Drag and Drop Handlers ---
@@ -826,7 +796,8 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
         let newFindings = [...findings];
         const draggedItemContent = newFindings.splice(dragItem.current, 1)[0];
         newFindings.splice(dragOverItem.current, 0, draggedItemContent);
-        onAllFindingsUpdate(newFindings);
+        onAllFindingsUpdate(newFindings, 'reorder');
+        recordEdit(reportId, 'reorder', findings, newFindings);
     }
     dragItem.current = null;
     dragOverItem.current = null;
@@ -856,21 +827,77 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
       const sourceFinding = findings[sourceIndex];
       const targetFinding = findings[targetIndex];
       
-      const mergedText = targetFinding + ' ' + sourceFinding;
+      const mergedText = mergeFindings(targetFinding, sourceFinding);
       
       const newFindings = findings
           .map((finding, index) => index === targetIndex ? mergedText : finding)
           .filter((_, index) => index !== sourceIndex);
           
-      onAllFindingsUpdate(newFindings);
+      onAllFindingsUpdate(newFindings, 'merge');
+      recordEdit(reportId, 'merge', [targetFinding, sourceFinding], [mergedText]);
       
       setDragOverIndex(null);
       setDraggedIndex(null);
   };
   
+  const handleRevertMacro = (index: number) => {
+    setUndoState(findings);
+    const newFindings = revertMacroExpansion(findings, index);
+    onAllFindingsUpdate(newFindings, 'revertMacro');
+    recordEdit(reportId, 'revertMacro', findings, newFindings);
+  };
+
+  const handleRevertCorrection = (index: number, chunks: CorrectionChunk[], change: CorrectionChange) => {
+    const finding = findings[index];
+    const newFinding = revertCorrectionInFinding(finding, chunks, change);
+    setUndoState(findings);
+    onUpdateFinding(index, newFinding, 'revertCorrection');
+    recordEdit(reportId, 'revertCorrection', [finding], [newFinding]);
+    if (transcript && onTranscriptChange) {
+      onTranscriptChange(updateTranscriptSegment(transcript, finding, newFinding));
+    }
+  };
+
+  const handleAddComputedValue = (index: number, sentence: string) => {
+    const finding = findings[index];
+    const newFinding = appendToFinding(finding, sentence);
+    setUndoState(findings);
+    onUpdateFinding(index, newFinding, 'computedValue');
+    recordEdit(reportId, 'computedValue', [finding], [newFinding]);
+  };
+
+  const handleAddRadsToFinding = (index: number, sentence: string) => {
+    const finding = findings[index];
+    const newFinding = appendToFinding(finding, sentence);
+    setUndoState(findings);
+    onUpdateFinding(index, newFinding, 'radsCategory');
+    recordEdit(reportId, 'radsCategory', [finding], [newFinding]);
+  };
+
+  const handleAddRadsToImpression = (sentence: string) => {
+    const newFindings = addImpressionPoint(findings, sentence);
+    setUndoState(findings);
+    onAllFindingsUpdate(newFindings, 'radsCategory');
+    recordEdit(reportId, 'radsCategory', findings, newFindings);
+  };
+
+  const handleAddCommunication = (sentence: string) => {
+    const newFindings = [...findings, sentence];
+    setUndoState(findings);
+    onAllFindingsUpdate(newFindings, 'criticalCommunication');
+    recordEdit(reportId, 'criticalCommunication', [], [sentence]);
+  };
+
+  const handleRestoreVersion = (version: ReportVersion) => {
+    setUndoState(findings);
+    onAllFindingsUpdate(version.findings, 'restore');
+    recordEdit(reportId, 'restore', findings, version.findings);
+  };
+
   const handleUndo = () => {
     if (undoState) {
-      onAllFindingsUpdate(undoState);
+      onAllFindingsUpdate(undoState, 'undo');
+      recordEdit(reportId, 'undo', findings, undoState);
       setUndoState(null); // Can only undo once.
     }
   };
@@ -933,6 +960,8 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
         </div>
       )}
 
+      <CriticalResultBanner critical={criticalFindings} pending={pendingCritical} onRecord={() => setIsCommunicationOpen(true)} />
+
       {isLive && (
         <div className="flex items-center gap-3 justify-center mb-6 p-3 bg-red-50 text-red-700 rounded-lg shadow-sm border border-red-200 dark:bg-red-900/20 dark:text-red-300 dark:border-red-500/30">
             <div className="w-3 h-3 bg-red-500 rounded-full animate-ping flex-shrink-0"></div>
@@ -954,7 +983,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
         </div>
       </div>
 
-      {errorCheckStatus === 'complete' && identifiedErrors.length > 0 && <ErrorLegend />}
+      {identifiedErrors.length > 0 && <ErrorLegend />}
 
       {!isLive && audioBlob && (
         <div className="bg-slate-100 dark:bg-slate-900/50 p-3 rounded-lg mb-4 flex flex-col sm:flex-row items-center justify-between gap-3 shadow-sm">
@@ -989,6 +1018,8 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
        <CustomPromptInput
           prompt={customPrompt}
           onPromptChange={onCustomPromptChange}
+          templateId={templateId}
+          onTemplateChange={onTemplateChange}
           className="mb-6"
         />
 
@@ -1013,6 +1044,25 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                     Undo
                 </button>
             )}
+            {transcript && transcript.length > 0 && (
+                <button
+                    onClick={() => setShowCorrections(!showCorrections)}
+                    className={`text-sm font-semibold py-1 px-3 rounded-lg transition-colors ${showCorrections ? 'bg-amber-400 text-amber-900 hover:bg-amber-500' : 'bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600'}`}
+                    aria-pressed={showCorrections}
+                    title="Highlight the words the AI changed from what was dictated"
+                >
+                    AI Corrections
+                </button>
+            )}
+            {versions && (
+                <button
+                    onClick={() => setIsVersionHistoryOpen(true)}
+                    className="text-sm font-semibold py-1 px-3 rounded-lg transition-colors flex items-center gap-1.5 bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600"
+                >
+                    <HistoryIcon className="w-4 h-4 text-slate-600 dark:text-slate-400" />
+                    Versions ({versions.length})
+                </button>
+            )}
             <button
                 onClick={handleToggleMergeMode}
                 className={`text-sm font-semibold py-1 px-3 rounded-lg transition-colors flex items-center gap-1.5 ${mergeMode ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600'}`}
@@ -1027,6 +1077,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                 <ReorderIcon className={`w-4 h-4 ${reorderMode ? 'text-white' : 'text-slate-600 dark:text-slate-400'}`} />
                 {reorderMode ? 'Done' : 'Reorder'}
             </button>
+            <ExportProfileSelect />
             <button
                 onClick={handleCopyAll}
                 className={`text-base font-semibold py-2 px-4 rounded-lg transition-colors ${isAllCopied ? 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300' : 'bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600'}`}
@@ -1038,22 +1089,6 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
 
         <div className="space-y-3" ref={findingsContainerRef}>
         {findings.map((finding, index) => {
-            const isBold = finding.startsWith('BOLD::');
-            const cleanFinding = isBold ? finding.substring(6) : finding;
-            const isTitle = cleanFinding.trim() === 'C.T.SCAN OF BRAIN (PLAIN)';
-            const { isStructured, title, points } = parseStructuredFinding(cleanFinding);
-            const isImpression = isStructured && title.trim().toUpperCase() === 'IMPRESSION:';
-            const isItalic = !isStructured && cleanFinding.startsWith('*') && cleanFinding.endsWith('*');
-            const textToDisplay = isItalic ? cleanFinding.slice(1, -1) : isStructured ? title : cleanFinding;
-
-            const textContainerClasses = isTitle
-                ? 'text-center font-bold underline'
-                : isItalic
-                ? 'italic'
-                : isBold
-                ? 'font-bold'
-                : '';
-            
             const isSelected = selectedIndices.has(index);
             const isEditingThis = editingIndex === index;
             const isDictatingThis = dictatingIndex === index;
@@ -1061,6 +1096,12 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
             const isProcessingThis = processingIndex === index;
             const hasErrorThis = continuationError?.index === index;
             const isCurrentlyActive = isEditingThis || isDictatingThis || isProcessingThis || hasErrorThis || isDictateEditingThis;
+            const line = parseReportLine(finding, index);
+            // Multi-line expansions show their badge once, on the first line.
+            const startsMacroExpansion = !!line.macro && (index === 0 || parseReportLine(findings[index - 1]).macro?.expansionId !== line.macro.expansionId);
+            const spokenSegment = showCorrections ? findTranscriptSegment(transcript, finding) : undefined;
+            const corrections = spokenSegment ? correctionsInFinding(spokenSegment, finding) : null;
+            const hasCorrections = !!corrections && corrections.some(chunk => chunk.type === 'change');
             
             const isReorderingThisBatch = reorderMode;
             const isMergingThisBatch = mergeMode;
@@ -1068,6 +1109,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
             const isDragOverTarget = isMergingThisBatch && dragOverIndex === index && draggedIndex !== index;
             
             const errorsForThisFinding = identifiedErrors.filter(e => e.findingIndex === index);
+            const radsSystems = radsSystemsFor(finding, radsContext);
             
             let highestSeverity: IdentifiedError['severity'] | null = null;
             if (errorsForThisFinding.length > 0) {
@@ -1175,25 +1217,17 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                     ) : (
                         <>
                             <div
-                                className={`text-slate-700 dark:text-slate-200 whitespace-pre-wrap ${!isCurrentlyActive && !isReorderingThisBatch && !isMergingThisBatch ? 'cursor-pointer' : 'cursor-default'} ${textContainerClasses}`}
+                                className={`text-slate-700 dark:text-slate-200 whitespace-pre-wrap ${!isCurrentlyActive && !isReorderingThisBatch && !isMergingThisBatch ? 'cursor-pointer' : 'cursor-default'} ${line.macro ? 'border-l-2 border-violet-300 dark:border-violet-700 pl-2' : ''}`}
                             >
-                                {isImpression ? (
-                                    <>
-                                        <span className="font-bold underline uppercase">{title}</span>
-                                        <ul className="list-disc list-inside pl-4 mt-1">
-                                            {points.map((point, i) => (
-                                                <li key={i} className="font-bold">{point}</li>
-                                            ))}
-                                        </ul>
-                                    </>
-                                ) : isStructured ? (
-                                    <>
-                                    <span>{title}</span>
-                                    {points.map((point, i) => (<span key={i} className="block">{point}</span>))}
-                                    </>
+                                {hasCorrections && !isReorderingThisBatch && !isMergingThisBatch ? (
+                                    <CorrectedLineView chunks={corrections!} onRevert={(change) => handleRevertCorrection(index, corrections!, change)} />
                                 ) : (
-                                    textToDisplay
+                                    <ReportLineView line={line} />
+                                )}
+                                {startsMacroExpansion && line.macro && (
+                                    <MacroBadge spoken={line.macro.spoken} onRevert={() => handleRevertMacro(index)} />
                                 )}
+                                <RelatedFindingLinks errors={errorsForThisFinding} findings={findings} />
                             </div>
                             {isDictatingThis ? (
                                 <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-2 bg-white dark:bg-slate-800 p-1 rounded-full shadow-lg border border-slate-200 dark:border-slate-700">
@@ -1233,6 +1267,11 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                                         <button onClick={() => handleStartDictateEdit(index)} aria-label="Dictate changes" className="p-1 text-slate-600 dark:text-slate-300 hover:text-blue-600 dark:hover:text-blue-400 rounded-full hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors">
                                         <MicPencilIcon />
                                     </button>
+                                    {radsSystems.length > 0 && (
+                                        <button onClick={() => setScoringIndex(index)} aria-label="Score with a classification system" title={radsSystems.join(', ')} className="p-1 text-slate-600 dark:text-slate-300 hover:text-blue-600 dark:hover:text-blue-400 rounded-full hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors">
+                                            <CalculatorIcon />
+                                        </button>
+                                    )}
                                 </div>
                             )}
                         </>
@@ -1242,6 +1281,8 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
         })}
         </div>
 
+      <MeasurementsPanel findings={findings} onAddToFinding={handleAddComputedValue} />
+
       <div className="mt-6 p-4 border rounded-lg bg-slate-50 dark:bg-slate-700/50 dark:border-slate-700">
           <div className="flex items-start sm:items-center gap-3 flex-col sm:flex-row">
               <MicScribbleIcon className="w-8 h-8 text-slate-600 dark:text-slate-300 flex-shrink-0" />
@@ -1388,6 +1429,37 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                     >
                         Download Report as HTML
                     </button>
+                    <button
+                        onClick={handleDownloadDocx}
+                        className="bg-blue-600 text-white font-bold py-2 px-6 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-colors w-full sm:w-auto"
+                    >
+                        Download Report as Word
+                    </button>
+                    <button
+                        onClick={handleDownloadPdf}
+                        className="bg-blue-600 text-white font-bold py-2 px-6 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-colors w-full sm:w-auto"
+                    >
+                        Download Report as PDF
+                    </button>
+                    <button
+                        onClick={handleDownloadFormatted}
+                        title={`Formatted with the "${exportProfile.name}" export profile`}
+                        className="bg-blue-600 text-white font-bold py-2 px-6 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-colors w-full sm:w-auto"
+                    >
+                        Download as {EXPORT_FORMAT_LABELS[exportProfile.format]}
+                    </button>
+                    <button
+                        onClick={() => setIsHl7ExportOpen(true)}
+                        className="bg-blue-600 text-white font-bold py-2 px-6 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-colors w-full sm:w-auto"
+                    >
+                        Export HL7
+                    </button>
+                    <button
+                        onClick={() => setIsFhirExportOpen(true)}
+                        className="bg-blue-600 text-white font-bold py-2 px-6 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-colors w-full sm:w-auto"
+                    >
+                        Export FHIR
+                    </button>
                 </>
             ) : null}
             {continuationState.status === 'recording' && (
@@ -1418,6 +1490,37 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
         <p className="text-center text-red-500 dark:text-red-400 mt-4" role="alert">{continuationState.error}</p>
       )}
 
+      {versions && (
+        <VersionHistoryModal
+          isOpen={isVersionHistoryOpen}
+          onClose={() => setIsVersionHistoryOpen(false)}
+          versions={versions}
+          onRestore={handleRestoreVersion}
+        />
+      )}
+      <CriticalCommunicationModal
+        isOpen={isCommunicationOpen}
+        onClose={() => setIsCommunicationOpen(false)}
+        labels={uniqueLabels(pendingCritical)}
+        onSave={handleAddCommunication}
+      />
+      <RadsScoringModal
+        findings={findings}
+        findingIndex={scoringIndex}
+        onClose={() => setScoringIndex(null)}
+        onAddToFinding={handleAddRadsToFinding}
+        onAddToImpression={handleAddRadsToImpression}
+      />
+      <Hl7ExportModal
+        isOpen={isHl7ExportOpen}
+        reports={[{ id: reportId ?? 'report', name: 'Report', findings }]}
+        onClose={() => setIsHl7ExportOpen(false)}
+      />
+      <FhirExportModal
+        isOpen={isFhirExportOpen}
+        findings={findings}
+        onClose={() => setIsFhirExportOpen(false)}
+      />
     </div>
   );
 };
@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { TranscriptionRule, TranscriptionRuleKind } from '../types';
+import {
+  DEFAULT_TRANSCRIPTION_RULES,
+  applyTranscriptionRules,
+  createTranscriptionRule,
+  loadTranscriptionRules,
+  saveTranscriptionRules,
+  validateTranscriptionRule,
+} from '../services/transcriptionRules';
+import CloseIcon from './icons/CloseIcon';
+import TrashIcon from './icons/TrashIcon';
+
+interface TranscriptionRulesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<TranscriptionRuleKind, string> = {
+  literal: 'Replace text',
+  regex: 'Regex rewrite',
+  instruct: 'Instruct the model',
+};
+
+const inputClassName = "w-full p-1.5 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-900 dark:text-white dark:border-slate-600";
+const smallButtonClassName = "p-1 text-xs rounded text-slate-600 hover:bg-slate-200 dark:text-slate-300 dark:hover:bg-slate-700 disabled:opacity-30 disabled:cursor-not-allowed";
+
+const TranscriptionRulesModal: React.FC<TranscriptionRulesModalProps> = ({ isOpen, onClose }) => {
+  const [rules, setRules] = useState<TranscriptionRule[]>([]);
+  const [sampleText, setSampleText] = useState('Patient with complaints of headache, status post fall. Lesion measuring 8 mm into 9 mm.');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setRules(loadTranscriptionRules());
+      setError('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateRule = (id: string, changes: Partial<TranscriptionRule>) => {
+    setRules(prev => prev.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+    setError('');
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    setRules(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    for (const [index, rule] of rules.entries()) {
+      const problem = validateTranscriptionRule(rule);
+      if (problem) {
+        setError(`Rule ${index + 1}: ${problem}`);
+        return;
+      }
+    }
+    saveTranscriptionRules(rules);
+    onClose();
+  };
+
+  const handleResetDefaults = () => {
+    if (window.confirm('Replace your rules with the default set?')) {
+      setRules(DEFAULT_TRANSCRIPTION_RULES.map(rule => ({ ...rule })));
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="transcription-rules-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-3xl flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="transcription-rules-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              Transcription Rules
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Rules are sent to the AI with every dictation, in this order. Replace and regex rules are also applied to the returned text.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close transcription rules">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        <div className="overflow-y-auto p-4 space-y-3">
+          {rules.length === 0 && (
+            <p className="text-center text-slate-500 dark:text-slate-400 py-4">No rules. Add one below.</p>
+          )}
+          {rules.map((rule, index) => (
+            <div key={rule.id} className={`p-3 rounded-lg border dark:border-slate-700 ${rule.enabled ? 'bg-slate-50 dark:bg-slate-700/50' : 'bg-white dark:bg-slate-800 opacity-60'}`}>
+              <div className="flex items-center gap-2 mb-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                  aria-label="Enable rule"
+                />
+                <select
+                  value={rule.kind}
+                  onChange={(e) => updateRule(rule.id, { kind: e.target.value as TranscriptionRuleKind })}
+                  className="p-1 border border-slate-300 rounded-md text-xs bg-white text-slate-900 dark:bg-slate-900 dark:text-white dark:border-slate-600"
+                  aria-label="Rule type"
+                >
+                  {(Object.keys(KIND_LABELS) as TranscriptionRuleKind[]).map(kind => (
+                    <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+                {rule.kind !== 'instruct' && (
+                  <label className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={rule.caseSensitive}
+                      onChange={(e) => updateRule(rule.id, { caseSensitive: e.target.checked })}
+                    />
+                    Case sensitive
+                  </label>
+                )}
+                <div className="ml-auto flex items-center gap-1">
+                  <button onClick={() => moveRule(index, -1)} disabled={index === 0} className={smallButtonClassName} aria-label="Move rule up">&uarr;</button>
+                  <button onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} className={smallButtonClassName} aria-label="Move rule down">&darr;</button>
+                  <button onClick={() => setRules(prev => prev.filter(r => r.id !== rule.id))} className={smallButtonClassName} aria-label="Delete rule">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              {rule.kind !== 'instruct' && (
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                  <input
+                    value={rule.pattern}
+                    onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                    placeholder={rule.kind === 'regex' ? 'Pattern, e.g. (\\d+) mm into (\\d+) mm' : 'Find, e.g. history of'}
+                    className={`${inputClassName} ${rule.kind === 'regex' ? 'font-mono' : ''}`}
+                    aria-label="Text to find"
+                  />
+                  <input
+                    value={rule.replacement}
+                    onChange={(e) => updateRule(rule.id, { replacement: e.target.value })}
+                    placeholder={rule.kind === 'regex' ? 'Replacement, e.g. $1 x $2 mm' : 'Replace with, e.g. H/o'}
+                    className={inputClassName}
+                    aria-label="Replacement text"
+                  />
+                </div>
+              )}
+              <input
+                value={rule.instruction}
+                onChange={(e) => updateRule(rule.id, { instruction: e.target.value })}
+                placeholder={rule.kind === 'instruct' ? 'Instruction for the AI' : 'Instruction for the AI (optional)'}
+                className={inputClassName}
+                aria-label="Instruction for the AI"
+              />
+            </div>
+          ))}
+
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(KIND_LABELS) as TranscriptionRuleKind[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => setRules(prev => [...prev, createTranscriptionRule(kind)])}
+                className="text-sm font-medium py-1.5 px-3 rounded-lg bg-blue-100 text-blue-800 hover:bg-blue-200 dark:bg-blue-900/50 dark:text-blue-300 dark:hover:bg-blue-900/80"
+              >
+                + {KIND_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+
+          <div className="pt-3 border-t dark:border-slate-700">
+            <label htmlFor="rules-sample" className="block text-xs font-semibold text-slate-600 dark:text-slate-300 mb-1">Try the replace and regex rules</label>
+            <textarea id="rules-sample" value={sampleText} onChange={(e) => setSampleText(e.target.value)} className={inputClassName} rows={2} />
+            <p className="mt-1 text-sm text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-900 p-2 rounded">
+              {applyTranscriptionRules(sampleText, rules)}
+            </p>
+          </div>
+        </div>
+
+        <footer className="p-4 border-t dark:border-slate-700 flex items-center gap-2 flex-shrink-0">
+          <button onClick={handleResetDefaults} className="text-sm text-slate-600 hover:underline dark:text-slate-300">Reset to defaults</button>
+          {error && <p className="text-sm text-red-500 flex-grow text-center">{error}</p>}
+          <div className="ml-auto flex gap-2">
+            <button onClick={onClose} className="text-sm font-semibold py-1.5 px-4 rounded-lg bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600">Cancel</button>
+            <button onClick={handleSave} className="text-sm font-semibold py-1.5 px-4 rounded-lg bg-blue-600 text-white hover:bg-blue-700">Save Rules</button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptionRulesModal;
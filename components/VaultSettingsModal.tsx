@@ -0,0 +1,210 @@
+import React, { useState, useEffect } from 'react';
+import {
+  DEFAULT_AUTO_LOCK_MINUTES,
+  MIN_PASSPHRASE_LENGTH,
+  changeVaultPassphrase,
+  disableVault,
+  enableVault,
+  getVaultAutoLockMinutes,
+  isVaultEnabled,
+  setVaultAutoLockMinutes,
+} from '../services/vault';
+import { resealBlobs } from '../services/blobStore';
+import { resealHistory } from '../services/historyStore';
+import { resealAuditLog } from '../services/auditLog';
+import CloseIcon from './icons/CloseIcon';
+import Spinner from './ui/Spinner';
+
+interface VaultSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called after the vault is enabled, disabled or its auto-lock changes.
+  onVaultChange: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [
+  { value: 5, label: 'After 5 minutes' },
+  { value: 15, label: 'After 15 minutes' },
+  { value: 30, label: 'After 30 minutes' },
+  { value: 60, label: 'After 1 hour' },
+  { value: 0, label: 'Never' },
+];
+
+const inputClassName = "w-full p-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-900 dark:text-white dark:border-slate-600";
+const labelClassName = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1";
+
+// Re-encrypts (or decrypts) the IndexedDB stores after the vault is switched on or off.
+const resealStoredData = () => Promise.all([resealBlobs(), resealHistory(), resealAuditLog()]);
+
+const VaultSettingsModal: React.FC<VaultSettingsModalProps> = ({ isOpen, onClose, onVaultChange }) => {
+  const [isEnabled, setIsEnabled] = useState(isVaultEnabled);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setIsEnabled(isVaultEnabled());
+      setAutoLockMinutes(getVaultAutoLockMinutes());
+      setCurrentPassphrase('');
+      setNewPassphrase('');
+      setConfirmPassphrase('');
+      setError('');
+      setMessage('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const validateNewPassphrase = (): boolean => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return false;
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      setError('The passphrases do not match.');
+      return false;
+    }
+    return true;
+  };
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsBusy(true);
+    setError('');
+    setMessage('');
+    try {
+      await action();
+      setCurrentPassphrase('');
+      setNewPassphrase('');
+      setConfirmPassphrase('');
+      setIsEnabled(isVaultEnabled());
+      setMessage(success);
+      onVaultChange();
+    } catch (err) {
+      console.error("Vault operation failed:", err);
+      setError(err instanceof Error ? err.message : 'The vault operation failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleEnable = () => {
+    if (!validateNewPassphrase()) return;
+    run(() => enableVault(newPassphrase, autoLockMinutes, resealStoredData), 'The vault is on. Saved keys and reports are now encrypted.');
+  };
+
+  const handleChangePassphrase = () => {
+    if (!currentPassphrase) {
+      setError('Enter your current passphrase.');
+      return;
+    }
+    if (!validateNewPassphrase()) return;
+    run(() => changeVaultPassphrase(currentPassphrase, newPassphrase), 'Passphrase changed.');
+  };
+
+  const handleDisable = () => {
+    if (!currentPassphrase) {
+      setError('Enter your current passphrase.');
+      return;
+    }
+    if (!window.confirm('Turn off the vault? Saved keys and reports will be stored unencrypted.')) return;
+    run(() => disableVault(currentPassphrase, resealStoredData), 'The vault is off. Saved data is no longer encrypted.');
+  };
+
+  const handleAutoLockChange = (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    if (isEnabled) {
+      setVaultAutoLockMinutes(minutes);
+      onVaultChange();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={isBusy ? undefined : onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="vault-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-md flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="vault-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              Encrypted Vault
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Encrypts API keys, saved sessions, media, report history and the audit log on this device with a passphrase.
+            </p>
+          </div>
+          <button onClick={onClose} disabled={isBusy} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close vault settings">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        <div className="overflow-y-auto p-4 space-y-4">
+          <p className="text-sm text-slate-600 dark:text-slate-300">
+            Status: <span className="font-semibold">{isEnabled ? 'On' : 'Off'}</span>
+            {!isEnabled && ' — anyone using this browser can read saved keys and reports.'}
+          </p>
+
+          <div>
+            <label htmlFor="vault-auto-lock" className={labelClassName}>Lock when idle</label>
+            <select
+              id="vault-auto-lock"
+              value={autoLockMinutes}
+              onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+              className={inputClassName}
+            >
+              {AUTO_LOCK_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </div>
+
+          {isEnabled && (
+            <div>
+              <label htmlFor="vault-current" className={labelClassName}>Current passphrase</label>
+              <input id="vault-current" type="password" value={currentPassphrase} onChange={(e) => setCurrentPassphrase(e.target.value)} className={inputClassName} />
+            </div>
+          )}
+          <div>
+            <label htmlFor="vault-new" className={labelClassName}>{isEnabled ? 'New passphrase' : 'Passphrase'}</label>
+            <input id="vault-new" type="password" value={newPassphrase} onChange={(e) => setNewPassphrase(e.target.value)} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="vault-confirm" className={labelClassName}>Confirm passphrase</label>
+            <input id="vault-confirm" type="password" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} className={inputClassName} />
+          </div>
+          {!isEnabled && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              There is no way to recover a forgotten passphrase; saved data would have to be deleted.
+            </p>
+          )}
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          {message && <p className="text-sm text-green-600 dark:text-green-400">{message}</p>}
+        </div>
+
+        <footer className="p-4 border-t dark:border-slate-700 flex items-center gap-2 flex-shrink-0">
+          {isBusy && <Spinner className="w-5 h-5 text-blue-600" />}
+          {isEnabled ? (
+            <>
+              <button onClick={handleDisable} disabled={isBusy} className="text-sm text-red-600 hover:underline disabled:opacity-40 dark:text-red-400">Turn off vault</button>
+              <button onClick={handleChangePassphrase} disabled={isBusy} className="ml-auto text-sm font-semibold py-1.5 px-4 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-60">Change Passphrase</button>
+            </>
+          ) : (
+            <button onClick={handleEnable} disabled={isBusy} className="ml-auto text-sm font-semibold py-1.5 px-4 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-60">Turn On Vault</button>
+          )}
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default VaultSettingsModal;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { resetVault, unlockVault } from '../services/vault';
+import { clearBlobs } from '../services/blobStore';
+import { clearHistory } from '../services/historyStore';
+import { clearAuditLog } from '../services/auditLog';
+import LockIcon from './icons/LockIcon';
+import Spinner from './ui/Spinner';
+
+interface VaultUnlockModalProps {
+  isOpen: boolean;
+  onUnlock: () => void;
+}
+
+const VaultUnlockModal: React.FC<VaultUnlockModalProps> = ({ isOpen, onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) {
+      setError('Passphrase is required.');
+      return;
+    }
+    setIsUnlocking(true);
+    setError('');
+    try {
+      await unlockVault(passphrase);
+      setPassphrase('');
+      onUnlock();
+    } catch (err) {
+      console.error("Failed to unlock vault:", err);
+      setError(err instanceof Error ? err.message : 'Could not unlock the vault.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Reset the vault? Your API keys, saved sessions, report history and audit log will be permanently deleted.')) return;
+    resetVault();
+    try {
+      await Promise.all([clearBlobs(), clearHistory(), clearAuditLog()]);
+    } catch (err) {
+      console.error("Failed to clear encrypted data:", err);
+    }
+    window.location.reload();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900 bg-opacity-95 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-sm p-6">
+        <div className="flex items-center gap-2 mb-2">
+          <LockIcon className="w-6 h-6 text-slate-600 dark:text-slate-300" />
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100">Vault Locked</h2>
+        </div>
+        <p className="text-slate-600 dark:text-slate-400 mb-6 text-sm">
+          API keys and reports on this workstation are encrypted. Enter your passphrase to continue.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => { setPassphrase(e.target.value); setError(''); }}
+            className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-700 dark:text-white dark:border-slate-600"
+            placeholder="Passphrase"
+            aria-label="Passphrase"
+            autoFocus
+          />
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+          <button
+            type="submit"
+            disabled={isUnlocking}
+            className="w-full flex justify-center items-center gap-2 px-6 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-60 transition-colors"
+          >
+            {isUnlocking && <Spinner className="w-4 h-4 text-white" />}
+            Unlock
+          </button>
+        </form>
+
+        <div className="mt-6 pt-4 border-t border-slate-200 dark:border-slate-700 text-center">
+          <button onClick={handleReset} className="text-xs text-red-600 hover:underline dark:text-red-400">
+            Forgot passphrase? Reset vault and delete saved data
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VaultUnlockModal;
@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { ReportVersion } from '../types';
+import { VERSION_SOURCE_LABELS, diffWords, versionText } from '../services/reportVersions';
+import CloseIcon from './icons/CloseIcon';
+
+interface VersionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  versions: ReportVersion[];
+  onRestore: (version: ReportVersion) => void;
+}
+
+const selectClassName = "flex-grow min-w-0 p-1.5 border border-slate-300 rounded-md text-sm bg-white text-slate-900 dark:bg-slate-900 dark:text-white dark:border-slate-600";
+
+const versionLabel = (version: ReportVersion, index: number): string =>
+  `v${index + 1} · ${VERSION_SOURCE_LABELS[version.source]}${version.model ? ` (${version.model})` : ''} · ${new Date(version.at).toLocaleTimeString()}`;
+
+const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({ isOpen, onClose, versions, onRestore }) => {
+  // Indices into `versions`; by default the latest change is compared with the version before it.
+  const [baseIndex, setBaseIndex] = useState(0);
+  const [compareIndex, setCompareIndex] = useState(0);
+
+  // The selection is only reset when the dialog opens, not when a version is added while it is open.
+  useEffect(() => {
+    if (isOpen) {
+      setCompareIndex(Math.max(versions.length - 1, 0));
+      setBaseIndex(Math.max(versions.length - 2, 0));
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const base = versions[baseIndex];
+  const compare = versions[compareIndex];
+  const parts = base && compare ? diffWords(versionText(base), versionText(compare)) : [];
+  const hasChanges = parts.some(part => part.type !== 'same');
+
+  const handleSelect = (index: number) => {
+    setCompareIndex(index);
+    setBaseIndex(Math.max(index - 1, 0));
+  };
+
+  const handleRestore = (version: ReportVersion, index: number) => {
+    if (!window.confirm(`Restore v${index + 1}? The current report is kept in the history as its own version.`)) return;
+    onRestore(version);
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="versions-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-5xl flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="versions-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              Version History
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Every processing run and change to this report. Pick any two versions to compare them word by word.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close version history">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        {versions.length === 0 ? (
+          <p className="p-8 text-center text-slate-500 dark:text-slate-400">No versions recorded for this report yet.</p>
+        ) : (
+          <div className="flex flex-col md:flex-row min-h-0 flex-grow">
+            <ol className="md:w-72 flex-shrink-0 overflow-y-auto border-b md:border-b-0 md:border-r dark:border-slate-700 p-2 space-y-1 max-h-48 md:max-h-none">
+              {versions.map((version, index) => ({ version, index })).reverse().map(({ version, index }) => (
+                <li
+                  key={version.id}
+                  className={`p-2 rounded-lg text-sm flex items-start gap-2 ${index === compareIndex ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-slate-100 dark:hover:bg-slate-700/50'}`}
+                >
+                  <button onClick={() => handleSelect(index)} className="flex-grow text-left min-w-0">
+                    <span className="font-semibold text-slate-800 dark:text-slate-100">v{index + 1} &middot; {VERSION_SOURCE_LABELS[version.source]}</span>
+                    <span className="block text-xs text-slate-500 dark:text-slate-400 truncate">
+                      {new Date(version.at).toLocaleString()}{version.model ? ` · ${version.model}` : ''}
+                    </span>
+                  </button>
+                  {index !== versions.length - 1 && (
+                    <button
+                      onClick={() => handleRestore(version, index)}
+                      className="text-xs text-blue-600 hover:underline dark:text-blue-400 flex-shrink-0"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ol>
+
+            <div className="flex flex-col min-w-0 flex-grow">
+              <div className="p-3 border-b dark:border-slate-700 flex flex-wrap items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                <select value={baseIndex} onChange={(e) => setBaseIndex(Number(e.target.value))} className={selectClassName} aria-label="Older version">
+                  {versions.map((version, index) => <option key={version.id} value={index}>{versionLabel(version, index)}</option>)}
+                </select>
+                <span>&rarr;</span>
+                <select value={compareIndex} onChange={(e) => setCompareIndex(Number(e.target.value))} className={selectClassName} aria-label="Newer version">
+                  {versions.map((version, index) => <option key={version.id} value={index}>{versionLabel(version, index)}</option>)}
+                </select>
+              </div>
+              <div className="overflow-y-auto p-4 flex-grow">
+                {!hasChanges && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                    {baseIndex === compareIndex ? 'The same version is selected on both sides.' : 'These versions have the same text.'}
+                  </p>
+                )}
+                <p className="whitespace-pre-wrap text-sm leading-relaxed text-slate-800 dark:text-slate-200">
+                  {parts.map((part, index) =>
+                    part.type === 'same' ? (
+                      <span key={index}>{part.text}</span>
+                    ) : part.type === 'removed' ? (
+                      <del key={index} className="bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300">{part.text}</del>
+                    ) : (
+                      <ins key={index} className="no-underline bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300">{part.text}</ins>
+                    )
+                  )}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryModal;
@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { VocabularyEntry } from '../types';
+import { createVocabularyEntry, loadVocabulary, mergeVocabulary, parseVocabularyCsv, saveVocabulary } from '../services/vocabulary';
+import CloseIcon from './icons/CloseIcon';
+import TrashIcon from './icons/TrashIcon';
+import UploadIcon from './icons/UploadIcon';
+import SearchIcon from './icons/SearchIcon';
+
+interface VocabularyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Aliases are edited as free text so commas can be typed; they are split again on save.
+interface DraftEntry {
+  id: string;
+  term: string;
+  soundsLikeText: string;
+}
+
+const toDraft = (entry: VocabularyEntry): DraftEntry => ({ id: entry.id, term: entry.term, soundsLikeText: entry.soundsLike.join(', ') });
+
+const fromDraft = (draft: DraftEntry): VocabularyEntry => ({
+  id: draft.id,
+  term: draft.term.trim(),
+  soundsLike: draft.soundsLikeText.split(/[,;]/).map(alias => alias.trim()).filter(alias => alias !== ''),
+});
+
+const inputClassName = "w-full p-1.5 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-900 dark:text-white dark:border-slate-600";
+
+const VocabularyModal: React.FC<VocabularyModalProps> = ({ isOpen, onClose }) => {
+  const [drafts, setDrafts] = useState<DraftEntry[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDrafts(loadVocabulary().map(toDraft));
+      setSearchTerm('');
+      setMessage(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateDraft = (id: string, changes: Partial<DraftEntry>) => {
+    setDrafts(prev => prev.map(draft => (draft.id === id ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleAdd = () => {
+    setSearchTerm('');
+    setDrafts(prev => [toDraft(createVocabularyEntry()), ...prev]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseVocabularyCsv(await file.text());
+      setDrafts(prev => mergeVocabulary(prev.map(fromDraft), imported).map(toDraft));
+      setMessage({ text: `Imported ${imported.length} term${imported.length === 1 ? '' : 's'} from ${file.name}. Save to keep them.`, isError: false });
+    } catch (err) {
+      console.error("Failed to import vocabulary:", err);
+      setMessage({ text: err instanceof Error ? err.message : 'Could not read the selected file.', isError: true });
+    }
+  };
+
+  const handleSave = () => {
+    saveVocabulary(drafts.map(fromDraft).filter(entry => entry.term !== ''));
+    onClose();
+  };
+
+  const query = searchTerm.trim().toLowerCase();
+  const visibleDrafts = query
+    ? drafts.filter(draft => draft.term.toLowerCase().includes(query) || draft.soundsLikeText.toLowerCase().includes(query))
+    : drafts;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="vocabulary-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-2xl flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="vocabulary-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+              Personal Vocabulary
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Drug names, eponyms, hospitals and colleagues the dictation keeps getting wrong. Close misspellings in the output are corrected automatically.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close vocabulary">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        <div className="p-4 border-b dark:border-slate-700 flex flex-wrap items-center gap-2 flex-shrink-0">
+          <div className="relative flex-grow">
+            <SearchIcon className="w-4 h-4 absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search terms..."
+              className={`${inputClassName} pl-8`}
+            />
+          </div>
+          <button
+            onClick={handleAdd}
+            className="text-sm font-medium py-1.5 px-3 rounded-lg bg-blue-100 text-blue-800 hover:bg-blue-200 dark:bg-blue-900/50 dark:text-blue-300 dark:hover:bg-blue-900/80"
+          >
+            + Add Term
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 text-sm font-medium py-1.5 px-3 rounded-lg bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600"
+            title="CSV with the preferred term in the first column and sounds-like spellings in the following columns"
+          >
+            <UploadIcon className="w-4 h-4" />
+            Import CSV
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleImport} className="hidden" />
+        </div>
+
+        <div className="overflow-y-auto p-4">
+          {visibleDrafts.length === 0 ? (
+            <p className="text-center text-slate-500 dark:text-slate-400 py-4">
+              {drafts.length === 0 ? 'No terms yet. Add one or import a word list.' : 'No terms match your search.'}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_1.5fr_auto] gap-2 text-xs font-semibold text-slate-500 dark:text-slate-400 px-1">
+                <span>Preferred spelling</span>
+                <span>Sounds like (comma separated)</span>
+                <span className="w-6" />
+              </div>
+              {visibleDrafts.map(draft => (
+                <div key={draft.id} className="grid grid-cols-[1fr_1.5fr_auto] gap-2 items-center">
+                  <input
+                    value={draft.term}
+                    onChange={(e) => updateDraft(draft.id, { term: e.target.value })}
+                    placeholder="e.g. Keppra"
+                    className={inputClassName}
+                    aria-label="Preferred spelling"
+                  />
+                  <input
+                    value={draft.soundsLikeText}
+                    onChange={(e) => updateDraft(draft.id, { soundsLikeText: e.target.value })}
+                    placeholder="e.g. kepra, kepper"
+                    className={inputClassName}
+                    aria-label="Sounds like"
+                  />
+                  <button
+                    onClick={() => setDrafts(prev => prev.filter(d => d.id !== draft.id))}
+                    className="p-1 rounded text-slate-500 hover:text-red-600 hover:bg-slate-200 dark:hover:bg-slate-700"
+                    aria-label={`Delete ${draft.term || 'term'}`}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <footer className="p-4 border-t dark:border-slate-700 flex items-center gap-2 flex-shrink-0">
+          {message && <p className={`text-sm flex-grow ${message.isError ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>{message.text}</p>}
+          <div className="ml-auto flex gap-2">
+            <button onClick={onClose} className="text-sm font-semibold py-1.5 px-4 rounded-lg bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600">Cancel</button>
+            <button onClick={handleSave} className="text-sm font-semibold py-1.5 px-4 rounded-lg bg-blue-600 text-white hover:bg-blue-700">Save Vocabulary</button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default VocabularyModal;
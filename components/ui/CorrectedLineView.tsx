@@ -0,0 +1,34 @@
+import React from 'react';
+import { CorrectionChange, CorrectionChunk } from '../../services/corrections';
+
+interface CorrectedLineViewProps {
+  chunks: CorrectionChunk[];
+  onRevert: (change: CorrectionChange) => void;
+}
+
+// A line with every word the model changed highlighted; hovering shows what was said and clicking puts it back.
+const CorrectedLineView: React.FC<CorrectedLineViewProps> = ({ chunks, onRevert }) => (
+  <span>
+    {chunks.map((chunk, i) => {
+      if (chunk.type === 'same') return <span key={i}>{chunk.text}</span>;
+      const said = chunk.spoken.trim();
+      return (
+        <button
+          key={i}
+          onClick={(e) => {
+            e.stopPropagation();
+            onRevert(chunk);
+          }}
+          title={said ? `Dictated as "${said}". Click to revert.` : 'Not dictated. Click to remove.'}
+          className={`rounded px-0.5 whitespace-pre-wrap ${chunk.corrected.trim()
+            ? 'bg-amber-100 text-amber-900 underline decoration-dotted hover:bg-amber-200 dark:bg-amber-900/40 dark:text-amber-200 dark:hover:bg-amber-900/70'
+            : 'text-xs text-slate-400 line-through hover:text-slate-600 dark:text-slate-500 dark:hover:text-slate-300'}`}
+        >
+          {chunk.corrected.trim() ? chunk.corrected : said}
+        </button>
+      );
+    })}
+  </span>
+);
+
+export default CorrectedLineView;
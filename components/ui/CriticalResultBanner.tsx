@@ -0,0 +1,47 @@
+import React from 'react';
+import { CriticalFinding } from '../../types';
+import { uniqueLabels } from '../../services/criticalFindings';
+import WarningIcon from '../icons/WarningIcon';
+
+interface CriticalResultBannerProps {
+  critical: CriticalFinding[];
+  // Critical findings no recorded communication covers yet.
+  pending: CriticalFinding[];
+  onRecord: () => void;
+}
+
+// Stays until the communication of every critical result is recorded in the report.
+const CriticalResultBanner: React.FC<CriticalResultBannerProps> = ({ critical, pending, onRecord }) => {
+  if (critical.length === 0) return null;
+
+  if (pending.length === 0) {
+    return (
+      <div className="mb-4 px-3 py-2 rounded-lg text-sm font-medium bg-green-50 text-green-800 border border-green-200 dark:bg-green-900/20 dark:text-green-300 dark:border-green-800" role="status">
+        Critical result communication is documented in this report.
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 p-4 rounded-lg border-2 border-red-500 bg-red-50 dark:bg-red-900/30 flex flex-col sm:flex-row sm:items-center gap-3" role="alert">
+      <WarningIcon className="w-8 h-8 text-red-600 dark:text-red-400 flex-shrink-0" />
+      <div className="flex-grow">
+        <p className="font-bold text-red-800 dark:text-red-200">
+          Critical result: {uniqueLabels(pending).join(', ')}
+        </p>
+        <p className="text-sm text-red-700 dark:text-red-300">
+          Finding{pending.length > 1 ? 's' : ''} {Array.from(new Set(pending.map(c => c.findingIndex + 1))).map(n => `#${n}`).join(', ')}.
+          Record who was informed, when and how before signing off the report.
+        </p>
+      </div>
+      <button
+        onClick={onRecord}
+        className="flex-shrink-0 bg-red-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-red-700 transition-colors"
+      >
+        Record Communication
+      </button>
+    </div>
+  );
+};
+
+export default CriticalResultBanner;
@@ -7,15 +7,23 @@ import MicIcon from '../icons/MicIcon';
 import StopIcon from '../icons/StopIcon';
 import Spinner from './Spinner';
 import TemplateSelectionModal from './TemplateSelectionModal';
-import { REPORT_TEMPLATES, ReportTemplate } from '../../constants';
+import TemplateManagerModal from './TemplateManagerModal';
+import { ReportTemplate } from '../../constants';
+import { findTemplateById, loadTemplates } from '../../services/templateLibrary';
+import CloseIcon from '../icons/CloseIcon';
 
 const CustomPromptInput: React.FC<{
   prompt: string;
   onPromptChange: (prompt: string) => void;
+  // Template selection is offered only when a handler is given; live dictation has no template step.
+  templateId?: string | null;
+  onTemplateChange?: (templateId: string | null) => void;
   className?: string;
-}> = ({ prompt, onPromptChange, className }) => {
+}> = ({ prompt, onPromptChange, templateId = null, onTemplateChange, className }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isManagerOpen, setIsManagerOpen] = useState(false);
+  const [templates, setTemplates] = useState<ReportTemplate[]>(loadTemplates);
   const { isRecording, startRecording, stopRecording, error: recorderError } = useAudioRecorder();
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [transcriptionError, setTranscriptionError] = useState<string | null>(null);
@@ -45,17 +53,32 @@ const CustomPromptInput: React.FC<{
   };
 
   const handleSelectTemplate = (template: ReportTemplate) => {
-    onPromptChange(`Use the normal ${template.name} report template. Integrate my dictation and generate a new impression.`);
+    onTemplateChange?.(template.id);
     setIsModalOpen(false);
   };
 
+  const selectedTemplate = findTemplateById(templates, templateId);
+
+  const handleOpenTemplates = () => {
+    // Another prompt input may have changed the library since this one mounted.
+    setTemplates(loadTemplates());
+    setIsModalOpen(true);
+  };
+
   return (
     <div className={`w-full ${className}`}>
       <TemplateSelectionModal 
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
-        templates={REPORT_TEMPLATES}
+        templates={templates}
         onSelectTemplate={handleSelectTemplate}
+        onManageTemplates={() => { setIsModalOpen(false); setIsManagerOpen(true); }}
+      />
+      <TemplateManagerModal
+        isOpen={isManagerOpen}
+        onClose={() => { setIsManagerOpen(false); setIsModalOpen(true); }}
+        templates={templates}
+        onTemplatesChange={setTemplates}
       />
       <button
         onClick={() => setIsOpen(!isOpen)}
@@ -69,6 +92,27 @@ const CustomPromptInput: React.FC<{
         </div>
         <ChevronDownIcon className={`w-6 h-6 text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
       </button>
+      {onTemplateChange && templateId && (
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <span className="text-xs font-semibold text-slate-600 dark:text-slate-300">Template:</span>
+          <span
+            className={`inline-flex items-center gap-1 text-sm font-medium py-1 pl-3 pr-1 rounded-full ${
+              selectedTemplate
+                ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300'
+                : 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+            }`}
+          >
+            {selectedTemplate ? selectedTemplate.name : 'Missing template'}
+            <button
+              onClick={() => onTemplateChange(null)}
+              className="p-0.5 rounded-full hover:bg-black/10 dark:hover:bg-white/10"
+              aria-label="Clear report template"
+            >
+              <CloseIcon className="w-4 h-4" />
+            </button>
+          </span>
+        </div>
+      )}
       {isOpen && (
         <div id="custom-prompt-container" className="mt-2">
           <div className="relative">
@@ -104,21 +148,23 @@ const CustomPromptInput: React.FC<{
               {recorderError || transcriptionError}
             </p>
           )}
+          {onTemplateChange && (
            <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-700">
                 <p className="text-xs font-semibold text-slate-600 dark:text-slate-300 mb-2">
-                    Or, start with a normal report template:
+                    Start from a normal report template:
                 </p>
                 <div className="flex flex-wrap gap-2">
                     <button 
-                        onClick={() => setIsModalOpen(true)}
+                        onClick={handleOpenTemplates}
                         className="text-sm font-medium py-1.5 px-4 rounded-lg bg-blue-100 text-blue-800 hover:bg-blue-200 dark:bg-blue-900/50 dark:text-blue-300 dark:hover:bg-blue-900/80"
                     >
-                        Select Template...
+                        {templateId ? 'Change Template...' : 'Select Template...'}
                     </button>
                 </div>
             </div>
+          )}
           <p className="text-xs text-slate-500 dark:text-slate-400 mt-3">
-            These instructions customize the AI's response. Selecting a template will replace any text above.
+            These instructions customize the AI's response{onTemplateChange ? ' and are applied on top of any selected template' : ''}.
           </p>
         </div>
       )}
@@ -0,0 +1,28 @@
+import React, { useEffect, useState } from 'react';
+import { ExportProfile } from '../../types';
+import { loadExportProfiles, setActiveExportProfile, subscribeToExportProfiles } from '../../services/exportProfiles';
+import { useExportProfile } from '../../hooks/useExportProfile';
+
+// Picks the export profile that copying and the formatted download use; profiles are edited in the Export Profiles modal.
+const ExportProfileSelect: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const active = useExportProfile();
+  const [profiles, setProfiles] = useState<ExportProfile[]>(loadExportProfiles);
+
+  useEffect(() => subscribeToExportProfiles(() => setProfiles(loadExportProfiles())), []);
+
+  return (
+    <select
+      value={active.id}
+      onChange={(e) => setActiveExportProfile(e.target.value)}
+      title="Export profile used when copying and for the formatted download"
+      aria-label="Export profile"
+      className={`text-sm py-1 px-2 border border-slate-300 rounded-lg bg-white text-slate-700 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-700 dark:text-slate-300 dark:border-slate-600 ${className}`}
+    >
+      {profiles.map(profile => (
+        <option key={profile.id} value={profile.id}>{profile.name}</option>
+      ))}
+    </select>
+  );
+};
+
+export default ExportProfileSelect;
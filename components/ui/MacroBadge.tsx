@@ -0,0 +1,26 @@
+import React from 'react';
+import { findingToPlainText } from '../../services/reportModel';
+
+interface MacroBadgeProps {
+  // The stored line as it was dictated, before the macro was expanded.
+  spoken: string;
+  onRevert: () => void;
+}
+
+const MacroBadge: React.FC<MacroBadgeProps> = ({ spoken, onRevert }) => (
+  <div className="mt-1 inline-flex items-center gap-2 text-xs rounded-full bg-violet-100 text-violet-800 dark:bg-violet-900/40 dark:text-violet-300 px-2 py-0.5">
+    <span>Macro from &ldquo;{findingToPlainText(spoken)}&rdquo;</span>
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onRevert();
+      }}
+      className="font-semibold hover:underline"
+      title="Replace the expanded text with what was dictated"
+    >
+      Revert
+    </button>
+  </div>
+);
+
+export default MacroBadge;
@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import ChevronDownIcon from '../icons/ChevronDownIcon';
+import { ellipsoidVolumeMl, extractMeasurements, formatAxes, formatVolumeMl } from '../../services/measurements';
+
+interface MeasurementsPanelProps {
+  findings: string[];
+  // Appends a computed sentence, e.g. "Volume approx. 4.2 cc.", to a finding.
+  onAddToFinding: (findingIndex: number, sentence: string) => void;
+}
+
+// Every measurement in the report, normalised to mm and cm, with ellipsoid volumes on request.
+const MeasurementsPanel: React.FC<MeasurementsPanelProps> = ({ findings, onAddToFinding }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Volumes the user asked for, keyed by finding index and measurement text.
+  const [shownVolumes, setShownVolumes] = useState<Set<string>>(new Set());
+  const measurements = useMemo(() => extractMeasurements(findings), [findings]);
+
+  if (measurements.length === 0) return null;
+
+  const toggleVolume = (key: string) => {
+    setShownVolumes(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="mt-6 border rounded-lg dark:border-slate-700">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+        aria-expanded={isOpen}
+      >
+        <span className="font-semibold text-slate-800 dark:text-slate-200">Measurements ({measurements.length})</span>
+        <ChevronDownIcon className={`w-5 h-5 text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs uppercase text-slate-500 dark:text-slate-400">
+              <tr>
+                <th className="px-3 py-2">#</th>
+                <th className="px-3 py-2">Structure</th>
+                <th className="px-3 py-2">As written</th>
+                <th className="px-3 py-2">mm</th>
+                <th className="px-3 py-2">cm</th>
+                <th className="px-3 py-2">Volume</th>
+              </tr>
+            </thead>
+            <tbody>
+              {measurements.map(measurement => {
+                const key = `${measurement.findingIndex}:${measurement.text}`;
+                const volume = ellipsoidVolumeMl(measurement);
+                return (
+                  <tr key={key} className="border-t dark:border-slate-700 text-slate-700 dark:text-slate-300">
+                    <td className="px-3 py-2 text-slate-500 dark:text-slate-400">{measurement.findingIndex + 1}</td>
+                    <td className="px-3 py-2">{measurement.structure || <span className="text-slate-400">—</span>}</td>
+                    <td className="px-3 py-2 font-mono">{measurement.text}</td>
+                    <td className="px-3 py-2 font-mono">{formatAxes(measurement.axesMm, 'mm')}</td>
+                    <td className="px-3 py-2 font-mono">{formatAxes(measurement.axesMm, 'cm')}</td>
+                    <td className="px-3 py-2">
+                      {volume === null ? (
+                        <span className="text-slate-400" title="Needs three dimensions">—</span>
+                      ) : shownVolumes.has(key) ? (
+                        <span className="inline-flex items-center gap-2">
+                          <span className="font-mono">{formatVolumeMl(volume)} cc</span>
+                          <button
+                            onClick={() => {
+                              onAddToFinding(measurement.findingIndex, `Volume approx. ${formatVolumeMl(volume)} cc.`);
+                              toggleVolume(key);
+                            }}
+                            className="text-xs font-semibold text-blue-600 hover:underline dark:text-blue-400"
+                            title="Append the volume to this finding"
+                          >
+                            Add to finding
+                          </button>
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => toggleVolume(key)}
+                          className="text-xs font-semibold text-blue-600 hover:underline dark:text-blue-400"
+                          title="Ellipsoid volume: 0.52 x L x W x H"
+                        >
+                          Calculate
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MeasurementsPanel;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { IdentifiedError } from '../../types';
+import { findingLabel } from '../../services/impressionCheck';
+
+interface RelatedFindingLinksProps {
+  errors: IdentifiedError[];
+  findings: string[];
+}
+
+// Scrolls to a sibling finding row and flashes it. Rows carry data-finding-index and share a parent.
+const showFinding = (from: HTMLElement, index: number) => {
+  const row = from.closest('[data-finding-index]')?.parentElement?.querySelector<HTMLElement>(`[data-finding-index="${index}"]`);
+  if (!row) return;
+  row.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  row.focus({ preventScroll: true });
+  row.animate([{ boxShadow: '0 0 0 3px rgba(245, 158, 11, 0.8)' }, { boxShadow: '0 0 0 3px rgba(245, 158, 11, 0)' }], { duration: 1500 });
+};
+
+// Links from the issues on a line to the other findings they refer to.
+const RelatedFindingLinks: React.FC<RelatedFindingLinksProps> = ({ errors, findings }) => {
+  const related = Array.from(new Set(errors.flatMap(error => error.relatedFindingIndices ?? []))).sort((a, b) => a - b);
+  if (related.length === 0) return null;
+
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+      <span>See</span>
+      {related.map(index => (
+        <button
+          key={index}
+          onClick={(e) => {
+            e.stopPropagation();
+            showFinding(e.currentTarget, index);
+          }}
+          className="font-semibold text-blue-600 hover:underline dark:text-blue-400"
+          title={findingLabel(findings, index)}
+        >
+          #{index + 1}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default RelatedFindingLinks;
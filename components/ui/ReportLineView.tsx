@@ -0,0 +1,47 @@
+import React from 'react';
+import { ReportEmphasis, ReportLine } from '../../types';
+
+interface ReportLineViewProps {
+  line: ReportLine;
+}
+
+const emphasisClass: Record<ReportEmphasis, string> = {
+  none: '',
+  bold: 'font-bold',
+  italic: 'italic',
+};
+
+// Renders a single decoded report line the same way in single and batch mode.
+const ReportLineView: React.FC<ReportLineViewProps> = ({ line }) => {
+  switch (line.kind) {
+    case 'title':
+      return <span className="block text-center font-bold underline">{line.text}</span>;
+    case 'clinicalProfile':
+      return <span className="italic">Clinical Profile:{line.text && ` ${line.text}`}</span>;
+    case 'technique':
+      return <span>{line.text}</span>;
+    case 'finding':
+      return <span className={emphasisClass[line.emphasis]}>{line.text}</span>;
+    case 'section':
+      return (
+        <span className={emphasisClass[line.emphasis]}>
+          <span>{line.heading}</span>
+          {line.points.map((point, i) => (<span key={i} className="block">{point}</span>))}
+        </span>
+      );
+    case 'impression':
+    case 'recommendations':
+      return (
+        <>
+          <span className="font-bold underline uppercase">{line.kind === 'impression' ? 'IMPRESSION:' : 'RECOMMENDATIONS:'}</span>
+          <ul className="list-disc list-inside pl-4 mt-1">
+            {line.points.map((point, i) => (
+              <li key={i} className={line.kind === 'impression' ? 'font-bold' : ''}>{point}</li>
+            ))}
+          </ul>
+        </>
+      );
+  }
+};
+
+export default ReportLineView;
@@ -0,0 +1,20 @@
+import React from 'react';
+import WarningIcon from '../icons/WarningIcon';
+import CloseIcon from '../icons/CloseIcon';
+
+interface StorageWarningProps {
+  message: string;
+  onDismiss: () => void;
+}
+
+const StorageWarning: React.FC<StorageWarningProps> = ({ message, onDismiss }) => (
+  <div role="alert" className="mb-4 p-3 rounded-lg border border-amber-300 bg-amber-50 text-amber-800 dark:border-amber-700 dark:bg-amber-900/30 dark:text-amber-300 flex items-start gap-2 text-sm">
+    <WarningIcon className="w-5 h-5 flex-shrink-0 mt-0.5" />
+    <p className="flex-grow">{message}</p>
+    <button onClick={onDismiss} className="p-0.5 rounded hover:bg-amber-100 dark:hover:bg-amber-900/60" aria-label="Dismiss storage warning">
+      <CloseIcon className="w-4 h-4" />
+    </button>
+  </div>
+);
+
+export default StorageWarning;
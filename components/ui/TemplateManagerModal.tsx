@@ -0,0 +1,278 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ReportTemplate } from '../../constants';
+import {
+  buildTemplateContent,
+  cloneTemplate,
+  createEmptyTemplate,
+  exportTemplatesJson,
+  mergeTemplates,
+  parseImportedTemplates,
+  parseTemplateContent,
+  saveTemplates,
+  templateCategory,
+  TemplateContent,
+} from '../../services/templateLibrary';
+import CloseIcon from '../icons/CloseIcon';
+import TrashIcon from '../icons/TrashIcon';
+
+interface TemplateManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  templates: ReportTemplate[];
+  onTemplatesChange: (templates: ReportTemplate[]) => void;
+}
+
+interface TemplateDraft extends Omit<ReportTemplate, 'content'> {
+  content: TemplateContent;
+}
+
+const inputClassName = "w-full p-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:bg-slate-900 dark:text-white dark:border-slate-600";
+const labelClassName = "block text-xs font-semibold text-slate-600 dark:text-slate-300 mb-1";
+const buttonClassName = "text-sm font-medium py-1.5 px-3 rounded-lg bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const toDraft = (template: ReportTemplate): TemplateDraft => ({ ...template, content: parseTemplateContent(template.content) });
+
+const fromDraft = (draft: TemplateDraft): ReportTemplate => ({
+  ...draft,
+  name: draft.name.trim(),
+  description: draft.description.trim(),
+  modality: draft.modality.trim(),
+  bodyPart: draft.bodyPart.trim(),
+  content: buildTemplateContent(draft.content),
+});
+
+const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({ isOpen, onClose, templates, onTemplatesChange }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState('all');
+  const [message, setMessage] = useState<{ type: 'error' | 'info'; text: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setSelectedId(null);
+      setDraft(null);
+      setCategoryFilter('all');
+      setMessage(null);
+    }
+  }, [isOpen]);
+
+  const categories = useMemo(
+    () => Array.from(new Set(templates.map(templateCategory))).sort(),
+    [templates]
+  );
+
+  const visibleTemplates = useMemo(
+    () => categoryFilter === 'all' ? templates : templates.filter(t => templateCategory(t) === categoryFilter),
+    [templates, categoryFilter]
+  );
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const commit = (next: ReportTemplate[]) => {
+    saveTemplates(next);
+    onTemplatesChange(next);
+  };
+
+  const handleSelect = (template: ReportTemplate) => {
+    setSelectedId(template.id);
+    setDraft(toDraft(template));
+    setMessage(null);
+  };
+
+  const handleNew = () => {
+    const template = createEmptyTemplate();
+    setSelectedId(null);
+    setDraft(toDraft(template));
+    setMessage(null);
+  };
+
+  const handleClone = (template: ReportTemplate) => {
+    const copy = cloneTemplate(template);
+    commit([...templates, copy]);
+    handleSelect(copy);
+  };
+
+  const handleDelete = (template: ReportTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? This cannot be undone.`)) return;
+    commit(templates.filter(t => t.id !== template.id));
+    if (selectedId === template.id) {
+      setSelectedId(null);
+      setDraft(null);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setMessage({ type: 'error', text: 'Template name is required.' });
+      return;
+    }
+    const duplicate = templates.find(t => t.id !== draft.id && t.name.trim().toLowerCase() === draft.name.trim().toLowerCase());
+    if (duplicate) {
+      setMessage({ type: 'error', text: `Another template is already named "${duplicate.name}".` });
+      return;
+    }
+    const saved = fromDraft(draft);
+    const exists = templates.some(t => t.id === saved.id);
+    commit(exists ? templates.map(t => (t.id === saved.id ? saved : t)) : [...templates, saved]);
+    setSelectedId(saved.id);
+    setMessage({ type: 'info', text: 'Template saved.' });
+  };
+
+  const handleExport = () => {
+    try {
+      const blob = new Blob([exportTemplatesJson(templates)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      document.body.appendChild(a);
+      a.style.display = 'none';
+      a.href = url;
+      a.download = 'report-templates.json';
+      a.click();
+      window.URL.revokeObjectURL(url);
+      a.remove();
+    } catch (err) {
+      console.error('Failed to export templates:', err);
+      setMessage({ type: 'error', text: 'Failed to export templates.' });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseImportedTemplates(await file.text());
+      commit(mergeTemplates(templates, imported));
+      setMessage({ type: 'info', text: `Imported ${imported.length} template${imported.length === 1 ? '' : 's'}.` });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to import templates.' });
+    }
+  };
+
+  const updateDraft = (changes: Partial<TemplateDraft>) => setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  const updateContent = (changes: Partial<TemplateContent>) =>
+    setDraft(prev => (prev ? { ...prev, content: { ...prev.content, ...changes } } : prev));
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="template-manager-title"
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-4xl flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <h2 id="template-manager-title" className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+            Manage Report Templates
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Close template manager">
+            <CloseIcon className="w-6 h-6 text-slate-600 dark:text-slate-400" />
+          </button>
+        </header>
+
+        <div className="px-4 py-3 border-b dark:border-slate-700 flex flex-wrap items-center gap-2 flex-shrink-0">
+          <button onClick={handleNew} className="text-sm font-medium py-1.5 px-3 rounded-lg bg-blue-600 text-white hover:bg-blue-700">
+            New Template
+          </button>
+          <button onClick={() => importInputRef.current?.click()} className={buttonClassName}>Import JSON</button>
+          <button onClick={handleExport} disabled={templates.length === 0} className={buttonClassName}>Export JSON</button>
+          <input type="file" ref={importInputRef} onChange={handleImport} className="hidden" accept="application/json,.json" aria-hidden="true" />
+          <select
+            value={categoryFilter}
+            onChange={(e) => setCategoryFilter(e.target.value)}
+            className="ml-auto p-1.5 border border-slate-300 rounded-md text-sm bg-white text-slate-900 dark:bg-slate-900 dark:text-white dark:border-slate-600"
+            aria-label="Filter templates by category"
+          >
+            <option value="all">All categories</option>
+            {categories.map(category => <option key={category} value={category}>{category}</option>)}
+          </select>
+        </div>
+
+        {message && (
+          <p className={`px-4 pt-3 text-sm ${message.type === 'error' ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>{message.text}</p>
+        )}
+
+        <div className="flex-grow flex flex-col md:flex-row min-h-0">
+          <ul className="md:w-1/3 overflow-y-auto p-4 space-y-2 border-b md:border-b-0 md:border-r dark:border-slate-700">
+            {visibleTemplates.length === 0 && (
+              <li className="text-sm text-slate-500 dark:text-slate-400">No templates in this category.</li>
+            )}
+            {visibleTemplates.map(template => (
+              <li key={template.id} className={`group rounded-lg p-2 ${draft?.id === template.id ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}>
+                <button onClick={() => handleSelect(template)} className="w-full text-left">
+                  <p className="font-semibold text-blue-800 dark:text-blue-300">{template.name}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{templateCategory(template)}</p>
+                </button>
+                <div className="flex gap-2 mt-1">
+                  <button onClick={() => handleClone(template)} className="text-xs text-blue-600 hover:underline dark:text-blue-400">Clone</button>
+                  <button onClick={() => handleDelete(template)} className="text-xs text-red-600 hover:underline dark:text-red-400 inline-flex items-center gap-1">
+                    <TrashIcon className="w-3 h-3" /> Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="md:w-2/3 overflow-y-auto p-4">
+            {draft ? (
+              <div className="space-y-3">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div>
+                    <label htmlFor="template-name" className={labelClassName}>Name</label>
+                    <input id="template-name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} className={inputClassName} placeholder="e.g., CT Brain PLAIN" />
+                  </div>
+                  <div>
+                    <label htmlFor="template-description" className={labelClassName}>Description</label>
+                    <input id="template-description" value={draft.description} onChange={(e) => updateDraft({ description: e.target.value })} className={inputClassName} />
+                  </div>
+                  <div>
+                    <label htmlFor="template-modality" className={labelClassName}>Modality</label>
+                    <input id="template-modality" value={draft.modality} onChange={(e) => updateDraft({ modality: e.target.value })} className={inputClassName} placeholder="e.g., CT, MRI, USG" />
+                  </div>
+                  <div>
+                    <label htmlFor="template-body-part" className={labelClassName}>Body part</label>
+                    <input id="template-body-part" value={draft.bodyPart} onChange={(e) => updateDraft({ bodyPart: e.target.value })} className={inputClassName} placeholder="e.g., Brain, Abdomen" />
+                  </div>
+                </div>
+                <div>
+                  <label htmlFor="template-title" className={labelClassName}>Report title</label>
+                  <input id="template-title" value={draft.content.title} onChange={(e) => updateContent({ title: e.target.value })} className={inputClassName} placeholder="e.g., C.T.SCAN OF BRAIN (PLAIN)" />
+                </div>
+                <div>
+                  <label htmlFor="template-technique" className={labelClassName}>Technique</label>
+                  <textarea id="template-technique" value={draft.content.technique} onChange={(e) => updateContent({ technique: e.target.value })} className={inputClassName} rows={2} />
+                </div>
+                <div>
+                  <label htmlFor="template-findings" className={labelClassName}>Normal findings (one per line)</label>
+                  <textarea id="template-findings" value={draft.content.normalFindings.join('\n')} onChange={(e) => updateContent({ normalFindings: e.target.value.split('\n') })} className={inputClassName} rows={6} />
+                </div>
+                <div>
+                  <label htmlFor="template-impression" className={labelClassName}>Default impression (one point per line)</label>
+                  <textarea id="template-impression" value={draft.content.defaultImpression.join('\n')} onChange={(e) => updateContent({ defaultImpression: e.target.value.split('\n') })} className={inputClassName} rows={2} />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => { setDraft(null); setSelectedId(null); setMessage(null); }} className={buttonClassName}>Cancel</button>
+                  <button onClick={handleSave} className="text-sm font-semibold py-1.5 px-4 rounded-lg bg-blue-600 text-white hover:bg-blue-700">Save Template</button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-center text-slate-500 dark:text-slate-400 py-8">
+                Select a template to edit it, or create a new one.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManagerModal;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { ReportTemplate } from '../../constants';
+import { templateCategory } from '../../services/templateLibrary';
 import SearchIcon from '../icons/SearchIcon';
 import CloseIcon from '../icons/CloseIcon';
 
@@ -8,9 +9,10 @@ interface TemplateSelectionModalProps {
   onClose: () => void;
   templates: ReportTemplate[];
   onSelectTemplate: (template: ReportTemplate) => void;
+  onManageTemplates?: () => void;
 }
 
-const TemplateSelectionModal: React.FC<TemplateSelectionModalProps> = ({ isOpen, onClose, templates, onSelectTemplate }) => {
+const TemplateSelectionModal: React.FC<TemplateSelectionModalProps> = ({ isOpen, onClose, templates, onSelectTemplate, onManageTemplates }) => {
   const [searchQuery, setSearchQuery] = useState('');
 
   useEffect(() => {
@@ -27,10 +29,20 @@ const TemplateSelectionModal: React.FC<TemplateSelectionModalProps> = ({ isOpen,
     return templates.filter(
       (template) =>
         template.name.toLowerCase().includes(lowercasedQuery) ||
-        template.description.toLowerCase().includes(lowercasedQuery)
+        template.description.toLowerCase().includes(lowercasedQuery) ||
+        templateCategory(template).toLowerCase().includes(lowercasedQuery)
     );
   }, [searchQuery, templates]);
 
+  const groupedTemplates = useMemo(() => {
+    const groups = new Map<string, ReportTemplate[]>();
+    filteredTemplates.forEach(template => {
+      const category = templateCategory(template);
+      groups.set(category, [...(groups.get(category) ?? []), template]);
+    });
+    return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [filteredTemplates]);
+
   if (!isOpen) {
     return null;
   }
@@ -71,26 +83,41 @@ const TemplateSelectionModal: React.FC<TemplateSelectionModalProps> = ({ isOpen,
           </div>
         </div>
         <div className="overflow-y-auto px-4 pb-4">
-          {filteredTemplates.length > 0 ? (
-            <ul className="space-y-2">
-              {filteredTemplates.map((template) => (
-                <li key={template.name}>
-                  <button
-                    onClick={() => onSelectTemplate(template)}
-                    className="w-full text-left p-3 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  >
-                    <p className="font-semibold text-blue-800 dark:text-blue-300">{template.name}</p>
-                    <p className="text-sm text-slate-600 dark:text-slate-400">{template.description}</p>
-                  </button>
-                </li>
-              ))}
-            </ul>
+          {groupedTemplates.length > 0 ? (
+            groupedTemplates.map(([category, categoryTemplates]) => (
+              <div key={category} className="mb-3">
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400 mb-1">{category}</p>
+                <ul className="space-y-2">
+                  {categoryTemplates.map((template) => (
+                    <li key={template.id}>
+                      <button
+                        onClick={() => onSelectTemplate(template)}
+                        className="w-full text-left p-3 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <p className="font-semibold text-blue-800 dark:text-blue-300">{template.name}</p>
+                        <p className="text-sm text-slate-600 dark:text-slate-400">{template.description}</p>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
           ) : (
             <p className="text-center text-slate-500 dark:text-slate-400 py-8">
               No templates found.
             </p>
           )}
         </div>
+        {onManageTemplates && (
+          <footer className="p-4 border-t dark:border-slate-700 flex justify-end flex-shrink-0">
+            <button
+              onClick={onManageTemplates}
+              className="text-sm font-medium py-1.5 px-4 rounded-lg bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600"
+            >
+              Manage Templates...
+            </button>
+          </footer>
+        )}
       </div>
     </div>
   );
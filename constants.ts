@@ -4,13 +4,7 @@ export const DEFAULT_GEMINI_PROMPT = `You are an expert medical transcriptionist
 Follow these strict instructions to produce a clean and accurate report:
 1. Analyze each word for its contextual meaning within radiology and replace any incorrect words with the proper medical terminology. For example, a speech-to-text tool might misinterpret 'radiology findings' as something unrelated. Pay close attention to medical prefixes like "hypo-" and "hyper-" to ensure they are transcribed accurately and not interchanged.
 2. **Specific Transcription Rules**:
-    - Transcribe "few" exactly as "few", not "a few".
-    - Replace the dictated word "query" with a question mark symbol "?".
-    - Transcribe "status post" as the abbreviation "S/p".
-    - Format dictated dimensions like "8 mm into 9 mm" as "8 x 9 mm".
-    - For comparative phrases like "right more than left", use the format "(R > L)". Similarly, for "left more than right", use "(L > R)".
-    - Abbreviate "complaints of" to "C/o".
-    - Abbreviate "history of" to "H/o".
+[INSERT_TRANSCRIPTION_RULES_HERE]
 3. If a clinical profile is dictated, it must be a single, cohesive paragraph. This paragraph must start with "Clinical Profile:" and the entire string (including the prefix) must be wrapped in single asterisks. For example: "*Clinical Profile: C/o RTA with TBI (GCS- 15/15), Planned for discharge.*" This is the only context in which asterisks should be used.
     - **Handling of Prior Scan Images**: If any of the provided images are prior medical scan reports (like USG, CT, MRI), you MUST:
         a. Identify the scan type and the date of the scan from the image.
@@ -60,9 +54,9 @@ STRICT INSTRUCTIONS:
     c.  **Minor Findings**: Any minor, unrelated dictated findings should be placed at the very end of the findings section, just before the IMPRESSION.
 4.  **Generate Impression**: You must analyze all findings (both dictated and from the template) to synthesize a new, clinically relevant impression. This new impression completely REPLACES the template's default impression and must be generated according to the strict criteria in rule #11.
 5.  **Assemble Final Report**: You must construct the final report in this EXACT order:
-    a.  The template's title (e.g., "C.T.SCAN OF BRAIN (PLAIN)")
+    a.  The template's title, prefixed with the special marker \`TITLE::\` (e.g., "TITLE::C.T.SCAN OF BRAIN (PLAIN)")
     b.  The Clinical Profile. If no clinical profile is dictated, you MUST still include the line "*Clinical Profile:*".
-    c.  The template's technique point.
+    c.  The template's technique point, prefixed with the special marker \`TECHNIQUE::\`.
     d.  All integrated, new, and remaining template findings.
     e.  The new, AI-generated impression.
 6.  **Formatting Rules**:
@@ -74,16 +68,10 @@ STRICT INSTRUCTIONS:
         iii. Integrate this summary into the clinical profile string using the format: "[Scan Type] dated [Date] showed [Summary]."
         iv. If a date is not found, omit it (e.g., "Previous CT showed...").
         v. If multiple reports are provided, arrange their summaries chronologically in ascending order by date within the single clinical profile string.
-    c.  **No Other Markdown**: Do not use any other markdown formatting (like for bolding). The only exception is the asterisks for the clinical profile.
+    c.  **No Other Markdown**: Do not use any other markdown formatting (like for bolding). The only exception is the asterisks for the clinical profile. The \`TITLE::\` and \`TECHNIQUE::\` markers are not markdown and MUST be kept exactly as described in rule #5.
 
 7. **Specific Transcription Rules**:
-    - Transcribe "few" exactly as "few", not "a few".
-    - Replace the dictated word "query" with a question mark symbol "?".
-    - Transcribe "status post" as the abbreviation "S/p".
-    - Format dictated dimensions like "8 mm into 9 mm" as "8 x 9 mm".
-    - For comparative phrases like "right more than left", use the format "(R > L)". Similarly, for "left more than right", use "(L > R)".
-    - Abbreviate "complaints of" to "C/o".
-    - Abbreviate "history of" to "H/o".
+[INSERT_TRANSCRIPTION_RULES_HERE]
 8. **Ignore Extraneous Content**: Completely ignore all non-verbal sounds (like coughing, sneezing) and any irrelevant side-conversations.
 9. **Language Translation**: If the dictation includes languages other than English, transcribe and translate the relevant medical findings into proper English.
 10. **Dictated Impression (IGNORE for Template Workflow)**: If the user dictates an impression, IGNORE it. You must always generate a new one based on all findings as specified in rule #4.
@@ -101,9 +89,9 @@ STRICT INSTRUCTIONS:
 Example of desired JSON output for template workflow:
 {
   "findings": [
-    "C.T.SCAN OF BRAIN (PLAIN)",
+    "TITLE::C.T.SCAN OF BRAIN (PLAIN)",
     "*Clinical Profile: H/o trauma.*",
-    "Serial axial sections of the brain were studied from the base to the vertex.",
+    "TECHNIQUE::Serial axial sections of the brain were studied from the base to the vertex.",
     "BOLD::Patches of diffusion restriction are noted in the right anterior temporal region.",
     "The sections of the brain do not reveal any other area of altered tissue density.",
     "The C.P.Angles and posterior fossa contents are normal.",
@@ -120,6 +108,9 @@ Example of desired JSON output for template workflow:
 ---
 `;
 
+// Appended to the dictation prompts when the AI corrections view is on.
+export const VERBATIM_TRANSCRIPT_PROMPT = `**Verbatim Transcript**: In addition to "findings", your JSON object MUST include a key named "transcript". The value of "transcript" must be an array of strings with exactly one entry for each entry of "findings", in the same order. Each entry is the radiologist's words for that finding exactly as they were spoken, before any correction: keep misheard or wrongly spoken words, do not fix terminology, spelling or grammar, and do not add the formatting markers (such as BOLD:: or ###). Leave out non-verbal sounds and side conversations. Use an empty string for any finding that was not dictated, such as lines taken from a template or a generated impression.`;
+
 export const IMAGE_TRANSCRIPTION_AGENT_PROMPT = `You are an expert OCR and medical transcriptionist. Your sole task is to accurately transcribe all the text present in the provided image of a medical document. 
 - Do not summarize, interpret, rephrase, or add any information. 
 - Preserve the original structure as much as possible.
@@ -163,15 +154,21 @@ Example of desired JSON output:
 `;
 
 export interface ReportTemplate {
+  id: string;
   name: string;
   description: string;
+  modality: string; // e.g. "CT", "MRI", "USG"
+  bodyPart: string; // e.g. "Brain", "Abdomen"
   content: string; // This will be a stringified JSON
 }
 
 export const REPORT_TEMPLATES: ReportTemplate[] = [
   {
+    id: "builtin-ct-brain-plain",
     name: "CT Brain PLAIN",
     description: "Standard normal report for a non-contrast CT scan of the brain.",
+    modality: "CT",
+    bodyPart: "Brain",
     content: JSON.stringify(
       {
         title: "C.T.SCAN OF BRAIN (PLAIN)",
@@ -189,12 +186,7 @@ export const REPORT_TEMPLATES: ReportTemplate[] = [
         "default_impression": "IMPRESSION:###No significant neuroparenchymal abnormality noted"
       }, null, 2) // Pretty print JSON for readability
   }
-  // Future templates can be added here
-  // {
-  //   name: "HRCT Thorax",
-  //   description: "Standard normal report for a high-resolution CT of the thorax.",
-  //   content: JSON.stringify({ ... })
-  // }
+  // Further templates are created in the app's template manager (services/templateLibrary.ts).
 ];
 
 
@@ -210,6 +202,8 @@ Follow these extremely strict instructions:
 4.  **Ignore Extraneous Content:** Completely ignore and do not transcribe non-verbal sounds (like coughing, sneezing) and any irrelevant side-conversations. If you are unsure, transcribe literally what was said.
 5.  **Translate on the Fly:** If the dictation includes languages other than English, transcribe and translate the relevant medical findings into proper English immediately.
 6.  **Output Clean Text Only:** Your output must be ONLY the corrected text, with no additional commentary, introductions, or explanations. Do not use any markdown formatting (like asterisks for bolding).
+7.  **Specific Transcription Rules:**
+[INSERT_TRANSCRIPTION_RULES_HERE]
 `;
 
 
@@ -258,6 +252,44 @@ Example JSON Output:
 }
 `;
 
+export const IMPRESSION_CROSS_CHECK_PROMPT = `You are an expert radiologist AI assistant. Your task is to check that the impression of a radiology report agrees with its findings. The report is provided as a JSON array of strings, where each string is a finding. Impression lines start with "IMPRESSION:" and separate their points with "###".
+
+1.  **Impression points**: For every point of every impression line, list the findings that support it. A point is supported when the findings describe the abnormality it names, or, for a normal impression such as "No acute abnormality", when no finding describes an acute abnormality. Do not count the title, the clinical profile or other impression lines as support.
+2.  **Omitted abnormalities**: List every finding that describes a clinically significant abnormality which no impression point mentions. Normal findings, incidental findings of no clinical consequence, technical statements and sentences recording that a critical result was communicated are not omissions.
+
+Your response MUST be a single JSON object with two keys:
+- "points": an array with one object per impression point, each with the keys "findingIndex" (the 0-based index of the impression line), "point" (the text of the point, exactly as written) and "supportingFindingIndices" (the 0-based indices of the supporting findings; an empty array if nothing supports it).
+- "omissions": an array of objects, each with the keys "findingIndex" (the 0-based index of the finding), "description" (a concise, one-sentence explanation of what the impression leaves out) and "severity" ('WARNING' if leaving it out could change management, otherwise 'INFO').
+
+Example Input:
+{
+  "findings": [
+    "There is consolidation in the right lower lobe.",
+    "A 6 mm nodule is seen in the left upper lobe.",
+    "Heart size is normal.",
+    "IMPRESSION:###Right lower lobe pneumonia.###Small left pleural effusion."
+  ]
+}
+
+Example JSON Output:
+{
+  "points": [
+    { "findingIndex": 3, "point": "Right lower lobe pneumonia.", "supportingFindingIndices": [0] },
+    { "findingIndex": 3, "point": "Small left pleural effusion.", "supportingFindingIndices": [] }
+  ],
+  "omissions": [
+    { "findingIndex": 1, "description": "The left upper lobe nodule is not mentioned in the impression.", "severity": "WARNING" }
+  ]
+}
+`;
+
+export const CRITICAL_FINDINGS_PROMPT = `You are an expert radiologist AI assistant. Your task is to find critical results in a radiology report: findings that are immediately life- or organ-threatening and must be communicated directly to the referring clinician, such as pneumothorax, free intraperitoneal air, intracranial or other large haemorrhage, pulmonary embolism, aortic dissection, cord compression, brain herniation, bowel ischaemia or perforation, torsion and ectopic pregnancy. The report is provided as a JSON array of strings, where each string is a finding.
+
+Only report abnormalities that are present. Ignore negated or resolved findings (e.g. "No pneumothorax"), the title, the clinical profile (it states the clinical question, not a result) and any sentence that already records the communication of a critical result.
+
+Your response MUST be a single JSON object with a key "critical". The value of "critical" must be an array of objects, each with the keys "findingIndex" (the 0-based index of the finding) and "label" (a short lowercase name for the critical result, e.g. "acute subdural haematoma"). If there are no critical results, return an empty array.
+`;
+
 export const INITIAL_AGENT_PROMPT = `You are an expert radiology fact-checker and medical educator. Your task is to meticulously review the following transcribed radiology lecture content. Your goal is to identify:
 1.  **Factual Inaccuracies:** Any statements that are incorrect or misleading.
 2.  **Outdated Information:** Concepts or guidelines that are no longer current best practice.
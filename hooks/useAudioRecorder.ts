@@ -1,4 +1,6 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
+import { isMockMode } from '../services/aiProvider';
+import { createSilentWavBlob } from '../services/mockBackend';
 
 type AudioRecorderResult = {
   isRecording: boolean;
@@ -19,6 +21,8 @@ export const useAudioRecorder = (): AudioRecorderResult => {
   const audioChunksRef = useRef<Blob[]>([]);
   const mimeTypeRef = useRef<string>('');
   const streamRef = useRef<MediaStream | null>(null);
+  // In mock mode no microphone is opened; stopping yields a short silent clip instead.
+  const isMockRecordingRef = useRef(false);
 
   const startRecording = useCallback(async () => {
     setError(null);
@@ -28,6 +32,13 @@ export const useAudioRecorder = (): AudioRecorderResult => {
       return;
     }
 
+    if (isMockMode()) {
+      isMockRecordingRef.current = true;
+      setIsRecording(true);
+      setIsPaused(false);
+      return;
+    }
+
     if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
         setError("Audio recording is not supported in this browser.");
         return;
@@ -76,6 +87,10 @@ export const useAudioRecorder = (): AudioRecorderResult => {
   }, []);
 
   const pauseRecording = useCallback(() => {
+    if (isMockRecordingRef.current) {
+      setIsPaused(true);
+      return;
+    }
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
       mediaRecorderRef.current.pause();
       setIsPaused(true);
@@ -83,6 +98,10 @@ export const useAudioRecorder = (): AudioRecorderResult => {
   }, []);
 
   const resumeRecording = useCallback(() => {
+    if (isMockRecordingRef.current) {
+      setIsPaused(false);
+      return;
+    }
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'paused') {
       mediaRecorderRef.current.resume();
       setIsPaused(false);
@@ -91,6 +110,13 @@ export const useAudioRecorder = (): AudioRecorderResult => {
 
   const stopRecording = useCallback((): Promise<Blob> => {
     return new Promise((resolve, reject) => {
+        if (isMockRecordingRef.current) {
+            isMockRecordingRef.current = false;
+            setIsRecording(false);
+            setIsPaused(false);
+            resolve(createSilentWavBlob());
+            return;
+        }
         if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
             const recorder = mediaRecorderRef.current;
 
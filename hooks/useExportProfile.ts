@@ -0,0 +1,12 @@
+import { useEffect, useState } from 'react';
+import { ExportProfile } from '../types';
+import { getActiveExportProfile, subscribeToExportProfiles } from '../services/exportProfiles';
+
+// The profile copy and the formatted download use, kept current when it is switched or edited elsewhere.
+export const useExportProfile = (): ExportProfile => {
+  const [profile, setProfile] = useState<ExportProfile>(getActiveExportProfile);
+
+  useEffect(() => subscribeToExportProfiles(() => setProfile(getActiveExportProfile())), []);
+
+  return profile;
+};
@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+// Calls `onTimeout` once the user has not interacted with the page for `timeoutMs`. Disabled when
+// `timeoutMs` is 0 or `enabled` is false.
+export const useInactivityTimer = (timeoutMs: number, onTimeout: () => void, enabled: boolean) => {
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+
+  useEffect(() => {
+    if (!enabled || timeoutMs <= 0) return;
+
+    let timer = window.setTimeout(() => onTimeoutRef.current(), timeoutMs);
+    const resetTimer = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => onTimeoutRef.current(), timeoutMs);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [timeoutMs, enabled]);
+};
@@ -1,6 +1,13 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { GoogleGenAI, Modality, Session, LiveServerMessage } from '@google/genai';
 import { LIVE_GEMINI_PROMPT } from '../constants';
+import { getGeminiApiKey, isMockMode } from '../services/aiProvider';
+import { MOCK_LIVE_TRANSCRIPT_CHUNKS, createSilentWavBlob } from '../services/mockBackend';
+import { buildTranscriptionRulesPrompt } from '../services/transcriptionRules';
+import { buildVocabularyPrompt } from '../services/vocabulary';
+import { buildLiveMacroPrompt, expandSpokenMacros, loadMacros } from '../services/macros';
+import { recordAiCall } from '../services/auditLog';
+import { DictationMacro } from '../types';
 
 // Helper to check for webkitAudioContext
 declare global {
@@ -12,6 +19,7 @@ declare global {
 const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-12-2025';
 const SAMPLE_RATE = 16000;
 const BUFFER_SIZE = 4096;
+const MOCK_CHUNK_INTERVAL_MS = 700;
 
 // --- Audio Encoding ---
 function encode(bytes: Uint8Array): string {
@@ -95,6 +103,11 @@ export const useLiveSession = () => {
     const bufferRef = useRef('');
     const lastMessageTimeRef = useRef<number | null>(null);
     const capturedAudioChunksRef = useRef<Float32Array[]>([]);
+    const mockTimerRef = useRef<number | null>(null);
+    // Macros are read once per session so the transcript and the final result expand the same way.
+    const macrosRef = useRef<DictationMacro[]>([]);
+    // The running session, recorded in the audit log as one call when it ends.
+    const auditRef = useRef<{ startedAt: number; provider: string; prompt: string } | null>(null);
 
     const isSessionActiveForCallback = useRef(false);
     useEffect(() => {
@@ -121,6 +134,10 @@ export const useLiveSession = () => {
     }, []);
 
     const cleanUpSession = useCallback(() => {
+        if (mockTimerRef.current !== null) {
+            window.clearInterval(mockTimerRef.current);
+            mockTimerRef.current = null;
+        }
         setIsSessionActive(false);
         setIsPaused(false);
         stopAudio();
@@ -131,6 +148,22 @@ export const useLiveSession = () => {
         capturedAudioChunksRef.current = [];
     }, [stopAudio]);
 
+    const finishAudit = useCallback((outcome: 'success' | 'error', error?: string) => {
+        const session = auditRef.current;
+        if (!session) return;
+        auditRef.current = null;
+        recordAiCall({
+            task: 'liveDictation',
+            provider: session.provider,
+            model: MODEL_NAME,
+            prompt: session.prompt,
+            latencyMs: Date.now() - session.startedAt,
+            retries: 0,
+            outcome,
+            error,
+        });
+    }, []);
+
     const pauseSession = useCallback(() => {
         if (isSessionActiveForCallback.current) {
             setIsPaused(true);
@@ -147,10 +180,31 @@ export const useLiveSession = () => {
     
     const startSession = useCallback(async (onTranscriptUpdate: (lines: string[]) => void, customPrompt?: string) => {
         if (isSessionActiveForCallback.current) return;
+
+        if (isMockMode()) {
+            // Replays canned transcript chunks on a timer; no microphone or network is touched.
+            setError('');
+            setStatus('Mock session started. Listening...');
+            bufferRef.current = '';
+            capturedAudioChunksRef.current = [];
+            macrosRef.current = loadMacros();
+            auditRef.current = { startedAt: Date.now(), provider: 'stub', prompt: customPrompt ?? '' };
+            onTranscriptUpdate([]);
+            setIsPaused(false);
+            setIsSessionActive(true);
+            let nextChunk = 0;
+            mockTimerRef.current = window.setInterval(() => {
+                if (isPausedForCallback.current || nextChunk >= MOCK_LIVE_TRANSCRIPT_CHUNKS.length) return;
+                bufferRef.current += MOCK_LIVE_TRANSCRIPT_CHUNKS[nextChunk++];
+                onTranscriptUpdate(expandSpokenMacros(bufferRef.current.split('\n'), macrosRef.current));
+            }, MOCK_CHUNK_INTERVAL_MS);
+            return;
+        }
         
-        const apiKey = localStorage.getItem('gemini_api_key');
+        // Live dictation streams over the Gemini Live API regardless of the selected provider.
+        const apiKey = getGeminiApiKey();
         if (!apiKey) {
-            setError('Missing API Key. Please add it in settings.');
+            setError('Live dictation needs a Gemini API Key. Please add it in settings.');
             return;
         }
 
@@ -159,6 +213,7 @@ export const useLiveSession = () => {
         bufferRef.current = '';
         capturedAudioChunksRef.current = [];
         lastMessageTimeRef.current = null;
+        macrosRef.current = loadMacros();
         onTranscriptUpdate([]);
         setIsPaused(false);
 
@@ -179,10 +234,19 @@ export const useLiveSession = () => {
             // 2. Connect to Gemini
             clientRef.current = new GoogleGenAI({ apiKey: apiKey });
             
-            let systemInstruction = LIVE_GEMINI_PROMPT;
+            let systemInstruction = LIVE_GEMINI_PROMPT.replace('[INSERT_TRANSCRIPTION_RULES_HERE]', buildTranscriptionRulesPrompt());
+            const vocabularyPrompt = buildVocabularyPrompt();
+            if (vocabularyPrompt) {
+                systemInstruction += `\n\n${vocabularyPrompt}`;
+            }
+            const macroPrompt = buildLiveMacroPrompt(macrosRef.current);
+            if (macroPrompt) {
+                systemInstruction += `\n\n${macroPrompt}`;
+            }
             if (customPrompt) {
                 systemInstruction += `\n\nCustom Instructions:\n${customPrompt}`;
             }
+            auditRef.current = { startedAt: Date.now(), provider: 'gemini', prompt: systemInstruction };
 
             const sessionPromise = clientRef.current.live.connect({
                 model: MODEL_NAME,
@@ -204,12 +268,14 @@ export const useLiveSession = () => {
                     onclose: (e: CloseEvent) => {
                         if (isSessionActiveForCallback.current) {
                             setStatus(`Connection closed: ${e.reason}`);
+                            finishAudit('error', `Connection closed: ${e.reason}`);
                             cleanUpSession();
                         }
                     },
                     onerror: (e: ErrorEvent) => {
                         console.error('Live session error:', e);
                         setError(`Error: ${e.message}`);
+                        finishAudit('error', e.message);
                         cleanUpSession();
                     },
                     onmessage: async (message: LiveServerMessage) => {
@@ -241,7 +307,7 @@ export const useLiveSession = () => {
                                 const capitalizedLines = lines.map(line =>
                                     line ? line.charAt(0).toUpperCase() + line.slice(1) : ''
                                 );
-                                onTranscriptUpdate(capitalizedLines);
+                                onTranscriptUpdate(expandSpokenMacros(capitalizedLines, macrosRef.current));
                             }
                          }
                     }
@@ -290,9 +356,10 @@ export const useLiveSession = () => {
             const message = err instanceof Error ? err.message : 'Unknown error';
             setError(`Failed to start session: ${message}`);
             setStatus('Session failed to start.');
+            finishAudit('error', message);
             cleanUpSession();
         }
-    }, [cleanUpSession]);
+    }, [cleanUpSession, finishAudit]);
     
     const stopSession = useCallback(() => {
         if (!isSessionActiveForCallback.current) {
@@ -300,7 +367,7 @@ export const useLiveSession = () => {
         }
         setStatus('Session stopped.');
         
-        const finalTranscript = bufferRef.current.trim();
+        const finalTranscript = expandSpokenMacros(bufferRef.current.trim().split('\n'), macrosRef.current).join('\n');
         
         let finalAudioBlob: Blob | null = null;
         if (capturedAudioChunksRef.current.length > 0) {
@@ -312,12 +379,15 @@ export const useLiveSession = () => {
                 offset += chunk.length;
             }
             finalAudioBlob = createWavBlob(concatenated, SAMPLE_RATE);
+        } else if (mockTimerRef.current !== null) {
+            finalAudioBlob = createSilentWavBlob(1000, SAMPLE_RATE);
         }
 
         cleanUpSession();
+        finishAudit('success');
 
         return { transcript: finalTranscript, audioBlob: finalAudioBlob };
-    }, [cleanUpSession]);
+    }, [cleanUpSession, finishAudit]);
 
     // Cleanup on unmount
     useEffect(() => {
@@ -0,0 +1,188 @@
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { createStubProvider } from './providers/stubProvider';
+import { isMockModeRequested } from './mockBackend';
+import { getSecureItem, registerSecureStorageKeys, setSecureItem } from './vault';
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'stub';
+
+export const GEMINI_API_KEY_STORAGE_KEY = 'gemini_api_key';
+export const PROVIDER_SETTINGS_KEY = 'ai_provider_settings';
+
+// Both hold API keys, so the vault encrypts them when enabled.
+registerSecureStorageKeys(GEMINI_API_KEY_STORAGE_KEY, PROVIDER_SETTINGS_KEY);
+
+export interface InlineData {
+  mimeType: string;
+  // Base64 payload without the data URL prefix
+  data: string;
+}
+
+export type ContentPart = { text: string } | { inlineData: InlineData };
+
+// Provider-neutral subset of JSON schema; adapters translate it to their own dialect.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: string[];
+  required?: string[];
+}
+
+// Identifies which workflow issued a request so adapters (and the stub) can tell calls apart.
+export type AITask =
+  | 'processMedia'
+  | 'imageTranscription'
+  | 'imageSynthesis'
+  | 'continueAudioDictation'
+  | 'modifyFindingWithAudio'
+  | 'modifyReportWithAudio'
+  | 'identifyPotentialErrors'
+  | 'crossCheckImpression'
+  | 'classifyCriticalFindings'
+  | 'transcribeAudioForPrompt'
+  | 'complexInitialAnalysis'
+  | 'complexRefinement'
+  | 'complexSynthesis'
+  | 'complexImpression'
+  | 'chat';
+
+export interface GenerateRequest {
+  task: AITask;
+  model: string;
+  parts: ContentPart[];
+  // Ground the answer with web search where the backend supports it; ignored otherwise.
+  useSearch?: boolean;
+}
+
+export interface GenerateJsonRequest extends GenerateRequest {
+  schema?: JsonSchema;
+}
+
+export interface TranscribeAudioRequest {
+  task: AITask;
+  model: string;
+  prompt: string;
+  audio: InlineData;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  parts: ContentPart[];
+}
+
+export interface StartChatOptions {
+  model: string;
+  systemInstruction: string;
+  history: ChatTurn[];
+}
+
+export interface ChatSession {
+  sendMessage: (message: string | ContentPart[]) => Promise<string>;
+}
+
+export interface AIProvider {
+  readonly id: ProviderId;
+  generateJson: (request: GenerateJsonRequest) => Promise<string>;
+  generateText: (request: GenerateRequest) => Promise<string>;
+  transcribeAudio: (request: TranscribeAudioRequest) => Promise<string>;
+  startChat: (options: StartChatOptions) => ChatSession;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  openAIBaseUrl: string;
+  openAIApiKey: string;
+  // When set, overrides the Gemini model names chosen in the UI.
+  openAIModel: string;
+  openAITranscriptionModel: string;
+}
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Uses the Gemini API with your API key. Required for live dictation.' },
+  { id: 'openai-compatible', label: 'OpenAI-compatible', description: 'Any server exposing /chat/completions and /audio/transcriptions (OpenAI, vLLM, Ollama, LocalAI...).' },
+  { id: 'stub', label: 'Offline mock', description: 'Deterministic canned radiology responses, including live dictation. No network calls; for demos and automated UI tests.' },
+];
+
+const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  openAIBaseUrl: 'https://api.openai.com/v1',
+  openAIApiKey: '',
+  openAIModel: '',
+  openAITranscriptionModel: 'whisper-1',
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const saved = getSecureItem(PROVIDER_SETTINGS_KEY);
+    if (saved) {
+      return { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) };
+    }
+  } catch (e) {
+    console.error("Failed to load provider settings:", e);
+  }
+  return { ...DEFAULT_PROVIDER_SETTINGS };
+};
+
+export const saveProviderSettings = (settings: ProviderSettings): Promise<void> =>
+  setSecureItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+
+export const getGeminiApiKey = (): string | null => getSecureItem(GEMINI_API_KEY_STORAGE_KEY);
+
+export const saveGeminiApiKey = (apiKey: string): Promise<void> => setSecureItem(GEMINI_API_KEY_STORAGE_KEY, apiKey);
+
+// Mock mode is on when the offline provider is selected or the page was opened with `?mock`.
+export const isMockMode = (): boolean => isMockModeRequested() || loadProviderSettings().provider === 'stub';
+
+// Whether the selected provider has everything it needs to make a request.
+export const isProviderConfigured = (settings: ProviderSettings = loadProviderSettings()): boolean => {
+  if (isMockModeRequested()) return true;
+  switch (settings.provider) {
+    case 'gemini':
+      return !!getGeminiApiKey();
+    case 'openai-compatible':
+      return settings.openAIBaseUrl.trim().length > 0;
+    case 'stub':
+      return true;
+  }
+};
+
+// The provider and model that actually serve a request, as recorded in the audit log. The OpenAI-compatible
+// adapter substitutes its own models for the Gemini names chosen in the UI.
+export const resolveRequestModel = (requested: string, transcription = false): { provider: ProviderId; model: string } => {
+  if (isMockModeRequested()) return { provider: 'stub', model: requested };
+  const settings = loadProviderSettings();
+  if (settings.provider !== 'openai-compatible') return { provider: settings.provider, model: requested };
+  const override = transcription ? settings.openAITranscriptionModel || 'whisper-1' : settings.openAIModel.trim();
+  return { provider: settings.provider, model: override || requested };
+};
+
+export const getAIProvider = (): AIProvider => {
+  if (isMockModeRequested()) {
+    return createStubProvider();
+  }
+  const settings = loadProviderSettings();
+  switch (settings.provider) {
+    case 'openai-compatible':
+      if (!settings.openAIBaseUrl.trim()) {
+        throw new Error("OpenAI-compatible base URL is missing. Please add it in the settings.");
+      }
+      return createOpenAICompatibleProvider({
+        baseUrl: settings.openAIBaseUrl,
+        apiKey: settings.openAIApiKey,
+        model: settings.openAIModel,
+        transcriptionModel: settings.openAITranscriptionModel,
+      });
+    case 'stub':
+      return createStubProvider();
+    case 'gemini':
+    default: {
+      const key = getGeminiApiKey();
+      if (!key) {
+        throw new Error("Gemini API Key is missing. Please add it in the settings.");
+      }
+      return createGeminiProvider(key);
+    }
+  }
+};
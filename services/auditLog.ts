@@ -0,0 +1,179 @@
+import { AiCallAuditEntry, AuditEditAction, AuditEntry } from '../types';
+import { AITask } from './aiProvider';
+import { AUDIT_STORE, requestToPromise, withStore } from './indexedDb';
+import { findingToPlainText } from './reportModel';
+import { SealedData, isVaultEnabled, openJson, sealJson } from './vault';
+
+export const AUDIT_SETTINGS_KEY = 'audit_settings';
+
+export interface AuditSettings {
+  // Name or initials stored with every entry, so changes can be attributed on a shared workstation.
+  operator: string;
+}
+
+export const DEFAULT_AUDIT_SETTINGS: AuditSettings = { operator: '' };
+
+export const AUDIT_ACTION_LABELS: Record<AuditEditAction, string> = {
+  edit: 'Manual edit',
+  dictatedAddition: 'Dictated addition',
+  dictatedEdit: 'Dictated edit',
+  reportDictation: 'Dictated report changes',
+  continueDictation: 'Continued dictation',
+  complexImpression: 'Generated impression',
+  merge: 'Merge',
+  reorder: 'Reorder',
+  revertMacro: 'Macro reverted',
+  undo: 'Undo',
+  restore: 'Version restored',
+  revertCorrection: 'Correction reverted',
+  computedValue: 'Computed value added',
+  criticalCommunication: 'Critical result communication recorded',
+  radsCategory: 'Classification category added',
+};
+
+// What callers report about a model request; the prompt is hashed and then discarded.
+export interface AiCallDetails {
+  task: AITask | 'liveDictation';
+  provider: string;
+  model: string;
+  prompt: string;
+  latencyMs: number;
+  retries: number;
+  outcome: AiCallAuditEntry['outcome'];
+  error?: string;
+}
+
+// With the vault enabled only the sequence number, time and kind stay readable.
+interface SealedAuditRecord {
+  seq?: number;
+  at: number;
+  kind: AuditEntry['kind'];
+  sealed: SealedData;
+}
+
+type StoredAuditRecord = AuditEntry | SealedAuditRecord;
+
+let appendQueue: Promise<unknown> = Promise.resolve();
+const listeners = new Set<() => void>();
+
+export const loadAuditSettings = (): AuditSettings => {
+  try {
+    const saved = localStorage.getItem(AUDIT_SETTINGS_KEY);
+    if (saved) {
+      return { ...DEFAULT_AUDIT_SETTINGS, ...JSON.parse(saved) };
+    }
+  } catch (e) {
+    console.error("Failed to load audit settings:", e);
+  }
+  return { ...DEFAULT_AUDIT_SETTINGS };
+};
+
+export const saveAuditSettings = (settings: AuditSettings) => {
+  localStorage.setItem(AUDIT_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const toRecord = async (entry: AuditEntry): Promise<StoredAuditRecord> => {
+  if (!isVaultEnabled()) return entry;
+  const { seq, at, kind, ...rest } = entry;
+  return { ...(seq !== undefined ? { seq } : {}), at, kind, sealed: await sealJson(rest) };
+};
+
+const fromRecord = async (record: StoredAuditRecord): Promise<AuditEntry> => {
+  if (!('sealed' in record)) return record;
+  const { seq, at, kind, sealed } = record;
+  return { ...(await openJson<Record<string, unknown>>(sealed)), seq, at, kind } as AuditEntry;
+};
+
+const hashText = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Entries are written one at a time so their sequence numbers follow the order they were recorded in.
+// There is deliberately no way to edit or delete a single entry.
+const appendEntry = (build: () => Promise<AuditEntry> | AuditEntry) => {
+  const next = appendQueue.catch(() => undefined).then(async () => {
+    const record = await toRecord(await build());
+    await withStore(AUDIT_STORE, 'readwrite', async store => {
+      await requestToPromise(store.add(record));
+    });
+    listeners.forEach(listener => listener());
+  });
+  appendQueue = next;
+  next.catch(err => console.error("Failed to write to the audit log:", err));
+};
+
+export const recordAiCall = (call: AiCallDetails) => {
+  const at = Date.now();
+  const operator = loadAuditSettings().operator;
+  const { prompt, ...details } = call;
+  appendEntry(async () => ({ kind: 'ai', at, operator, ...details, promptHash: await hashText(prompt) }));
+};
+
+const reportText = (findings: string[]): string => findings.map(findingToPlainText).join('\n');
+
+// Records a change to a report. `before` and `after` are the affected lines, or the whole report
+// for changes that move lines around. Changes that leave the text as it was are not recorded.
+export const recordEdit = (reportId: string | null, action: AuditEditAction, before: string[], after: string[]) => {
+  const beforeText = reportText(before);
+  const afterText = reportText(after);
+  if (beforeText === afterText) return;
+  const at = Date.now();
+  const operator = loadAuditSettings().operator;
+  appendEntry(() => ({ kind: 'edit', at, operator, reportId, action, before: beforeText, after: afterText }));
+};
+
+// Newest first.
+export const listAuditEntries = async (): Promise<AuditEntry[]> => {
+  const records: StoredAuditRecord[] = await withStore(AUDIT_STORE, 'readonly', store => requestToPromise(store.getAll()));
+  const entries = await Promise.all(records.map(fromRecord));
+  return entries.sort((a, b) => (b.seq ?? 0) - (a.seq ?? 0));
+};
+
+export const subscribeToAuditLog = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Rewrites every entry encrypted or in plain text to match the current vault setting. Sequence
+// numbers and contents are kept as they were.
+export const resealAuditLog = async (): Promise<void> => {
+  await appendQueue.catch(() => undefined);
+  const keys = (await withStore(AUDIT_STORE, 'readonly', store => requestToPromise(store.getAllKeys()))) as number[];
+  for (const key of keys) {
+    const record: StoredAuditRecord | undefined = await withStore(AUDIT_STORE, 'readonly', store => requestToPromise(store.get(key)));
+    if (!record || ('sealed' in record) === isVaultEnabled()) continue;
+    const rewritten = await toRecord(await fromRecord(record));
+    await withStore(AUDIT_STORE, 'readwrite', async store => {
+      await requestToPromise(store.put(rewritten));
+    });
+  }
+};
+
+// Only for resetting a vault whose passphrase was lost, when the sealed entries can no longer be read.
+export const clearAuditLog = (): Promise<void> =>
+  withStore(AUDIT_STORE, 'readwrite', async store => {
+    await requestToPromise(store.clear());
+  });
+
+export const auditLogToJson = (entries: AuditEntry[]): string => JSON.stringify(entries, null, 2);
+
+const CSV_COLUMNS = ['seq', 'time', 'type', 'operator', 'report', 'task / action', 'provider', 'model', 'promptHash', 'latencyMs', 'retries', 'outcome', 'error', 'before', 'after'];
+
+const csvField = (value: string | number | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const auditLogToCsv = (entries: AuditEntry[]): string => {
+  const rows = entries.map(entry => {
+    const common = [entry.seq, new Date(entry.at).toISOString(), entry.kind, entry.operator];
+    const fields = entry.kind === 'ai'
+      ? [...common, '', entry.task, entry.provider, entry.model, entry.promptHash, entry.latencyMs, entry.retries, entry.outcome, entry.error, '', '']
+      : [...common, entry.reportId, entry.action, '', '', '', '', '', '', '', entry.before, entry.after];
+    return fields.map(csvField).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
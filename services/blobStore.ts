@@ -0,0 +1,172 @@
+import { BLOBS_STORE, requestToPromise, withStore } from './indexedDb';
+import { SealedBlob, isVaultEnabled, openBlob, sealBlob } from './vault';
+
+// What serialised state keeps instead of the media itself.
+export interface BlobRef {
+  hash: string;
+  type: string;
+}
+
+// Media saved inline as base64 before the blob store existed.
+export interface InlineBlob {
+  data: string;
+  type: string;
+}
+
+export type SerializedBlob = BlobRef | InlineBlob;
+
+// Each blob is stored once per content hash and lists the owners ('single', 'batch', ...) that use it.
+// With the vault enabled the content is kept encrypted in `sealed` instead of `blob`.
+interface StoredBlob {
+  hash: string;
+  blob?: Blob;
+  sealed?: SealedBlob;
+  owners: string[];
+}
+
+const hashCache = new WeakMap<Blob, string>();
+const ownerQueues = new Map<string, Promise<unknown>>();
+
+// SHA-256 of the blob's bytes. Cached per Blob so unchanged media is never re-read on later saves.
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const cached = hashCache.get(blob);
+  if (cached) return cached;
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  const hash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  hashCache.set(blob, hash);
+  return hash;
+};
+
+const toStoredBlob = async (hash: string, blob: Blob, owners: string[]): Promise<StoredBlob> =>
+  isVaultEnabled() ? { hash, sealed: await sealBlob(blob), owners } : { hash, blob, owners };
+
+const fromStoredBlob = (stored: StoredBlob): Promise<Blob> =>
+  stored.sealed ? openBlob(stored.sealed) : Promise.resolve(stored.blob as Blob);
+
+// Runs saves for the same owner one at a time so an older save can never release a newer one's blobs.
+const queueForOwner = <T>(owner: string, task: () => Promise<T>): Promise<T> => {
+  const previous = ownerQueues.get(owner) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  ownerQueues.set(owner, next);
+  return next;
+};
+
+// Makes `blobs` exactly the set of blobs held by `owner`: new content is written, content already
+// stored is only re-tagged, and blobs no one holds any more are deleted. Returns refs in input order.
+export const saveOwnedBlobs = (owner: string, blobs: Blob[]): Promise<BlobRef[]> =>
+  queueForOwner(owner, async () => {
+    const refs = await Promise.all(blobs.map(async blob => ({ hash: await hashBlob(blob), type: blob.type })));
+    const wanted = new Map<string, Blob>();
+    blobs.forEach((blob, index) => wanted.set(refs[index].hash, blob));
+
+    // Encryption cannot run inside an IndexedDB transaction, so new content is prepared beforehand.
+    const storedHashes = new Set(
+      (await withStore(BLOBS_STORE, 'readonly', store => requestToPromise(store.getAllKeys()))) as string[]
+    );
+    const newRecords = await Promise.all(
+      [...wanted].filter(([hash]) => !storedHashes.has(hash)).map(([hash, blob]) => toStoredBlob(hash, blob, [owner]))
+    );
+
+    const vanished: string[] = [];
+    await withStore(BLOBS_STORE, 'readwrite', async store => {
+      for (const record of newRecords) {
+        await requestToPromise(store.put(record));
+      }
+      for (const hash of wanted.keys()) {
+        if (!storedHashes.has(hash)) continue;
+        const existing: StoredBlob | undefined = await requestToPromise(store.get(hash));
+        if (!existing) {
+          vanished.push(hash);
+        } else if (!existing.owners.includes(owner)) {
+          await requestToPromise(store.put({ ...existing, owners: [...existing.owners, owner] }));
+        }
+      }
+
+      const held = (await requestToPromise(store.index('owners').getAllKeys(owner))) as string[];
+      for (const hash of held) {
+        if (wanted.has(hash)) continue;
+        const existing: StoredBlob | undefined = await requestToPromise(store.get(hash));
+        if (!existing) continue;
+        const owners = existing.owners.filter(o => o !== owner);
+        if (owners.length === 0) {
+          await requestToPromise(store.delete(hash));
+        } else {
+          await requestToPromise(store.put({ ...existing, owners }));
+        }
+      }
+    });
+
+    // Another owner released these between the check and the write; store them again.
+    if (vanished.length > 0) {
+      const records = await Promise.all(vanished.map(hash => toStoredBlob(hash, wanted.get(hash) as Blob, [owner])));
+      await withStore(BLOBS_STORE, 'readwrite', async store => {
+        for (const record of records) {
+          await requestToPromise(store.put(record));
+        }
+      });
+    }
+    return refs;
+  });
+
+export const releaseBlobs = (owner: string): Promise<BlobRef[]> => saveOwnedBlobs(owner, []);
+
+// Legacy inline media decodes to an empty blob when the base64 is corrupt.
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  try {
+    const byteCharacters = atob(base64);
+    const byteNumbers = new Array(byteCharacters.length);
+    for (let i = 0; i < byteCharacters.length; i++) {
+      byteNumbers[i] = byteCharacters.charCodeAt(i);
+    }
+    const byteArray = new Uint8Array(byteNumbers);
+    return new Blob([byteArray], { type: mimeType });
+  } catch (e) {
+    console.error("Failed to convert base64 to Blob:", e);
+    return new Blob([], { type: mimeType });
+  }
+};
+
+// Resolves saved refs (or legacy inline base64) back to Blobs, skipping any that are missing from the store.
+export const restoreBlobs = async (saved: SerializedBlob[]): Promise<Blob[]> => {
+  const restored = await Promise.all(saved.map(async (item): Promise<Blob | null> => {
+    if ('data' in item) return base64ToBlob(item.data, item.type);
+    const stored: StoredBlob | undefined = await withStore(BLOBS_STORE, 'readonly', store => requestToPromise(store.get(item.hash)));
+    if (!stored) {
+      console.error(`Saved media ${item.hash} is missing from browser storage.`);
+      return null;
+    }
+    const blob = await fromStoredBlob(stored);
+    return blob.type === item.type ? blob : new Blob([blob], { type: item.type });
+  }));
+  return restored.filter((blob): blob is Blob => blob !== null);
+};
+
+// Rewrites every stored blob encrypted or in plain text to match the current vault setting.
+export const resealBlobs = async (): Promise<void> => {
+  const hashes = (await withStore(BLOBS_STORE, 'readonly', store => requestToPromise(store.getAllKeys()))) as string[];
+  for (const hash of hashes) {
+    const stored: StoredBlob | undefined = await withStore(BLOBS_STORE, 'readonly', store => requestToPromise(store.get(hash)));
+    if (!stored || !!stored.sealed === isVaultEnabled()) continue;
+    const record = await toStoredBlob(hash, await fromStoredBlob(stored), stored.owners);
+    await withStore(BLOBS_STORE, 'readwrite', async store => {
+      await requestToPromise(store.put(record));
+    });
+  }
+};
+
+export const clearBlobs = (): Promise<void> =>
+  withStore(BLOBS_STORE, 'readwrite', async store => {
+    await requestToPromise(store.clear());
+  });
+
+export const isQuotaExceededError = (err: unknown): boolean =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// User-facing explanation for a failed save of session state or media.
+export const describeStorageError = (err: unknown): string => {
+  if (isQuotaExceededError(err)) {
+    return 'Browser storage is full, so this session can no longer be saved and will be lost on reload. Delete old reports from History or remove finished batches to free space.';
+  }
+  const detail = err instanceof Error ? err.message : String(err);
+  return `This session could not be saved and will be lost on reload: ${detail}`;
+};
@@ -0,0 +1,72 @@
+import { TranscriptSegment } from '../types';
+import { applyEditedText, parseReportLine, reportLineToEditableText } from './reportModel';
+import { diffWords } from './reportVersions';
+
+// Words the model changed in a line. Either side may be empty when words were only added or dropped.
+export interface CorrectionChange {
+  type: 'change';
+  spoken: string;
+  corrected: string;
+}
+
+export type CorrectionChunk = { type: 'same'; text: string } | CorrectionChange;
+
+// Case, surrounding punctuation and line breaks are formatting rather than corrections.
+const correctionKey = (token: string): string => {
+  if (/^\s+$/.test(token)) return ' ';
+  return token.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '') || token;
+};
+
+// The corrected text split into unchanged runs and changes, each change paired with the words that were said.
+export const diffCorrections = (spoken: string, corrected: string): CorrectionChunk[] => {
+  const parts = diffWords(spoken, corrected, correctionKey);
+  const chunks: CorrectionChunk[] = [];
+  parts.forEach((part, index) => {
+    const last = chunks[chunks.length - 1];
+    // A space between two changes belongs to one change, so "hypo dense" -> "hyperdense" reads as one correction.
+    const joinsChanges = part.type === 'same' && part.text.trim() === '' && last?.type === 'change' && index < parts.length - 1;
+    if (part.type === 'same' && !joinsChanges) {
+      chunks.push({ type: 'same', text: part.text });
+      return;
+    }
+    let change: CorrectionChange;
+    if (last?.type === 'change') {
+      change = last;
+    } else {
+      change = { type: 'change', spoken: '', corrected: '' };
+      chunks.push(change);
+    }
+    if (part.type !== 'added') change.spoken += part.text;
+    if (part.type !== 'removed') change.corrected += part.text;
+  });
+  return chunks.map(chunk =>
+    chunk.type === 'change' && chunk.spoken.trim() === '' && chunk.corrected.trim() === '' ? { type: 'same', text: chunk.corrected } : chunk
+  );
+};
+
+export const findTranscriptSegment = (transcript: TranscriptSegment[] | undefined, finding: string): TranscriptSegment | undefined =>
+  transcript?.find(segment => segment.corrected === finding);
+
+// Corrections in a stored finding, compared on the text the inline editor shows. That text leaves out the
+// fixed IMPRESSION / RECOMMENDATIONS heading, so a spoken heading is left out as well.
+export const correctionsInFinding = (segment: TranscriptSegment, finding: string): CorrectionChunk[] => {
+  const line = parseReportLine(finding);
+  const spoken = line.kind === 'impression' || line.kind === 'recommendations'
+    ? segment.spoken.replace(/^\s*(impressions?|recommendations?)\b[\s:,.-]*/i, '')
+    : segment.spoken;
+  return diffCorrections(spoken, reportLineToEditableText(line));
+};
+
+// The stored finding with one change put back the way it was dictated.
+export const revertCorrectionInFinding = (finding: string, chunks: CorrectionChunk[], change: CorrectionChange): string => {
+  const text = chunks
+    .map(chunk => (chunk.type === 'same' ? chunk.text : chunk === change ? chunk.spoken : chunk.corrected))
+    .join('')
+    .replace(/ {2,}/g, ' ')
+    .trim();
+  return applyEditedText(finding, text);
+};
+
+// Points the segment for a finding at its new text, so a reverted line keeps showing its remaining corrections.
+export const updateTranscriptSegment = (transcript: TranscriptSegment[], previous: string, next: string): TranscriptSegment[] =>
+  transcript.map(segment => (segment.corrected === previous ? { ...segment, corrected: next } : segment));
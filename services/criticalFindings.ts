@@ -0,0 +1,109 @@
+import { CommunicationMethod, CriticalClassification, CriticalCommunication, CriticalFinding } from '../types';
+import { findingToPlainText, parseReportLine } from './reportModel';
+
+// Critical results that department policy requires to be communicated directly. More specific labels come
+// first: a line flagged as "tension pneumothorax" is not flagged again as "pneumothorax".
+const CRITICAL_LEXICON: { label: string; pattern: RegExp }[] = [
+  { label: 'tension pneumothorax', pattern: /\btension pneumothora(?:x|ces)\b/i },
+  { label: 'pneumothorax', pattern: /\bpneumothora(?:x|ces)\b/i },
+  { label: 'pneumoperitoneum', pattern: /\bpneumoperitoneum\b|\bfree (?:intraperitoneal |intra-abdominal |sub-?diaphragmatic )?(?:air|gas)\b/i },
+  { label: 'intracranial haemorrhage', pattern: /\b(?:sub|extra|epi)dural (?:ha?ema?toma|ha?emorrhage|bleed|collection of blood)\b|\b(?:subarachnoid|intracranial|intracerebral|intraparenchymal|intraventricular) (?:ha?emorrhage|bleed|ha?ema?toma)\b/i },
+  { label: 'active haemorrhage', pattern: /\bactive (?:contrast )?extravasation\b|\bactive(?:ly)? bleed(?:ing)?\b|\b(?:large|massive) (?:ha?emorrhage|bleed|ha?ema?toma)\b|\bha?emoperitoneum\b/i },
+  { label: 'pulmonary embolism', pattern: /\bpulmonary (?:embol(?:ism|us|i)|thromboembol\w*)\b|\bsaddle embol\w*\b/i },
+  { label: 'arterial dissection', pattern: /\b(?:aortic|carotid|vertebral|arterial) dissection\b|\b(?:dissection|intimal) flap\b|\bintramural ha?ema?toma\b/i },
+  { label: 'ruptured aneurysm', pattern: /\bruptured (?:[\w-]+ ){0,3}aneurysm\b|\baneurysm(?:al)? rupture\b/i },
+  { label: 'cord compression', pattern: /\b(?:spinal )?cord compression\b|\bcompression of the (?:spinal )?cord\b|\bcauda equina (?:compression|syndrome)\b/i },
+  { label: 'brain herniation', pattern: /\b(?:uncal|subfalcine|tonsillar|transtentorial|brain|cerebral) herniation\b/i },
+  { label: 'bowel perforation', pattern: /\b(?:bowel|gastric|duodenal|colonic|viscus|hollow viscus) perforation\b|\bperforated (?:bowel|viscus|appendix|ulcer|diverticulum)\b/i },
+  { label: 'bowel ischaemia', pattern: /\b(?:bowel|mesenteric) isch(?:a)?emia\b|\bpneumatosis intestinalis\b|\bportal venous gas\b/i },
+  { label: 'acute stroke', pattern: /\blarge vessel occlusion\b|\bacute (?:[\w-]+ ){0,4}infarct(?:ion)?\b|\b(?:MCA|ICA|basilar) occlusion\b/i },
+  { label: 'torsion', pattern: /\b(?:testicular|ovarian|adnexal) torsion\b/i },
+  { label: 'ectopic pregnancy', pattern: /\b(?:ruptured )?ectopic pregnancy\b/i },
+];
+
+// "No pneumothorax", "negative for pulmonary embolism", "pneumothorax has resolved". A negation after the
+// finding only counts when it follows directly and is not a comparison: "pneumothorax, not seen on the
+// previous study" describes a new finding.
+const NEGATED_BEFORE = /\b(?:no|not|without|negative for|free of|resolution of|rule out|ruled out|exclude|to exclude)\b/i;
+const NEGATED_AFTER = /^\s*(?:is |are )?(?:not (?:seen|identified|demonstrated|present)|(?:has |have )?resolved|excluded|ruled out|absent)\b(?!\s+(?:(?:on|in|at|from|compared with|compared to) (?:the )?(?:previous|prior|earlier|last|old)|previously|before|earlier))/i;
+const NEGATION_WINDOW_WORDS = 6;
+// Negation does not reach past a comma or a contrast: "Without contrast, an acute subdural haematoma is seen."
+const CONTRAST = /\b(?:but|however|although|though|whereas)\b/i;
+const LIST_ITEM_START = /^\s*(?:(?:or|and|nor)\s*)?$/i;
+
+const COMMUNICATION_LINE = /^critical results? \((.*?)\) communicated to\b/i;
+
+export const COMMUNICATION_METHOD_LABELS: Record<CommunicationMethod, string> = {
+  telephone: 'Telephone',
+  inPerson: 'In person',
+  secureMessage: 'Secure message',
+  page: 'Page',
+};
+
+const COMMUNICATION_METHOD_PHRASES: Record<CommunicationMethod, string> = {
+  telephone: 'by telephone',
+  inPerson: 'in person',
+  secureMessage: 'by secure message',
+  page: 'by page',
+};
+
+const isNegated = (clause: string, start: number, end: number): boolean => {
+  const segments = (clause.slice(0, start).split(CONTRAST).pop() ?? '').split(',');
+  // A list item directly after a comma ("No effusion, pneumothorax or consolidation") shares the list's negation.
+  while (segments.length > 1 && LIST_ITEM_START.test(segments[segments.length - 1])) segments.pop();
+  const before = (segments[segments.length - 1] ?? '').split(/\s+/).filter(word => word !== '');
+  const after = clause.slice(end).split(',')[0].split(CONTRAST)[0];
+  return NEGATED_BEFORE.test(before.slice(Math.max(before.length - NEGATION_WINDOW_WORDS, 0)).join(' ')) || NEGATED_AFTER.test(after);
+};
+
+export const isCommunicationLine = (raw: string): boolean => COMMUNICATION_LINE.test(findingToPlainText(raw).trim());
+
+// Lexicon matches in findings, sections and the impression. The title, clinical profile (often a clinical
+// question such as "?PE") and recorded communications are not read.
+export const detectCriticalFindings = (findings: string[]): CriticalFinding[] => {
+  const detected: CriticalFinding[] = [];
+  findings.forEach((finding, findingIndex) => {
+    const kind = parseReportLine(finding, findingIndex).kind;
+    if (!(kind === 'finding' || kind === 'section' || kind === 'impression') || isCommunicationLine(finding)) return;
+    const clauses = findingToPlainText(finding).split(/[.;\n]+/);
+    for (const { label, pattern } of CRITICAL_LEXICON) {
+      if (detected.some(c => c.findingIndex === findingIndex && c.label.endsWith(label))) continue;
+      const found = clauses.some(clause => {
+        const match = clause.match(pattern);
+        return !!match && !isNegated(clause, match.index ?? 0, (match.index ?? 0) + match[0].length);
+      });
+      if (found) detected.push({ findingIndex, label, source: 'lexicon' });
+    }
+  });
+  return detected;
+};
+
+// Lexicon matches plus model classifications made on these exact findings. A line the lexicon already
+// flagged keeps the lexicon's label.
+export const criticalFindingsFor = (findings: string[], classification: CriticalClassification | null | undefined): CriticalFinding[] => {
+  const detected = detectCriticalFindings(findings);
+  if (!classification || JSON.stringify(classification.findings) !== JSON.stringify(findings)) return detected;
+  const fromModel = classification.critical.filter(c => !detected.some(d => d.findingIndex === c.findingIndex));
+  return [...detected, ...fromModel].sort((a, b) => a.findingIndex - b.findingIndex);
+};
+
+// Critical findings whose label no recorded communication in the report mentions.
+export const pendingCriticalFindings = (findings: string[], critical: CriticalFinding[]): CriticalFinding[] => {
+  const communicated = findings
+    .map(finding => findingToPlainText(finding).trim().match(COMMUNICATION_LINE)?.[1].toLowerCase())
+    .flatMap(labels => (labels ? labels.split(', ') : []));
+  return critical.filter(c => !communicated.includes(c.label.toLowerCase()));
+};
+
+export const uniqueLabels = (critical: CriticalFinding[]): string[] => Array.from(new Set(critical.map(c => c.label)));
+
+// The standard sentence policy asks for, e.g. "Critical result (pneumothorax) communicated to Dr A Smith
+// (ED registrar) by telephone on 19 Oct 2026 at 14:32, with read-back confirmation."
+export const communicationSentence = (labels: string[], communication: CriticalCommunication): string => {
+  const at = new Date(communication.at);
+  const date = at.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+  const time = at.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+  const results = labels.length === 1 ? 'Critical result' : 'Critical results';
+  const readBack = communication.readBack ? ', with read-back confirmation' : '';
+  return `${results} (${labels.join(', ')}) communicated to ${communication.recipient.trim()} ${COMMUNICATION_METHOD_PHRASES[communication.method]} on ${date} at ${time}${readBack}.`;
+};
@@ -0,0 +1,282 @@
+import JSZip from 'jszip';
+import { ReportEmphasis, ReportLine } from '../types';
+import { IMPRESSION_HEADING, RECOMMENDATIONS_HEADING, parseReportLine, reportLineToPlainText } from './reportModel';
+
+// Writes real Office Open XML documents, styled like the HTML that copySelection puts on the clipboard: centred
+// underlined titles, bold and italic lines, and an underlined impression heading over bold bullet points.
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export interface DocxSection {
+  // Shown as a heading above the section, e.g. the batch name.
+  heading?: string;
+  findings?: string[] | null;
+  // Markdown, as the complex impression agents write it.
+  expertNotes?: string | null;
+}
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+interface Run extends RunStyle {
+  text: string;
+}
+
+type ListKind = 'bullet' | 'numbered';
+
+interface ListRef {
+  kind: ListKind;
+  id: number;
+}
+
+interface Paragraph {
+  runs: Run[];
+  style?: 'Heading1' | 'Heading2' | 'Heading3';
+  align?: 'center';
+  list?: ListRef;
+  pageBreakBefore?: boolean;
+}
+
+const BULLET_NUM_ID = 1;
+// Each numbered list gets its own instance so that it restarts at 1.
+const FIRST_NUMBERED_NUM_ID = 2;
+
+// Characters XML 1.0 does not allow, which dictated or pasted text occasionally contains.
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const emphasisStyle = (emphasis: ReportEmphasis): RunStyle =>
+  emphasis === 'bold' ? { bold: true } : emphasis === 'italic' ? { italic: true } : {};
+
+// --- Building paragraphs ---
+
+// The same structure reportLineToHtml gives each kind of line.
+const reportLineParagraphs = (line: ReportLine, nextListId: () => number): Paragraph[] => {
+  switch (line.kind) {
+    case 'title':
+      return [{ runs: [{ text: line.text, bold: true, underline: true }], align: 'center' }];
+    case 'clinicalProfile':
+      return [{ runs: [{ text: reportLineToPlainText(line), italic: true }] }];
+    case 'technique':
+      return [{ runs: [{ text: line.text }] }];
+    case 'finding':
+      return [{ runs: [{ text: line.text, ...emphasisStyle(line.emphasis) }] }];
+    case 'section':
+      return [line.heading, ...line.points].map(text => ({ runs: [{ text, ...emphasisStyle(line.emphasis) }] }));
+    case 'impression':
+    case 'recommendations': {
+      const isImpression = line.kind === 'impression';
+      const list = { kind: 'bullet' as const, id: nextListId() };
+      return [
+        { runs: [{ text: isImpression ? IMPRESSION_HEADING : RECOMMENDATIONS_HEADING, bold: true, underline: true }] },
+        ...line.points.map(text => ({ runs: [{ text, bold: isImpression }], list })),
+      ];
+    }
+  }
+};
+
+// **bold**, __bold__, *italic* and `code`; anything else is kept as written.
+const markdownRuns = (text: string, base: RunStyle = {}): Run[] => {
+  const runs: Run[] = [];
+  const pattern = /\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|`(.+?)`/g;
+  let last = 0;
+  for (const match of Array.from(text.matchAll(pattern))) {
+    const index = match.index ?? 0;
+    if (index > last) runs.push({ text: text.slice(last, index), ...base });
+    if (match[1] !== undefined || match[2] !== undefined) {
+      runs.push(...markdownRuns(match[1] ?? match[2], { ...base, bold: true }));
+    } else if (match[3] !== undefined) {
+      runs.push(...markdownRuns(match[3], { ...base, italic: true }));
+    } else {
+      runs.push({ text: match[4], ...base });
+    }
+    last = index + match[0].length;
+  }
+  if (last < text.length) runs.push({ text: text.slice(last), ...base });
+  return runs;
+};
+
+const HEADING_STYLES: Paragraph['style'][] = ['Heading1', 'Heading2', 'Heading3'];
+
+const markdownParagraphs = (markdown: string, nextListId: () => number): Paragraph[] => {
+  const paragraphs: Paragraph[] = [];
+  let openList = null as ListRef | null;
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    // Blank lines and rules do not end a list, so loosely spaced numbered points keep counting.
+    if (line === '' || /^(?:-{3,}|\*{3,}|_{3,})$/.test(line)) continue;
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^[-*+•]\s+(.*)$/);
+    const numbered = line.match(/^\d+[.)]\s+(.*)$/);
+    const listKind: ListKind | null = bullet ? 'bullet' : numbered ? 'numbered' : null;
+    if (listKind !== openList?.kind) openList = listKind ? { kind: listKind, id: nextListId() } : null;
+
+    if (heading) {
+      const level = Math.min(heading[1].length, HEADING_STYLES.length);
+      paragraphs.push({ runs: markdownRuns(heading[2].replace(/\s+#+$/, '')), style: HEADING_STYLES[level - 1] });
+    } else if (openList) {
+      paragraphs.push({ runs: markdownRuns((bullet ?? numbered)![1]), list: openList });
+    } else {
+      paragraphs.push({ runs: markdownRuns(line) });
+    }
+  }
+  return paragraphs;
+};
+
+// --- Writing XML ---
+
+const runXml = (run: Run): string => {
+  const properties = [
+    run.bold ? '<w:b/>' : '',
+    run.italic ? '<w:i/>' : '',
+    run.underline ? '<w:u w:val="single"/>' : '',
+  ].join('');
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+};
+
+const paragraphXml = (paragraph: Paragraph, numIds: Map<number, number>): string => {
+  const properties = [
+    paragraph.style ? `<w:pStyle w:val="${paragraph.style}"/>` : paragraph.list ? '<w:pStyle w:val="ListParagraph"/>' : '',
+    paragraph.pageBreakBefore ? '<w:pageBreakBefore/>' : '',
+    paragraph.list ? `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${numIds.get(paragraph.list.id)}"/></w:numPr>` : '',
+    paragraph.align ? `<w:jc w:val="${paragraph.align}"/>` : '',
+  ].join('');
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${paragraph.runs.map(runXml).join('')}</w:p>`;
+};
+
+const documentXml = (body: string): string =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+  + `<w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body>`
+  + '</w:document>';
+
+const headingStyleXml = (id: string, name: string, size: number, outline: number): string =>
+  `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>`
+  + `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${outline}"/></w:pPr>`
+  + `<w:rPr><w:b/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`;
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">'
+  + '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-GB"/></w:rPr></w:rPrDefault>'
+  + '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+  + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+  + headingStyleXml('Heading1', 'heading 1', 32, 0)
+  + headingStyleXml('Heading2', 'heading 2', 28, 1)
+  + headingStyleXml('Heading3', 'heading 3', 24, 2)
+  + '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:ind w:left="720"/></w:pPr></w:style>'
+  + '</w:styles>';
+
+const ABSTRACT_BULLET = 0;
+const ABSTRACT_NUMBERED = 1;
+
+const numberingXml = (numberedNumIds: number[]): string =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">'
+  + `<w:abstractNum w:abstractNumId="${ABSTRACT_BULLET}"><w:multiLevelType w:val="singleLevel"/>`
+  + '<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl>'
+  + '</w:abstractNum>'
+  + `<w:abstractNum w:abstractNumId="${ABSTRACT_NUMBERED}"><w:multiLevelType w:val="singleLevel"/>`
+  + '<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl>'
+  + '</w:abstractNum>'
+  + `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="${ABSTRACT_BULLET}"/></w:num>`
+  + numberedNumIds.map(numId =>
+    `<w:num w:numId="${numId}"><w:abstractNumId w:val="${ABSTRACT_NUMBERED}"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`).join('')
+  + '</w:numbering>';
+
+const CONTENT_TYPES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+  + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+  + '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>'
+  + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+  + '</Types>';
+
+const PACKAGE_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+  + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+  + '</Relationships>';
+
+const DOCUMENT_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+  + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>'
+  + '</Relationships>';
+
+const coreXml = (title: string, createdAt: number): string => {
+  const created = new Date(createdAt).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+    + `<dc:title>${escapeXml(title)}</dc:title><dc:creator>Radiology Dictation Corrector</dc:creator>`
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${created}</dcterms:modified>`
+    + '</cp:coreProperties>';
+};
+
+// --- Public API ---
+
+export const generateDocx = async (sections: DocxSection[], title: string): Promise<Blob> => {
+  let listCount = 0;
+  const nextListId = () => listCount++;
+
+  const paragraphs: Paragraph[] = [];
+  sections.forEach((section, index) => {
+    const start = paragraphs.length;
+    if (section.heading) paragraphs.push({ runs: [{ text: section.heading }], style: 'Heading1' });
+    (section.findings ?? []).forEach((finding, index) => paragraphs.push(...reportLineParagraphs(parseReportLine(finding, index), nextListId)));
+    if (section.expertNotes) paragraphs.push(...markdownParagraphs(section.expertNotes, nextListId));
+    // Each batch starts on its own page.
+    if (index > 0 && paragraphs.length > start) paragraphs[start].pageBreakBefore = true;
+  });
+
+  // Bullets share one numbering instance; every numbered list gets its own.
+  const numbered: number[] = [];
+  const numIds = new Map<number, number>();
+  paragraphs.forEach(paragraph => {
+    if (!paragraph.list || numIds.has(paragraph.list.id)) return;
+    if (paragraph.list.kind === 'bullet') {
+      numIds.set(paragraph.list.id, BULLET_NUM_ID);
+    } else {
+      const numId = FIRST_NUMBERED_NUM_ID + numbered.length;
+      numbered.push(numId);
+      numIds.set(paragraph.list.id, numId);
+    }
+  });
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', CONTENT_TYPES_XML);
+  zip.file('_rels/.rels', PACKAGE_RELS_XML);
+  zip.file('docProps/core.xml', coreXml(title, Date.now()));
+  zip.file('word/_rels/document.xml.rels', DOCUMENT_RELS_XML);
+  zip.file('word/styles.xml', STYLES_XML);
+  zip.file('word/numbering.xml', numberingXml(numbered));
+  zip.file('word/document.xml', documentXml(paragraphs.map(paragraph => paragraphXml(paragraph, numIds)).join('')));
+  return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE, compression: 'DEFLATE' });
+};
+
+export const generateReportDocx = (findings: string[], expertNotes?: string | null): Promise<Blob> =>
+  generateDocx([{ findings, expertNotes }], 'Radiology Report');
+
+export const generateBatchReportDocx = (batches: { name: string; findings: string[] | null; expertNotes?: string | null }[]): Promise<Blob> =>
+  generateDocx(
+    batches.filter(b => b.findings && b.findings.length > 0).map(b => ({ heading: b.name, findings: b.findings, expertNotes: b.expertNotes })),
+    'Batch Radiology Report',
+  );
+
+export const generateExpertNotesDocx = (expertNotes: string): Promise<Blob> =>
+  generateDocx([{ expertNotes }], 'Expert Notes');
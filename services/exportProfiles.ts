@@ -0,0 +1,323 @@
+import { ExportFormat, ExportProfile, ReportEmphasis, ReportLine } from '../types';
+import { IMPRESSION_HEADING, RECOMMENDATIONS_HEADING, escapeHtml, parseReportLine, serializeReportLine } from './reportModel';
+
+// Export profiles decide how copy, copy-all and the formatted download render a report for one destination.
+// Browsers can only put plain text and HTML on the clipboard, so RTF profiles copy the same runs as HTML (which
+// RTF editors convert on paste) and write real RTF when downloading. Plain text and Markdown profiles copy text only.
+
+export const EXPORT_PROFILES_KEY = 'export_profiles';
+export const ACTIVE_EXPORT_PROFILE_KEY = 'active_export_profile';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  html: 'Rich text',
+  rtf: 'RTF',
+  markdown: 'Markdown',
+  plain: 'Plain text',
+};
+
+// The first profile reproduces the app's original copy format.
+export const DEFAULT_EXPORT_PROFILES: ExportProfile[] = [
+  {
+    id: 'default-rich-text',
+    name: 'Word / email (rich text)',
+    format: 'html',
+    uppercaseHeadings: false,
+    numberedImpression: false,
+    bullet: '•',
+    blankLines: true,
+    keepEmphasis: true,
+  },
+  {
+    id: 'default-ris',
+    name: 'RIS text box',
+    format: 'plain',
+    uppercaseHeadings: true,
+    numberedImpression: true,
+    bullet: '-',
+    blankLines: false,
+    keepEmphasis: false,
+  },
+  {
+    id: 'default-rtf',
+    name: 'RTF document',
+    format: 'rtf',
+    uppercaseHeadings: false,
+    numberedImpression: false,
+    bullet: '•',
+    blankLines: true,
+    keepEmphasis: true,
+  },
+  {
+    id: 'default-markdown',
+    name: 'PACS notes (Markdown)',
+    format: 'markdown',
+    uppercaseHeadings: false,
+    numberedImpression: true,
+    bullet: '-',
+    blankLines: true,
+    keepEmphasis: true,
+  },
+];
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeToExportProfiles = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const loadExportProfiles = (): ExportProfile[] => {
+  try {
+    const saved = localStorage.getItem(EXPORT_PROFILES_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed) && parsed.length > 0) {
+        return parsed.filter(p => p && typeof p.id === 'string' && typeof p.name === 'string' && p.format in EXPORT_FORMAT_LABELS);
+      }
+    }
+  } catch (e) {
+    console.error("Failed to load export profiles:", e);
+  }
+  return DEFAULT_EXPORT_PROFILES.map(p => ({ ...p }));
+};
+
+export const saveExportProfiles = (profiles: ExportProfile[]) => {
+  localStorage.setItem(EXPORT_PROFILES_KEY, JSON.stringify(profiles));
+  notify();
+};
+
+export const getActiveExportProfile = (): ExportProfile => {
+  const profiles = loadExportProfiles();
+  const activeId = localStorage.getItem(ACTIVE_EXPORT_PROFILE_KEY);
+  return profiles.find(p => p.id === activeId) ?? profiles[0] ?? DEFAULT_EXPORT_PROFILES[0];
+};
+
+export const setActiveExportProfile = (id: string) => {
+  localStorage.setItem(ACTIVE_EXPORT_PROFILE_KEY, id);
+  notify();
+};
+
+export const createExportProfile = (): ExportProfile => ({
+  ...DEFAULT_EXPORT_PROFILES[0],
+  id: `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: '',
+});
+
+// Returns a message describing why the profile cannot be saved, or null when it is valid.
+export const validateExportProfile = (profile: ExportProfile, all: ExportProfile[]): string | null => {
+  const name = profile.name.trim();
+  if (!name) return 'Every profile needs a name.';
+  if (all.some(other => other.id !== profile.id && other.name.trim().toLowerCase() === name.toLowerCase())) {
+    return `"${name}" is used by more than one profile.`;
+  }
+  if (profile.format === 'plain' && !profile.numberedImpression && !profile.bullet.trim()) {
+    return `"${name}" needs a bullet for impression points.`;
+  }
+  return null;
+};
+
+// --- Rendering ---
+
+// One output line. Findings become groups of these, so a structured finding stays together without blank lines.
+interface Line {
+  text: string;
+  emphasis: ReportEmphasis;
+  role: 'title' | 'heading' | 'body' | 'item';
+  // The bullet or number in front of a point, e.g. "1.".
+  marker?: string;
+  numbered?: boolean;
+}
+
+export interface RenderedReport {
+  text: string;
+  // Rich clipboard content; null for profiles that copy text only.
+  html: string | null;
+}
+
+const linesFor = (line: ReportLine, profile: ExportProfile): Line[] => {
+  const heading = (text: string) => (profile.uppercaseHeadings ? text.toUpperCase() : text);
+  const points = (items: string[], emphasis: ReportEmphasis): Line[] =>
+    items.map((text, i) => ({
+      text,
+      emphasis,
+      role: 'item',
+      marker: profile.numberedImpression ? `${i + 1}.` : profile.bullet,
+      numbered: profile.numberedImpression,
+    }));
+
+  switch (line.kind) {
+    case 'title':
+      return [{ text: heading(line.text), emphasis: 'bold', role: 'title' }];
+    case 'clinicalProfile':
+      return [{ text: `${heading('Clinical Profile:')} ${line.text}`.trim(), emphasis: 'italic', role: 'body' }];
+    case 'technique':
+      return [{ text: line.text, emphasis: 'none', role: 'body' }];
+    case 'finding':
+      return [{ text: line.text, emphasis: line.emphasis, role: 'body' }];
+    case 'section':
+      return [
+        { text: heading(line.heading), emphasis: line.emphasis, role: 'body' },
+        ...line.points.map((text): Line => ({ text, emphasis: line.emphasis, role: 'body' })),
+      ];
+    case 'impression':
+      return [{ text: IMPRESSION_HEADING, emphasis: 'bold', role: 'heading' }, ...points(line.points, 'bold')];
+    case 'recommendations':
+      return [{ text: RECOMMENDATIONS_HEADING, emphasis: 'bold', role: 'heading' }, ...points(line.points, 'none')];
+  }
+};
+
+const groupsFor = (findings: string[], profile: ExportProfile): Line[][] =>
+  findings.map((finding, index) => {
+    const lines = linesFor(parseReportLine(finding, index), profile);
+    return profile.keepEmphasis ? lines : lines.map(line => ({ ...line, emphasis: 'none' as ReportEmphasis }));
+  });
+
+const toPlain = (groups: Line[][], profile: ExportProfile): string =>
+  groups
+    .map(group => group.map(line => (line.marker ? `${line.marker} ${line.text}` : line.text)).join('\n'))
+    .join(profile.blankLines ? '\n\n' : '\n');
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_])/g, '\\$1');
+
+const markdownEmphasis = (text: string, emphasis: ReportEmphasis) =>
+  emphasis === 'bold' ? `**${text}**` : emphasis === 'italic' ? `*${text}*` : text;
+
+// Markdown joins consecutive lines into one paragraph, so lines other than list items are always separated by a
+// blank line.
+const toMarkdown = (groups: Line[][]): string =>
+  groups
+    .map(group => group
+      .map(line => {
+        const text = escapeMarkdown(line.text);
+        if (line.role === 'title') return `# ${text}`;
+        if (line.role === 'item') return `${line.numbered ? line.marker : '-'} ${markdownEmphasis(text, line.emphasis)}`;
+        return markdownEmphasis(text, line.emphasis);
+      })
+      .reduce((out, text, i) => (i === 0 ? text : `${out}${group[i].role === 'item' ? '\n' : '\n\n'}${text}`), ''))
+    .join('\n\n');
+
+const htmlEmphasis = (html: string, emphasis: ReportEmphasis) =>
+  emphasis === 'bold' ? `<strong>${html}</strong>` : emphasis === 'italic' ? `<em>${html}</em>` : html;
+
+// Matches reportLineToHtml, so the first default profile copies exactly what the app always has.
+const toHtml = (groups: Line[][], profile: ExportProfile): string =>
+  groups
+    .map(group => {
+      let html = '';
+      group.forEach((line, i) => {
+        const text = escapeHtml(line.text);
+        if (line.role === 'item') {
+          const tag = line.numbered ? 'ol' : 'ul';
+          if (group[i - 1]?.role !== 'item') html += `<${tag}>`;
+          html += `<li>${htmlEmphasis(text, line.emphasis)}</li>`;
+          if (group[i + 1]?.role !== 'item') html += `</${tag}>`;
+        } else if (line.role === 'title') {
+          html += profile.keepEmphasis ? `<p style="text-align:center;"><strong><u>${text}</u></strong></p>` : `<p>${text}</p>`;
+        } else if (line.role === 'heading') {
+          html += profile.keepEmphasis ? `<p><strong style="text-decoration: underline;">${text}</strong></p>` : `<p>${text}</p>`;
+        } else {
+          html += `<p>${htmlEmphasis(text, line.emphasis)}</p>`;
+        }
+      });
+      return html;
+    })
+    .join('');
+
+// RTF is 7-bit: anything else is written as a \u escape (a signed 16-bit value) with "?" for readers that skip it.
+const escapeRtf = (text: string): string =>
+  Array.from(text)
+    .map(char => {
+      if (char === '\\' || char === '{' || char === '}') return `\\${char}`;
+      const code = char.codePointAt(0)!;
+      if (code < 128) return char;
+      if (code > 0xffff) return '?';
+      return `\\u${code > 32767 ? code - 65536 : code}?`;
+    })
+    .join('');
+
+const rtfEmphasis = (emphasis: ReportEmphasis) => (emphasis === 'bold' ? '\\b' : emphasis === 'italic' ? '\\i' : '');
+
+const RTF_HEADER = '{\\rtf1\\ansi\\ansicpg1252\\deff0{\\fonttbl{\\f0\\fswiss Calibri;}}\\f0\\fs22\n';
+
+const rtfParagraph = (controls: string, text: string) => `{\\pard${controls} ${text}\\par}\n`;
+
+const toRtfBody = (groups: Line[][], profile: ExportProfile): string =>
+  groups
+    .map(group => group
+      .map(line => {
+        const text = escapeRtf(line.text);
+        if (line.role === 'title') return rtfParagraph(profile.keepEmphasis ? '\\qc\\b\\ul' : '', text);
+        if (line.role === 'heading') return rtfParagraph(profile.keepEmphasis ? '\\b\\ul' : '', text);
+        if (line.role === 'item') {
+          const marker = escapeRtf(line.marker ?? '');
+          return rtfParagraph('\\li360\\fi-360', `${marker}\\tab ${line.emphasis === 'none' ? text : `{${rtfEmphasis(line.emphasis)} ${text}}`}`);
+        }
+        return rtfParagraph(rtfEmphasis(line.emphasis), text);
+      })
+      .join(''))
+    .join(profile.blankLines ? '{\\pard\\par}\n' : '');
+
+const renderGroups = (groups: Line[][], profile: ExportProfile): RenderedReport => ({
+  text: profile.format === 'markdown' ? toMarkdown(groups) : toPlain(groups, profile),
+  html: profile.format === 'html' || profile.format === 'rtf' ? toHtml(groups, profile) : null,
+});
+
+export const renderFindings = (findings: string[], profile: ExportProfile): RenderedReport =>
+  renderGroups(groupsFor(findings, profile), profile);
+
+// Text picked out of a finding is copied as a bold line, the way a copied selection has always been pasted.
+export const renderSnippet = (text: string, profile: ExportProfile): RenderedReport =>
+  renderFindings([serializeReportLine({ kind: 'finding', text, emphasis: 'bold' })], profile);
+
+export const renderBatches = (batches: { name: string; findings: string[] }[], profile: ExportProfile): RenderedReport => {
+  const rendered = batches.map(batch => ({ name: batch.name, report: renderFindings(batch.findings, profile) }));
+  return {
+    text: rendered
+      .map(({ name, report }) => `${profile.format === 'markdown' ? `## ${escapeMarkdown(name)}` : `[${name}]`}\n${report.text}`)
+      .join('\n\n'),
+    html: profile.format === 'html' || profile.format === 'rtf'
+      ? rendered.map(({ name, report }) => `<h3>${escapeHtml(name)}</h3>${report.html}`).join('')
+      : null,
+  };
+};
+
+// --- Files ---
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+const htmlDocument = (body: string) =>
+  `<!DOCTYPE html>\n<html><head><meta charset="utf-8"><title>Radiology Report</title></head><body>${body}</body></html>\n`;
+
+const fileFor = (profile: ExportProfile, text: string, html: string, rtf: string): ExportFile => {
+  switch (profile.format) {
+    case 'html':
+      return { content: htmlDocument(html), mimeType: 'text/html', extension: 'html' };
+    case 'rtf':
+      return { content: `${RTF_HEADER}${rtf}}`, mimeType: 'application/rtf', extension: 'rtf' };
+    case 'markdown':
+      return { content: `${text}\n`, mimeType: 'text/markdown', extension: 'md' };
+    case 'plain':
+      return { content: `${text}\n`, mimeType: 'text/plain', extension: 'txt' };
+  }
+};
+
+export const exportReportFile = (findings: string[], profile: ExportProfile): ExportFile => {
+  const groups = groupsFor(findings, profile);
+  return fileFor(profile, renderGroups(groups, profile).text, toHtml(groups, profile), toRtfBody(groups, profile));
+};
+
+export const exportBatchReportFile = (batches: { name: string; findings: string[] }[], profile: ExportProfile): ExportFile => {
+  const { text } = renderBatches(batches, profile);
+  const html = batches.map(batch => `<h3>${escapeHtml(batch.name)}</h3>${toHtml(groupsFor(batch.findings, profile), profile)}`).join('');
+  const rtf = batches
+    .map(batch => `${rtfParagraph('\\b\\fs26', escapeRtf(batch.name))}${toRtfBody(groupsFor(batch.findings, profile), profile)}`)
+    .join('{\\pard\\par}\n');
+  return fileFor(profile, text, html, rtf);
+};
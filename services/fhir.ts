@@ -0,0 +1,372 @@
+import { Measurement, ReportEmphasis } from '../types';
+import { ellipsoidVolumeMl, extractMeasurements } from './measurements';
+import { generateReportPdf } from './pdfGenerator';
+import { findingToHtml, parseReport, serializeReportLine } from './reportModel';
+
+// FHIR R4 exchange with the EHR. A report goes out as a transaction Bundle: a DiagnosticReport whose conclusion is
+// the impression and whose presentedForm carries the report as HTML and PDF, plus one Observation per measurement.
+// Importing reads a DiagnosticReport (or the first one in a Bundle) back into findings for editing.
+
+export const FHIR_SETTINGS_KEY = 'fhir_settings';
+
+export interface FhirSettings {
+  // e.g. http://localhost:8080/fhir for a local HAPI server.
+  baseUrl: string;
+}
+
+export const DEFAULT_FHIR_SETTINGS: FhirSettings = { baseUrl: '' };
+
+export const loadFhirSettings = (): FhirSettings => {
+  try {
+    const saved = localStorage.getItem(FHIR_SETTINGS_KEY);
+    if (saved) {
+      return { ...DEFAULT_FHIR_SETTINGS, ...JSON.parse(saved) };
+    }
+  } catch (e) {
+    console.error("Failed to load FHIR settings:", e);
+  }
+  return { ...DEFAULT_FHIR_SETTINGS };
+};
+
+export const saveFhirSettings = (settings: FhirSettings) => {
+  try {
+    localStorage.setItem(FHIR_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save FHIR settings:", e);
+  }
+};
+
+// Identifiers the EHR matches the report on; both optional, entered by the user for each export.
+export interface FhirExportDetails {
+  patientId: string;
+  accessionNumber: string;
+}
+
+export const FHIR_MIME_TYPE = 'application/fhir+json';
+
+// --- Resource shapes (only the elements this module reads or writes) ---
+
+interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+interface Quantity {
+  value: number;
+  unit: string;
+  system: string;
+  code: string;
+}
+
+interface Attachment {
+  contentType?: string;
+  data?: string;
+  title?: string;
+}
+
+interface Reference {
+  reference?: string;
+  identifier?: { value: string };
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  status: 'final';
+  category: CodeableConcept[];
+  code: CodeableConcept;
+  subject?: Reference;
+  effectiveDateTime: string;
+  valueQuantity?: Quantity;
+  valueString?: string;
+  component?: { code: CodeableConcept; valueQuantity: Quantity }[];
+}
+
+export interface FhirDiagnosticReport {
+  resourceType: 'DiagnosticReport';
+  identifier?: { type?: CodeableConcept; value: string }[];
+  status: string;
+  category?: CodeableConcept[];
+  code?: CodeableConcept;
+  subject?: Reference;
+  effectiveDateTime?: string;
+  issued?: string;
+  result?: Reference[];
+  conclusion?: string;
+  presentedForm?: Attachment[];
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: string;
+  timestamp?: string;
+  entry?: { fullUrl?: string; resource?: { resourceType?: string }; request?: { method: string; url: string } }[];
+}
+
+const UCUM = 'http://unitsofmeasure.org';
+
+const RADIOLOGY_CATEGORY: CodeableConcept = {
+  coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0074', code: 'RAD', display: 'Radiology' }],
+};
+
+const IMAGING_CATEGORY: CodeableConcept = {
+  coding: [{ system: 'http://terminology.hl7.org/CodeSystem/observation-category', code: 'imaging', display: 'Imaging' }],
+};
+
+const ACCESSION_TYPE: CodeableConcept = {
+  coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0203', code: 'ACSN', display: 'Accession ID' }],
+};
+
+// --- Encoding ---
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const base64ToText = (base64: string): string => {
+  const binary = atob(base64);
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+const uuid = () => `urn:uuid:${crypto.randomUUID()}`;
+
+// --- Export ---
+
+const reportHtml = (findings: string[]): string =>
+  `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Radiology Report</title></head><body>${findings.map(findingToHtml).join('')}</body></html>`;
+
+const axisQuantity = (value: number, unit: string): Quantity => ({ value, unit, system: UCUM, code: unit });
+
+const measurementObservation = (measurement: Measurement, subject: Reference | undefined, effective: string): FhirObservation => {
+  const observation: FhirObservation = {
+    resourceType: 'Observation',
+    status: 'final',
+    category: [IMAGING_CATEGORY],
+    code: { text: measurement.structure || 'Measurement' },
+    ...(subject ? { subject } : {}),
+    effectiveDateTime: effective,
+  };
+  if (measurement.values.length === 1) {
+    observation.valueQuantity = axisQuantity(measurement.values[0], measurement.units[0]);
+    return observation;
+  }
+  observation.valueString = measurement.text;
+  observation.component = measurement.values.map((value, i) => ({
+    code: { text: `Dimension ${i + 1}` },
+    valueQuantity: axisQuantity(value, measurement.units[i]),
+  }));
+  const volume = ellipsoidVolumeMl(measurement);
+  if (volume !== null) {
+    observation.component.push({
+      code: { text: 'Ellipsoid volume' },
+      valueQuantity: { value: Math.round(volume * 100) / 100, unit: 'mL', system: UCUM, code: 'mL' },
+    });
+  }
+  return observation;
+};
+
+export const buildDiagnosticReportBundle = async (findings: string[], details: FhirExportDetails, at: number = Date.now()): Promise<FhirBundle> => {
+  const report = parseReport(findings);
+  const issued = new Date(at).toISOString();
+  const subject: Reference | undefined = details.patientId.trim() ? { identifier: { value: details.patientId.trim() } } : undefined;
+
+  const observations = extractMeasurements(findings).map(measurement => ({
+    fullUrl: uuid(),
+    resource: measurementObservation(measurement, subject, issued),
+  }));
+
+  const htmlBytes = new TextEncoder().encode(reportHtml(findings));
+  const pdfBytes = new Uint8Array(await generateReportPdf(findings).arrayBuffer());
+  const formTitle = report.title || 'Radiology Report';
+
+  const diagnosticReport: FhirDiagnosticReport = {
+    resourceType: 'DiagnosticReport',
+    ...(details.accessionNumber.trim() ? { identifier: [{ type: ACCESSION_TYPE, value: details.accessionNumber.trim() }] } : {}),
+    status: 'final',
+    category: [RADIOLOGY_CATEGORY],
+    // code.text is left out for untitled reports so that importing the bundle does not invent a title.
+    code: { coding: [{ system: 'http://loinc.org', code: '18748-4', display: 'Diagnostic imaging study' }], ...(report.title ? { text: report.title } : {}) },
+    ...(subject ? { subject } : {}),
+    effectiveDateTime: issued,
+    issued,
+    ...(observations.length > 0 ? { result: observations.map(entry => ({ reference: entry.fullUrl })) } : {}),
+    ...(report.impression.length > 0 ? { conclusion: report.impression.join('\n') } : {}),
+    presentedForm: [
+      { contentType: 'text/html', data: bytesToBase64(htmlBytes), title: formTitle },
+      { contentType: 'application/pdf', data: bytesToBase64(pdfBytes), title: formTitle },
+    ],
+  };
+
+  return {
+    resourceType: 'Bundle',
+    type: 'transaction',
+    timestamp: issued,
+    entry: [
+      { fullUrl: uuid(), resource: diagnosticReport, request: { method: 'POST', url: 'DiagnosticReport' } },
+      ...observations.map(entry => ({ ...entry, request: { method: 'POST', url: 'Observation' } })),
+    ],
+  };
+};
+
+// Errors from a FHIR server come back as an OperationOutcome; its diagnostics say what was wrong.
+const outcomeMessage = (body: string): string | null => {
+  try {
+    const outcome = JSON.parse(body);
+    const messages = (outcome?.issue ?? []).map((issue: { diagnostics?: string; details?: { text?: string } }) => issue.diagnostics || issue.details?.text).filter(Boolean);
+    return messages.length > 0 ? messages.join(' ') : null;
+  } catch {
+    return null;
+  }
+};
+
+// Posts the transaction to the server base and returns where the DiagnosticReport was created, when the server says.
+export const postBundle = async (bundle: FhirBundle, settings: FhirSettings): Promise<string | null> => {
+  const baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+  if (!baseUrl) {
+    throw new Error('No FHIR base URL is configured.');
+  }
+  const response = await fetch(baseUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': FHIR_MIME_TYPE, Accept: FHIR_MIME_TYPE },
+    body: JSON.stringify(bundle),
+  });
+  const body = await response.text().catch(() => '');
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}: ${outcomeMessage(body) || body || response.statusText}`);
+  }
+  try {
+    const result = JSON.parse(body);
+    return result?.entry?.[0]?.response?.location ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// --- Import ---
+
+// A paragraph or list item of the presented report, before it is turned back into a finding.
+interface TextBlock {
+  text: string;
+  isListItem: boolean;
+  isHeading: boolean;
+  emphasis: ReportEmphasis;
+}
+
+const normalizeSpace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6';
+
+const htmlBlocks = (html: string): TextBlock[] => {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(document.body.querySelectorAll(BLOCK_SELECTOR))
+    .filter(element => !element.parentElement?.closest(BLOCK_SELECTOR))
+    .map(element => {
+      const text = normalizeSpace(element.textContent ?? '');
+      const whole = (selector: string) => Array.from(element.querySelectorAll(selector)).some(inner => normalizeSpace(inner.textContent ?? '') === text);
+      const isCentered = element instanceof HTMLElement && element.style.textAlign === 'center';
+      return {
+        text,
+        isListItem: element.tagName === 'LI',
+        isHeading: isCentered || /^H[1-3]$/.test(element.tagName),
+        emphasis: whole('strong, b') ? 'bold' : whole('em, i') ? 'italic' : 'none',
+      } as TextBlock;
+    })
+    .filter(block => block.text !== '');
+};
+
+const BULLET = /^(?:[•*-]|\d+[.)])\s+/;
+
+const plainTextBlocks = (text: string): TextBlock[] =>
+  text
+    .split(/\r\n|\r|\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => ({ text: line.replace(BULLET, ''), isListItem: BULLET.test(line), isHeading: false, emphasis: 'none' }));
+
+const blocksToFindings = (blocks: TextBlock[]): string[] => {
+  const findings: string[] = [];
+  let list: { kind: 'impression' | 'recommendations'; points: string[] } | null = null;
+  const closeList = () => {
+    if (list && list.points.length > 0) findings.push(serializeReportLine(list));
+    list = null;
+  };
+
+  blocks.forEach((block, index) => {
+    if (/^IMPRESSIONS?:?$/i.test(block.text)) {
+      closeList();
+      list = { kind: 'impression', points: [] };
+    } else if (/^RECOMMENDATIONS?:?$/i.test(block.text)) {
+      closeList();
+      list = { kind: 'recommendations', points: [] };
+    } else if (list) {
+      // Everything under the impression or recommendations heading belongs to it, listed or not.
+      list.points.push(block.text);
+    } else if (block.isHeading && index === 0) {
+      findings.push(serializeReportLine({ kind: 'title', text: block.text }));
+    } else if (/^clinical profile:/i.test(block.text)) {
+      findings.push(serializeReportLine({ kind: 'clinicalProfile', text: block.text.replace(/^clinical profile:/i, '').trim() }));
+    } else {
+      findings.push(serializeReportLine({ kind: 'finding', text: block.text, emphasis: block.isHeading ? 'bold' : block.emphasis }));
+    }
+  });
+  closeList();
+  return findings;
+};
+
+const findDiagnosticReport = (resource: unknown): FhirDiagnosticReport | null => {
+  const candidate = resource as { resourceType?: string } | null;
+  if (candidate?.resourceType === 'DiagnosticReport') return candidate as FhirDiagnosticReport;
+  if (candidate?.resourceType === 'Bundle') {
+    const entry = (candidate as FhirBundle).entry?.find(e => e.resource?.resourceType === 'DiagnosticReport');
+    return entry ? (entry.resource as FhirDiagnosticReport) : null;
+  }
+  return null;
+};
+
+// Reads the report from its HTML form when there is one, then plain text; the conclusion fills in a missing
+// impression and the report code's text a missing title. The generic LOINC display is not a title.
+export const importDiagnosticReport = (json: string): string[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const report = findDiagnosticReport(parsed);
+  if (!report) {
+    throw new Error('No DiagnosticReport was found in the file.');
+  }
+
+  const forms = (report.presentedForm ?? []).filter(form => form.data);
+  const html = forms.find(form => form.contentType?.startsWith('text/html'));
+  const text = forms.find(form => form.contentType?.startsWith('text/plain'));
+  let findings: string[] = [];
+  if (html) {
+    findings = blocksToFindings(htmlBlocks(base64ToText(html.data!)));
+  } else if (text) {
+    findings = blocksToFindings(plainTextBlocks(base64ToText(text.data!)));
+  }
+
+  const document = parseReport(findings);
+  const title = report.code?.text?.trim();
+  if (document.title === null && title) {
+    findings.unshift(serializeReportLine({ kind: 'title', text: title }));
+  }
+  if (document.impression.length === 0 && report.conclusion?.trim()) {
+    const points = plainTextBlocks(report.conclusion).map(block => block.text);
+    findings.push(serializeReportLine({ kind: 'impression', points }));
+  }
+  if (findings.length === 0) {
+    throw new Error('The DiagnosticReport has no readable report text.');
+  }
+  return findings;
+};
@@ -1,24 +1,22 @@
-import { GoogleGenAI, Type, GenerateContentResponse, Chat } from "@google/genai";
-import { DEFAULT_GEMINI_PROMPT, TEMPLATE_GEMINI_PROMPT, REPORT_TEMPLATES, ERROR_IDENTIFIER_PROMPT, INITIAL_AGENT_PROMPT, REFINEMENT_AGENT_PROMPT, SYNTHESIZER_AGENT_PROMPT, IMAGE_ONLY_GEMINI_PROMPT, IMAGE_TRANSCRIPTION_AGENT_PROMPT } from '../constants';
-import { IdentifiedError } from "../types";
-
-const getApiKey = (): string => {
-  const key = localStorage.getItem('gemini_api_key');
-  if (!key) {
-    throw new Error("Gemini API Key is missing. Please add it in the settings.");
-  }
-  return key;
-};
-
-const getAIClient = () => {
-  return new GoogleGenAI({ apiKey: getApiKey() });
-};
+import { DEFAULT_GEMINI_PROMPT, TEMPLATE_GEMINI_PROMPT, VERBATIM_TRANSCRIPT_PROMPT, ERROR_IDENTIFIER_PROMPT, IMPRESSION_CROSS_CHECK_PROMPT, CRITICAL_FINDINGS_PROMPT, INITIAL_AGENT_PROMPT, REFINEMENT_AGENT_PROMPT, SYNTHESIZER_AGENT_PROMPT, IMAGE_ONLY_GEMINI_PROMPT, IMAGE_TRANSCRIPTION_AGENT_PROMPT } from '../constants';
+import { CriticalFinding, DictationMacro, IdentifiedError, TranscriptionRule, TranscriptSegment, VocabularyEntry } from "../types";
+import { getAIProvider, resolveRequestModel, AIProvider, AITask, ChatSession, ChatTurn, ContentPart, GenerateJsonRequest, GenerateRequest, JsonSchema, TranscribeAudioRequest } from './aiProvider';
+import { isImpressionLine } from './reportModel';
+import { crossCheckErrors, ImpressionCrossCheckResponse } from './impressionCheck';
+import { isCommunicationLine } from './criticalFindings';
+import { findTemplateById, loadTemplates } from './templateLibrary';
+import { applyTranscriptionRules, applyTranscriptionRulesToFindings, buildTranscriptionRulesPrompt, loadTranscriptionRules } from './transcriptionRules';
+import { applyVocabulary, applyVocabularyToFindings, buildVocabularyPrompt, loadVocabulary } from './vocabulary';
+import { buildMacroPrompt, expandMacrosInFindings, loadMacros } from './macros';
+import { applyPhiGuard, applyPhiGuardToFindings } from './phiRedaction';
+import { recordAiCall } from './auditLog';
+import { ProviderHttpError } from './providers/openAICompatibleProvider';
 
 // Utility function to delay execution
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// Retry utility with exponential backoff and error classification
-async function retryOperation<T>(operation: () => Promise<T>, retries = 3, initialDelay = 1000): Promise<T> {
+// Retry utility with exponential backoff and error classification. `onRetry` is called before each new attempt.
+async function retryOperation<T>(operation: () => Promise<T>, retries = 3, initialDelay = 1000, onRetry?: () => void): Promise<T> {
     let lastError: any;
     for (let i = 0; i < retries; i++) {
         try {
@@ -26,8 +24,10 @@ async function retryOperation<T>(operation: () => Promise<T>, retries = 3, initi
         } catch (error: any) {
             lastError = error;
             // Check for 429 (Resource Exhausted) or 503 (Service Unavailable)
-            const isRateLimit = error.message?.includes('429') || error.message?.includes('RESOURCE_EXHAUSTED') || error.status === 429;
-            const isServerOverload = error.message?.includes('503') || error.status === 503;
+            // The Gemini SDK also sets `status` on its own errors.
+            const httpStatus = error instanceof ProviderHttpError ? error.status : error?.status;
+            const isRateLimit = error.message?.includes('429') || error.message?.includes('RESOURCE_EXHAUSTED') || httpStatus === 429;
+            const isServerOverload = error.message?.includes('503') || httpStatus === 503;
 
             if (isRateLimit || isServerOverload) {
                 // If it's the last attempt, don't wait, just throw
@@ -36,6 +36,7 @@ async function retryOperation<T>(operation: () => Promise<T>, retries = 3, initi
                 const waitTime = initialDelay * Math.pow(2, i);
                 console.warn(`API Rate Limit/Error hit. Retrying in ${waitTime}ms... (Attempt ${i + 1}/${retries})`);
                 await delay(waitTime);
+                onRetry?.();
                 continue;
             }
             // Throw immediately for other errors (like 400 Bad Request)
@@ -45,6 +46,58 @@ async function retryOperation<T>(operation: () => Promise<T>, retries = 3, initi
     throw lastError;
 }
 
+// Prompt text as hashed for the audit log. Inline media are represented by their type only.
+const promptText = (parts: ContentPart[]): string =>
+    parts.map(part => 'text' in part ? part.text : `[${part.inlineData.mimeType}]`).join('\n');
+
+// Runs a model request through retryOperation and appends the model, prompt hash, latency, outcome
+// and retry count to the audit log.
+const auditedRequest = async <T>(task: AITask, requestedModel: string, prompt: string, operation: () => Promise<T>, transcription = false): Promise<T> => {
+    const { provider, model } = resolveRequestModel(requestedModel, transcription);
+    const startedAt = Date.now();
+    let retries = 0;
+    const finish = (outcome: 'success' | 'error', error?: string) =>
+        recordAiCall({ task, provider, model, prompt, latencyMs: Date.now() - startedAt, retries, outcome, error });
+    try {
+        const result = await retryOperation(operation, 3, 1000, () => { retries++; });
+        finish('success');
+        return result;
+    } catch (error: any) {
+        finish('error', error?.message || String(error));
+        throw error;
+    }
+};
+
+const generateText = (provider: AIProvider, request: GenerateRequest): Promise<string> =>
+    auditedRequest(request.task, request.model, promptText(request.parts), () => provider.generateText(request));
+
+const generateJson = (provider: AIProvider, request: GenerateJsonRequest): Promise<string> =>
+    auditedRequest(request.task, request.model, promptText(request.parts), () => provider.generateJson(request));
+
+const transcribeAudio = (provider: AIProvider, request: TranscribeAudioRequest): Promise<string> =>
+    auditedRequest(request.task, request.model, request.prompt, () => provider.transcribeAudio(request), true);
+
+// Appends the user's preferred-vocabulary section, if they have one, to a prompt.
+const withVocabulary = (prompt: string, vocabulary: VocabularyEntry[]): string => {
+    const section = buildVocabularyPrompt(vocabulary);
+    return section ? `${prompt}\n\n${section}` : prompt;
+};
+
+// Appends the macro list for workflows that transcribe audio; the answers come back with tokens to expand.
+const withMacros = (prompt: string, macros: DictationMacro[]): string => {
+    const section = buildMacroPrompt(macros);
+    return section ? `${prompt}\n\n${section}` : prompt;
+};
+
+const CHAT_MODEL = 'gemini-2.5-flash';
+
+// Follow-up chats use the same rules and vocabulary as the dictation they discuss.
+const chatSystemInstruction = (customPrompt?: string): string =>
+    withVocabulary(
+        customPrompt || DEFAULT_GEMINI_PROMPT.replace('[INSERT_TRANSCRIPTION_RULES_HERE]', buildTranscriptionRulesPrompt()),
+        loadVocabulary()
+    );
+
 export const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -58,22 +111,6 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
   });
 };
 
-export const base64ToBlob = (base64: string, mimeType: string): Blob => {
-  try {
-    const byteCharacters = atob(base64);
-    const byteNumbers = new Array(byteCharacters.length);
-    for (let i = 0; i < byteCharacters.length; i++) {
-      byteNumbers[i] = byteCharacters.charCodeAt(i);
-    }
-    const byteArray = new Uint8Array(byteNumbers);
-    return new Blob([byteArray], { type: mimeType });
-  } catch (e) {
-    console.error("Failed to convert base64 to Blob:", e);
-    // Return an empty blob on error
-    return new Blob([], { type: mimeType });
-  }
-};
-
 
 const getCleanMimeType = (blob: Blob): string => {
     let mimeType = blob.type;
@@ -90,27 +127,54 @@ const getCleanMimeType = (blob: Blob): string => {
     return mimeType.split(';')[0];
 };
 
-const responseSchema = {
-    type: Type.OBJECT,
+const audioPart = async (audioBlob: Blob): Promise<ContentPart> => ({
+    inlineData: {
+        mimeType: getCleanMimeType(audioBlob),
+        data: await blobToBase64(audioBlob),
+    },
+});
+
+const responseSchema: JsonSchema = {
+    type: 'object',
     properties: {
         findings: {
-            type: Type.ARRAY,
+            type: 'array',
             items: {
-                type: Type.STRING
+                type: 'string'
             },
             description: "An array of strings, where each string is a corrected sentence or paragraph of the radiology findings."
         }
     }
 };
 
+const transcriptResponseSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        ...responseSchema.properties,
+        transcript: {
+            type: 'array',
+            items: {
+                type: 'string'
+            },
+            description: "The words spoken for each entry of findings, verbatim and uncorrected, in the same order."
+        }
+    }
+};
+
+export interface ProcessedMedia {
+    findings: string[];
+    // Empty unless the transcript was requested and the model returned one line per finding.
+    transcript: TranscriptSegment[];
+}
+
 const runImageAgenticAnalysis = async (imageBlobs: Blob[], model: string): Promise<string[]> => {
-    const ai = getAIClient();
+    const provider = getAIProvider();
     const transcriptions: string[] = [];
 
     // SEQUENTIAL EXECUTION to respect rate limits
     for (const imageBlob of imageBlobs) {
         const base64Image = await blobToBase64(imageBlob);
-        const imagePart = {
+        const imagePart: ContentPart = {
             inlineData: {
                 mimeType: imageBlob.type,
                 data: base64Image
@@ -120,12 +184,12 @@ const runImageAgenticAnalysis = async (imageBlobs: Blob[], model: string): Promi
 
         try {
             // Use the selected model exclusively
-            // FIX: Added GenerateContentResponse type parameter to retryOperation
-            const result = await retryOperation<GenerateContentResponse>(() => ai.models.generateContent({
+            const result = await generateText(provider, {
+                task: 'imageTranscription',
                 model: model,
-                contents: { parts: [textPart, imagePart] }
-            }));
-            if (result.text) transcriptions.push(result.text);
+                parts: [textPart, imagePart]
+            });
+            if (result) transcriptions.push(result);
         } catch (error: any) {
             console.error(`Model ${model} failed for image transcription:`, error);
             // Continue to next image even if one fails
@@ -141,32 +205,29 @@ const runImageAgenticAnalysis = async (imageBlobs: Blob[], model: string): Promi
         throw new Error("Could not extract any text from the provided images.");
     }
     
-    // Step 2: Synthesizer Agent
-    const concatenatedTranscriptions = validTranscriptions.join('\n\n--- DOCUMENT BREAK ---\n\n');
+    // Step 2: Synthesizer Agent. Requisition photos carry names, MRNs and dates of birth, so they are
+    // stripped before the transcriptions are sent on.
+    const concatenatedTranscriptions = applyPhiGuard(validTranscriptions.join('\n\n--- DOCUMENT BREAK ---\n\n'), 'Image text');
     
     const synthesizerPrompt = IMAGE_ONLY_GEMINI_PROMPT.replace(
         '[INSERT_TRANSCRIPTIONS_HERE]',
         `Here are the raw transcriptions from the medical documents:\n\n${concatenatedTranscriptions}`
     );
 
-    let synthesizerResponse;
+    let jsonString: string;
     // Try synthesis with selected model
     try {
-        // FIX: Added GenerateContentResponse type parameter to retryOperation
-        synthesizerResponse = await retryOperation<GenerateContentResponse>(() => ai.models.generateContent({
+        jsonString = await generateJson(provider, {
+            task: 'imageSynthesis',
             model: model,
-            contents: { parts: [{ text: synthesizerPrompt }] },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: responseSchema
-            }
-        }));
+            parts: [{ text: synthesizerPrompt }],
+            schema: responseSchema
+        });
     } catch (error: any) {
         // Just throw if synthesizer fails, as we need the result
         throw error;
     }
 
-    const jsonString = synthesizerResponse.text;
     if (!jsonString) {
       throw new Error("Synthesizer agent returned an empty response.");
     }
@@ -175,20 +236,44 @@ const runImageAgenticAnalysis = async (imageBlobs: Blob[], model: string): Promi
     const result = JSON.parse(cleanedJsonString);
 
     if (result && Array.isArray(result.findings)) {
-      return result.findings;
+      return applyPhiGuardToFindings(result.findings, 'Image report');
     } else {
       throw new Error("Invalid data structure from synthesizer agent. Expected a 'findings' array.");
     }
 };
 
 
-export const processMedia = async (audioBlob: Blob | null, imageBlobs: Blob[] | null, model: string, customPrompt?: string): Promise<string[]> => {
+// Runs the post-processing passes over the model's findings and, when it returned one, pairs each resulting
+// line with what was said for it. Lines a macro expanded into several are the user's own text and are not paired.
+const finishDictation = (findings: string[], spoken: unknown, rules: TranscriptionRule[], vocabulary: VocabularyEntry[], macros: DictationMacro[]): ProcessedMedia => {
+  const corrected = applyPhiGuardToFindings(applyVocabularyToFindings(applyTranscriptionRulesToFindings(findings, rules), vocabulary), 'Dictation');
+  const expanded = corrected.map(line => expandMacrosInFindings([line], macros));
+  const result = expanded.flat();
+
+  if (!Array.isArray(spoken)) return { findings: result, transcript: [] };
+  if (spoken.length !== findings.length) {
+    console.warn(`Verbatim transcript has ${spoken.length} lines for ${findings.length} findings; corrections will not be shown.`);
+    return { findings: result, transcript: [] };
+  }
+  const spokenLines = applyPhiGuardToFindings(spoken.map(line => String(line ?? '')), 'Dictation transcript');
+  const transcript = expanded.flatMap((lines, i): TranscriptSegment[] =>
+    lines.length === 1 && spokenLines[i].trim() !== '' ? [{ spoken: spokenLines[i], corrected: lines[0] }] : []
+  );
+  return { findings: result, transcript };
+};
+
+export const processMedia = async (audioBlob: Blob | null, imageBlobs: Blob[] | null, model: string, customPrompt?: string, templateId?: string | null): Promise<string[]> =>
+  (await processMediaWithTranscript(audioBlob, imageBlobs, model, customPrompt, templateId, false)).findings;
+
+// Like processMedia, but also asks for the dictation word for word so the corrections can be shown.
+// Image-only reports have no dictation and come back without a transcript.
+export const processMediaWithTranscript = async (audioBlob: Blob | null, imageBlobs: Blob[] | null, model: string, customPrompt?: string, templateId?: string | null, includeTranscript = true): Promise<ProcessedMedia> => {
   const hasImages = imageBlobs && imageBlobs.length > 0;
 
   if (hasImages) {
     // NEW AGENTIC WORKFLOW FOR IMAGES. Ignores audio blob and custom prompts.
     try {
-      return await runImageAgenticAnalysis(imageBlobs, model);
+      return { findings: await runImageAgenticAnalysis(imageBlobs, model), transcript: [] };
     } catch (error) {
       console.error("Error in image agentic analysis:", error);
       if (error instanceof Error) {
@@ -205,50 +290,45 @@ export const processMedia = async (audioBlob: Blob | null, imageBlobs: Blob[] |
     throw new Error("Cannot process with no media provided.");
   }
   
-  const ai = getAIClient();
+  const provider = getAIProvider();
   const targetModel = model;
 
   let basePrompt: string;
-  const useTemplate = customPrompt?.toLowerCase().includes('report template');
-  if (useTemplate) {
-      const selectedTemplate = REPORT_TEMPLATES.find(t =>
-          customPrompt!.toLowerCase().includes(t.name.toLowerCase())
-      );
-      if (selectedTemplate) {
-          const templateContent = `## ${selectedTemplate.name} Normal Report Template\n${selectedTemplate.content}`;
-          basePrompt = TEMPLATE_GEMINI_PROMPT.replace('[INSERT_TEMPLATE_HERE]', templateContent);
-      } else {
-          basePrompt = TEMPLATE_GEMINI_PROMPT.replace('[INSERT_TEMPLATE_HERE]', '// Template mentioned in custom instructions was not found.');
+  if (templateId) {
+      const selectedTemplate = findTemplateById(loadTemplates(), templateId);
+      if (!selectedTemplate) {
+          throw new Error("The selected report template no longer exists. Please choose another template or clear the selection.");
       }
+      const templateContent = `## ${selectedTemplate.name} Normal Report Template\n${selectedTemplate.content}`;
+      basePrompt = TEMPLATE_GEMINI_PROMPT.replace('[INSERT_TEMPLATE_HERE]', templateContent);
   } else {
       basePrompt = DEFAULT_GEMINI_PROMPT;
   }
   
+  const rules = loadTranscriptionRules();
+  basePrompt = basePrompt.replace('[INSERT_TRANSCRIPTION_RULES_HERE]', buildTranscriptionRulesPrompt(rules));
+  const vocabulary = loadVocabulary();
+  basePrompt = withVocabulary(basePrompt, vocabulary);
+  const macros = loadMacros();
+  basePrompt = withMacros(basePrompt, macros);
+  if (includeTranscript) {
+    basePrompt = `${basePrompt}\n\n${VERBATIM_TRANSCRIPT_PROMPT}`;
+  }
+
   const finalPrompt = customPrompt 
     ? `${basePrompt}\n\nCustom Instructions (Reminder):\n${customPrompt}` 
     : basePrompt;
   
-  const parts: any[] = [{ text: finalPrompt }];
-
-  const base64Audio = await blobToBase64(audioBlob);
-  parts.push({
-    inlineData: {
-      mimeType: getCleanMimeType(audioBlob),
-      data: base64Audio,
-    },
-  });
+  const parts: ContentPart[] = [{ text: finalPrompt }, await audioPart(audioBlob)];
 
   try {
-    const response: GenerateContentResponse = await retryOperation(() => ai.models.generateContent({
+    const jsonString = await generateJson(provider, {
+      task: 'processMedia',
       model: targetModel,
-      contents: { parts: parts },
-      config: {
-          responseMimeType: "application/json",
-          responseSchema: responseSchema
-      }
-    }));
+      parts: parts,
+      schema: includeTranscript ? transcriptResponseSchema : responseSchema
+    });
 
-    const jsonString = response.text;
     if (!jsonString) {
       throw new Error("API returned an empty response.");
     }
@@ -257,12 +337,12 @@ export const processMedia = async (audioBlob: Blob | null, imageBlobs: Blob[] |
     const result = JSON.parse(cleanedJsonString);
 
     if (result && Array.isArray(result.findings)) {
-      return result.findings;
+      return finishDictation(result.findings, includeTranscript ? result.transcript : undefined, rules, vocabulary, macros);
     } else {
       throw new Error("Invalid data structure in API response. Expected a 'findings' array.");
     }
   } catch (error) {
-    console.error("Error calling Gemini API:", error);
+    console.error("Error calling AI provider:", error);
     if (error instanceof Error) {
         throw new Error(`Failed to process media: ${error.message}`);
     }
@@ -274,9 +354,12 @@ export const processMedia = async (audioBlob: Blob | null, imageBlobs: Blob[] |
 // though we will update calls to use processMedia.
 export const processAudio = (audioBlob: Blob, model: string, customPrompt?: string) => processMedia(audioBlob, null, model, customPrompt);
 
+// The result may contain {{MACRO:n}} tokens; callers expand them into the finding with expandMacrosInFinding.
 export const continueAudioDictation = async (existingText: string, audioBlob: Blob, customPrompt?: string): Promise<string> => {
-  const ai = getAIClient();
-  const base64Audio = await blobToBase64(audioBlob);
+  const provider = getAIProvider();
+  const rules = loadTranscriptionRules();
+  const rulesPrompt = buildTranscriptionRulesPrompt(rules);
+  const vocabulary = loadVocabulary();
 
   let prompt = `You are an expert medical transcriptionist specializing in radiology. A user is adding to their dictation.
 The existing text is: "${existingText}".
@@ -286,43 +369,33 @@ Your task is to transcribe and correct ONLY the new audio provided. Your transcr
 Follow these strict instructions to produce a clean and accurate continuation:
 1. Analyze each word from the new audio for its contextual meaning within radiology and replace any incorrect words with the proper medical terminology. For example, a speech-to-text tool might misinterpret 'radiology findings' as something unrelated.
 2. **Specific Transcription Rules**:
-    - Transcribe "few" exactly as "few", not "a few".
-    - Replace the dictated word "query" with a question mark symbol "?".
-    - Transcribe "status post" as the abbreviation "S/p".
-    - Format dictated dimensions like "8 mm into 9 mm" as "8 x 9 mm".
-    - For comparative phrases like "right more than left", use the format "(R > L)". Similarly, for "left more than right", use "(L > R)".
-    - Abbreviate "complaints of" to "C/o".
-    - Abbreviate "history of" to "H/o".
+${rulesPrompt}
 3. Completely ignore all non-verbal sounds (like coughing, sneezing) and any irrelevant side-conversations from the new audio. However, you MUST include any dictation related to the clinical profile or patient information.
 4. If the new audio includes languages other than English, transcribe and translate the relevant medical findings into proper English.
 5. Do not repeat any of the existing text in your output.
 6. Your final output must be ONLY the newly corrected text, with no additional commentary, introductions, or explanations. Do not use any markdown formatting (like asterisks for bolding).`;
 
+  prompt = withMacros(withVocabulary(prompt, vocabulary), loadMacros());
   if (customPrompt) {
     prompt += `\n\nAdditionally, follow these custom instructions:\n${customPrompt}`;
   }
 
-  const textPart = { text: prompt };
-  const audioPart = {
-    inlineData: {
-      mimeType: getCleanMimeType(audioBlob),
-      data: base64Audio,
-    },
-  };
+  const parts: ContentPart[] = [{ text: prompt }, await audioPart(audioBlob)];
 
   try {
-    const response: GenerateContentResponse = await retryOperation(() => ai.models.generateContent({
+    const response = await generateText(provider, {
+      task: 'continueAudioDictation',
       model: 'gemini-flash-lite-latest',
-      contents: { parts: [textPart, audioPart] },
-    }));
+      parts: parts,
+    });
 
-    const resultText = response.text?.trim();
+    const resultText = response.trim();
     if (!resultText) {
       throw new Error("API returned an empty response for audio continuation.");
     }
-    return resultText;
+    return applyPhiGuard(applyVocabulary(applyTranscriptionRules(resultText, rules), vocabulary), 'Added dictation');
   } catch (error) {
-    console.error("Error calling Gemini API for audio continuation:", error);
+    console.error("Error calling AI provider for audio continuation:", error);
     if (error instanceof Error) {
         throw new Error(`Failed to process audio continuation: ${error.message}`);
     }
@@ -330,9 +403,12 @@ Follow these strict instructions to produce a clean and accurate continuation:
   }
 };
 
+// The result may contain {{MACRO:n}} tokens; callers expand them into the finding with expandMacrosInFinding.
 export const modifyFindingWithAudio = async (originalText: string, audioBlob: Blob, customPrompt?: string): Promise<string> => {
-  const ai = getAIClient();
-  const base64Audio = await blobToBase64(audioBlob);
+  const provider = getAIProvider();
+  const rules = loadTranscriptionRules();
+  const rulesPrompt = buildTranscriptionRulesPrompt(rules);
+  const vocabulary = loadVocabulary();
 
   let prompt = `You are an expert medical transcriptionist assistant. You will be given an existing medical finding text and an audio recording. The audio contains instructions and/or additional dictation to modify the original finding.
 
@@ -340,13 +416,7 @@ Your task is to return a single, updated string that intelligently incorporates
 - If the audio provides additional details, integrate them coherently and grammatically into the existing text.
 - If the audio provides an explicit instruction (e.g., "change 'normal' to 'unremarkable'", "remove the last sentence"), apply that instruction precisely.
 - Correct any speech-to-text errors in the new dictation, following these specific transcription rules:
-    - Transcribe "few" exactly as "few", not "a few".
-    - Replace the dictated word "query" with a question mark symbol "?".
-    - Transcribe "status post" as the abbreviation "S/p".
-    - Format dictated dimensions like "8 mm into 9 mm" as "8 x 9 mm".
-    - For comparative phrases like "right more than left", use the format "(R > L)". Similarly, for "left more than right", use "(L > R)".
-    - Abbreviate "complaints of" to "C/o".
-    - Abbreviate "history of" to "H/o".
+${rulesPrompt}
 - Your final output must be ONLY the modified text, with no additional commentary, introductions, or explanations. Do not use any markdown formatting.
 
 Existing Finding:
@@ -354,31 +424,27 @@ Existing Finding:
 
 Now, listen to the audio and provide the single, updated finding text.`;
 
+  prompt = withMacros(withVocabulary(prompt, vocabulary), loadMacros());
   if (customPrompt) {
     prompt += `\n\nAdditionally, follow these custom instructions:\n${customPrompt}`;
   }
 
-  const textPart = { text: prompt };
-  const audioPart = {
-    inlineData: {
-      mimeType: getCleanMimeType(audioBlob),
-      data: base64Audio,
-    },
-  };
+  const parts: ContentPart[] = [{ text: prompt }, await audioPart(audioBlob)];
 
   try {
-    const response: GenerateContentResponse = await retryOperation(() => ai.models.generateContent({
+    const response = await generateText(provider, {
+      task: 'modifyFindingWithAudio',
       model: 'gemini-2.5-flash',
-      contents: { parts: [textPart, audioPart] },
-    }));
+      parts: parts,
+    });
 
-    const resultText = response.text?.trim();
+    const resultText = response.trim();
     if (!resultText) {
       throw new Error("API returned an empty response for finding modification.");
     }
-    return resultText;
+    return applyPhiGuard(applyVocabulary(applyTranscriptionRules(resultText, rules), vocabulary), 'Finding edit');
   } catch (error) {
-    console.error("Error calling Gemini API for finding modification:", error);
+    console.error("Error calling AI provider for finding modification:", error);
     if (error instanceof Error) {
         throw new Error(`Failed to process finding modification: ${error.message}`);
     }
@@ -387,8 +453,10 @@ Now, listen to the audio and provide the single, updated finding text.`;
 };
 
 export const modifyReportWithAudio = async (currentFindings: string[], audioBlob: Blob, model: string, customPrompt?: string): Promise<string[]> => {
-  const ai = getAIClient();
-  const base64Audio = await blobToBase64(audioBlob);
+  const provider = getAIProvider();
+  const rules = loadTranscriptionRules();
+  const vocabulary = loadVocabulary();
+  const macros = loadMacros();
 
   let prompt = `You are an expert medical transcriptionist assistant. You are given an existing medical report in JSON format and an audio recording containing instructions to modify it. Your task is to intelligently interpret the audio instructions and return a single, updated report in the exact same JSON format.
 
@@ -400,6 +468,7 @@ export const modifyReportWithAudio = async (currentFindings: string[], audioBlob
     *   **Adding New Findings**: When the audio instruction is to add a new clinical finding (e.g., "Add a finding: There is a small lesion..."), you MUST prefix the new finding string with the special marker \`BOLD::\`.
     *   **Preserving Existing Boldness**: When editing an existing finding, if the original finding in the JSON already starts with \`BOLD::\`, the modified finding MUST also start with \`BOLD::\`. If the original did not have the prefix, do not add it.
     *   **Exceptions**: Do NOT add the \`BOLD::\` prefix to the "Clinical Profile" string or the "IMPRESSION" string, as they have their own special formatting rules.
+    *   **Section Markers**: Strings starting with \`TITLE::\` or \`TECHNIQUE::\` mark the report title and technique. Keep these prefixes unchanged when editing those strings, and never add \`BOLD::\` to them. A leading \`MACRO[...]::\` prefix records that a string came from a dictation macro; keep it exactly as it is, in front of any other prefix.
 
 3.  **Interpret Instructions Accurately:** Carefully listen to the audio to understand the user's intent. Instructions can be about:
     *   **Editing:** "Change 'normal' to 'unremarkable' everywhere."
@@ -424,8 +493,7 @@ export const modifyReportWithAudio = async (currentFindings: string[], audioBlob
     *   Your final output must be ONLY the modified report, in the same JSON object format as the original, with a key named "findings" whose value is an array of strings.
     *   Do not add any commentary, explanations, or markdown formatting (like \`\`\`json).
     *   Correct any speech-to-text errors from the instruction audio itself before applying the changes, following these rules:
-        - Abbreviate "complaints of" to "C/o".
-        - Abbreviate "history of" to "H/o".
+${buildTranscriptionRulesPrompt(rules, '        ')}
 
 **Example Scenario:**
 
@@ -465,29 +533,21 @@ export const modifyReportWithAudio = async (currentFindings: string[], audioBlob
 ${JSON.stringify({ findings: currentFindings })}
 `;
 
+  prompt = withMacros(withVocabulary(prompt, vocabulary), macros);
   if (customPrompt) {
     prompt += `\n\nAdditionally, follow these custom instructions when processing the request:\n${customPrompt}`;
   }
 
-  const textPart = { text: prompt };
-  const audioPart = {
-    inlineData: {
-      mimeType: getCleanMimeType(audioBlob),
-      data: base64Audio,
-    },
-  };
+  const parts: ContentPart[] = [{ text: prompt }, await audioPart(audioBlob)];
   
   try {
-    const response: GenerateContentResponse = await retryOperation(() => ai.models.generateContent({
+    const jsonString = await generateJson(provider, {
+      task: 'modifyReportWithAudio',
       model: model,
-      contents: { parts: [textPart, audioPart] },
-      config: {
-          responseMimeType: "application/json",
-          responseSchema: responseSchema
-      }
-    }));
+      parts: parts,
+      schema: responseSchema
+    });
 
-    const jsonString = response.text;
     if (!jsonString) {
       throw new Error("API returned an empty response for report modification.");
     }
@@ -496,12 +556,14 @@ ${JSON.stringify({ findings: currentFindings })}
     const result = JSON.parse(cleanedJsonString);
 
     if (result && Array.isArray(result.findings)) {
-      return result.findings;
+      // Lines the model returned unchanged were guarded when they entered the report.
+      const guarded = applyPhiGuardToFindings(result.findings, 'Report edit', currentFindings);
+      return expandMacrosInFindings(applyVocabularyToFindings(applyTranscriptionRulesToFindings(guarded, rules), vocabulary), macros);
     } else {
       throw new Error("Invalid data structure in API response. Expected a 'findings' array.");
     }
   } catch (error) {
-    console.error("Error calling Gemini API for report modification:", error);
+    console.error("Error calling AI provider for report modification:", error);
     if (error instanceof Error) {
         throw new Error(`Failed to process report modification: ${error.message}`);
     }
@@ -509,22 +571,16 @@ ${JSON.stringify({ findings: currentFindings })}
   }
 };
 
-export const createChat = async (audioBlob: Blob, findings: string[], customPrompt?: string): Promise<Chat> => {
-    const ai = getAIClient();
-    const base64Audio = await blobToBase64(audioBlob);
+export const createChat = async (audioBlob: Blob, findings: string[], customPrompt?: string): Promise<ChatSession> => {
+    const provider = getAIProvider();
     
     // Initialize chat with the context of the current session
-    const history = [
+    const history: ChatTurn[] = [
         {
             role: "user",
             parts: [
                 { text: `Here is the audio recording of the dictation.` },
-                {
-                    inlineData: {
-                        mimeType: getCleanMimeType(audioBlob),
-                        data: base64Audio
-                    }
-                },
+                await audioPart(audioBlob),
                 { text: `And here are the corrected findings you generated from it:\n${JSON.stringify(findings, null, 2)}\n\nI might ask you follow-up questions about this report or the audio.` }
             ]
         },
@@ -534,21 +590,17 @@ export const createChat = async (audioBlob: Blob, findings: string[], customProm
         }
     ];
 
-    const chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
+    return provider.startChat({
+        model: CHAT_MODEL,
         history: history,
-        config: {
-            systemInstruction: customPrompt || DEFAULT_GEMINI_PROMPT
-        }
+        systemInstruction: chatSystemInstruction(customPrompt)
     });
-
-    return chat;
 };
 
-export const createChatFromText = async (findings: string[], customPrompt?: string): Promise<Chat> => {
-     const ai = getAIClient();
+export const createChatFromText = async (findings: string[], customPrompt?: string): Promise<ChatSession> => {
+     const provider = getAIProvider();
      
-     const history = [
+     const history: ChatTurn[] = [
          {
              role: "user",
              parts: [
@@ -561,34 +613,38 @@ export const createChatFromText = async (findings: string[], customPrompt?: stri
          }
      ];
  
-     const chat = ai.chats.create({
-         model: 'gemini-2.5-flash',
+     return provider.startChat({
+         model: CHAT_MODEL,
          history: history,
-         config: {
-             systemInstruction: customPrompt || DEFAULT_GEMINI_PROMPT
-         }
+         systemInstruction: chatSystemInstruction(customPrompt)
      });
- 
-     return chat;
  };
 
+// Sends a typed message or a recorded voice note to an existing chat session. Replies can echo names
+// from the report context or images, so they go through the PHI guard like any other model output.
+export const sendChatMessage = async (chat: ChatSession, message: string | Blob): Promise<string> => {
+    if (typeof message === 'string') {
+        return applyPhiGuard(await auditedRequest('chat', CHAT_MODEL, message, () => chat.sendMessage(message)), 'Chat reply');
+    }
+    // Adding a text part to guide the model.
+    const parts: ContentPart[] = [await audioPart(message), { text: "Please analyze this audio in the context of our conversation." }];
+    return applyPhiGuard(await auditedRequest('chat', CHAT_MODEL, promptText(parts), () => chat.sendMessage(parts)), 'Chat reply');
+};
+
 export const identifyPotentialErrors = async (findings: string[], model: string): Promise<IdentifiedError[]> => {
-    const ai = getAIClient();
+    const provider = getAIProvider();
     const findingsText = JSON.stringify({ findings });
     
     const prompt = ERROR_IDENTIFIER_PROMPT + "\n\nInput Report:\n" + findingsText;
 
     try {
-        const response: GenerateContentResponse = await retryOperation(() => ai.models.generateContent({
+        // responseSchema could be defined but let's stick to prompt instruction for now as the prompt is quite specific about output format
+        const jsonString = await generateJson(provider, {
+            task: 'identifyPotentialErrors',
             model: model,
-            contents: { parts: [{ text: prompt }] },
-            config: {
-                responseMimeType: "application/json",
-                // responseSchema could be defined but let's stick to prompt instruction for now as the prompt is quite specific about output format
-            }
-        }));
+            parts: [{ text: prompt }]
+        });
 
-        const jsonString = response.text;
         if (!jsonString) return [];
         
         const cleanedJsonString = jsonString.replace(/^```json\s*|```\s*$/g, '').trim();
@@ -604,29 +660,79 @@ export const identifyPotentialErrors = async (findings: string[], model: string)
     }
 };
 
+// Maps each impression point back to the findings that support it and each significant finding forward to
+// the impression. Returns unsupported points and omitted abnormalities as identified errors.
+export const crossCheckImpression = async (findings: string[], model: string): Promise<IdentifiedError[]> => {
+    const provider = getAIProvider();
+    const prompt = IMPRESSION_CROSS_CHECK_PROMPT + "\n\nInput Report:\n" + JSON.stringify({ findings });
+
+    try {
+        const jsonString = await generateJson(provider, {
+            task: 'crossCheckImpression',
+            model: model,
+            parts: [{ text: prompt }]
+        });
+
+        if (!jsonString) return [];
+
+        const cleanedJsonString = jsonString.replace(/^```json\s*|```\s*$/g, '').trim();
+        const result: Partial<ImpressionCrossCheckResponse> = JSON.parse(cleanedJsonString);
+        return crossCheckErrors({ points: result?.points ?? [], omissions: result?.omissions ?? [] }, findings);
+    } catch (error) {
+        console.error("Error cross-checking the impression:", error);
+        return [];
+    }
+};
+
+// Model classification of critical results, used alongside the lexicon in criticalFindings.ts.
+export const classifyCriticalFindings = async (findings: string[], model: string): Promise<CriticalFinding[]> => {
+    const provider = getAIProvider();
+    const prompt = CRITICAL_FINDINGS_PROMPT + "\n\nInput Report:\n" + JSON.stringify({ findings });
+
+    try {
+        const jsonString = await generateJson(provider, {
+            task: 'classifyCriticalFindings',
+            model: model,
+            parts: [{ text: prompt }]
+        });
+
+        if (!jsonString) return [];
+
+        const cleanedJsonString = jsonString.replace(/^```json\s*|```\s*$/g, '').trim();
+        const result: unknown = JSON.parse(cleanedJsonString);
+        if (typeof result !== 'object' || result === null || !('critical' in result) || !Array.isArray(result.critical)) return [];
+        const isClassification = (c: unknown): c is { findingIndex: number; label: string } =>
+            typeof c === 'object' && c !== null &&
+            'findingIndex' in c && typeof c.findingIndex === 'number' && Number.isInteger(c.findingIndex) &&
+            'label' in c && typeof c.label === 'string';
+        return result.critical
+            .filter(isClassification)
+            .filter(c => c.findingIndex >= 0 && c.findingIndex < findings.length && c.label.trim() !== '' && !isCommunicationLine(findings[c.findingIndex]))
+            .map((c): CriticalFinding => ({ findingIndex: c.findingIndex, label: c.label.trim().toLowerCase(), source: 'model' }));
+    } catch (error) {
+        console.error("Error classifying critical findings:", error);
+        return [];
+    }
+};
+
 export const transcribeAudioForPrompt = async (audioBlob: Blob): Promise<string> => {
-    const ai = getAIClient();
+    const provider = getAIProvider();
     const base64Audio = await blobToBase64(audioBlob);
     
     const prompt = "Transcribe the following audio exactly as spoken. Do not add any commentary. Do not format it as a medical report, just plain text.";
 
     try {
-        const response: GenerateContentResponse = await retryOperation(() => ai.models.generateContent({
+        const response = await transcribeAudio(provider, {
+            task: 'transcribeAudioForPrompt',
             model: 'gemini-2.5-flash',
-            contents: {
-                parts: [
-                    { text: prompt },
-                    {
-                        inlineData: {
-                            mimeType: getCleanMimeType(audioBlob),
-                            data: base64Audio
-                        }
-                    }
-                ]
+            prompt: prompt,
+            audio: {
+                mimeType: getCleanMimeType(audioBlob),
+                data: base64Audio
             }
-        }));
+        });
 
-        return response.text?.trim() || "";
+        return response.trim();
     } catch (error) {
         console.error("Error transcribing audio for prompt:", error);
         throw error;
@@ -634,27 +740,22 @@ export const transcribeAudioForPrompt = async (audioBlob: Blob): Promise<string>
 };
 
 export const runComplexImpressionGeneration = async (findings: string[], complexInput: string): Promise<{ findings: string[], expertNotes: string }> => {
-    const ai = getAIClient();
+    const provider = getAIProvider();
     const findingsText = findings.join('\n');
     const inputContent = `Original Report Findings:\n${findingsText}\n\nAdditional User Notes/Patient History:\n${complexInput}`;
 
     // Agent 1: Initial Analysis
     let initialAnalysis = "";
     try {
-        // FIX: Added GenerateContentResponse type parameter to retryOperation
-        const response1 = await retryOperation<GenerateContentResponse>(() => ai.models.generateContent({
+        initialAnalysis = await generateText(provider, {
+            task: 'complexInitialAnalysis',
             model: 'gemini-3-pro-preview',
-            contents: {
-                parts: [
-                    { text: INITIAL_AGENT_PROMPT },
-                    { text: `Here is the case content:\n${inputContent}` }
-                ]
-            },
-            config: {
-                tools: [{ googleSearch: {} }] // Use Search Grounding
-            }
-        }));
-        initialAnalysis = response1.text || "";
+            parts: [
+                { text: INITIAL_AGENT_PROMPT },
+                { text: `Here is the case content:\n${inputContent}` }
+            ],
+            useSearch: true // Use Search Grounding
+        });
     } catch (e) {
         console.error("Agent 1 failed", e);
         throw new Error("Initial analysis failed.");
@@ -663,20 +764,15 @@ export const runComplexImpressionGeneration = async (findings: string[], complex
     // Agent 2: Refinement
     let refinedAnalysis = "";
     try {
-        // FIX: Added GenerateContentResponse type parameter to retryOperation
-        const response2 = await retryOperation<GenerateContentResponse>(() => ai.models.generateContent({
+        refinedAnalysis = await generateText(provider, {
+            task: 'complexRefinement',
             model: 'gemini-3-pro-preview',
-            contents: {
-                parts: [
-                    { text: REFINEMENT_AGENT_PROMPT },
-                    { text: `Original Content:\n${inputContent}\n\nInitial Analysis:\n${initialAnalysis}` }
-                ]
-            },
-            config: {
-                 tools: [{ googleSearch: {} }]
-            }
-        }));
-        refinedAnalysis = response2.text || "";
+            parts: [
+                { text: REFINEMENT_AGENT_PROMPT },
+                { text: `Original Content:\n${inputContent}\n\nInitial Analysis:\n${initialAnalysis}` }
+            ],
+            useSearch: true
+        });
     } catch (e) {
         console.error("Agent 2 failed", e);
         refinedAnalysis = initialAnalysis; // Fallback
@@ -685,24 +781,20 @@ export const runComplexImpressionGeneration = async (findings: string[], complex
     // Agent 3: Synthesis (Expert Notes)
     let expertNotes = "";
     try {
-        // FIX: Added GenerateContentResponse type parameter to retryOperation
-        const response3 = await retryOperation<GenerateContentResponse>(() => ai.models.generateContent({
+        expertNotes = await generateText(provider, {
+            task: 'complexSynthesis',
             model: 'gemini-3-pro-preview',
-            contents: {
-                parts: [
-                    { text: SYNTHESIZER_AGENT_PROMPT },
-                    { text: `Original Content:\n${inputContent}\n\nRefined Analysis:\n${refinedAnalysis}` }
-                ]
-            },
-             config: {
-                 tools: [{ googleSearch: {} }]
-            }
-        }));
-        expertNotes = response3.text || "";
+            parts: [
+                { text: SYNTHESIZER_AGENT_PROMPT },
+                { text: `Original Content:\n${inputContent}\n\nRefined Analysis:\n${refinedAnalysis}` }
+            ],
+            useSearch: true
+        });
     } catch (e) {
          console.error("Agent 3 failed", e);
          expertNotes = refinedAnalysis;
     }
+    expertNotes = applyPhiGuard(expertNotes, 'Expert notes');
 
     // Final Step: Generate updated Impression for the report
     let updatedFindings = [...findings];
@@ -724,19 +816,16 @@ export const runComplexImpressionGeneration = async (findings: string[], complex
         - Do not include the findings list, ONLY the IMPRESSION string.
         `;
 
-        // FIX: Added GenerateContentResponse type parameter to retryOperation
-        const response4 = await retryOperation<GenerateContentResponse>(() => ai.models.generateContent({
+        const response4 = await generateText(provider, {
+             task: 'complexImpression',
              model: 'gemini-2.5-flash',
-             contents: { parts: [{ text: impressionPrompt }] }
-        }));
+             parts: [{ text: impressionPrompt }]
+        });
         
-        const newImpression = response4.text?.trim();
-        if (newImpression && newImpression.includes("IMPRESSION:")) {
-            // Remove old impression if exists (naive check or matching standard format)
-             updatedFindings = updatedFindings.filter(f => {
-                const clean = f.replace(/^BOLD::/, '');
-                return !clean.includes("IMPRESSION:");
-             });
+        const [newImpression] = applyPhiGuardToFindings([response4.trim()], 'Expert impression');
+        if (newImpression && isImpressionLine(newImpression)) {
+            // Replace the old impression, if any
+            updatedFindings = updatedFindings.filter(f => !isImpressionLine(f));
 
             updatedFindings.push(newImpression);
         }
@@ -0,0 +1,215 @@
+import { HistoryEntry } from '../types';
+import { BlobRef, releaseBlobs, restoreBlobs, saveOwnedBlobs } from './blobStore';
+import { REPORTS_STORE, requestToPromise, withStore } from './indexedDb';
+import { findingToPlainText, parseReport } from './reportModel';
+import { SealedBlob, SealedData, isVaultEnabled, openBlob, openJson, sealJson } from './vault';
+
+export const HISTORY_SETTINGS_KEY = 'history_settings';
+
+// 0 means "no limit" for both settings.
+export interface HistorySettings {
+  retentionDays: number;
+  maxEntries: number;
+}
+
+export const DEFAULT_HISTORY_SETTINGS: HistorySettings = { retentionDays: 0, maxEntries: 0 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What callers provide; timestamps and the search index are maintained by the store.
+export type ArchivedReport = Omit<HistoryEntry, 'createdAt' | 'updatedAt' | 'searchText'>;
+
+type EntryFields = Omit<HistoryEntry, 'audio' | 'images'>;
+
+// Media lives in the blob store, owned by its entry, so archiving an edit does not copy or re-encrypt it.
+interface MediaRefs {
+  audio: BlobRef | null;
+  images: BlobRef[];
+}
+
+// Entries archived before media moved to the blob store hold the Blobs themselves, sealed when the vault is on.
+type StoredMedia = BlobRef | Blob | SealedBlob;
+
+interface PlainHistoryRecord extends EntryFields {
+  audio: BlobRef | Blob | null;
+  images: (BlobRef | Blob)[];
+}
+
+// With the vault enabled only the id and timestamps stay readable; the rest of the entry is encrypted.
+interface SealedHistoryRecord {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  sealed: SealedData;
+  audio?: SealedBlob | null;
+  images?: SealedBlob[];
+}
+
+type StoredHistoryRecord = PlainHistoryRecord | SealedHistoryRecord;
+
+const mediaOwner = (id: string) => `history:${id}`;
+
+const saveMedia = async (id: string, audio: Blob | null, images: Blob[]): Promise<MediaRefs> => {
+  const refs = await saveOwnedBlobs(mediaOwner(id), audio ? [audio, ...images] : images);
+  return { audio: audio ? refs[0] : null, images: audio ? refs.slice(1) : refs };
+};
+
+const toRecord = async (entry: EntryFields, media: MediaRefs): Promise<StoredHistoryRecord> => {
+  if (!isVaultEnabled()) return { ...entry, ...media };
+  const { id, createdAt, updatedAt, ...rest } = entry;
+  return { id, createdAt, updatedAt, sealed: await sealJson({ ...rest, ...media }) };
+};
+
+// Decrypts the entry's fields but leaves its media where it is stored.
+const readRecord = async (record: StoredHistoryRecord): Promise<{ entry: EntryFields; audio: StoredMedia | null; images: StoredMedia[] }> => {
+  if (!('sealed' in record)) {
+    const { audio, images, ...entry } = record;
+    return { entry, audio, images };
+  }
+  const { id, createdAt, updatedAt, sealed } = record;
+  const { audio, images, ...rest } = await openJson<Omit<EntryFields, 'id' | 'createdAt' | 'updatedAt'> & Partial<MediaRefs>>(sealed);
+  return {
+    entry: { ...rest, id, createdAt, updatedAt },
+    audio: audio ?? record.audio ?? null,
+    images: images ?? record.images ?? [],
+  };
+};
+
+const restoreMedia = async (item: StoredMedia): Promise<Blob | null> => {
+  if (item instanceof Blob) return item;
+  if ('hash' in item) return (await restoreBlobs([item]))[0] ?? null;
+  return openBlob(item);
+};
+
+const fromRecord = async (record: StoredHistoryRecord): Promise<HistoryEntry> => {
+  const { entry, audio, images } = await readRecord(record);
+  const restoredImages = await Promise.all(images.map(restoreMedia));
+  return {
+    ...entry,
+    audio: audio ? await restoreMedia(audio) : null,
+    images: restoredImages.filter((blob): blob is Blob => blob !== null),
+  };
+};
+
+const listRecords = (): Promise<StoredHistoryRecord[]> =>
+  withStore(REPORTS_STORE, 'readonly', store => requestToPromise(store.getAll()));
+
+const putRecord = (record: StoredHistoryRecord): Promise<void> =>
+  withStore(REPORTS_STORE, 'readwrite', async store => {
+    await requestToPromise(store.put(record));
+  });
+
+export const loadHistorySettings = (): HistorySettings => {
+  try {
+    const saved = localStorage.getItem(HISTORY_SETTINGS_KEY);
+    if (saved) {
+      return { ...DEFAULT_HISTORY_SETTINGS, ...JSON.parse(saved) };
+    }
+  } catch (e) {
+    console.error("Failed to load history settings:", e);
+  }
+  return { ...DEFAULT_HISTORY_SETTINGS };
+};
+
+export const saveHistorySettings = (settings: HistorySettings) => {
+  localStorage.setItem(HISTORY_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const createHistoryId = (): string => `report-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Report title if it has one, otherwise the start of the first finding.
+export const historyEntryTitle = (findings: string[], fallback: string): string => {
+  const title = parseReport(findings).title;
+  if (title) return title;
+  const first = findings.map(findingToPlainText).find(text => text.trim() !== '');
+  if (!first) return fallback;
+  return first.length > 60 ? `${first.slice(0, 57)}...` : first;
+};
+
+const buildSearchText = (report: ArchivedReport): string =>
+  [report.name, ...report.findings.map(findingToPlainText), report.customPrompt, ...report.chatHistory.map(m => m.text)]
+    .join('\n')
+    .toLowerCase();
+
+const contentSignature = (report: Omit<ArchivedReport, 'audio' | 'images'>): string =>
+  JSON.stringify([report.name, report.findings, report.chatHistory, report.customPrompt, report.templateId, report.model]);
+
+// Inserts or updates a report, keeping the original creation time on update. Re-archiving an
+// unchanged report (e.g. one just reopened from history) keeps its place in the list.
+export const archiveReport = async (report: ArchivedReport): Promise<HistoryEntry> => {
+  const record: StoredHistoryRecord | undefined = await withStore(REPORTS_STORE, 'readonly', store => requestToPromise(store.get(report.id)));
+  const existing = record ? (await readRecord(record)).entry : undefined;
+  const now = Date.now();
+  const unchanged = existing !== undefined && contentSignature(existing) === contentSignature(report);
+  const { audio, images, ...fields } = report;
+  const entry: EntryFields = {
+    ...fields,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: unchanged ? existing.updatedAt : now,
+    searchText: buildSearchText(report),
+  };
+  await putRecord(await toRecord(entry, await saveMedia(report.id, audio, images)));
+  return { ...entry, audio, images };
+};
+
+export const getHistoryEntry = async (id: string): Promise<HistoryEntry | undefined> => {
+  const record: StoredHistoryRecord | undefined = await withStore(REPORTS_STORE, 'readonly', store => requestToPromise(store.get(id)));
+  return record ? fromRecord(record) : undefined;
+};
+
+// Newest first.
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await Promise.all((await listRecords()).map(fromRecord));
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore(REPORTS_STORE, 'readwrite', async store => {
+    await requestToPromise(store.delete(id));
+  });
+  await releaseBlobs(mediaOwner(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  const ids = (await withStore(REPORTS_STORE, 'readonly', store => requestToPromise(store.getAllKeys()))) as string[];
+  await withStore(REPORTS_STORE, 'readwrite', async store => {
+    await requestToPromise(store.clear());
+  });
+  await Promise.all(ids.map(id => releaseBlobs(mediaOwner(id))));
+};
+
+// Every word of the query must appear somewhere in the entry.
+export const searchHistoryEntries = (entries: HistoryEntry[], query: string): HistoryEntry[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(word => word !== '');
+  if (words.length === 0) return entries;
+  return entries.filter(entry => words.every(word => entry.searchText.includes(word)));
+};
+
+// Applies the retention settings and returns how many entries were removed.
+export const purgeHistory = async (settings: HistorySettings = loadHistorySettings()): Promise<number> => {
+  if (!settings.retentionDays && !settings.maxEntries) return 0;
+  // Ids and timestamps are readable even when sealed, so nothing needs decrypting here.
+  const entries = (await listRecords()).sort((a, b) => b.updatedAt - a.updatedAt);
+  const cutoff = settings.retentionDays ? Date.now() - settings.retentionDays * DAY_MS : 0;
+  const expired = entries.filter((entry, index) =>
+    (settings.retentionDays && entry.updatedAt < cutoff) || (settings.maxEntries && index >= settings.maxEntries)
+  );
+  if (expired.length === 0) return 0;
+  await withStore(REPORTS_STORE, 'readwrite', async store => {
+    await Promise.all(expired.map(entry => requestToPromise(store.delete(entry.id))));
+  });
+  await Promise.all(expired.map(entry => releaseBlobs(mediaOwner(entry.id))));
+  return expired.length;
+};
+
+// Rewrites every entry encrypted or in plain text to match the current vault setting. Media is resealed
+// by the blob store; entries that still hold their media move it there on the way.
+export const resealHistory = async (): Promise<void> => {
+  const ids = (await withStore(REPORTS_STORE, 'readonly', store => requestToPromise(store.getAllKeys()))) as string[];
+  for (const id of ids) {
+    const record: StoredHistoryRecord | undefined = await withStore(REPORTS_STORE, 'readonly', store => requestToPromise(store.get(id)));
+    if (!record || ('sealed' in record) === isVaultEnabled()) continue;
+    const { audio, images, ...entry } = await fromRecord(record);
+    await putRecord(await toRecord(entry, await saveMedia(id, audio, images)));
+  }
+};
@@ -0,0 +1,269 @@
+import { parseReport } from './reportModel';
+
+// HL7 v2.5.1 ORU^R01 result messages for a RIS. Each part of the report goes into its own run of TX observations,
+// one OBX per line, under the LOINC code a RIS uses to file that part of a radiology result.
+
+export const HL7_SETTINGS_KEY = 'hl7_export_settings';
+
+// Browsers cannot open TCP sockets, so MLLP is reached through a local bridge that accepts the framed message over HTTP.
+export type Hl7Transport = 'http' | 'mllp';
+
+export interface Hl7Settings {
+  sendingApplication: string;
+  sendingFacility: string;
+  receivingApplication: string;
+  receivingFacility: string;
+  // MSH-11: P for production, T for training, D for debugging.
+  processingId: 'P' | 'T' | 'D';
+  endpointUrl: string;
+  transport: Hl7Transport;
+}
+
+export const DEFAULT_HL7_SETTINGS: Hl7Settings = {
+  sendingApplication: 'RADCORRECTOR',
+  sendingFacility: '',
+  receivingApplication: '',
+  receivingFacility: '',
+  processingId: 'P',
+  endpointUrl: '',
+  transport: 'http',
+};
+
+export const loadHl7Settings = (): Hl7Settings => {
+  try {
+    const saved = localStorage.getItem(HL7_SETTINGS_KEY);
+    if (saved) {
+      return { ...DEFAULT_HL7_SETTINGS, ...JSON.parse(saved) };
+    }
+  } catch (e) {
+    console.error("Failed to load HL7 export settings:", e);
+  }
+  return { ...DEFAULT_HL7_SETTINGS };
+};
+
+export const saveHl7Settings = (settings: Hl7Settings) => {
+  try {
+    localStorage.setItem(HL7_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save HL7 export settings:", e);
+  }
+};
+
+// What the RIS needs to match the result to its order; entered by the user for each export.
+export interface Hl7Order {
+  accessionNumber: string;
+  patientId: string;
+  procedureCode: string;
+  procedureName: string;
+}
+
+export interface Hl7Issue {
+  // Where the problem is, e.g. "OBR-4".
+  location: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export const HL7_MIME_TYPE = 'x-application/hl7-v2+er7';
+
+const ENCODING_CHARACTERS = '^~\\&';
+const SEGMENT_SEPARATOR = '\r';
+const MLLP_START = '\u000b';
+const MLLP_END = '\u001c\r';
+
+const OBSERVATIONS = {
+  clinicalInformation: '55752-0^Clinical information^LN',
+  procedure: '55111-9^Current imaging procedure descriptions^LN',
+  findings: '59776-5^Procedure findings^LN',
+  impression: '19005-8^Radiology Imaging study [Impression] (narrative)^LN',
+  recommendations: '18783-1^Radiology Study recommendation (narrative)^LN',
+};
+
+// Delimiters in text are written as escape sequences; the escape character itself goes first so it is not doubled.
+export const escapeHl7 = (text: string): string =>
+  text
+    .replace(/\\/g, '\\E\\')
+    .replace(/\|/g, '\\F\\')
+    .replace(/\^/g, '\\S\\')
+    .replace(/&/g, '\\T\\')
+    .replace(/~/g, '\\R\\')
+    .replace(/[\u0000-\u001f\u007f]+/g, ' ')
+    .trim();
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// HL7 DTM in local time with its UTC offset, e.g. 20240305143000+0530.
+export const hl7Timestamp = (at: number): string => {
+  const date = new Date(at);
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+    + `${sign}${pad(Math.floor(Math.abs(offset) / 60))}${pad(Math.abs(offset) % 60)}`;
+};
+
+export const createControlId = (): string => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`.toUpperCase();
+
+// Builds a segment from field values keyed by field number, leaving the fields in between empty. MSH-1 is the field
+// separator itself, so MSH values start at MSH-2.
+const segment = (id: string, fields: Record<number, string>): string => {
+  const first = id === 'MSH' ? 2 : 1;
+  const last = Math.max(first - 1, ...Object.keys(fields).map(Number));
+  const values = Array.from({ length: last - first + 1 }, (_, i) => fields[first + i] ?? '');
+  return [id, ...values].join('|');
+};
+
+export const buildOruMessage = (findings: string[], order: Hl7Order, settings: Hl7Settings, controlId: string, at: number): string => {
+  const report = parseReport(findings);
+  const timestamp = hl7Timestamp(at);
+  const procedureName = order.procedureName.trim() || report.title || '';
+
+  const segments = [
+    segment('MSH', {
+      2: ENCODING_CHARACTERS,
+      3: escapeHl7(settings.sendingApplication),
+      4: escapeHl7(settings.sendingFacility),
+      5: escapeHl7(settings.receivingApplication),
+      6: escapeHl7(settings.receivingFacility),
+      7: timestamp,
+      9: 'ORU^R01^ORU_R01',
+      10: controlId,
+      11: settings.processingId,
+      12: '2.5.1',
+      18: 'UNICODE UTF-8',
+    }),
+    segment('PID', { 1: '1', 3: `${escapeHl7(order.patientId)}^^^^MR` }),
+    segment('OBR', {
+      1: '1',
+      2: escapeHl7(order.accessionNumber),
+      3: escapeHl7(order.accessionNumber),
+      4: `${escapeHl7(order.procedureCode)}^${escapeHl7(procedureName)}^L`,
+      7: timestamp,
+      22: timestamp,
+      24: 'RAD',
+      25: 'F',
+    }),
+  ];
+
+  const lines: { observation: string; text: string }[] = [];
+  const add = (observation: string, texts: string[]) => {
+    texts.map(escapeHl7).filter(Boolean).forEach(text => lines.push({ observation, text }));
+  };
+  if (report.clinicalProfile) add(OBSERVATIONS.clinicalInformation, [report.clinicalProfile]);
+  if (report.technique) add(OBSERVATIONS.procedure, [report.technique]);
+  report.findings.forEach(finding => add(OBSERVATIONS.findings, [finding.text, ...(finding.points ?? [])]));
+  add(OBSERVATIONS.impression, report.impression);
+  add(OBSERVATIONS.recommendations, report.recommendations);
+
+  lines.forEach((line, index) => {
+    segments.push(segment('OBX', { 1: String(index + 1), 2: 'TX', 3: line.observation, 5: line.text, 11: 'F', 14: timestamp }));
+  });
+  return segments.join(SEGMENT_SEPARATOR);
+};
+
+// --- Validation ---
+
+const fieldOf = (fields: string[], id: string, number: number): string =>
+  (id === 'MSH' ? fields[number - 1] : fields[number]) ?? '';
+
+// Checks a message the way a receiving interface engine would before accepting it: structure, the fields an ORU^R01
+// cannot do without, and the order identifiers the RIS matches on.
+export const validateHl7Message = (message: string): Hl7Issue[] => {
+  const issues: Hl7Issue[] = [];
+  const error = (location: string, text: string) => issues.push({ location, message: text, severity: 'error' });
+  const warning = (location: string, text: string) => issues.push({ location, message: text, severity: 'warning' });
+
+  const segments = message.split(SEGMENT_SEPARATOR).filter(Boolean).map(raw => raw.split('|'));
+  if (segments.length === 0 || segments[0][0] !== 'MSH') {
+    error('MSH', 'The message must start with an MSH segment.');
+    return issues;
+  }
+
+  segments.forEach(([id], index) => {
+    if (!/^[A-Z][A-Z0-9]{2}$/.test(id)) error(`Segment ${index + 1}`, `"${id}" is not a valid segment ID.`);
+  });
+  if (/\n/.test(message)) error('Message', 'Segments must be separated by carriage returns only.');
+
+  const msh = segments[0];
+  if (fieldOf(msh, 'MSH', 2) !== ENCODING_CHARACTERS) error('MSH-2', `Encoding characters must be ${ENCODING_CHARACTERS}.`);
+  if (!fieldOf(msh, 'MSH', 3)) warning('MSH-3', 'No sending application is set.');
+  if (!fieldOf(msh, 'MSH', 5)) warning('MSH-5', 'No receiving application is set; some interface engines route on it.');
+  if (!fieldOf(msh, 'MSH', 6)) warning('MSH-6', 'No receiving facility is set; some interface engines route on it.');
+  if (!/^\d{14}/.test(fieldOf(msh, 'MSH', 7))) error('MSH-7', 'The message timestamp is missing or malformed.');
+  if (!fieldOf(msh, 'MSH', 9).startsWith('ORU^R01')) error('MSH-9', 'The message type must be ORU^R01.');
+  if (!fieldOf(msh, 'MSH', 10)) error('MSH-10', 'The message control ID is missing.');
+  if (fieldOf(msh, 'MSH', 10).length > 20) error('MSH-10', 'The message control ID is longer than 20 characters.');
+  if (!/^[PTD]$/.test(fieldOf(msh, 'MSH', 11))) error('MSH-11', 'The processing ID must be P, T or D.');
+  if (!fieldOf(msh, 'MSH', 12)) error('MSH-12', 'The version ID is missing.');
+
+  const find = (id: string) => segments.filter(fields => fields[0] === id);
+  const [pid] = find('PID');
+  if (!pid) {
+    error('PID', 'The PID segment is missing.');
+  } else if (!fieldOf(pid, 'PID', 3).split('^')[0]) {
+    error('PID-3', 'The patient ID is missing.');
+  }
+
+  const obrs = find('OBR');
+  if (obrs.length !== 1) {
+    error('OBR', 'The message must contain exactly one OBR segment.');
+  } else {
+    const [obr] = obrs;
+    if (!fieldOf(obr, 'OBR', 3)) error('OBR-3', 'The accession number is missing.');
+    const [code, name] = fieldOf(obr, 'OBR', 4).split('^');
+    if (!code) error('OBR-4', 'The procedure code is missing.');
+    if (!name) warning('OBR-4', 'The procedure has no name; the report title is used when there is one.');
+    if (segments.findIndex(fields => fields[0] === 'OBR') < segments.findIndex(fields => fields[0] === 'PID')) {
+      error('OBR', 'The OBR segment must follow the PID segment.');
+    }
+  }
+
+  const obxs = find('OBX');
+  if (obxs.length === 0) error('OBX', 'The message has no observations; the report is empty.');
+  obxs.forEach((obx, index) => {
+    const location = `OBX ${index + 1}`;
+    if (fieldOf(obx, 'OBX', 1) !== String(index + 1)) error(`${location}, OBX-1`, 'Set IDs must count up from 1.');
+    if (!['TX', 'FT', 'ST', 'NM'].includes(fieldOf(obx, 'OBX', 2))) error(`${location}, OBX-2`, 'The value type is missing or not supported.');
+    if (!fieldOf(obx, 'OBX', 3).split('^')[0]) error(`${location}, OBX-3`, 'The observation identifier is missing.');
+    if (!fieldOf(obx, 'OBX', 5)) error(`${location}, OBX-5`, 'The observation value is empty.');
+    if (!fieldOf(obx, 'OBX', 11)) error(`${location}, OBX-11`, 'The result status is missing.');
+  });
+
+  return issues;
+};
+
+export const hasHl7Errors = (issues: Hl7Issue[]): boolean => issues.some(issue => issue.severity === 'error');
+
+// --- Sending ---
+
+export const frameMllp = (message: string): string => `${MLLP_START}${message}${MLLP_END}`;
+
+// Endpoints that answer with an HL7 acknowledgement can still reject the message with a 200 status.
+const acknowledgementError = (body: string): string | null => {
+  const msa = body
+    .replace(/[\u000b\u001c]/g, '')
+    .split(/\r\n|\r|\n/)
+    .map(raw => raw.split('|'))
+    .find(fields => fields[0] === 'MSA');
+  if (!msa || !['AE', 'AR', 'CE', 'CR'].includes(msa[1])) return null;
+  return msa[3] ? `The receiver rejected the message: ${msa[3]}` : `The receiver rejected the message (${msa[1]}).`;
+};
+
+export const sendHl7Message = async (message: string, settings: Hl7Settings): Promise<void> => {
+  const url = settings.endpointUrl.trim();
+  if (!url) {
+    throw new Error('No HL7 endpoint is configured.');
+  }
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': `${HL7_MIME_TYPE}; charset=utf-8` },
+    body: settings.transport === 'mllp' ? frameMllp(message) : message,
+  });
+  const body = await response.text().catch(() => '');
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}: ${body || response.statusText}`);
+  }
+  const rejection = acknowledgementError(body);
+  if (rejection) {
+    throw new Error(rejection);
+  }
+};
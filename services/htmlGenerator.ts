@@ -1,3 +1,6 @@
+import { ReportEmphasis, ReportLine } from '../types';
+import { escapeHtml, parseReportLine, reportLineToHtml, reportLineToPlainText } from './reportModel';
+
 // A batch type used for report generation
 interface ReportBatch {
     id: string;
@@ -58,34 +61,22 @@ document.addEventListener('DOMContentLoaded', () => {
         }
     };
     
-    const getCopyContent = (findingEl) => {
-        const rawFinding = decodeURIComponent(findingEl.dataset.findingRaw || '');
-        const parts = rawFinding.split('###');
-        const isStructured = parts.length > 1;
-        const isImpression = isStructured && parts[0].trim().toUpperCase() === 'IMPRESSION:';
-        const isItalic = !isStructured && rawFinding.startsWith('*') && rawFinding.endsWith('*');
-
-        let plainText, htmlText;
-
-        if (isImpression) {
-            const title = parts[0];
-            const points = parts.slice(1);
-            plainText = \`\${title.toUpperCase()}\\n\${points.map(p => \`• \${p}\`).join('\\n')}\`;
-            htmlText = \`<p><strong style="text-decoration: underline;">\${title.toUpperCase()}</strong></p><ul>\${points.map(p => \`<li><strong>\${p}</strong></li>\`).join('')}</ul>\`;
-        } else if (isStructured) {
-            plainText = parts.join('\\n');
-            htmlText = \`<p><strong>\${parts[0]}</strong></p>\${parts.slice(1).map(p => \`<p><strong>\${p}</strong></p>\`).join('')}\`;
-        } else {
-            if (isItalic) {
-                plainText = rawFinding.slice(1, -1);
-                htmlText = \`<p><em>\${plainText}</em></p>\`;
-            } else {
-                plainText = rawFinding;
-                htmlText = \`<p><strong>\${rawFinding}</strong></p>\`;
-            }
-        }
-        return { plainText, htmlText };
+    // Copy content is rendered at export time from the report model and stored on each finding.
+    const getCopyContent = (findingEl) => ({
+        plainText: decodeURIComponent(findingEl.dataset.copyPlain || ''),
+        htmlText: decodeURIComponent(findingEl.dataset.copyHtml || ''),
+    });
+
+    const setCopyContent = (findingEl, plainText, htmlText) => {
+        findingEl.dataset.copyPlain = encodeURIComponent(plainText);
+        findingEl.dataset.copyHtml = encodeURIComponent(htmlText);
     };
+
+    const escapeHtml = (text) => text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
     
     const reIndexFindings = (batchId) => {
         const findings = document.querySelectorAll(\`[data-batch-id="\${batchId}"]\`);
@@ -205,22 +196,17 @@ document.addEventListener('DOMContentLoaded', () => {
 
         findingEl.querySelector('.edit-save').addEventListener('click', () => {
             const newText = findingEl.querySelector('textarea').value;
-            const newRawFinding = newText.split('\\n').filter(Boolean).join('###');
+            const lines = newText.split('\\n').map(l => l.trim()).filter(Boolean);
             
             const tempDiv = document.createElement('div');
             tempDiv.innerHTML = originalHTML;
             while (findingEl.firstChild) { findingEl.removeChild(findingEl.firstChild); }
             while (tempDiv.firstChild) { findingEl.appendChild(tempDiv.firstChild); }
 
-            findingEl.dataset.findingRaw = encodeURIComponent(newRawFinding);
+            setCopyContent(findingEl, lines.join('\\n'), lines.map(l => \`<p>\${escapeHtml(l)}</p>\`).join(''));
             
-            const newParts = newRawFinding.split('###');
             const textEl = findingEl.querySelector('.finding-text');
-            if (newParts.length > 1) {
-              textEl.innerHTML = \`<strong>\${newParts[0]}</strong>\${newParts.slice(1).map(p => \`<span class="block font-semibold">\${p}</span>\`).join('')}\`;
-            } else {
-              textEl.innerHTML = newRawFinding;
-            }
+            textEl.innerHTML = lines.map(l => \`<span class="block">\${escapeHtml(l)}</span>\`).join('');
             
             addFindingEventListeners(findingEl, batchId, index);
             currentEditing = null;
@@ -401,8 +387,7 @@ document.addEventListener('DOMContentLoaded', () => {
                 const sourceData = getCopyContent(sourceEl);
                 const targetData = getCopyContent(targetEl);
                 
-                const mergedRaw = targetData.plainText + ' ' + sourceData.plainText;
-                targetEl.dataset.findingRaw = encodeURIComponent(mergedRaw);
+                setCopyContent(targetEl, targetData.plainText + ' ' + sourceData.plainText, targetData.htmlText + sourceData.htmlText);
                 targetEl.querySelector('.finding-text').innerHTML += ' ' + sourceEl.querySelector('.finding-text').innerHTML;
                 
                 sourceEl.remove();
@@ -572,6 +557,33 @@ const getHTMLTemplate = (title: string, content: string): string => `
 </html>
 `;
 
+const emphasisClass = (emphasis: ReportEmphasis) =>
+    emphasis === 'bold' ? 'font-bold' : emphasis === 'italic' ? 'italic' : '';
+
+// Static counterpart of components/ui/ReportLineView.
+const renderLineContent = (line: ReportLine): string => {
+    switch (line.kind) {
+        case 'title':
+            return `<span class="block text-center font-bold underline">${escapeHtml(line.text)}</span>`;
+        case 'clinicalProfile':
+            return `<span class="italic">${escapeHtml(reportLineToPlainText(line))}</span>`;
+        case 'technique':
+            return escapeHtml(line.text);
+        case 'finding':
+            return `<span class="${emphasisClass(line.emphasis)}">${escapeHtml(line.text)}</span>`;
+        case 'section':
+            return `<span class="${emphasisClass(line.emphasis)}"><span>${escapeHtml(line.heading)}</span>${line.points.map(p => `<span class="block">${escapeHtml(p)}</span>`).join('')}</span>`;
+        case 'impression':
+        case 'recommendations':
+            return `
+                <strong class="underline uppercase">${line.kind === 'impression' ? 'IMPRESSION:' : 'RECOMMENDATIONS:'}</strong>
+                <ul class="list-disc list-inside pl-4 mt-1">
+                    ${line.points.map(p => `<li class="${line.kind === 'impression' ? 'font-bold' : ''}">${escapeHtml(p)}</li>`).join('')}
+                </ul>
+            `;
+    }
+};
+
 const renderFindingsList = (findings: string[], batchId: string): string => {
     if (!findings || findings.length === 0) {
         return '<p class="text-slate-500">No findings were transcribed.</p>';
@@ -579,38 +591,14 @@ const renderFindingsList = (findings: string[], batchId: string): string => {
     return `
         <div class="space-y-3" data-batch-findings-container-id="${batchId}">
             ${findings.map((finding, index) => {
-                const parts = finding.split('###');
-                const isStructured = parts.length > 1;
-                const title = parts[0];
-                const points = parts.slice(1);
-                
-                const isImpression = isStructured && title.trim().toUpperCase() === 'IMPRESSION:';
-                const isItalic = !isStructured && title.startsWith('*') && title.endsWith('*');
-                const textToDisplay = isItalic ? title.slice(1, -1) : title;
-                
-                let findingContent;
-                let textContainerClasses = '';
-
-                if (isImpression) {
-                    findingContent = `
-                        <strong class="underline uppercase">${title}</strong>
-                        <ul class="list-disc list-inside pl-4 mt-1">
-                            ${points.map(p => `<li class="font-bold">${p}</li>`).join('')}
-                        </ul>
-                    `;
-                } else if (isStructured) {
-                    findingContent = `<strong class="font-bold">${title}</strong>${points.map(p => `<span class="block font-semibold">${p}</span>`).join('')}`;
-                } else {
-                    findingContent = textToDisplay;
-                    textContainerClasses = isItalic ? 'italic' : 'font-bold';
-                }
-
+                const line = parseReportLine(finding, index);
                 return `
                 <div
                     class="finding-item relative group p-3 pl-10 border-l-4 rounded-r-lg transition-all duration-200 bg-slate-50 border-blue-500"
                     data-batch-id="${batchId}"
                     data-finding-index="${index}"
-                    data-finding-raw="${encodeURIComponent(finding)}"
+                    data-copy-plain="${encodeURIComponent(reportLineToPlainText(line))}"
+                    data-copy-html="${encodeURIComponent(reportLineToHtml(line))}"
                     draggable="true"
                 >
                     <div
@@ -630,7 +618,7 @@ const renderFindingsList = (findings: string[], batchId: string): string => {
                         </svg>
                     </div>
 
-                    <div class="finding-text text-slate-700 cursor-pointer ${textContainerClasses}">${findingContent}</div>
+                    <div class="finding-text text-slate-700 cursor-pointer">${renderLineContent(line)}</div>
                     <div class="edit-btn-container absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity bg-slate-100 p-1 rounded-md shadow-sm">
                         <button class="edit-btn p-1 text-slate-600 hover:text-blue-600 rounded-full hover:bg-slate-200 transition-colors" aria-label="Edit text">
                             <svg xmlns="http://www.w3.org/2000/svg" class="w-5 h-5" viewBox="0 0 20 20" fill="currentColor"><path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" /><path fill-rule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" clip-rule="evenodd" /></svg>
@@ -0,0 +1,88 @@
+import { IdentifiedError, ImpressionCrossCheck } from '../types';
+import { findingToPlainText, isImpressionLine, parseReportLine } from './reportModel';
+import { isCommunicationLine } from './criticalFindings';
+
+// What the cross-check prompt returns: every impression point with the findings behind it, and the
+// abnormal findings that no impression point covers.
+export interface ImpressionPointSupport {
+  findingIndex: number;
+  point: string;
+  supportingFindingIndices: number[];
+}
+
+export interface ImpressionOmission {
+  findingIndex: number;
+  description: string;
+  severity: IdentifiedError['severity'];
+}
+
+export interface ImpressionCrossCheckResponse {
+  points: ImpressionPointSupport[];
+  omissions: ImpressionOmission[];
+}
+
+// Changes whenever an impression is created, regenerated or edited, and only then. Empty when there is none.
+export const impressionCheckKey = (findings: string[]): string => {
+  const impressions = findings.filter(isImpressionLine);
+  return impressions.length > 0 ? JSON.stringify(impressions) : '';
+};
+
+// Impression points, in order, with the index of the line each belongs to.
+export const impressionPoints = (findings: string[]): { findingIndex: number; point: string }[] =>
+  findings.flatMap((finding, findingIndex) => {
+    const line = parseReportLine(finding);
+    return line.kind === 'impression' ? line.points.map(point => ({ findingIndex, point })) : [];
+  });
+
+const isIndexIn = (findings: string[]) => (index: unknown): index is number =>
+  typeof index === 'number' && Number.isInteger(index) && index >= 0 && index < findings.length;
+
+// Turns the model's answer into identified errors, dropping anything that points outside the report.
+export const crossCheckErrors = (response: ImpressionCrossCheckResponse, findings: string[]): IdentifiedError[] => {
+  const inReport = isIndexIn(findings);
+  const errors: IdentifiedError[] = [];
+  const impressionIndices = findings.map((_, index) => index).filter(index => isImpressionLine(findings[index]));
+
+  for (const point of Array.isArray(response.points) ? response.points : []) {
+    if (!inReport(point.findingIndex) || !isImpressionLine(findings[point.findingIndex])) continue;
+    const supporting = (Array.isArray(point.supportingFindingIndices) ? point.supportingFindingIndices : [])
+      .filter(index => inReport(index) && !isImpressionLine(findings[index]));
+    if (supporting.length === 0) {
+      errors.push({
+        findingIndex: point.findingIndex,
+        errorDescription: `Impression: "${point.point}" is not supported by any finding.`,
+        severity: 'WARNING',
+      });
+    }
+  }
+
+  for (const omission of Array.isArray(response.omissions) ? response.omissions : []) {
+    const finding = findings[omission.findingIndex];
+    // A recorded critical result communication is not a finding the impression should repeat.
+    if (!inReport(omission.findingIndex) || isImpressionLine(finding) || isCommunicationLine(finding)) continue;
+    errors.push({
+      findingIndex: omission.findingIndex,
+      errorDescription: `Impression: ${omission.description || 'this abnormality is not mentioned in the impression.'}`,
+      severity: omission.severity === 'INFO' ? 'INFO' : 'WARNING',
+      relatedFindingIndices: impressionIndices,
+    });
+  }
+
+  return errors;
+};
+
+// Cross-check results moved onto the current findings. Lines are matched by their text, so results survive
+// reordering and edits elsewhere; an issue whose line was edited or removed is dropped.
+export const currentCrossCheckErrors = (check: ImpressionCrossCheck | null | undefined, findings: string[]): IdentifiedError[] => {
+  if (!check) return [];
+  const indexOf = (checkedIndex: number): number => findings.indexOf(check.findings[checkedIndex]);
+  return check.errors.flatMap(error => {
+    const findingIndex = indexOf(error.findingIndex);
+    if (findingIndex === -1) return [];
+    const related = error.relatedFindingIndices?.map(indexOf).filter(index => index !== -1);
+    return [{ ...error, findingIndex, ...(related ? { relatedFindingIndices: related } : {}) }];
+  });
+};
+
+// Plain text of a finding for link labels and tooltips.
+export const findingLabel = (findings: string[], index: number): string => `#${index + 1}: ${findingToPlainText(findings[index] ?? '')}`;
@@ -0,0 +1,65 @@
+// Shared IndexedDB database for data too large for localStorage. Bump DB_VERSION and extend
+// the upgrade handler when adding a store.
+const DB_NAME = 'radiology-dictation';
+const DB_VERSION = 3;
+
+export const REPORTS_STORE = 'reports';
+export const BLOBS_STORE = 'blobs';
+export const AUDIT_STORE = 'audit';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("This browser does not support IndexedDB."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(REPORTS_STORE)) {
+          db.createObjectStore(REPORTS_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+          db.createObjectStore(BLOBS_STORE, { keyPath: 'hash' }).createIndex('owners', 'owners', { multiEntry: true });
+        }
+        if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+          db.createObjectStore(AUDIT_STORE, { keyPath: 'seq', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("Failed to open the local database."));
+    });
+    // Let a later call retry instead of caching the failure.
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `operation` in a transaction on one store and resolves with its result once the transaction commits.
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("The database transaction was aborted."));
+  });
+  const result = await operation(transaction.objectStore(storeName));
+  await done;
+  return result;
+};
@@ -0,0 +1,261 @@
+import { IdentifiedError, ReportLine } from '../types';
+import { findingToPlainText, parseReportLine } from './reportModel';
+
+// Rule-based laterality check, run with the other report checks in reportChecks.ts.
+
+type Side = 'right' | 'left' | 'bilateral';
+type Section = 'title' | 'clinicalProfile' | 'findings' | 'impression';
+
+interface SideMention {
+  structure: string;
+  side: Side;
+  section: Section;
+  findingIndex: number;
+  // Abnormalities named in the same clause, used to match an impression point to the finding it summarises.
+  abnormalities: string[];
+}
+
+// Paired structures, most specific first: the first pattern that matches names the structure.
+const PAIRED_STRUCTURES: [string, string][] = [
+  ['cerebellar hemisphere', 'cerebellar hemispheres?|cerebellar|cerebellum'],
+  ['cerebellopontine angle', 'cerebellopontine angles?|cp angles?'],
+  ['frontal sinus', 'frontal sinus(?:es)?'],
+  ['maxillary sinus', 'maxillary sinus(?:es)?|maxillary antr(?:um|a)'],
+  ['ethmoid sinus', 'ethmoid(?:al)? (?:sinus(?:es)?|air cells)|ethmoid(?:al)?'],
+  ['sphenoid sinus', 'sphenoid(?:al)? sinus(?:es)?|sphenoid(?:al)?'],
+  ['mastoid', 'mastoids?(?: air cells)?'],
+  ['frontoparietal region', 'fronto-?parietal'],
+  ['temporoparietal region', 'temporo-?parietal'],
+  ['parieto-occipital region', 'parieto-?occipital'],
+  ['frontotemporal region', 'fronto-?temporal'],
+  ['frontal lobe', 'frontal(?: lobes?)?'],
+  ['parietal lobe', 'parietal(?: lobes?)?'],
+  ['temporal lobe', 'temporal(?: lobes?)?'],
+  ['occipital lobe', 'occipital(?: lobes?)?'],
+  ['cerebral hemisphere', '(?:cerebral )?hemispheres?|hemispheric'],
+  ['lateral ventricle', 'lateral ventricles?'],
+  ['basal ganglia', 'basal gangli(?:a|on)|lentiform|caudate|putamen|putaminal'],
+  ['thalamus', 'thalam(?:us|i|ic)'],
+  ['internal capsule', 'internal capsules?'],
+  ['sylvian fissure', 'sylvian fissures?'],
+  ['orbit', 'orbits?|orbital|globes?|eyes?|ocular'],
+  ['ear', 'middle ears?|external auditory canals?|ears?|tympanic'],
+  ['parotid gland', 'parotids?(?: glands?)?'],
+  ['submandibular gland', 'submandibular(?: glands?)?'],
+  ['thyroid lobe', 'thyroid lobes?|lobes? of (?:the )?thyroid'],
+  ['tonsil', 'tonsils?|tonsillar'],
+  ['carotid artery', 'carotids?(?: arter(?:y|ies))?'],
+  ['vertebral artery', 'vertebral arter(?:y|ies)'],
+  ['jugular vein', 'jugular(?: veins?)?'],
+  ['lung', 'lungs?|pulmonary|hemithorax|pleural?|hil(?:um|a|ar)|(?:upper|lower) lobes?'],
+  ['hemidiaphragm', 'hemidiaphragms?|diaphragm(?:atic)?'],
+  ['breast', 'breasts?|mammary'],
+  ['axilla', 'axill(?:a|ae|ary)'],
+  ['liver lobe', 'lobes? of (?:the )?liver|hepatic lobes?'],
+  ['kidney', 'kidneys?|renal'],
+  ['ureter', 'ureters?|ureteric|ureteral'],
+  ['adrenal gland', 'adrenals?(?: glands?)?'],
+  ['ovary', 'ovar(?:y|ies|ian)|adnex(?:a|al)'],
+  ['fallopian tube', 'fallopian tubes?'],
+  ['testis', 'test(?:is|es|icles?|icular)|hemiscrotum|scrotal|epididym(?:is|al)'],
+  ['iliac fossa', 'iliac fossae?'],
+  ['iliac vessels', 'iliac(?: arter(?:y|ies)| veins?)?'],
+  ['inguinal region', 'inguinal|groin'],
+  ['psoas', 'psoas'],
+  ['hip', 'hips?|acetabul(?:um|ar)|femoral heads?'],
+  ['femur', 'femurs?|femoral'],
+  ['knee', 'knees?|patella(?:r)?'],
+  ['tibia', 'tibiae?|tibial'],
+  ['fibula', 'fibulae?|fibular'],
+  ['ankle', 'ankles?'],
+  ['foot', 'foot|feet'],
+  ['shoulder', 'shoulders?|glenohumeral'],
+  ['clavicle', 'clavicles?|clavicular'],
+  ['scapula', 'scapulae?|scapular'],
+  ['humerus', 'humer(?:us|i|al)'],
+  ['elbow', 'elbows?'],
+  ['radius', 'radius|radial'],
+  ['ulna', 'ulnae?|ulnar'],
+  ['wrist', 'wrists?'],
+  ['hand', 'hands?'],
+  ['sacroiliac joint', 'sacroiliac(?: joints?)?'],
+];
+
+const ABNORMALITIES: [string, string][] = [
+  ['calculus', 'calcul(?:us|i)|stones?|(?:nephro|uretero|urolith)iasis'],
+  ['hydronephrosis', 'hydro(?:uretero)?nephrosis|hydroureter|pelvicalyceal dilatation'],
+  ['fracture', 'fractures?|fractured'],
+  ['dislocation', 'dislocation|dislocated|subluxation'],
+  ['mass', 'mass(?:es)?|tumou?rs?|neoplasms?|malignancy'],
+  ['cyst', 'cysts?'],
+  ['nodule', 'nodules?'],
+  ['collection', 'collections?|abscess(?:es)?'],
+  ['effusion', 'effusions?'],
+  ['consolidation', 'consolidation|pneumonia|pneumonitis'],
+  ['pneumothorax', 'pneumothora(?:x|ces)'],
+  ['haemorrhage', 'ha?emorrhages?|ha?ematomas?|bleeds?'],
+  ['infarct', 'infarcts?|infarction'],
+  ['tear', 'tears?|torn'],
+];
+
+const ABNORMALITY_PATTERNS = ABNORMALITIES.map(([name, pattern]) => ({ name, pattern: new RegExp(`\\b(?:${pattern})\\b`, 'i') }));
+
+const STRUCTURE_PATTERNS = PAIRED_STRUCTURES.map(([structure, pattern]) => ({ structure, pattern: new RegExp(`\\b(?:${pattern})\\b`, 'i') }));
+
+// Midline organs that have no side; "right spleen" is always a slip.
+const UNPAIRED_WITH_SIDE = /\b(right|left)(?:-sided)? (spleen|gallbladder|pancreas|uterus|urinary bladder|prostate|appendix|aorta|trachea|oesophagus|esophagus)\b/gi;
+
+// Structures that exist on one side only.
+const ONE_SIDED: { pattern: RegExp; side: 'right' | 'left'; name: string }[] = [
+  { pattern: /\bleft middle lobe\b/i, side: 'right', name: 'middle lobe' },
+  { pattern: /\bright (?:lingula|lingular)\b/i, side: 'left', name: 'lingula' },
+];
+
+const SIDE_WORDS = /\b(right|left|rt|lt|bilateral(?:ly)?|both)\b(?:-sided)?/gi;
+
+// How many words either side of a side word are searched for the structure it describes.
+const WINDOW_WORDS = 6;
+
+const toSide = (word: string): Side => {
+  const lower = word.toLowerCase();
+  if (lower === 'right' || lower === 'rt') return 'right';
+  if (lower === 'left' || lower === 'lt') return 'left';
+  return 'bilateral';
+};
+
+const sectionOf = (line: ReportLine): Section | null => {
+  switch (line.kind) {
+    case 'title':
+      return 'title';
+    case 'clinicalProfile':
+      return 'clinicalProfile';
+    case 'impression':
+      return 'impression';
+    case 'finding':
+    case 'section':
+      return 'findings';
+    default:
+      return null;
+  }
+};
+
+// The structure named nearest after the side word ("right kidney"), or else nearest before it ("kidney on the right").
+const structureNear = (clause: string, sideStart: number, sideEnd: number): string | null => {
+  const after = clause.slice(sideEnd).split(/\s+/).slice(0, WINDOW_WORDS + 1).join(' ');
+  let best: { structure: string; index: number } | null = null;
+  for (const { structure, pattern } of STRUCTURE_PATTERNS) {
+    const index = after.search(pattern);
+    if (index !== -1 && (!best || index < best.index)) best = { structure, index };
+  }
+  if (best) return best.structure;
+
+  const beforeWords = clause.slice(0, sideStart).split(/\s+/);
+  const before = beforeWords.slice(Math.max(beforeWords.length - WINDOW_WORDS, 0)).join(' ');
+  let nearest: { structure: string; index: number } | null = null;
+  for (const { structure, pattern } of STRUCTURE_PATTERNS) {
+    const global = new RegExp(pattern.source, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = global.exec(before)) !== null) {
+      if (!nearest || match.index > nearest.index) nearest = { structure, index: match.index };
+    }
+  }
+  return nearest?.structure ?? null;
+};
+
+const mentionsIn = (text: string, section: Section, findingIndex: number): SideMention[] => {
+  const mentions: SideMention[] = [];
+  for (const clause of text.split(/[.;\n]+/)) {
+    const abnormalities = ABNORMALITY_PATTERNS.filter(({ pattern }) => pattern.test(clause)).map(({ name }) => name);
+    for (const match of Array.from(clause.matchAll(SIDE_WORDS))) {
+      const start = match.index ?? 0;
+      const structure = structureNear(clause, start, start + match[0].length);
+      if (structure) mentions.push({ structure, side: toSide(match[1]), section, findingIndex, abnormalities });
+    }
+  }
+  return mentions;
+};
+
+// One-sided findings of the same structure that name one of the impression point's abnormalities.
+const matchingFindings = (mentions: SideMention[], point: SideMention): SideMention[] =>
+  mentions.filter(m =>
+    m.section === 'findings' &&
+    m.structure === point.structure &&
+    m.side !== 'bilateral' &&
+    m.abnormalities.some(name => point.abnormalities.includes(name)));
+
+const sidesOf = (mentions: SideMention[], structure: string, section: Section): Set<Side> =>
+  new Set(mentions.filter(m => m.structure === structure && m.section === section).map(m => m.side));
+
+export const checkLaterality = (findings: string[]): IdentifiedError[] => {
+  const errors: IdentifiedError[] = [];
+  const add = (findingIndex: number, severity: IdentifiedError['severity'], description: string) => {
+    const errorDescription = `Laterality: ${description}`;
+    if (!errors.some(e => e.findingIndex === findingIndex && e.errorDescription === errorDescription)) {
+      errors.push({ findingIndex, errorDescription, severity });
+    }
+  };
+
+  const mentions: SideMention[] = [];
+  findings.forEach((finding, index) => {
+    const section = sectionOf(parseReportLine(finding, index));
+    if (!section) return;
+    const text = findingToPlainText(finding);
+    mentions.push(...mentionsIn(text, section, index));
+
+    for (const match of Array.from(text.matchAll(UNPAIRED_WITH_SIDE))) {
+      add(index, 'WARNING', `the ${match[2].toLowerCase()} has no side, but "${match[0]}" is written.`);
+    }
+    for (const { pattern, side, name } of ONE_SIDED) {
+      const match = text.match(pattern);
+      if (match) add(index, 'WARNING', `there is only a ${side} ${name}, but "${match[0]}" is written.`);
+    }
+  });
+
+  // An impression point naming an abnormality is compared with the findings that describe that abnormality,
+  // so "right kidney calculus, left kidney normal" still catches "left renal calculus" in the impression.
+  const comparedPoints = new Set<SideMention>();
+  for (const point of mentions.filter(m => m.section === 'impression' && m.side !== 'bilateral')) {
+    const matches = matchingFindings(mentions, point);
+    if (matches.length === 0) continue;
+    comparedPoints.add(point);
+    if (matches.some(m => m.side === point.side)) continue;
+    const described = matches[0].side;
+    const abnormality = point.abnormalities.find(name => matches.some(m => m.abnormalities.includes(name)));
+    add(point.findingIndex, 'WARNING', `the impression says ${point.side} ${point.structure}${abnormality ? ` ${abnormality}` : ''}, but the findings describe it on the ${described}.`);
+  }
+
+  const structures = Array.from(new Set(mentions.map(m => m.structure)));
+  for (const structure of structures) {
+    // Bilateral statements are usually "both kidneys are normal", so only one-sided findings count as evidence.
+    const inFindings = sidesOf(mentions, structure, 'findings');
+    const findingSides = (['right', 'left'] as const).filter(side => inFindings.has(side));
+    if (findingSides.length !== 1) {
+      // Either no side-specific findings to compare against, or both sides are described.
+      continue;
+    }
+    const described = findingSides[0];
+    const opposite = described === 'right' ? 'left' : 'right';
+
+    for (const mention of mentions.filter(m => m.structure === structure && m.section !== 'findings' && !comparedPoints.has(m))) {
+      if (mention.side === opposite) {
+        const where = mention.section === 'impression' ? 'the impression' : mention.section === 'title' ? 'the title' : 'the clinical profile';
+        if (mention.section === 'impression') {
+          add(mention.findingIndex, 'WARNING', `${where} says ${opposite} ${structure}, but the findings only describe the ${described}.`);
+        } else {
+          // The title and clinical profile say what was asked for, so the findings that disagree are flagged.
+          mentions
+            .filter(m => m.structure === structure && m.section === 'findings' && m.side === described)
+            .forEach(m => add(
+              m.findingIndex,
+              mention.section === 'title' ? 'WARNING' : 'INFO',
+              `${where} says ${opposite} ${structure}, but this finding describes the ${described}.`
+            ));
+        }
+      } else if (mention.side === 'bilateral' && mention.section === 'impression') {
+        add(mention.findingIndex, 'INFO', `the impression says bilateral ${structure}, but the findings only describe the ${described}.`);
+      }
+    }
+  }
+
+  return errors;
+};
@@ -0,0 +1,207 @@
+import { DictationMacro, MacroOrigin } from '../types';
+import { mapReportLineText, parseReportLine, serializeReportLine } from './reportModel';
+
+export const MACROS_KEY = 'dictation_macros';
+
+export const DEFAULT_MACROS: DictationMacro[] = [
+  {
+    id: 'default-normal-chest',
+    trigger: 'normal chest',
+    expansion: 'The lungs are clear. No focal consolidation, pleural effusion or pneumothorax.\nThe cardiomediastinal silhouette is within normal limits.\nNo acute osseous abnormality.',
+  },
+  {
+    id: 'default-standard-liver',
+    trigger: 'standard liver',
+    expansion: 'The liver is normal in size ({size}) and echotexture. No focal lesion. Intrahepatic biliary radicles are not dilated.',
+  },
+  {
+    id: 'default-normal-kidney',
+    trigger: 'normal kidney',
+    expansion: 'The {side} kidney measures {size} and shows normal cortical thickness and corticomedullary differentiation. No hydronephrosis or calculus.',
+  },
+];
+
+export const loadMacros = (): DictationMacro[] => {
+  try {
+    const saved = localStorage.getItem(MACROS_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        return parsed.filter(m => m && typeof m.trigger === 'string' && typeof m.expansion === 'string');
+      }
+    }
+  } catch (e) {
+    console.error("Failed to load macros:", e);
+  }
+  return DEFAULT_MACROS.map(m => ({ ...m }));
+};
+
+export const saveMacros = (macros: DictationMacro[]) => {
+  localStorage.setItem(MACROS_KEY, JSON.stringify(macros));
+};
+
+export const createMacro = (): DictationMacro => ({
+  id: `macro-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  trigger: '',
+  expansion: '',
+});
+
+const createExpansionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Placeholder names in the order they first appear, e.g. ["side", "size"].
+export const macroPlaceholders = (expansion: string): string[] =>
+  Array.from(new Set(Array.from(expansion.matchAll(/\{(\w+)\}/g), match => match[1])));
+
+// Returns a message describing why the macro cannot be saved, or null when it is valid.
+export const validateMacro = (macro: DictationMacro, all: DictationMacro[]): string | null => {
+  const trigger = macro.trigger.trim();
+  if (!trigger) return 'Enter the phrase you will say.';
+  if (/[{}|=]/.test(trigger)) return 'Trigger phrases cannot contain { } | or =.';
+  if (!macro.expansion.trim()) return `"${trigger}" has no text to insert.`;
+  if (all.some(other => other.id !== macro.id && other.trigger.trim().toLowerCase() === trigger.toLowerCase())) {
+    return `"${trigger}" is used by more than one macro.`;
+  }
+  return null;
+};
+
+// Prompts refer to macros by their position in this list, so prompt building and expansion must agree on it.
+const usableMacros = (macros: DictationMacro[]) => macros.filter(m => m.trigger.trim() && m.expansion.trim());
+
+const describeMacro = (macro: DictationMacro, number: number) => {
+  const fields = macroPlaceholders(macro.expansion);
+  return fields.length > 0
+    ? `${number}. "${macro.trigger.trim()}" (fields: ${fields.join(', ')})`
+    : `${number}. "${macro.trigger.trim()}"`;
+};
+
+// Prompt section for the file-based workflows, which answer with {{MACRO:n}} tokens expanded afterwards.
+export const buildMacroPrompt = (macros: DictationMacro[] = loadMacros()): string => {
+  const usable = usableMacros(macros);
+  if (usable.length === 0) return '';
+  return `Dictation Macros:
+When the speaker says one of these trigger phrases, do not transcribe or paraphrase it. Write the token {{MACRO:<number>}} in its place, using the number from this list. If the macro has fields, add the values dictated with it, e.g. {{MACRO:<number>|side=left|size=10.2 cm}}. If a macro is all that was dictated for a finding, make the token that finding on its own. Each token is replaced with the user's stored text afterwards.
+${usable.map((macro, i) => describeMacro(macro, i + 1)).join('\n')}`;
+};
+
+// Live sessions only produce a spoken transcript, so the model is asked to keep the trigger phrase recognisable instead.
+export const buildLiveMacroPrompt = (macros: DictationMacro[] = loadMacros()): string => {
+  const usable = usableMacros(macros);
+  if (usable.length === 0) return '';
+  return `Dictation Macros:
+When the speaker says one of these trigger phrases, write the phrase exactly as listed on its own line, followed by any values dictated with it separated by commas (e.g. "normal kidney, left, 10 cm"). Do not expand or paraphrase it.
+${usable.map((macro, i) => describeMacro(macro, i + 1)).join('\n')}`;
+};
+
+const MACRO_TOKEN = /\{\{MACRO:\s*(\d+)\s*((?:\|[^|}]*)*)\}\}/g;
+
+interface MacroCall {
+  macro: DictationMacro | undefined;
+  named: Record<string, string>;
+  positional: string[];
+}
+
+const parseCall = (usable: DictationMacro[], number: string, args: string): MacroCall => {
+  const named: Record<string, string> = {};
+  const positional: string[] = [];
+  for (const arg of args.split('|').slice(1)) {
+    const separator = arg.indexOf('=');
+    if (separator > 0) {
+      named[arg.slice(0, separator).trim()] = arg.slice(separator + 1).trim();
+    } else if (arg.trim()) {
+      positional.push(arg.trim());
+    }
+  }
+  return { macro: usable[Number(number) - 1], named, positional };
+};
+
+// Named values fill their placeholder; unnamed values fill the remaining placeholders in order.
+// Placeholders left without a value stay visible as {name} for the user to complete.
+const fillExpansion = (call: MacroCall): string => {
+  const macro = call.macro!;
+  const values = { ...call.named };
+  const unfilled = macroPlaceholders(macro.expansion).filter(name => !(name in values));
+  call.positional.forEach((value, i) => {
+    if (unfilled[i]) values[unfilled[i]] = value;
+  });
+  return macro.expansion.replace(/\{(\w+)\}/g, (placeholder, name) => values[name] || placeholder);
+};
+
+const spokenForm = (call: MacroCall): string => {
+  const values = [...Object.values(call.named), ...call.positional].filter(value => value !== '');
+  return [call.macro!.trigger.trim(), ...values].join(', ');
+};
+
+const replaceTokens = (text: string, usable: DictationMacro[], mode: 'expanded' | 'spoken'): string =>
+  text.replace(MACRO_TOKEN, (token, number: string, args: string) => {
+    const call = parseCall(usable, number, args);
+    // An unknown number is left as-is so the user can see something was dictated there.
+    if (!call.macro) return token;
+    return mode === 'expanded' ? fillExpansion(call).replace(/\s*\n\s*/g, ' ') : spokenForm(call);
+  });
+
+const expandLine = (raw: string, usable: DictationMacro[], allowBlock: boolean): string[] => {
+  if (!raw.includes('{{MACRO:')) return [raw];
+  const line = parseReportLine(raw);
+  const spoken = serializeReportLine(mapReportLineText(line, text => replaceTokens(text, usable, 'spoken')));
+  const calls = Array.from(raw.matchAll(MACRO_TOKEN), match => parseCall(usable, match[1], match[2]));
+  if (!calls.some(call => call.macro)) return [spoken];
+
+  const origin: MacroOrigin = { expansionId: createExpansionId(), spoken };
+  // A finding that is nothing but one macro becomes the macro's own lines, markers and all.
+  const standalone = line.kind === 'finding' && line.text.trim().replace(MACRO_TOKEN, '') === '' && calls.length === 1;
+  if (allowBlock && standalone) {
+    return fillExpansion(calls[0])
+      .split('\n')
+      .map(row => row.trim())
+      .filter(row => row !== '')
+      .map(row => serializeReportLine({ ...parseReportLine(row), macro: origin }));
+  }
+  return [serializeReportLine({ ...mapReportLineText(line, text => replaceTokens(text, usable, 'expanded')), macro: origin })];
+};
+
+// Expands {{MACRO:n}} tokens in model output. Every line an expansion produces records how it was dictated.
+export const expandMacrosInFindings = (findings: string[], macros: DictationMacro[] = loadMacros()): string[] => {
+  const usable = usableMacros(macros);
+  return findings.flatMap(raw => expandLine(raw, usable, true));
+};
+
+// Single-line variant for dictation appended to or edited into an existing finding.
+export const expandMacrosInFinding = (raw: string, macros: DictationMacro[] = loadMacros()): string =>
+  expandLine(raw, usableMacros(macros), false).join(' ');
+
+const stripTokenSyntax = (value: string) => value.replace(/[{}|=]/g, '').trim();
+
+// Turns live transcript lines that consist of a trigger phrase (plus comma-separated values) into tokens, then expands them.
+export const expandSpokenMacros = (lines: string[], macros: DictationMacro[] = loadMacros()): string[] => {
+  const usable = usableMacros(macros);
+  if (usable.length === 0) return lines;
+  const byLength = usable
+    .map((macro, i) => ({ trigger: macro.trigger.trim().toLowerCase(), number: i + 1, takesValues: macroPlaceholders(macro.expansion).length > 0 }))
+    .sort((a, b) => b.trigger.length - a.trigger.length);
+
+  return expandMacrosInFindings(lines.map(line => {
+    const spoken = line.trim().replace(/[.!?;:]+$/, '');
+    const lowered = spoken.toLowerCase();
+    for (const { trigger, number, takesValues } of byLength) {
+      if (lowered === trigger) return `{{MACRO:${number}}}`;
+      // Only macros with fields accept trailing words, so "normal chest wall" is not mistaken for "normal chest".
+      if (takesValues && lowered.startsWith(trigger) && /^[\s,]/.test(spoken.slice(trigger.length))) {
+        const values = spoken.slice(trigger.length).split(',').map(stripTokenSyntax).filter(value => value !== '');
+        return `{{MACRO:${number}${values.map(value => `|${value}`).join('')}}}`;
+      }
+    }
+    return line;
+  }), macros);
+};
+
+// Replaces the block of lines produced by the expansion at `index` with the line as it was dictated.
+export const revertMacroExpansion = (findings: string[], index: number): string[] => {
+  const origin = parseReportLine(findings[index] ?? '').macro;
+  if (!origin) return findings;
+  const isSameExpansion = (i: number) => parseReportLine(findings[i]).macro?.expansionId === origin.expansionId;
+  let start = index;
+  while (start > 0 && isSameExpansion(start - 1)) start--;
+  let end = index;
+  while (end < findings.length - 1 && isSameExpansion(end + 1)) end++;
+  return [...findings.slice(0, start), origin.spoken, ...findings.slice(end + 1)];
+};
@@ -0,0 +1,132 @@
+import { IdentifiedError, LengthUnit, Measurement } from '../types';
+import { findingToPlainText, parseReportLine } from './reportModel';
+
+const NUMBER = '\\d+(?:\\.\\d+)?';
+const UNIT = 'mm|cm|millimet(?:er|re)s?|centimet(?:er|re)s?';
+const AXIS = `(${NUMBER})\\s*(${UNIT})?`;
+const SEPARATOR = '\\s*(?:x|×|\\*|by)\\s*';
+// One to three axes, e.g. "8 mm", "12 x 8 mm", "10.2 cm x 4.5 cm x 4 cm". Units are checked after matching.
+const MEASUREMENT_PATTERN = new RegExp(`\\b${AXIS}(?:${SEPARATOR}${AXIS})?(?:${SEPARATOR}${AXIS})?\\b`, 'gi');
+
+// Words around what was measured: "with a collection measuring 12 x 8 mm".
+const LEAD_IN_WORDS = new Set(['measuring', 'measures', 'measure', 'measured', 'sized', 'size', 'approximately', 'approx', 'about', 'up', 'to', 'of', 'is', 'are', 'was', 'were', 'in', 'with', 'which', 'and', 'a', 'an', 'the']);
+const STRUCTURE_WORDS = 4;
+
+// Anything larger is not a real dimension in a radiology report; it is almost always a unit slip.
+const ABSOLUTE_MAX_MM = 500;
+
+// Largest plausible dimension for structures that are often measured. The first matching entry applies.
+const PLAUSIBLE_MAX_MM: { pattern: RegExp; maxMm: number }[] = [
+  { pattern: /\b(?:calculus|calculi|stones?|calcul)/i, maxMm: 80 },
+  { pattern: /\bmidline shift/i, maxMm: 30 },
+  { pattern: /\b(?:cbd|common bile duct)/i, maxMm: 30 },
+  { pattern: /\b(?:lymph )?nodes?\b/i, maxMm: 100 },
+  { pattern: /\bthyroid/i, maxMm: 100 },
+  { pattern: /\bprostat/i, maxMm: 150 },
+  { pattern: /\baort/i, maxMm: 120 },
+  { pattern: /\b(?:kidneys?|renal)\b/i, maxMm: 200 },
+  { pattern: /\b(?:ovary|ovaries|ovarian)\b/i, maxMm: 200 },
+  { pattern: /\b(?:spleen|splenic)\b/i, maxMm: 300 },
+  { pattern: /\b(?:liver|hepatic)\b/i, maxMm: 350 },
+];
+
+// Numbers that belong in an impression: RADS categories ("BI-RADS 4") and spine levels ("L4-5", "C5/C6").
+const ALLOWED_IMPRESSION_NUMBERS = /\b(?:[A-Z]+-?RADS\s*\d+[A-Za-z]?|[CTLS]\d{1,2}(?:\s*[-/]\s*[CTLS]?\d{1,2})?)\b/gi;
+
+const toUnit = (unit: string): LengthUnit => (unit.toLowerCase().startsWith('c') ? 'cm' : 'mm');
+
+const toMm = (value: number, unit: LengthUnit): number => (unit === 'cm' ? value * 10 : value);
+
+// Drops floating point noise such as 12.000000000000002.
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const structureBefore = (text: string, from: number, index: number): string => {
+  const clause = text.slice(from, index).split(/[.;:,(\n]/).pop() ?? '';
+  const words = clause.split(/\s+/).map(word => word.replace(/[^\w-]/g, '')).filter(word => word !== '');
+  while (words.length > 0 && LEAD_IN_WORDS.has(words[words.length - 1].toLowerCase())) words.pop();
+  const kept = words.slice(Math.max(words.length - STRUCTURE_WORDS, 0));
+  while (kept.length > 0 && LEAD_IN_WORDS.has(kept[0].toLowerCase())) kept.shift();
+  return kept.join(' ');
+};
+
+const measurementsInText = (text: string, findingIndex: number): Measurement[] => {
+  const measurements: Measurement[] = [];
+  let previousEnd = 0;
+  for (const match of Array.from(text.matchAll(MEASUREMENT_PATTERN))) {
+    const start = match.index ?? 0;
+    // The structure is looked for after the previous measurement, so "10 cm with a calculus of 8 mm" names the calculus.
+    const from = previousEnd;
+    previousEnd = start + match[0].length;
+    const axes = [1, 3, 5]
+      .filter(group => match[group] !== undefined)
+      .map(group => ({ value: Number(match[group]), unit: match[group + 1] as string | undefined }));
+    if (!axes.some(axis => axis.unit)) continue;
+    // "12 x 8 mm": an axis without a unit takes the next written unit, or failing that the previous one.
+    const units = axes.map((axis, i) => {
+      const written = axis.unit ?? axes.slice(i + 1).find(a => a.unit)?.unit ?? axes.slice(0, i).reverse().find(a => a.unit)?.unit;
+      return toUnit(written as string);
+    });
+    const values = axes.map(axis => axis.value);
+    measurements.push({
+      findingIndex,
+      text: match[0],
+      values,
+      units,
+      axesMm: values.map((value, i) => round(toMm(value, units[i]))),
+      structure: structureBefore(text, from, start),
+    });
+  }
+  return measurements;
+};
+
+export const extractMeasurements = (findings: string[]): Measurement[] =>
+  findings.flatMap((finding, index) => measurementsInText(findingToPlainText(finding), index));
+
+// Ellipsoid volume (0.52 x L x W x H) in millilitres; null unless all three axes were measured.
+export const ellipsoidVolumeMl = (measurement: Measurement): number | null => {
+  if (measurement.axesMm.length !== 3) return null;
+  const [length, width, height] = measurement.axesMm;
+  return (0.52 * length * width * height) / 1000;
+};
+
+export const formatVolumeMl = (volume: number): string => (volume < 1 ? volume.toFixed(2) : volume.toFixed(1));
+
+export const formatAxes = (axes: number[], unit: LengthUnit): string =>
+  `${axes.map(mm => round(unit === 'cm' ? mm / 10 : mm)).join(' x ')} ${unit}`;
+
+export const checkMeasurements = (findings: string[]): IdentifiedError[] => {
+  const errors: IdentifiedError[] = [];
+  const add = (findingIndex: number, severity: IdentifiedError['severity'], description: string) =>
+    errors.push({ findingIndex, errorDescription: `Measurement: ${description}`, severity });
+
+  findings.forEach((finding, index) => {
+    const text = findingToPlainText(finding);
+    const measurements = measurementsInText(text, index);
+
+    if (parseReportLine(finding).kind === 'impression') {
+      if (measurements.length > 0) {
+        add(index, 'WARNING', `the impression contains ${measurements.map(m => `"${m.text}"`).join(', ')}; measurements belong in the findings.`);
+      } else if (/\d/.test(text.replace(ALLOWED_IMPRESSION_NUMBERS, ''))) {
+        add(index, 'INFO', 'the impression contains numbers; impressions are usually written without them.');
+      }
+    }
+
+    for (const measurement of measurements) {
+      const largest = Math.max(...measurement.axesMm);
+      const limit = PLAUSIBLE_MAX_MM.find(entry => entry.pattern.test(measurement.structure))?.maxMm ?? ABSOLUTE_MAX_MM;
+      if (measurement.axesMm.some(mm => mm === 0)) {
+        add(index, 'WARNING', `"${measurement.text}" has a dimension of zero.`);
+      } else if (largest > limit) {
+        const what = measurement.structure ? ` for ${measurement.structure.toLowerCase()}` : '';
+        add(index, 'WARNING', `"${measurement.text}" (${formatAxes([largest], 'cm')}) is implausibly large${what}; check the unit.`);
+      }
+    }
+
+    const units = new Set(measurements.flatMap(m => m.units));
+    if (units.size > 1) {
+      add(index, 'INFO', 'this finding mixes mm and cm; consider using one unit.');
+    }
+  });
+
+  return errors;
+};
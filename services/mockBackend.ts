@@ -0,0 +1,227 @@
+import { IdentifiedError } from '../types';
+import { findingToPlainText, isImpressionLine, parseReport, parseReportLine } from './reportModel';
+import { ImpressionCrossCheckResponse, impressionPoints } from './impressionCheck';
+import { detectCriticalFindings } from './criticalFindings';
+
+// Canned, deterministic data for the offline mock mode. Every answer depends only on its input,
+// so UI tests can assert on exact strings and demos behave the same on every machine.
+
+export const MOCK_MODE_QUERY_PARAM = 'mock';
+export const MOCK_LATENCY_QUERY_PARAM = 'mockLatency';
+const DEFAULT_MOCK_LATENCY_MS = 400;
+
+const getQueryParams = (): URLSearchParams | null =>
+  typeof window === 'undefined' ? null : new URLSearchParams(window.location.search);
+
+// `?mock` or `?mock=1` forces mock mode regardless of the saved provider; `?mock=0` is ignored.
+export const isMockModeRequested = (): boolean => {
+  const value = getQueryParams()?.get(MOCK_MODE_QUERY_PARAM);
+  return value !== null && value !== undefined && value !== '0' && value !== 'false';
+};
+
+// Simulated network latency so loading states are visible; `?mockLatency=0` makes tests instant.
+export const mockDelay = (): Promise<void> => {
+  const params = getQueryParams();
+  const requested = params?.has(MOCK_LATENCY_QUERY_PARAM) ? Number(params.get(MOCK_LATENCY_QUERY_PARAM)) : NaN;
+  const ms = Number.isFinite(requested) ? Math.max(0, requested) : DEFAULT_MOCK_LATENCY_MS;
+  return new Promise(resolve => setTimeout(resolve, ms));
+};
+
+export const MOCK_FINDINGS: string[] = [
+  'TITLE::C.T.SCAN OF BRAIN (PLAIN)',
+  '*Clinical Profile: H/o fall from height. C/o headache and two episodes of vomiting.*',
+  'TECHNIQUE::Axial sections of the brain were obtained from the skull base to the vertex without intravenous contrast.',
+  'BOLD::A crescentic hyperdense extra-axial collection measuring 12 x 8 mm in maximum thickness is noted along the right frontoparietal convexity.',
+  'BOLD::Mild effacement of the adjacent sulci. No significant midline shift.',
+  'Bilateral lateral ventricles, third and fourth ventricles are normal in size and configuration.',
+  'Basal cisterns are clear.',
+  'Grey-white matter differentiation is maintained elsewhere.',
+  'No evidence of calvarial fracture.',
+  'Visualised paranasal sinuses and mastoid air cells are clear.',
+  // The impression deliberately contradicts the findings' laterality so the error checker has something to flag.
+  'IMPRESSION:###Acute subdural hematoma along the left frontoparietal convexity with mild mass effect.###No calvarial fracture.',
+];
+
+// MOCK_FINDINGS as dictated, one entry per finding, with the slips the corrections view should highlight.
+export const MOCK_TRANSCRIPT: string[] = [
+  'CT scan of brain plain',
+  'clinical profile history of fall from height complains of headache and two episodes of vomiting',
+  'axial sections of the brain were obtained from the skull base to the vertex without intravenous contrast',
+  'a crescentic hypodense extra axial collection measuring 12 by 8 mm in maximum thickness is noted along the right frontal parietal convexity',
+  'mild effacement of the adjacent sulci no significant midline shift',
+  'bilateral lateral ventricles third and fourth ventricles are normal in size and configuration',
+  'basal cisterns are clear',
+  'gray white matter differentiation is maintained elsewhere',
+  'no evidence of calvarial fracture',
+  'visualized paranasal sinuses and mastoid air cells are clear',
+  'impression acute subdural hematoma along the left frontoparietal convexity with mild mass effect no calvarial fracture',
+];
+
+export const MOCK_IMAGE_TRANSCRIPTION = `REQUISITION FORM
+Patient: [name withheld]  Age/Sex: 45/M
+Clinical details: Fall from height, headache, vomiting x2.
+Investigation requested: CT Brain plain.`;
+
+export const MOCK_CONTINUATION = 'No focal lesion is seen in the posterior fossa.';
+
+export const MOCK_NEW_FINDING = 'BOLD::Small scalp hematoma in the right parietal region.';
+
+export const MOCK_PROMPT_TRANSCRIPTION = 'Use concise sentences and mention the clinical profile first.';
+
+export const MOCK_INITIAL_ANALYSIS = `## Initial Analysis
+- Right frontoparietal extra-axial hyperdense collection, crescentic, consistent with acute subdural hematoma.
+- Mild local mass effect without midline shift.
+- Mechanism (fall from height) supports a traumatic aetiology.`;
+
+export const MOCK_REFINED_ANALYSIS = `## Refined Analysis
+- Crescentic morphology crossing suture lines favours subdural over extradural collection.
+- Thickness under 10 mm with no midline shift usually permits conservative management with neurological monitoring.
+- Follow-up CT is recommended if there is clinical deterioration.`;
+
+export const MOCK_EXPERT_NOTES = `# Expert Notes
+
+## Key Findings
+- Acute right frontoparietal subdural hematoma with mild mass effect.
+
+## Differential Considerations
+1. Acute subdural hematoma (favoured).
+2. Extradural hematoma (less likely given crescentic shape).
+
+## Recommendations
+- Neurosurgical opinion.
+- Repeat CT brain in 24 hours or earlier on neurological deterioration.`;
+
+export const MOCK_COMPLEX_IMPRESSION = 'IMPRESSION:###Acute right frontoparietal subdural hematoma with mild mass effect, likely traumatic.###No calvarial fracture.###Suggested neurosurgical correlation.';
+
+// Chunks arrive one per tick in mock live sessions; '\n' starts a new finding line.
+export const MOCK_LIVE_TRANSCRIPT_CHUNKS: string[] = [
+  'Clinical profile, history of fall.',
+  '\nA crescentic hyperdense collection ',
+  'is seen along the right frontoparietal convexity.',
+  '\nNo midline shift.',
+  '\nVentricles are normal in size.',
+  '\nNo calvarial fracture.',
+];
+
+// Mirrors the kind of issues ERROR_IDENTIFIER_PROMPT asks for, using simple text rules.
+export const mockIdentifyErrors = (findings: string[]): IdentifiedError[] => {
+  const errors: IdentifiedError[] = [];
+  const bodyText = findings.filter(f => !isImpressionLine(f)).join(' ').toLowerCase();
+
+  findings.forEach((finding, index) => {
+    const text = finding.toLowerCase();
+    if (isImpressionLine(finding)) {
+      for (const [side, opposite] of [['left', 'right'], ['right', 'left']]) {
+        const mentionsSide = new RegExp(`\\b${side}\\b`).test(text);
+        if (mentionsSide && !new RegExp(`\\b${side}\\b`).test(bodyText) && new RegExp(`\\b${opposite}\\b`).test(bodyText)) {
+          errors.push({
+            findingIndex: index,
+            errorDescription: `Laterality mismatch: the impression mentions "${side}" but the findings only describe the ${opposite} side.`,
+            severity: 'WARNING',
+          });
+        }
+      }
+    }
+    if (finding.includes('?')) {
+      errors.push({
+        findingIndex: index,
+        errorDescription: 'Contains a query mark; confirm whether the finding is uncertain.',
+        severity: 'INFO',
+      });
+    }
+    if (/\b(\w+) \1\b/i.test(finding)) {
+      errors.push({
+        findingIndex: index,
+        errorDescription: 'Repeated word; possible speech-to-text artefact.',
+        severity: 'INFO',
+      });
+    }
+  });
+
+  return errors;
+};
+
+export const mockChatReply = (message: string, findings: string[]): string => {
+  const text = message.trim().toLowerCase();
+  if (!text) {
+    return 'I listened to your voice note. It refers to the report above; no changes to the findings are needed.';
+  }
+  if (text.includes('impression')) {
+    const impression = parseReport(findings).impression;
+    return impression.length > 0
+      ? `The current impression has ${impression.length} point(s): ${impression.join(' ')}`
+      : 'The report does not contain an impression yet.';
+  }
+  if (text.includes('how many') || text.includes('count')) {
+    return `The report currently has ${findings.length} finding(s).`;
+  }
+  return `Noted. Regarding "${message.trim()}": the findings are consistent with the dictation and no further changes are suggested.`;
+};
+
+// A short silent WAV stands in for recorded audio when no microphone is available.
+export const createSilentWavBlob = (durationMs = 1000, sampleRate = 16000): Blob => {
+  const sampleCount = Math.round((durationMs / 1000) * sampleRate);
+  const dataSize = sampleCount * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+// Words too common in reports to tie an impression point to a finding.
+const MOCK_COMMON_WORDS = new Set(['there', 'which', 'noted', 'along', 'measuring', 'maximum', 'thickness', 'normal', 'evidence', 'visualised', 'visualized', 'significant', 'elsewhere', 'adjacent', 'configuration']);
+const MOCK_NORMAL_FINDING = /\b(?:no|normal|unremarkable|intact|clear|maintained)\b/i;
+
+const mockKeyWords = (text: string): Set<string> =>
+  new Set((text.toLowerCase().match(/[a-z]{5,}/g) ?? []).filter(word => !MOCK_COMMON_WORDS.has(word)));
+
+// Stands in for IMPRESSION_CROSS_CHECK_PROMPT: a point is supported by any finding that shares a key word
+// with it, and an abnormal finding sharing none with the impression is an omission.
+export const mockCrossCheckImpression = (findings: string[]): ImpressionCrossCheckResponse => {
+  const body = findings
+    .map((finding, index) => ({ index, kind: parseReportLine(finding, index).kind, words: mockKeyWords(findingToPlainText(finding)) }))
+    .filter(line => line.kind === 'finding' || line.kind === 'section');
+  const points = impressionPoints(findings);
+  const impressionWords = mockKeyWords(points.map(p => p.point).join(' '));
+
+  return {
+    points: points.map(({ findingIndex, point }) => {
+      const words = mockKeyWords(point);
+      return {
+        findingIndex,
+        point,
+        supportingFindingIndices: body.filter(line => Array.from(words).some(word => line.words.has(word))).map(line => line.index),
+      };
+    }),
+    omissions: points.length === 0 ? [] : body
+      .filter(line => !MOCK_NORMAL_FINDING.test(findingToPlainText(findings[line.index])))
+      .filter(line => !Array.from(line.words).some(word => impressionWords.has(word)))
+      .map(line => ({ findingIndex: line.index, description: 'this abnormal finding is not mentioned in the impression.', severity: 'INFO' as const })),
+  };
+};
+
+// Stands in for CRITICAL_FINDINGS_PROMPT: the lexicon, plus the mock report's subdural collection, which the
+// findings describe without naming it.
+export const mockClassifyCriticalFindings = (findings: string[]): { critical: { findingIndex: number; label: string }[] } => ({
+  critical: [
+    ...detectCriticalFindings(findings).map(({ findingIndex, label }) => ({ findingIndex, label })),
+    ...findings
+      .map((finding, findingIndex) => ({ finding, findingIndex }))
+      .filter(({ finding }) => /\bhyperdense extra-axial collection\b/i.test(finding))
+      .map(({ findingIndex }) => ({ findingIndex, label: 'acute extra-axial haemorrhage' })),
+  ],
+});
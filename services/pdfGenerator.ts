@@ -0,0 +1,384 @@
+import { ReportEmphasis, ReportLine } from '../types';
+import { IMPRESSION_HEADING, RECOMMENDATIONS_HEADING, parseReportLine, reportLineToPlainText } from './reportModel';
+
+// Writes PDF files directly, with the standard Helvetica fonts every viewer has, so nothing is embedded and no
+// library is needed. Emphasis follows the clipboard HTML: centred underlined titles, bold and italic lines, and
+// an underlined impression heading over bold bullet points.
+
+export const PDF_SETTINGS_KEY = 'pdf_report_settings';
+
+export interface PdfSettings {
+  // Letterhead: the institution's name, then address and contact lines.
+  institution: string;
+  letterheadLines: string;
+  footerText: string;
+  // Signature block; left out when there is no name.
+  radiologistName: string;
+  radiologistCredentials: string;
+  registrationNumber: string;
+}
+
+export const DEFAULT_PDF_SETTINGS: PdfSettings = {
+  institution: '',
+  letterheadLines: '',
+  footerText: '',
+  radiologistName: '',
+  radiologistCredentials: '',
+  registrationNumber: '',
+};
+
+export const loadPdfSettings = (): PdfSettings => {
+  try {
+    const saved = localStorage.getItem(PDF_SETTINGS_KEY);
+    if (saved) {
+      return { ...DEFAULT_PDF_SETTINGS, ...JSON.parse(saved) };
+    }
+  } catch (e) {
+    console.error("Failed to load PDF report settings:", e);
+  }
+  return { ...DEFAULT_PDF_SETTINGS };
+};
+
+export const savePdfSettings = (settings: PdfSettings) => {
+  localStorage.setItem(PDF_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Fonts ---
+
+type FontKey = 'F1' | 'F2' | 'F3' | 'F4';
+
+const FONT_NAMES: Record<FontKey, string> = {
+  F1: 'Helvetica',
+  F2: 'Helvetica-Bold',
+  F3: 'Helvetica-Oblique',
+  F4: 'Helvetica-BoldOblique',
+};
+
+// Advance widths of ASCII 32-126 in thousandths of the font size, from the Adobe font metrics.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556,
+  278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667,
+  611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833,
+  556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556,
+  333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667,
+  611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889,
+  611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsiEncoding codes for the characters outside Latin-1 that reports use.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, '‰': 0x89, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// Widths for non-ASCII characters that are not accented letters, as [regular, bold].
+const EXTRA_WIDTHS: Record<number, [number, number]> = {
+  0x85: [1000, 1000], 0x91: [222, 278], 0x92: [222, 278], 0x93: [333, 500], 0x94: [333, 500], 0x95: [350, 350], 0x96: [556, 556],
+  0x97: [1000, 1000], 0xb0: [400, 400], 0xb1: [584, 584], 0xb2: [333, 333], 0xb3: [333, 333], 0xb5: [556, 611], 0xb7: [278, 278],
+  0xd7: [584, 584], 0xf7: [584, 584], 0xa9: [737, 737], 0xae: [737, 737], 0xbc: [834, 834], 0xbd: [834, 834], 0xbe: [834, 834],
+};
+
+const REPLACEMENTS: Record<string, string> = { '≤': '<=', '≥': '>=', '→': '->', '←': '<-', '−': '-', '\u00A0': ' ', '\t': ' ' };
+
+// One byte per character, as the fonts' WinAnsiEncoding expects. Accents outside it are dropped and anything
+// else becomes "?".
+const toWinAnsi = (text: string): string =>
+  Array.from(text, char => {
+    const replaced = REPLACEMENTS[char] ?? char;
+    if (replaced.length > 1) return replaced;
+    const code = replaced.charCodeAt(0);
+    if ((code >= 32 && code < 127) || (code >= 0xa0 && code <= 0xff)) return replaced;
+    if (WIN_ANSI_EXTRAS[replaced] !== undefined) return String.fromCharCode(WIN_ANSI_EXTRAS[replaced]);
+    const base = replaced.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    return base.length === 1 && base.charCodeAt(0) < 0x100 ? base : '?';
+  }).join('');
+
+const isBoldFont = (font: FontKey) => font === 'F2' || font === 'F4';
+
+const charWidth = (code: number, font: FontKey): number => {
+  const bold = isBoldFont(font);
+  if (code >= 32 && code < 127) return (bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  const extra = EXTRA_WIDTHS[code];
+  if (extra) return extra[bold ? 1 : 0];
+  // Accented letters are as wide as their base letter.
+  const base = String.fromCharCode(code).normalize('NFD').charCodeAt(0);
+  return base >= 32 && base < 127 ? charWidth(base, font) : 556;
+};
+
+// Width in points of WinAnsi text.
+const textWidth = (text: string, font: FontKey, size: number): number =>
+  Array.from(text).reduce((width, char) => width + charWidth(char.charCodeAt(0), font), 0) * size / 1000;
+
+const escapePdfString = (text: string): string =>
+  Array.from(text, char => {
+    const code = char.charCodeAt(0);
+    if (char === '\\' || char === '(' || char === ')') return `\\${char}`;
+    return code < 32 || code > 126 ? `\\${code.toString(8).padStart(3, '0')}` : char;
+  }).join('');
+
+// --- Layout ---
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56.7;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_HEIGHT = 40;
+const BODY_SIZE = 10.5;
+const LINE_HEIGHT = 1.35;
+const BULLET_INDENT = 16;
+const GREY = '0.4 g';
+
+interface TextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  size?: number;
+  grey?: boolean;
+}
+
+interface Block extends TextStyle {
+  text: string;
+  align?: 'left' | 'center';
+  bullet?: boolean;
+  spaceBefore?: number;
+}
+
+const fontFor = (style: TextStyle): FontKey =>
+  style.bold ? (style.italic ? 'F4' : 'F2') : style.italic ? 'F3' : 'F1';
+
+const emphasisStyle = (emphasis: ReportEmphasis): TextStyle =>
+  emphasis === 'bold' ? { bold: true } : emphasis === 'italic' ? { italic: true } : {};
+
+// The same structure reportLineToHtml gives each kind of line.
+const reportLineBlocks = (line: ReportLine): Block[] => {
+  switch (line.kind) {
+    case 'title':
+      return [{ text: line.text, bold: true, underline: true, align: 'center', spaceBefore: 4 }];
+    case 'clinicalProfile':
+      return [{ text: reportLineToPlainText(line), italic: true }];
+    case 'technique':
+      return [{ text: line.text }];
+    case 'finding':
+      return [{ text: line.text, ...emphasisStyle(line.emphasis) }];
+    case 'section':
+      return [line.heading, ...line.points].map(text => ({ text, ...emphasisStyle(line.emphasis) }));
+    case 'impression':
+    case 'recommendations': {
+      const isImpression = line.kind === 'impression';
+      return [
+        { text: isImpression ? IMPRESSION_HEADING : RECOMMENDATIONS_HEADING, bold: true, underline: true, spaceBefore: 6 },
+        ...line.points.map(text => ({ text, bold: isImpression, bullet: true })),
+      ];
+    }
+  }
+};
+
+const wrap = (text: string, font: FontKey, size: number, width: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(w => w !== '')) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (textWidth(candidate, font, size) <= width) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    // A single word wider than the line (a long URL, say) is broken wherever it has to be.
+    let rest = word;
+    while (textWidth(rest, font, size) > width) {
+      let cut = rest.length - 1;
+      while (cut > 1 && textWidth(rest.slice(0, cut), font, size) > width) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    current = rest;
+  }
+  if (current) lines.push(current);
+  return lines.length > 0 ? lines : [''];
+};
+
+interface PdfLayout {
+  pages: string[][];
+  newPage: () => void;
+  block: (block: Block) => void;
+  signature: (signedAt: number) => void;
+  footers: () => void;
+}
+
+const createLayout = (settings: PdfSettings): PdfLayout => {
+  const pages: string[][] = [];
+  let y = 0;
+  const ops = () => pages[pages.length - 1];
+
+  const text = (x: number, atY: number, content: string, style: TextStyle) => {
+    const font = fontFor(style);
+    const size = style.size ?? BODY_SIZE;
+    ops().push(`${style.grey ? GREY : '0 g'} BT /${font} ${size} Tf ${x.toFixed(2)} ${atY.toFixed(2)} Td (${escapePdfString(content)}) Tj ET`);
+    if (style.underline) {
+      const underlineY = atY - size * 0.15;
+      ops().push(`0 G 0.6 w ${x.toFixed(2)} ${underlineY.toFixed(2)} m ${(x + textWidth(content, font, size)).toFixed(2)} ${underlineY.toFixed(2)} l S`);
+    }
+  };
+
+  const rule = (pageOps: string[], atY: number) => {
+    pageOps.push(`0.7 G 0.5 w ${MARGIN} ${atY.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${atY.toFixed(2)} l S`);
+  };
+
+  // Every page carries the letterhead.
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+    const institution = toWinAnsi(settings.institution.trim());
+    const details = settings.letterheadLines.split('\n').map(line => toWinAnsi(line.trim())).filter(line => line !== '');
+    if (!institution && details.length === 0) return;
+    if (institution) {
+      y -= 14;
+      text(MARGIN, y, institution, { bold: true, size: 14 });
+    }
+    details.forEach(line => {
+      y -= 11;
+      text(MARGIN, y, line, { size: 8.5, grey: true });
+    });
+    y -= 8;
+    rule(ops(), y);
+    y -= 14;
+  };
+
+  // Starts a new page when the next `height` points do not fit above the footer.
+  const ensureSpace = (height: number) => {
+    if (pages.length === 0 || y - height < MARGIN + FOOTER_HEIGHT) newPage();
+  };
+
+  const block = (b: Block) => {
+    const font = fontFor(b);
+    const size = b.size ?? BODY_SIZE;
+    const leading = size * LINE_HEIGHT;
+    const indent = b.bullet ? BULLET_INDENT : 0;
+    const lines = wrap(toWinAnsi(b.text), font, size, CONTENT_WIDTH - indent);
+    y -= b.spaceBefore ?? 0;
+    lines.forEach((line, i) => {
+      ensureSpace(leading);
+      y -= leading;
+      if (b.bullet && i === 0) text(MARGIN + 4, y, toWinAnsi('•'), { ...b, underline: false });
+      const x = b.align === 'center' ? MARGIN + (CONTENT_WIDTH - textWidth(line, font, size)) / 2 : MARGIN + indent;
+      text(x, y, line, b);
+    });
+    y -= size * 0.4;
+  };
+
+  const signature = (signedAt: number) => {
+    const { radiologistName, radiologistCredentials, registrationNumber } = settings;
+    if (!radiologistName.trim()) return;
+    const date = new Date(signedAt);
+    const signed = `Electronically signed on ${date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })} at ${date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}`;
+    const lines: Block[] = [
+      { text: radiologistName.trim(), bold: true },
+      ...(radiologistCredentials.trim() ? [{ text: radiologistCredentials.trim() }] : []),
+      ...(registrationNumber.trim() ? [{ text: `Registration no. ${registrationNumber.trim()}` }] : []),
+      { text: signed, size: 8.5, grey: true },
+    ];
+    // The block is kept together on one page.
+    ensureSpace(24 + (lines.length + 1) * BODY_SIZE * LINE_HEIGHT);
+    y -= 24;
+    block({ text: 'Reported by:', size: 9, grey: true });
+    lines.forEach(block);
+  };
+
+  // Footers go on last, once the page count is known.
+  const footers = () => {
+    const footerText = toWinAnsi(settings.footerText.trim());
+    const baseline = MARGIN - 14;
+    pages.forEach((pageOps, index) => {
+      rule(pageOps, baseline + 14);
+      const pageLabel = `Page ${index + 1} of ${pages.length}`;
+      const labelWidth = textWidth(pageLabel, 'F1', 8.5);
+      if (footerText) {
+        const [firstLine] = wrap(footerText, 'F1', 8.5, CONTENT_WIDTH - labelWidth - 16);
+        pageOps.push(`${GREY} BT /F1 8.5 Tf ${MARGIN} ${baseline.toFixed(2)} Td (${escapePdfString(firstLine)}) Tj ET`);
+      }
+      pageOps.push(`${GREY} BT /F1 8.5 Tf ${(PAGE_WIDTH - MARGIN - labelWidth).toFixed(2)} ${baseline.toFixed(2)} Td (${escapePdfString(pageLabel)}) Tj ET`);
+    });
+  };
+
+  return { pages, newPage, block, signature, footers };
+};
+
+// --- Writing the file ---
+
+const pdfDate = (at: number): string => {
+  const date = new Date(at);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+const serializePdf = (pages: string[][], title: string, createdAt: number): Uint8Array<ArrayBuffer> => {
+  const objects: string[] = [];
+  const fontKeys = Object.keys(FONT_NAMES) as FontKey[];
+  // 1: catalog, 2: page tree, 3: info, then the fonts, then a page and its content stream per page.
+  const firstFont = 4;
+  const firstPage = firstFont + fontKeys.length;
+  const pageIds = pages.map((_, i) => firstPage + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = `<< /Title (${escapePdfString(toWinAnsi(title))}) /Producer (Radiology Dictation Corrector) /CreationDate (${pdfDate(createdAt)}) >>`;
+  fontKeys.forEach((key, i) => {
+    objects[firstFont + i] = `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[key]} /Encoding /WinAnsiEncoding >>`;
+  });
+  const fontResources = fontKeys.map((key, i) => `/${key} ${firstFont + i} 0 R`).join(' ');
+  pages.forEach((ops, i) => {
+    const pageId = pageIds[i];
+    const content = ops.join('\n');
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Every character is a single byte, so string lengths are byte offsets.
+  // The comment's high bytes mark the file as binary for transfer tools.
+  let output = '%PDF-1.4\n%\u00E2\u00E3\u00CF\u00D3\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(output, char => char.charCodeAt(0));
+};
+
+const layoutReport = (layout: PdfLayout, findings: string[], heading?: string) => {
+  layout.newPage();
+  if (heading) layout.block({ text: heading, bold: true, size: 9, grey: true });
+  findings.forEach((finding, index) => reportLineBlocks(parseReportLine(finding, index)).forEach(block => layout.block(block)));
+};
+
+// --- Public API ---
+
+export const generateReportPdf = (findings: string[], settings: PdfSettings = loadPdfSettings()): Blob => {
+  const now = Date.now();
+  const layout = createLayout(settings);
+  layoutReport(layout, findings);
+  layout.signature(now);
+  layout.footers();
+  return new Blob([serializePdf(layout.pages, 'Radiology Report', now)], { type: 'application/pdf' });
+};
+
+// Each report starts on a new page, under its batch name, and is signed separately.
+export const generateBatchReportPdf = (batches: { name: string; findings: string[] | null }[], settings: PdfSettings = loadPdfSettings()): Blob => {
+  const now = Date.now();
+  const layout = createLayout(settings);
+  batches.filter(b => b.findings && b.findings.length > 0).forEach(batch => {
+    layoutReport(layout, batch.findings!, batch.name);
+    layout.signature(now);
+  });
+  if (layout.pages.length === 0) layout.newPage();
+  layout.footers();
+  return new Blob([serializePdf(layout.pages, 'Batch Radiology Report', now)], { type: 'application/pdf' });
+};
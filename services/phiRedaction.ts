@@ -0,0 +1,195 @@
+import { PhiCategory, PhiRedaction } from '../types';
+import { isCommunicationLine } from './criticalFindings';
+import { mapReportLineText, parseReportLine, serializeReportLine } from './reportModel';
+
+export const PHI_SETTINGS_KEY = 'phi_guard_settings';
+
+export interface PhiSettings {
+  enabled: boolean;
+  // Terms that are never redacted, e.g. eponyms or a referring clinic's name caught by a pattern.
+  allowList: string[];
+}
+
+export const DEFAULT_PHI_SETTINGS: PhiSettings = { enabled: true, allowList: [] };
+
+export const PHI_CATEGORY_LABELS: Record<PhiCategory, string> = {
+  name: 'Name',
+  id: 'MRN / ID',
+  phone: 'Phone',
+  address: 'Address',
+  dob: 'Date of birth',
+};
+
+const PLACEHOLDERS: Record<PhiCategory, string> = {
+  name: '[NAME]',
+  id: '[ID]',
+  phone: '[PHONE]',
+  address: '[ADDRESS]',
+  dob: '[DOB]',
+};
+
+export const loadPhiSettings = (): PhiSettings => {
+  try {
+    const saved = localStorage.getItem(PHI_SETTINGS_KEY);
+    if (saved) {
+      return { ...DEFAULT_PHI_SETTINGS, ...JSON.parse(saved) };
+    }
+  } catch (e) {
+    console.error("Failed to load PHI guard settings:", e);
+  }
+  return { ...DEFAULT_PHI_SETTINGS };
+};
+
+export const savePhiSettings = (settings: PhiSettings) => {
+  localStorage.setItem(PHI_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Turns the letters of a label pattern into [Xx] classes, so labels match in any case while the
+// values after them (names in particular) stay case-sensitive.
+const caseless = (source: string): string =>
+  source.replace(/(\\?)([a-z])/gi, (match, escape: string, letter: string) =>
+    escape ? match : `[${letter.toUpperCase()}${letter.toLowerCase()}]`
+  );
+
+const DATE = String.raw`(?:\d{1,4}[\/.\-]\d{1,2}[\/.\-]\d{1,4}|\d{1,2}(?:st|nd|rd|th)?\s+[A-Za-z]{3,9}\.?,?\s+\d{4}|[A-Za-z]{3,9}\.?\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4})`;
+// Identifier values contain at least one digit, so "MRN: pending" is left alone.
+const ID_VALUE = String.raw`(?=[A-Za-z0-9\-\/]*\d)[A-Za-z0-9][A-Za-z0-9\-\/]{3,}`;
+// Up to four capitalised words or initials on one line, stopping at the next form label or at
+// clinical wording such as "Patient: Known case of...". An initial with a full stop ("John A. Smith")
+// is always part of the name, even when the letter is also a stop word.
+const NAME_STOP_WORDS = caseless('(?:age|sex|gender|dob|mrn|id|uhid|date|ref|referred|study|exam|male|female|m|f|hospital|patient|phone|address|contact|ward|bed|known|case|history|presenting|presents|presented|complaints?|follow|post|status|suspected|diagnosed|adult|child|infant|the|a|an|no|with|for|on|in)');
+const NAME_WORD = String.raw`(?:[A-Z]\.|(?!${NAME_STOP_WORDS}\b)[A-Z][A-Za-z'\-]+(?![A-Za-z'\-]))`;
+// Eponyms after a label ("Name: Parkinson disease") are a condition, not a person.
+const EPONYM_FOLLOWER = String.raw`(?![ \t]+(?:disease|syndrome|sign|fracture|palsy|phenomenon|classification|criteria|score|type|grade)\b)`;
+const NAME_VALUE = String.raw`${NAME_WORD}(?:(?:[ \t]+|,[ \t]*)${NAME_WORD}){0,3}${EPONYM_FOLLOWER}`;
+const STREET_SUFFIX = String.raw`(?:Street|St|Road|Rd|Avenue|Ave|Lane|Ln|Drive|Boulevard|Blvd|Court|Ct|Way|Place|Terrace|Circle|Highway|Hwy)`;
+
+interface Detector {
+  category: PhiCategory;
+  // Group 1 is kept (usually the form label), group 2 is replaced by the placeholder.
+  pattern: RegExp;
+}
+
+// Order matters: specific, labelled patterns run before the generic ones so they claim their text first.
+const DETECTORS: Detector[] = [
+  {
+    category: 'dob',
+    pattern: new RegExp(String.raw`(\b${caseless(String.raw`(?:dob|d\.o\.b\.?|date\s+of\s+birth|birth\s*date|born(?:\s+on)?)`)}\s*[:\-]?\s*)(${DATE})`, 'g'),
+  },
+  {
+    category: 'phone',
+    pattern: new RegExp(String.raw`(\b${caseless(String.raw`(?:phone|tel(?:ephone)?|mobile|mob|cell|contact)(?:\s*(?:no\.?|number|#))?`)}\s*[:\-]?\s*)(\+?\d[\d\s().\-]{6,}\d)`, 'g'),
+  },
+  {
+    category: 'id',
+    pattern: new RegExp(String.raw`(\b${caseless(String.raw`(?:mrn|m\.r\.n\.?|medical\s+record\s+(?:no\.?|number|#)|patient\s+id|pt\.?\s*id|hospital\s+(?:no\.?|number|id)|uhid|ssn|(?:cr|ip|op|reg(?:istration)?|accession|acc)\.?\s*(?:no\.?|number|#))`)}\s*[:#\-]?\s*)(${ID_VALUE})`, 'g'),
+  },
+  {
+    category: 'id',
+    pattern: new RegExp(String.raw`(\b${caseless('id')}\s*[:#]\s*)(${ID_VALUE})`, 'g'),
+  },
+  { category: 'id', pattern: /()(\b\d{3}-\d{2}-\d{4}\b)/g },
+  { category: 'phone', pattern: /()((?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b)/g },
+  {
+    category: 'address',
+    pattern: new RegExp(String.raw`(\b${caseless(String.raw`(?:address|addr\.?|residence|resident\s+of)`)}\s*[:\-]?\s*)([^\n;]+?)(?=\s*(?:\n|;|$|\.\s+[A-Z]))`, 'g'),
+  },
+  { category: 'address', pattern: new RegExp(String.raw`()(\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}${STREET_SUFFIX}\b\.?)`, 'g') },
+  {
+    category: 'name',
+    pattern: new RegExp(String.raw`(\b${caseless(String.raw`(?:patient(?:'s)?\s+name|pt\.?\s+name|name|patient|pt\.?|mother(?:'s)?\s+name|father(?:'s)?\s+name|guardian|next\s+of\s+kin|nok)`)}[ \t]*[:\-][ \t]*)(${NAME_VALUE})`, 'g'),
+  },
+  { category: 'name', pattern: /(\b(?:[Pp]atient|[Pp]t\.?)[ \t]+(?:named[ \t]+)?)([A-Z][a-z]+(?:[ \t]+[A-Z][a-z]+){1,2})\b/g },
+  // Long bare numbers are only taken as identifiers after "No." or "#"; elsewhere they are usually measurements.
+  { category: 'id', pattern: /(\b[Nn]o\.[ \t]*|#[ \t]*)(\d{6,}\b)/g },
+];
+
+// Only an exact (case-insensitive) match is allowed through, so allowing "Baker" does not expose "Mary Baker".
+const isAllowed = (value: string, allowList: string[]): boolean =>
+  allowList.some(term => term.trim().toLowerCase() === value.toLowerCase());
+
+export interface RedactionResult {
+  text: string;
+  redactions: PhiRedaction[];
+}
+
+export const redactPhi = (text: string, settings: PhiSettings = loadPhiSettings()): RedactionResult => {
+  if (!settings.enabled) return { text, redactions: [] };
+  const redactions: PhiRedaction[] = [];
+  const redacted = DETECTORS.reduce((current, detector) =>
+    current.replace(detector.pattern, (match, prefix: string, value: string) => {
+      const trimmed = value.replace(/[\s,.]+$/, '');
+      if (!trimmed || isAllowed(trimmed, settings.allowList)) return match;
+      const placeholder = PLACEHOLDERS[detector.category];
+      redactions.push({ category: detector.category, original: trimmed, placeholder });
+      return `${prefix}${placeholder}${value.slice(trimmed.length)}`;
+    }), text);
+  return { text: redacted, redactions };
+};
+
+// `unchanged` lists lines already in the report; they were checked when they were added and are left alone.
+export const redactPhiInFindings = (findings: string[], settings: PhiSettings = loadPhiSettings(), unchanged: string[] = []): { findings: string[]; redactions: PhiRedaction[] } => {
+  const redactions: PhiRedaction[] = [];
+  const existing = new Set(unchanged);
+  const redactedFindings = findings.map(finding => {
+    // Recorded critical-result communications name the clinician on purpose.
+    if (existing.has(finding) || isCommunicationLine(finding)) return finding;
+    const line = parseReportLine(finding);
+    // Macro text is inserted exactly as the user stored it.
+    if (line.macro) return finding;
+    const rewritten = serializeReportLine(mapReportLineText(line, text => {
+      const result = redactPhi(text, settings);
+      redactions.push(...result.redactions);
+      return result.text;
+    }));
+    return rewritten === serializeReportLine(line) ? finding : rewritten;
+  });
+  return { findings: redactedFindings, redactions };
+};
+
+// Session log of what the guard removed, for the review panel. Deliberately kept in memory only,
+// since it holds the original PHI.
+export interface RedactionEvent {
+  id: string;
+  source: string;
+  at: number;
+  redactions: PhiRedaction[];
+}
+
+let redactionLog: RedactionEvent[] = [];
+const logListeners = new Set<() => void>();
+
+const notifyLogListeners = () => logListeners.forEach(listener => listener());
+
+const recordRedactions = (source: string, redactions: PhiRedaction[]) => {
+  if (redactions.length === 0) return;
+  redactionLog = [{ id: `redaction-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, source, at: Date.now(), redactions }, ...redactionLog];
+  notifyLogListeners();
+};
+
+export const getRedactionLog = (): RedactionEvent[] => redactionLog;
+
+export const clearRedactionLog = () => {
+  redactionLog = [];
+  notifyLogListeners();
+};
+
+export const subscribeToRedactionLog = (listener: () => void): (() => void) => {
+  logListeners.add(listener);
+  return () => {
+    logListeners.delete(listener);
+  };
+};
+
+// Redacts text going to or coming from the model and records what was removed under `source`.
+export const applyPhiGuard = (text: string, source: string): string => {
+  const result = redactPhi(text);
+  recordRedactions(source, result.redactions);
+  return result.text;
+};
+
+export const applyPhiGuardToFindings = (findings: string[], source: string, unchanged: string[] = []): string[] => {
+  const result = redactPhiInFindings(findings, loadPhiSettings(), unchanged);
+  recordRedactions(source, result.redactions);
+  return result.findings;
+};
@@ -0,0 +1,69 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { AIProvider, ContentPart, GenerateRequest, JsonSchema } from '../aiProvider';
+
+const TYPE_MAP: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: TYPE_MAP[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+});
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generate = async (request: GenerateRequest, config: Record<string, unknown> = {}): Promise<string> => {
+    const response = await ai.models.generateContent({
+      model: request.model,
+      contents: { parts: request.parts },
+      config: {
+        ...config,
+        ...(request.useSearch ? { tools: [{ googleSearch: {} }] } : {}),
+      },
+    });
+    return response.text ?? '';
+  };
+
+  return {
+    id: 'gemini',
+
+    generateJson: (request) => generate(request, {
+      responseMimeType: "application/json",
+      ...(request.schema ? { responseSchema: toGeminiSchema(request.schema) } : {}),
+    }),
+
+    generateText: (request) => generate(request),
+
+    transcribeAudio: (request) => generate({
+      task: request.task,
+      model: request.model,
+      parts: [{ text: request.prompt }, { inlineData: request.audio }],
+    }),
+
+    startChat: ({ model, systemInstruction, history }) => {
+      const chat = ai.chats.create({
+        model,
+        history,
+        config: { systemInstruction },
+      });
+      return {
+        sendMessage: async (message: string | ContentPart[]) => {
+          const response = await chat.sendMessage({ message });
+          return response.text ?? '';
+        },
+      };
+    },
+  };
+};
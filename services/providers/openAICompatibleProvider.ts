@@ -0,0 +1,160 @@
+import { AIProvider, ContentPart, GenerateRequest, InlineData, TranscribeAudioRequest } from '../aiProvider';
+
+interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey: string;
+  // Empty means "use whatever model the caller asked for".
+  model: string;
+  transcriptionModel: string;
+}
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | OpenAIContentPart[];
+}
+
+const base64ToBytes = (base64: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const extensionForMimeType = (mimeType: string): string => {
+  const subtype = mimeType.split('/')[1]?.split(';')[0] || 'bin';
+  return subtype === 'mpeg' ? 'mp3' : subtype;
+};
+
+// Carries the HTTP status so retryOperation can tell rate limits and overloads from other failures.
+export class ProviderHttpError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ProviderHttpError';
+    this.status = status;
+  }
+}
+
+const requestError = async (response: Response): Promise<ProviderHttpError> => {
+  const body = await response.text().catch(() => '');
+  return new ProviderHttpError(`Request failed with status ${response.status}: ${body || response.statusText}`, response.status);
+};
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+  const resolveModel = (requested: string) => config.model.trim() || requested;
+
+  const transcribeAudio = async (request: TranscribeAudioRequest): Promise<string> => {
+    const form = new FormData();
+    const file = new Blob([base64ToBytes(request.audio.data)], { type: request.audio.mimeType });
+    form.append('file', file, `audio.${extensionForMimeType(request.audio.mimeType)}`);
+    form.append('model', config.transcriptionModel || 'whisper-1');
+
+    const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: form,
+    });
+    if (!response.ok) {
+      throw await requestError(response);
+    }
+    const result = await response.json();
+    return (result.text ?? '').trim();
+  };
+
+  // Chat completion endpoints rarely accept arbitrary audio, so audio parts are transcribed first and sent as text.
+  const toOpenAIContent = async (parts: ContentPart[], model: string): Promise<OpenAIContentPart[]> => {
+    const content: OpenAIContentPart[] = [];
+    for (const part of parts) {
+      if ('text' in part) {
+        content.push({ type: 'text', text: part.text });
+        continue;
+      }
+      const media: InlineData = part.inlineData;
+      if (media.mimeType.startsWith('image/')) {
+        content.push({ type: 'image_url', image_url: { url: `data:${media.mimeType};base64,${media.data}` } });
+      } else {
+        const transcript = await transcribeAudio({ task: 'transcribeAudioForPrompt', model, prompt: '', audio: media });
+        content.push({ type: 'text', text: `Audio dictation (speech-to-text transcript):\n${transcript}` });
+      }
+    }
+    return content;
+  };
+
+  const complete = async (model: string, messages: OpenAIMessage[], json: boolean): Promise<string> => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify({
+        model,
+        messages,
+        ...(json ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+    if (!response.ok) {
+      throw await requestError(response);
+    }
+    const result = await response.json();
+    return result.choices?.[0]?.message?.content ?? '';
+  };
+
+  const generate = async (request: GenerateRequest, json: boolean): Promise<string> => {
+    const model = resolveModel(request.model);
+    const content = await toOpenAIContent(request.parts, model);
+    return complete(model, [{ role: 'user', content }], json);
+  };
+
+  return {
+    id: 'openai-compatible',
+
+    generateJson: (request) => {
+      // json_object mode needs the expected shape spelled out in the prompt.
+      const schemaHint = request.schema
+        ? [{ text: `Respond with a single JSON object matching this JSON schema:\n${JSON.stringify(request.schema)}` }]
+        : [];
+      return generate({ ...request, parts: [...request.parts, ...schemaHint] }, true);
+    },
+
+    generateText: (request) => generate(request, false),
+
+    transcribeAudio,
+
+    startChat: ({ model, systemInstruction, history }) => {
+      const chatModel = resolveModel(model);
+      let messages: OpenAIMessage[] | null = null;
+
+      // History may contain audio, which needs an async transcription; resolve it lazily on first send.
+      const ensureMessages = async (): Promise<OpenAIMessage[]> => {
+        if (!messages) {
+          messages = [{ role: 'system', content: systemInstruction }];
+          for (const turn of history) {
+            messages.push({
+              role: turn.role === 'model' ? 'assistant' : 'user',
+              content: await toOpenAIContent(turn.parts, chatModel),
+            });
+          }
+        }
+        return messages;
+      };
+
+      return {
+        sendMessage: async (message) => {
+          const conversation = await ensureMessages();
+          const parts: ContentPart[] = typeof message === 'string' ? [{ text: message }] : message;
+          const userMessage: OpenAIMessage = { role: 'user', content: await toOpenAIContent(parts, chatModel) };
+          const reply = await complete(chatModel, [...conversation, userMessage], false);
+          conversation.push(userMessage, { role: 'assistant', content: reply });
+          return reply;
+        },
+      };
+    },
+  };
+};
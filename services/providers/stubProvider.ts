@@ -0,0 +1,122 @@
+import { AIProvider, AITask, ContentPart } from '../aiProvider';
+import {
+  MOCK_COMPLEX_IMPRESSION,
+  MOCK_CONTINUATION,
+  MOCK_EXPERT_NOTES,
+  MOCK_FINDINGS,
+  MOCK_IMAGE_TRANSCRIPTION,
+  MOCK_INITIAL_ANALYSIS,
+  MOCK_NEW_FINDING,
+  MOCK_PROMPT_TRANSCRIPTION,
+  MOCK_REFINED_ANALYSIS,
+  MOCK_TRANSCRIPT,
+  mockChatReply,
+  mockClassifyCriticalFindings,
+  mockCrossCheckImpression,
+  mockDelay,
+  mockIdentifyErrors,
+} from '../mockBackend';
+import { isImpressionLine } from '../reportModel';
+
+const textOf = (parts: ContentPart[]): string =>
+  parts.map(part => ('text' in part ? part.text : '')).join('\n');
+
+// Pulls the `{"findings": [...]}` payload that report prompts embed, so edits and checks see the real report.
+const findingsInPrompt = (prompt: string): string[] | null => {
+  const match = prompt.match(/\{"findings":\[[\s\S]*?\]\}/);
+  if (!match) return null;
+  try {
+    const parsed = JSON.parse(match[0]);
+    return Array.isArray(parsed.findings) ? parsed.findings : null;
+  } catch {
+    return null;
+  }
+};
+
+// Chat history carries the findings as pretty-printed JSON rather than the compact report payload.
+const findingsInHistory = (prompt: string): string[] => {
+  const match = prompt.match(/\[\s*"[\s\S]*"\s*\]/);
+  if (!match) return [];
+  try {
+    const parsed = JSON.parse(match[0]);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const jsonFor = (task: AITask, prompt: string, withTranscript: boolean): string => {
+  switch (task) {
+    case 'identifyPotentialErrors':
+      return JSON.stringify({ errors: mockIdentifyErrors(findingsInPrompt(prompt) ?? []) });
+    case 'classifyCriticalFindings':
+      return JSON.stringify(mockClassifyCriticalFindings(findingsInPrompt(prompt) ?? []));
+    case 'crossCheckImpression':
+      return JSON.stringify(mockCrossCheckImpression(findingsInPrompt(prompt) ?? []));
+    case 'modifyReportWithAudio': {
+      const findings = findingsInPrompt(prompt) ?? MOCK_FINDINGS;
+      const impressionIndex = findings.findIndex(isImpressionLine);
+      const updated = [...findings];
+      updated.splice(impressionIndex === -1 ? updated.length : impressionIndex, 0, MOCK_NEW_FINDING);
+      return JSON.stringify({ findings: updated });
+    }
+    default:
+      return JSON.stringify(withTranscript ? { findings: MOCK_FINDINGS, transcript: MOCK_TRANSCRIPT } : { findings: MOCK_FINDINGS });
+  }
+};
+
+const textFor = (task: AITask, prompt: string): string => {
+  switch (task) {
+    case 'imageTranscription':
+      return MOCK_IMAGE_TRANSCRIPTION;
+    case 'continueAudioDictation':
+      return MOCK_CONTINUATION;
+    case 'modifyFindingWithAudio': {
+      const original = prompt.match(/Existing Finding:\n"([\s\S]*?)"\n/)?.[1] ?? '';
+      return `${original.trim()} No interval change.`.trim();
+    }
+    case 'complexInitialAnalysis':
+      return MOCK_INITIAL_ANALYSIS;
+    case 'complexRefinement':
+      return MOCK_REFINED_ANALYSIS;
+    case 'complexSynthesis':
+      return MOCK_EXPERT_NOTES;
+    case 'complexImpression':
+      return MOCK_COMPLEX_IMPRESSION;
+    default:
+      return `Mock response for ${task}.`;
+  }
+};
+
+// Offline adapter backed by the canned fixtures in mockBackend; no network calls are made.
+export const createStubProvider = (): AIProvider => ({
+  id: 'stub',
+
+  generateJson: async ({ task, parts, schema }) => {
+    await mockDelay();
+    return jsonFor(task, textOf(parts), !!schema?.properties?.transcript);
+  },
+
+  generateText: async ({ task, parts }) => {
+    await mockDelay();
+    return textFor(task, textOf(parts));
+  },
+
+  transcribeAudio: async () => {
+    await mockDelay();
+    return MOCK_PROMPT_TRANSCRIPTION;
+  },
+
+  startChat: ({ history }) => {
+    const findings = findingsInHistory(history.map(turn => textOf(turn.parts)).join('\n'));
+    return {
+      sendMessage: async (message) => {
+        await mockDelay();
+        const parts: ContentPart[] = typeof message === 'string' ? [{ text: message }] : message;
+        // Voice notes arrive with a fixed guidance sentence; only typed text counts as the question.
+        const hasAudio = parts.some(part => 'inlineData' in part);
+        return mockChatReply(hasAudio ? '' : textOf(parts), findings);
+      },
+    };
+  },
+});
@@ -0,0 +1,89 @@
+import { RadsWorkingStep } from '../../types';
+import { RadsScorer, describes, formatMm, largestDimensionMm, step } from './common';
+
+// ACR BI-RADS assessment categories, 5th edition. The lexicon gives categories rather than points, so this follows
+// the order a reader applies them in: known cancer, incomplete work-up, benign, probably benign, then suspicious.
+
+const KNOWN_MALIGNANCY = /\b(?:biopsy[- ]proven|known|histologically proven|confirmed) (?:malignancy|carcinoma|cancer|IDC|DCIS)\b/i;
+const INCOMPLETE = /\b(?:recall|additional (?:imaging|views)|further (?:imaging|assessment|evaluation)|spot compression|needs? (?:further )?evaluation)\b/i;
+const BENIGN = /\b(?:simple cysts?|oil cysts?|lipoma|(?:involuting|calcified|popcorn) fibroadenomas?|intramammary (?:lymph )?node|skin calcifications?|vascular calcifications?|secretory calcifications?|(?:large )?rod-?like calcifications?|hamartoma|fat necrosis|benign[- ]appearing)\b/i;
+const NEGATIVE = /\bno (?:suspicious |dominant )?(?:mass(?:es)?|calcifications|architectural distortion|evidence of malignancy)\b|\bnegative\b|\bunremarkable\b/i;
+const PROBABLY_BENIGN = /\b(?:circumscribed|well[- ]circumscribed)\b.*\b(?:oval|round)\b|\b(?:oval|round)\b.*\bcircumscribed\b|\bcomplicated cyst\b|\bgrouped round calcifications\b/i;
+const LESION = /\b(?:mass(?:es)?|lesions?|nodules?|calcifications?|distortion|asymmetry|cysts?)\b/i;
+
+const SUSPICIOUS_FEATURES: { value: string; pattern: RegExp }[] = [
+  { value: 'spiculated margin', pattern: /\bspiculat(?:ed|ion)\b/i },
+  { value: 'irregular shape', pattern: /\birregular(?:ly shaped)?\b/i },
+  { value: 'angular, indistinct or microlobulated margin', pattern: /\b(?:angular|indistinct|microlobulated)\b/i },
+  { value: 'not parallel orientation', pattern: /\b(?:not parallel|non-?parallel|taller[- ]than[- ]wide)\b/i },
+  { value: 'suspicious calcifications', pattern: /\b(?:fine (?:pleomorphic|linear(?: branching)?)|amorphous|coarse heterogeneous) calcifications\b|\bsegmental calcifications\b/i },
+  { value: 'architectural distortion', pattern: /\barchitectural distortion\b/i },
+  { value: 'posterior shadowing', pattern: /\bposterior (?:acoustic )?shadowing\b/i },
+];
+
+const MANAGEMENT: Record<string, string> = {
+  '0': 'Incomplete: additional imaging evaluation and/or prior mammograms for comparison are needed.',
+  '1': 'Routine screening.',
+  '2': 'Routine screening.',
+  '3': 'Short-interval (6-month) follow-up or continued surveillance.',
+  '4A': 'Tissue diagnosis (low suspicion for malignancy).',
+  '4B': 'Tissue diagnosis (moderate suspicion for malignancy).',
+  '4C': 'Tissue diagnosis (high suspicion for malignancy).',
+  '5': 'Tissue diagnosis (highly suggestive of malignancy).',
+  '6': 'Surgical excision when clinically appropriate.',
+};
+
+export const biRads: RadsScorer = {
+  system: 'BI-RADS',
+
+  applies: (text, context) => LESION.test(text) && /\b(?:breasts?|mammo\w*|axilla|nipple|subareolar|quadrant|o'?clock)\b/i.test(`${text} ${context}`),
+
+  score: (text, findingIndex) => {
+    const working: RadsWorkingStep[] = [];
+    const sizeMm = largestDimensionMm(text);
+    if (sizeMm !== null) working.push(step('Size', formatMm(sizeMm)));
+
+    const result = (category: string) => ({
+      system: 'BI-RADS' as const,
+      findingIndex,
+      category,
+      working: [...working, step('Category', `BI-RADS ${category}`)],
+      summary: `BI-RADS ${category}.`,
+      management: MANAGEMENT[category],
+    });
+
+    if (describes(text, KNOWN_MALIGNANCY)) {
+      working.push(step('History', 'biopsy-proven malignancy'));
+      return result('6');
+    }
+    if (describes(text, INCOMPLETE)) {
+      working.push(step('Work-up', 'additional imaging needed'));
+      return result('0');
+    }
+
+    const features = SUSPICIOUS_FEATURES.filter(feature => describes(text, feature.pattern));
+    if (features.length > 0) {
+      features.forEach(feature => working.push(step('Suspicious feature', feature.value)));
+      const names = features.map(feature => feature.value);
+      if (names.includes('spiculated margin') && names.includes('irregular shape')) return result('5');
+      // The lexicon leaves the 4A/4B/4C split to the reader; one step per suspicious feature is this assistant's
+      // convention, shown so the reader can overrule it.
+      working.push(step('Subcategory', `${features.length} suspicious feature${features.length === 1 ? '' : 's'}`, 'assistant convention', true));
+      return result(features.length >= 3 ? '4C' : features.length === 2 ? '4B' : '4A');
+    }
+
+    if (describes(text, BENIGN)) {
+      working.push(step('Findings', 'characteristically benign'));
+      return result('2');
+    }
+    if (describes(text, PROBABLY_BENIGN)) {
+      working.push(step('Findings', 'circumscribed oval or round, no suspicious features'));
+      return result('3');
+    }
+    if (NEGATIVE.test(text)) {
+      working.push(step('Findings', 'nothing to comment on'));
+      return result('1');
+    }
+    return null;
+  },
+};
@@ -0,0 +1,74 @@
+import { RadsAssessment, RadsSystem, RadsWorkingStep } from '../../types';
+import { extractMeasurements } from '../measurements';
+
+export interface RadsScorer {
+  system: RadsSystem;
+  // Whether the finding describes a lesion this system classifies. `context` is the report title, which often
+  // names the organ when the finding itself does not.
+  applies: (text: string, context: string) => boolean;
+  // Null when the finding does not describe enough to assign a category.
+  score: (text: string, findingIndex: number) => RadsAssessment | null;
+}
+
+export interface DescriptorOption {
+  value: string;
+  pattern: RegExp;
+  points: number;
+}
+
+const NEGATION = /\b(?:no|not|without|absence of|absent|negative for)\b/i;
+const NEGATION_WINDOW_WORDS = 3;
+// Words that end a negated list: "no washout, but arterial hyperenhancement".
+const LIST_BREAK = /\b(?:but|with|which|however|although|while|whereas|is|are|has|have|shows?|demonstrates?|measuring)\b/i;
+const LIST_ITEM_WORDS = 3;
+
+const lastWords = (text: string, count: number): string => {
+  const words = text.split(/\s+/).filter(word => word !== '');
+  return words.slice(Math.max(words.length - count, 0)).join(' ');
+};
+
+// "No suspicious masses, calcifications or architectural distortion": the negation covers every item of the list.
+const isInNegatedList = (sentence: string): boolean => {
+  const negations = Array.from(sentence.matchAll(new RegExp(NEGATION.source, 'gi')));
+  const last = negations[negations.length - 1];
+  if (!last) return false;
+  const between = sentence.slice((last.index ?? 0) + last[0].length);
+  return !LIST_BREAK.test(between)
+    && between.split(/,|\bor\b|\band\b|\bnor\b/i).every(item => item.trim().split(/\s+/).length <= LIST_ITEM_WORDS);
+};
+
+// Whether the text describes the feature, ignoring "no washout", "without extrathyroidal extension" and the like.
+export const describes = (text: string, pattern: RegExp): boolean => {
+  const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  for (const match of Array.from(text.matchAll(global))) {
+    const sentence = text.slice(0, match.index ?? 0).split(/[.;]/).pop() ?? '';
+    const clause = sentence.split(',').pop() ?? '';
+    if (!NEGATION.test(lastWords(clause, NEGATION_WINDOW_WORDS)) && !isInNegatedList(sentence)) return true;
+  }
+  return false;
+};
+
+// The first option the text describes, in table order; tables list the most specific wording first.
+export const matchDescriptor = (text: string, options: DescriptorOption[]): DescriptorOption | null =>
+  options.find(option => describes(text, option.pattern)) ?? null;
+
+export const pointsLabel = (points: number): string => `${points} point${points === 1 ? '' : 's'}`;
+
+export const step = (descriptor: string, value: string, score?: string, assumed = false): RadsWorkingStep => ({
+  descriptor,
+  value,
+  ...(score !== undefined ? { score } : {}),
+  ...(assumed ? { assumed } : {}),
+});
+
+// Every axis of the first measurement in the text, in mm; empty when nothing was measured.
+export const firstMeasurementMm = (text: string): number[] => extractMeasurements([text])[0]?.axesMm ?? [];
+
+export const largestDimensionMm = (text: string): number | null => {
+  const axes = firstMeasurementMm(text);
+  return axes.length > 0 ? Math.max(...axes) : null;
+};
+
+export const formatMm = (mm: number): string => `${Math.round(mm * 10) / 10} mm`;
+
+export const formatCm = (mm: number): string => `${Math.round(mm) / 10} cm`;
@@ -0,0 +1,97 @@
+import { RadsWorkingStep } from '../../types';
+import { RadsScorer, describes, formatMm, largestDimensionMm, step } from './common';
+
+// ACR CT/MRI LI-RADS v2018. Tumour in vein, LR-M and definitely benign observations are decided first; otherwise
+// the diagnostic table combines arterial phase hyperenhancement (APHE), size and the additional major features.
+
+const TUMOUR_IN_VEIN = /\btumou?r in vein\b|\b(?:enhancing|tumou?r) thromb(?:us|osis)\b/i;
+const LR_M_FEATURES = /\btargetoid\b|\brim (?:arterial phase )?(?:hyper)?enhancement\b|\brim APHE\b|\bperipheral washout\b|\bdelayed central enhancement\b/i;
+const DEFINITELY_BENIGN = /\bsimple (?:hepatic )?cysts?\b|\b(?:typical )?(?:h(?:a)?emangioma)\b|\bfocal fat(?:ty)? (?:deposition|sparing)\b/i;
+const PROBABLY_BENIGN = /\b(?:probable|probably|likely) (?:a |an )?(?:cyst|h(?:a)?emangioma|perfusion alteration)\b|\barterioportal shunt\b/i;
+
+const NONRIM_APHE = /\b(?:non-?rim )?(?:arterial(?: phase)? hyper-?enhanc(?:ement|ing)|APHE|arterial enhancement|hyperenhanc(?:es|ing|ement) in the arterial phase)\b/i;
+const WASHOUT = /\b(?:non-?peripheral )?wash-?out\b/i;
+const CAPSULE = /\b(?:enhancing )?capsule\b/i;
+const THRESHOLD_GROWTH = /\bthreshold growth\b|\bincreased? (?:in size )?by (?:50|more than 50|over 50) ?%/i;
+
+const MANAGEMENT: Record<string, string> = {
+  'LR-1': 'Return to surveillance in 6 months.',
+  'LR-2': 'Return to surveillance in 6 months.',
+  'LR-3': 'Repeat or alternative diagnostic imaging in 3 to 6 months.',
+  'LR-4': 'Multidisciplinary discussion for tailored work-up, which may include biopsy or repeat imaging in 3 months or less.',
+  'LR-5': 'Definitely HCC; multidisciplinary discussion for consensus management. Biopsy is not required.',
+  'LR-M': 'Multidisciplinary discussion for tailored work-up, which often includes biopsy.',
+  'LR-TIV': 'Multidisciplinary discussion for tailored work-up, which may include biopsy.',
+};
+
+const withAphe = (sizeMm: number, features: string[]): string => {
+  if (sizeMm < 10) return features.length === 0 ? 'LR-3' : 'LR-4';
+  if (sizeMm < 20) {
+    if (features.length === 0) return 'LR-3';
+    if (features.length >= 2) return 'LR-5';
+    // With a single feature, a capsule alone gives LR-4 but washout or threshold growth gives LR-5.
+    return features[0] === 'enhancing capsule' ? 'LR-4' : 'LR-5';
+  }
+  return features.length === 0 ? 'LR-4' : 'LR-5';
+};
+
+const withoutAphe = (sizeMm: number, features: string[]): string => {
+  if (features.length >= 2) return 'LR-4';
+  if (features.length === 1) return sizeMm < 20 ? 'LR-3' : 'LR-4';
+  return 'LR-3';
+};
+
+export const liRads: RadsScorer = {
+  system: 'LI-RADS',
+
+  applies: (text, context) =>
+    /\b(?:lesions?|observations?|nodules?|mass(?:es)?)\b/i.test(text)
+    && (/\b(?:liver|hepatic|segment (?:[1-8]|I{1,3}|IV[ab]?|V|VI{1,3}))\b/i.test(text) || /\b(?:liver|hepatic|LI-?RADS|HCC)\b/i.test(context)),
+
+  score: (text, findingIndex) => {
+    const working: RadsWorkingStep[] = [
+      step('Population', 'at risk for HCC', undefined, true),
+    ];
+    const result = (category: string) => ({
+      system: 'LI-RADS' as const,
+      findingIndex,
+      category,
+      working: [...working, step('Category', category)],
+      summary: `LI-RADS v2018 category ${category}.`,
+      management: MANAGEMENT[category],
+    });
+
+    if (describes(text, TUMOUR_IN_VEIN)) {
+      working.push(step('Tumour in vein', 'present'));
+      return result('LR-TIV');
+    }
+    if (describes(text, LR_M_FEATURES)) {
+      working.push(step('LR-M features', 'targetoid appearance or rim enhancement'));
+      return result('LR-M');
+    }
+    if (describes(text, DEFINITELY_BENIGN)) {
+      working.push(step('Benign features', 'definitely benign'));
+      return result('LR-1');
+    }
+    if (describes(text, PROBABLY_BENIGN)) {
+      working.push(step('Benign features', 'probably benign'));
+      return result('LR-2');
+    }
+
+    const sizeMm = largestDimensionMm(text);
+    const aphe = describes(text, NONRIM_APHE);
+    if (sizeMm === null) return null;
+    if (!aphe && !describes(text, WASHOUT) && !describes(text, CAPSULE)) return null;
+
+    working.push(step('Size', formatMm(sizeMm)));
+    working.push(step('Nonrim APHE', aphe ? 'present' : 'absent', undefined, !aphe && !/\bno (?:arterial|APHE)\b/i.test(text)));
+    const features = [
+      { name: 'nonperipheral washout', pattern: WASHOUT },
+      { name: 'enhancing capsule', pattern: CAPSULE },
+      { name: 'threshold growth', pattern: THRESHOLD_GROWTH },
+    ].filter(feature => describes(text, feature.pattern)).map(feature => feature.name);
+    working.push(step('Additional major features', features.length > 0 ? features.join(', ') : 'none', `${features.length}`));
+
+    return result(aphe ? withAphe(sizeMm, features) : withoutAphe(sizeMm, features));
+  },
+};
@@ -0,0 +1,128 @@
+import { RadsWorkingStep } from '../../types';
+import { RadsScorer, describes, firstMeasurementMm, formatMm, step } from './common';
+
+// ACR Lung-RADS v2022 for screening CT: the category follows from the nodule type, its mean diameter (and the solid
+// component of a part-solid nodule), and whether it is new or growing. Suspicious features upgrade 3 and 4 to 4X.
+
+type NoduleType = 'solid' | 'part-solid' | 'ground-glass';
+type Course = 'baseline' | 'new' | 'growing';
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)\\s*(mm|cm)';
+const SOLID_COMPONENT = new RegExp(`${NUMBER}\\s+solid component|solid component (?:measuring |measures |of )?(?:approximately )?${NUMBER}`, 'i');
+
+const noduleTypeFor = (text: string): NoduleType => {
+  if (describes(text, /\bpart[- ]?solid\b|\bsemi-?solid\b|\bmixed (?:solid and )?ground[- ]glass\b/i)) return 'part-solid';
+  if (describes(text, /\b(?:pure )?ground[- ]glass\b|\bnon-?solid\b|\bGGN\b|\bGGO\b/i)) return 'ground-glass';
+  return 'solid';
+};
+
+const courseFor = (text: string): Course => {
+  if (describes(text, /\b(?:growing|enlarging|increased in size|interval (?:growth|increase)|has grown)\b/i)) return 'growing';
+  if (describes(text, /\bnew(?:ly)?\b/i)) return 'new';
+  return 'baseline';
+};
+
+const solidComponentMm = (text: string): number | null => {
+  const match = text.match(SOLID_COMPONENT);
+  if (!match) return null;
+  const value = Number(match[1] ?? match[3]);
+  const unit = (match[2] ?? match[4]).toLowerCase();
+  return unit === 'cm' ? value * 10 : value;
+};
+
+// Lung-RADS uses the mean of the long and short axes, rounded to one decimal place.
+const meanDiameterMm = (axes: number[]): number => {
+  const inPlane = axes.slice(0, 2);
+  return Math.round((inPlane.reduce((sum, axis) => sum + axis, 0) / inPlane.length) * 10) / 10;
+};
+
+const solidCategory = (sizeMm: number, course: Course): string => {
+  if (course === 'growing') return sizeMm < 8 ? '4A' : '4B';
+  if (course === 'new') {
+    if (sizeMm < 4) return '2';
+    if (sizeMm < 6) return '3';
+    return sizeMm < 8 ? '4A' : '4B';
+  }
+  if (sizeMm < 6) return '2';
+  if (sizeMm < 8) return '3';
+  return sizeMm < 15 ? '4A' : '4B';
+};
+
+const partSolidCategory = (sizeMm: number, solidMm: number, course: Course): string => {
+  if (course === 'baseline') {
+    if (sizeMm < 6) return '2';
+    if (solidMm < 6) return '3';
+    return solidMm < 8 ? '4A' : '4B';
+  }
+  if (course === 'new' && sizeMm < 6) return '3';
+  return solidMm < 4 ? '4A' : '4B';
+};
+
+const MANAGEMENT: Record<string, string> = {
+  '1': 'Continue annual screening with LDCT in 12 months.',
+  '2': 'Continue annual screening with LDCT in 12 months.',
+  '3': 'LDCT in 6 months.',
+  '4A': 'LDCT in 3 months; PET/CT may be considered if there is a solid component of 8 mm or more.',
+  '4B': 'Diagnostic chest CT with or without contrast, PET/CT and/or tissue sampling, depending on the probability of malignancy and comorbidities.',
+  '4X': 'Diagnostic chest CT with or without contrast, PET/CT and/or tissue sampling, depending on the probability of malignancy and comorbidities.',
+};
+
+const SUSPICIOUS_FEATURES = /\bspiculat(?:ed|ion)\b|\b(?:new |enlarging )?(?:lymphadenopathy|adenopathy)\b/i;
+
+export const lungRads: RadsScorer = {
+  system: 'Lung-RADS',
+
+  applies: (text, context) =>
+    /\bnodules?\b/i.test(text)
+    && !/\bthyroid\b/i.test(`${text} ${context}`)
+    && (/\b(?:lung|pulmonary|lobe|lingula|perifissural|subpleural|juxtapleural)\b/i.test(text) || /\b(?:chest|thorax|thoracic|lung|ldct)\b/i.test(context)),
+
+  score: (text, findingIndex) => {
+    const axes = firstMeasurementMm(text);
+    if (axes.length === 0) return null;
+
+    const working: RadsWorkingStep[] = [];
+    const sizeMm = meanDiameterMm(axes);
+    const course = courseFor(text);
+    working.push(step('Mean diameter', formatMm(sizeMm), axes.length > 1 ? `mean of ${axes.slice(0, 2).map(formatMm).join(' and ')}` : undefined));
+    working.push(step('Course', course === 'baseline' ? 'baseline or stable' : course, undefined, course === 'baseline' && !/\b(?:stable|unchanged|baseline)\b/i.test(text)));
+
+    let category: string;
+    if (describes(text, /\b(?:calcified|calcification|fat[- ]containing|contains? (?:macroscopic )?fat)\b/i)) {
+      working.push(step('Benign features', 'calcified or fat-containing'));
+      category = '1';
+    } else if (describes(text, /\b(?:perifissural|juxtapleural|subpleural)\b/i) && sizeMm < 10 && noduleTypeFor(text) === 'solid') {
+      working.push(step('Nodule type', 'juxtapleural or perifissural solid nodule under 10 mm'));
+      category = '2';
+    } else {
+      const type = noduleTypeFor(text);
+      working.push(step('Nodule type', type, undefined, type === 'solid' && !/\bsolid\b/i.test(text)));
+      if (type === 'ground-glass') {
+        category = sizeMm < 30 ? '2' : '3';
+      } else if (type === 'part-solid') {
+        const solidMm = solidComponentMm(text);
+        working.push(solidMm === null
+          ? step('Solid component', 'not measured; taken as the whole nodule', undefined, true)
+          : step('Solid component', formatMm(solidMm)));
+        category = partSolidCategory(sizeMm, solidMm ?? sizeMm, course);
+      } else {
+        category = solidCategory(sizeMm, course);
+      }
+
+      if (['3', '4A', '4B'].includes(category) && describes(text, SUSPICIOUS_FEATURES)) {
+        working.push(step('Additional features', 'spiculation or lymphadenopathy', 'upgrades to 4X'));
+        category = '4X';
+      }
+    }
+    working.push(step('Category', `Lung-RADS ${category}`));
+
+    return {
+      system: 'Lung-RADS',
+      findingIndex,
+      category,
+      working,
+      summary: `Lung-RADS v2022 category ${category}.`,
+      management: MANAGEMENT[category],
+    };
+  },
+};
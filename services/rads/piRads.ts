@@ -0,0 +1,118 @@
+import { RadsWorkingStep } from '../../types';
+import { RadsScorer, describes, formatMm, largestDimensionMm, step } from './common';
+
+// PI-RADS v2.1. The dominant sequence depends on the zone: diffusion in the peripheral zone, upgraded from 3 to 4
+// by positive contrast enhancement; T2 in the transition zone, upgraded by a high diffusion score. Scores written
+// in the finding are used as they are; otherwise they are derived from the usual descriptors.
+
+type Zone = 'peripheral' | 'transition';
+
+const LARGE_LESION_MM = 15;
+const EXTRAPROSTATIC = /\bextra-?prostatic extension\b|\bEPE\b|\binvasi(?:on|ve) (?:of|into) (?:the )?(?:seminal vesicles?|bladder|rectum)\b/i;
+
+const zoneFor = (text: string): Zone | null => {
+  if (/\bperipheral zone\b|\bPZ\b/i.test(text)) return 'peripheral';
+  if (/\b(?:transition(?:al)? zone|TZ|central gland|anterior fibromuscular stroma)\b/i.test(text)) return 'transition';
+  return null;
+};
+
+const writtenScore = (text: string, sequence: RegExp): number | null => {
+  const match = text.match(new RegExp(`\\b(?:${sequence.source})\\s*(?:score\\s*)?(?:of\\s*|[:=]\\s*)?([1-5])(?:\\s*/\\s*5)?\\b`, 'i'));
+  return match ? Number(match[1]) : null;
+};
+
+const isLargeOrInvasive = (text: string): boolean => {
+  const sizeMm = largestDimensionMm(text);
+  return (sizeMm !== null && sizeMm >= LARGE_LESION_MM) || describes(text, EXTRAPROSTATIC);
+};
+
+const derivedDwiScore = (text: string): number | null => {
+  if (describes(text, /\b(?:marked(?:ly)?|focal(?:ly)? marked) (?:diffusion )?restrict(?:ion|ed|s)\b|\bmarkedly hypointense on ADC\b/i)) {
+    return isLargeOrInvasive(text) ? 5 : 4;
+  }
+  if (describes(text, /\b(?:mild|moderate|mild to moderate)(?:ly)? (?:diffusion )?restrict(?:ion|ed|s)\b|\bmildly hypointense on ADC\b/i)) return 3;
+  if (describes(text, /\brestrict(?:ed|s|ing) diffusion\b|\b(?:diffusion )?restriction\b/i)) return isLargeOrInvasive(text) ? 5 : 4;
+  if (/\bno (?:diffusion )?restriction\b|\bdoes not restrict\b/i.test(text)) return 1;
+  return null;
+};
+
+const derivedT2Score = (text: string): number | null => {
+  if (describes(text, /\blenticular\b|\berased[- ]charcoal\b|\bhomogeneous(?:ly)? moderately hypointense\b/i)) {
+    return isLargeOrInvasive(text) ? 5 : 4;
+  }
+  if (describes(text, /\bheterogeneous\b.*\bobscured margins?\b|\bobscured margins?\b/i)) return 3;
+  if (describes(text, /\b(?:mostly|partially) encapsulated\b|\batypical (?:BPH )?nodule\b/i)) return 2;
+  if (describes(text, /\b(?:completely )?encapsulated\b|\btypical (?:BPH )?nodule\b/i)) return 1;
+  return null;
+};
+
+const dcePositive = (text: string): boolean | null => {
+  const written = text.match(/\bDCE\s*(?:is\s*)?(positive|negative|\+|-)/i);
+  if (written) return /positive|\+/i.test(written[1]);
+  if (describes(text, /\b(?:early|focal) (?:arterial )?enhancement\b/i)) return true;
+  return null;
+};
+
+const MANAGEMENT: Record<number, string> = {
+  1: 'Clinically significant cancer is highly unlikely.',
+  2: 'Clinically significant cancer is unlikely.',
+  3: 'The presence of clinically significant cancer is equivocal; biopsy may be considered in light of PSA density and clinical risk.',
+  4: 'Clinically significant cancer is likely; targeted biopsy is recommended.',
+  5: 'Clinically significant cancer is highly likely; targeted biopsy is recommended.',
+};
+
+export const piRads: RadsScorer = {
+  system: 'PI-RADS',
+
+  applies: (text, context) =>
+    /\b(?:lesions?|focus|foci|nodules?|areas?|zone|PZ|TZ)\b/i.test(text) && /\bprostat/i.test(`${text} ${context}`),
+
+  score: (text, findingIndex) => {
+    const zone = zoneFor(text);
+    if (!zone) return null;
+
+    const working: RadsWorkingStep[] = [step('Zone', zone === 'peripheral' ? 'peripheral zone' : 'transition zone')];
+    const sizeMm = largestDimensionMm(text);
+    if (sizeMm !== null) working.push(step('Size', formatMm(sizeMm)));
+
+    const dwiWritten = writtenScore(text, /DWI|diffusion|ADC/);
+    const dwi = dwiWritten ?? derivedDwiScore(text);
+    if (dwi !== null) working.push(step('DWI score', `${dwi}`, dwiWritten !== null ? 'as reported' : 'from descriptors'));
+
+    let score: number;
+    if (zone === 'peripheral') {
+      if (dwi === null) return null;
+      score = dwi;
+      if (dwi === 3) {
+        const dce = dcePositive(text);
+        working.push(step('DCE', dce ? 'positive' : 'negative', dce ? 'upgrades 3 to 4' : undefined, dce === null));
+        if (dce) score = 4;
+      }
+    } else {
+      const t2Written = writtenScore(text, /T2W?I?|T2-weighted/);
+      const t2 = t2Written ?? derivedT2Score(text);
+      if (t2 === null) return null;
+      working.push(step('T2 score', `${t2}`, t2Written !== null ? 'as reported' : 'from descriptors'));
+      score = t2;
+      if (t2 === 2 && dwi !== null && dwi >= 4) {
+        working.push(step('Upgrade', 'DWI 4 or 5', 'upgrades 2 to 3'));
+        score = 3;
+      } else if (t2 === 3 && dwi === 5) {
+        working.push(step('Upgrade', 'DWI 5', 'upgrades 3 to 4'));
+        score = 4;
+      } else if (dwi === null) {
+        working.push(step('DWI score', 'not described', undefined, true));
+      }
+    }
+    working.push(step('Category', `PI-RADS ${score}`));
+
+    return {
+      system: 'PI-RADS',
+      findingIndex,
+      category: `${score}`,
+      working,
+      summary: `PI-RADS v2.1 category ${score}.`,
+      management: MANAGEMENT[score],
+    };
+  },
+};
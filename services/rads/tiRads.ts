@@ -0,0 +1,130 @@
+import { RadsWorkingStep } from '../../types';
+import { DescriptorOption, RadsScorer, describes, formatCm, largestDimensionMm, matchDescriptor, pointsLabel, step } from './common';
+
+// ACR TI-RADS (2017): points from five feature categories; the total gives TR1-TR5, and the TR level with the
+// nodule's largest dimension decides between FNA, follow-up and nothing.
+
+const COMPOSITION: DescriptorOption[] = [
+  { value: 'spongiform', pattern: /\bspongiform\b/i, points: 0 },
+  { value: 'mixed cystic and solid', pattern: /\bmixed\b|\b(?:cystic and solid|solid and cystic|partly cystic|partially cystic|predominantly solid with cystic)\b|\bcomplex\b/i, points: 1 },
+  { value: 'solid or almost completely solid', pattern: /\b(?:almost completely |predominantly |entirely )?solid\b/i, points: 2 },
+  { value: 'cystic or almost completely cystic', pattern: /\b(?:almost completely |purely |entirely )?cystic\b|\bcolloid cyst\b/i, points: 0 },
+];
+
+const ECHOGENICITY: DescriptorOption[] = [
+  { value: 'very hypoechoic', pattern: /\b(?:very|markedly) hypoechoic\b/i, points: 3 },
+  { value: 'hypoechoic', pattern: /\bhypoechoic\b/i, points: 2 },
+  { value: 'hyperechoic or isoechoic', pattern: /\b(?:hyper|iso)echoic\b/i, points: 1 },
+  { value: 'anechoic', pattern: /\banechoic\b/i, points: 0 },
+];
+
+const SHAPE: DescriptorOption[] = [
+  { value: 'taller-than-wide', pattern: /\btaller[- ]than[- ]wide\b/i, points: 3 },
+  { value: 'wider-than-tall', pattern: /\bwider[- ]than[- ]tall\b/i, points: 0 },
+];
+
+const MARGIN: DescriptorOption[] = [
+  { value: 'extrathyroidal extension', pattern: /\bextra-?thyroidal extension\b/i, points: 3 },
+  { value: 'lobulated or irregular', pattern: /\b(?:micro)?lobulated\b|\birregular\b|\bspiculated\b/i, points: 2 },
+  { value: 'ill-defined', pattern: /\bill[- ]defined\b/i, points: 0 },
+  { value: 'smooth', pattern: /\bsmooth\b|\bwell[- ]defined\b|\bcircumscribed\b/i, points: 0 },
+];
+
+// Echogenic foci are the one additive category.
+const ECHOGENIC_FOCI: DescriptorOption[] = [
+  { value: 'punctate echogenic foci', pattern: /\bpunctate echogenic foci\b|\bmicro-?calcifications?\b/i, points: 3 },
+  { value: 'peripheral (rim) calcifications', pattern: /\b(?:peripheral|rim|eggshell) calcifications?\b/i, points: 2 },
+  { value: 'macrocalcifications', pattern: /\bmacro-?calcifications?\b|\bcoarse calcifications?\b/i, points: 1 },
+  { value: 'large comet-tail artifacts', pattern: /\bcomet[- ]tail\b/i, points: 0 },
+];
+
+const levelFor = (points: number): number => {
+  if (points >= 7) return 5;
+  if (points >= 4) return 4;
+  if (points === 3) return 3;
+  if (points === 2) return 2;
+  return 1;
+};
+
+// [FNA from, follow-up from] in mm, and the follow-up schedule.
+const SIZE_THRESHOLDS: Record<number, { fnaMm: number; followUpMm: number; schedule: string }> = {
+  3: { fnaMm: 25, followUpMm: 15, schedule: 'at 1, 3 and 5 years' },
+  4: { fnaMm: 15, followUpMm: 10, schedule: 'at 1, 2, 3 and 5 years' },
+  5: { fnaMm: 10, followUpMm: 5, schedule: 'every year for up to 5 years' },
+};
+
+const managementFor = (level: number, sizeMm: number | null): string => {
+  const thresholds = SIZE_THRESHOLDS[level];
+  if (!thresholds) return 'No FNA is needed.';
+  const { fnaMm, followUpMm, schedule } = thresholds;
+  if (sizeMm === null) {
+    return `FNA if ${formatCm(fnaMm)} or larger; ultrasound follow-up ${schedule} if ${formatCm(followUpMm)} or larger.`;
+  }
+  if (sizeMm >= fnaMm) return `FNA is recommended (TR${level} nodule of ${formatCm(fnaMm)} or larger).`;
+  if (sizeMm >= followUpMm) return `Ultrasound follow-up ${schedule} is recommended (TR${level} nodule of ${formatCm(followUpMm)} or larger).`;
+  return `No FNA or follow-up is needed (TR${level} nodule smaller than ${formatCm(followUpMm)}).`;
+};
+
+export const tiRads: RadsScorer = {
+  system: 'TI-RADS',
+
+  applies: (text, context) => /\bnodules?\b/i.test(text) && /\bthyroid\b/i.test(`${text} ${context}`),
+
+  score: (text, findingIndex) => {
+    const working: RadsWorkingStep[] = [];
+    let points = 0;
+
+    const composition = matchDescriptor(text, COMPOSITION);
+    if (composition) {
+      working.push(step('Composition', composition.value, pointsLabel(composition.points)));
+      points += composition.points;
+    } else {
+      working.push(step('Composition', 'not described', pointsLabel(0), true));
+    }
+
+    if (composition?.value === 'spongiform') {
+      // The rules add no further points to a spongiform nodule.
+      working.push(step('Other features', 'not scored for a spongiform nodule'));
+    } else {
+      const echogenicity = matchDescriptor(text, ECHOGENICITY);
+      // ACR scores echogenicity that cannot be determined as 1 point.
+      working.push(echogenicity
+        ? step('Echogenicity', echogenicity.value, pointsLabel(echogenicity.points))
+        : step('Echogenicity', 'cannot be determined', pointsLabel(1), true));
+      points += echogenicity ? echogenicity.points : 1;
+
+      const shape = matchDescriptor(text, SHAPE);
+      working.push(shape ? step('Shape', shape.value, pointsLabel(shape.points)) : step('Shape', 'wider-than-tall', pointsLabel(0), true));
+      points += shape?.points ?? 0;
+
+      const margin = matchDescriptor(text, MARGIN);
+      working.push(margin ? step('Margin', margin.value, pointsLabel(margin.points)) : step('Margin', 'cannot be determined', pointsLabel(0), true));
+      points += margin?.points ?? 0;
+
+      const foci = ECHOGENIC_FOCI.filter(option => describes(text, option.pattern));
+      if (foci.length === 0) {
+        working.push(step('Echogenic foci', 'none', pointsLabel(0), !/\bno (?:echogenic foci|calcifications?|microcalcifications?)\b/i.test(text)));
+      }
+      foci.forEach(option => {
+        working.push(step('Echogenic foci', option.value, pointsLabel(option.points)));
+        points += option.points;
+      });
+    }
+
+    const level = levelFor(points);
+    const sizeMm = largestDimensionMm(text);
+    working.push(sizeMm === null
+      ? step('Largest dimension', 'not measured', undefined, true)
+      : step('Largest dimension', formatCm(sizeMm)));
+    working.push(step('Total', pointsLabel(points), `TR${level}`));
+
+    return {
+      system: 'TI-RADS',
+      findingIndex,
+      category: `TR${level}`,
+      working,
+      summary: `ACR TI-RADS TR${level} (${pointsLabel(points)}).`,
+      management: managementFor(level, sizeMm),
+    };
+  },
+};
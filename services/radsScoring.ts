@@ -0,0 +1,45 @@
+import { RadsAssessment, RadsSystem } from '../types';
+import { findingToPlainText, parseReportLine } from './reportModel';
+import { RadsScorer } from './rads/common';
+import { biRads } from './rads/biRads';
+import { tiRads } from './rads/tiRads';
+import { liRads } from './rads/liRads';
+import { lungRads } from './rads/lungRads';
+import { piRads } from './rads/piRads';
+
+const SCORERS: RadsScorer[] = [biRads, tiRads, liRads, lungRads, piRads];
+
+export interface RadsResult {
+  system: RadsSystem;
+  // Null when the finding is in scope but does not describe enough to assign a category.
+  assessment: RadsAssessment | null;
+}
+
+// The title and technique usually name the organ and modality that a finding leaves out.
+export const reportContext = (findings: string[]): string =>
+  findings
+    .map(parseReportLine)
+    .flatMap(line => (line.kind === 'title' || line.kind === 'technique' ? [line.text] : []))
+    .join(' ');
+
+const scorableText = (finding: string): string | null => {
+  const line = parseReportLine(finding);
+  return line.kind === 'finding' || line.kind === 'section' ? findingToPlainText(finding) : null;
+};
+
+export const radsSystemsFor = (finding: string, context: string): RadsSystem[] => {
+  const text = scorableText(finding);
+  return text === null ? [] : SCORERS.filter(scorer => scorer.applies(text, context)).map(scorer => scorer.system);
+};
+
+export const scoreFinding = (findings: string[], index: number): RadsResult[] => {
+  const text = scorableText(findings[index] ?? '');
+  if (text === null) return [];
+  const context = reportContext(findings);
+  return SCORERS
+    .filter(scorer => scorer.applies(text, context))
+    .map(scorer => ({ system: scorer.system, assessment: scorer.score(text, index) }));
+};
+
+// What goes into the report: the category followed by the management it implies.
+export const radsSentence = (assessment: RadsAssessment): string => `${assessment.summary} ${assessment.management}`;
@@ -0,0 +1,10 @@
+import { IdentifiedError } from '../types';
+import { checkLaterality } from './lateralityCheck';
+import { checkMeasurements } from './measurements';
+
+// Rule-based checks that run on every report, whether or not the AI error check is on. Their results are
+// shown in the same list as the AI's.
+export const checkReport = (findings: string[]): IdentifiedError[] => [
+  ...checkLaterality(findings),
+  ...checkMeasurements(findings),
+];
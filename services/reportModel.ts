@@ -0,0 +1,297 @@
+import { ReportDocument, ReportEmphasis, ReportLine } from '../types';
+
+// Findings travel as strings (the AI returns them, and saved sessions store them). These markers
+// give each string its meaning; this module is the only place that reads or writes them.
+const BOLD_PREFIX = 'BOLD::';
+const TITLE_PREFIX = 'TITLE::';
+const TECHNIQUE_PREFIX = 'TECHNIQUE::';
+const POINT_DELIMITER = '###';
+const CLINICAL_PROFILE_LABEL = 'Clinical Profile:';
+export const IMPRESSION_HEADING = 'IMPRESSION:';
+export const RECOMMENDATIONS_HEADING = 'RECOMMENDATIONS:';
+// Outermost marker on lines produced by a dictation macro: MACRO[<expansion id>:<URI-encoded spoken line>]::
+const MACRO_MARKER = /^MACRO\[([a-z0-9-]+):([^\]]*)\]::/;
+
+// Older reports stored titles as bare all-caps lines such as "C.T.SCAN OF BRAIN (PLAIN)". Only the
+// first line is read this way; later all-caps lines ("NO ACUTE INTRACRANIAL ABNORMALITY") are findings.
+const looksLikeLegacyTitle = (text: string): boolean =>
+  text.length > 0 &&
+  text.length <= 80 &&
+  /[A-Z]/.test(text) &&
+  !/[a-z]/.test(text) &&
+  !text.includes(':') &&
+  !text.endsWith('.');
+
+const splitPoints = (parts: string[]) => parts.map(p => p.trim()).filter(p => p !== '');
+
+const parseLineBody = (raw: string, isFirstLine: boolean): ReportLine => {
+  const isBold = raw.startsWith(BOLD_PREFIX);
+  const text = isBold ? raw.substring(BOLD_PREFIX.length) : raw;
+  const emphasis: ReportEmphasis = isBold ? 'bold' : 'none';
+
+  if (text.startsWith(TITLE_PREFIX)) {
+    return { kind: 'title', text: text.substring(TITLE_PREFIX.length).trim() };
+  }
+  if (text.startsWith(TECHNIQUE_PREFIX)) {
+    return { kind: 'technique', text: text.substring(TECHNIQUE_PREFIX.length).trim() };
+  }
+
+  const parts = text.split(POINT_DELIMITER);
+  if (parts.length > 1 && parts[0].trim() !== '') {
+    const heading = parts[0].trim();
+    const points = splitPoints(parts.slice(1));
+    if (/^IMPRESSIONS?:?$/i.test(heading)) return { kind: 'impression', points };
+    if (/^RECOMMENDATIONS?:?$/i.test(heading)) return { kind: 'recommendations', points };
+    return { kind: 'section', heading, points, emphasis };
+  }
+
+  const trimmed = text.trim();
+  if (trimmed.length > 1 && trimmed.startsWith('*') && trimmed.endsWith('*')) {
+    const inner = trimmed.slice(1, -1).trim();
+    if (inner.toLowerCase().startsWith(CLINICAL_PROFILE_LABEL.toLowerCase())) {
+      return { kind: 'clinicalProfile', text: inner.substring(CLINICAL_PROFILE_LABEL.length).trim() };
+    }
+    return { kind: 'finding', text: inner, emphasis: 'italic' };
+  }
+  if (/^technique:/i.test(trimmed)) {
+    return { kind: 'technique', text: trimmed };
+  }
+  if (/^recommendations?:/i.test(trimmed)) {
+    return { kind: 'recommendations', points: splitPoints([trimmed.replace(/^recommendations?:/i, '')]) };
+  }
+  if (isFirstLine && !isBold && looksLikeLegacyTitle(trimmed)) {
+    return { kind: 'title', text: trimmed };
+  }
+  return { kind: 'finding', text, emphasis };
+};
+
+// `index` is the line's position in the report, when known; it only matters for legacy titles.
+export const parseReportLine = (raw: string, index?: number): ReportLine => {
+  const match = raw.match(MACRO_MARKER);
+  if (match) {
+    try {
+      const spoken = decodeURIComponent(match[2]);
+      return { ...parseLineBody(raw.substring(match[0].length), index === 0), macro: { expansionId: match[1], spoken } };
+    } catch {
+      // A malformed marker is left in the text rather than dropping what follows it.
+    }
+  }
+  return parseLineBody(raw, index === 0);
+};
+
+const serializeLineBody = (line: ReportLine): string => {
+  switch (line.kind) {
+    case 'title':
+      return `${TITLE_PREFIX}${line.text}`;
+    case 'clinicalProfile':
+      return `*${CLINICAL_PROFILE_LABEL}${line.text ? ` ${line.text}` : ''}*`;
+    case 'technique':
+      return `${TECHNIQUE_PREFIX}${line.text}`;
+    case 'finding':
+      if (line.emphasis === 'italic') return `*${line.text}*`;
+      return line.emphasis === 'bold' ? `${BOLD_PREFIX}${line.text}` : line.text;
+    case 'section': {
+      const encoded = [line.heading, ...line.points].join(POINT_DELIMITER);
+      return line.emphasis === 'bold' ? `${BOLD_PREFIX}${encoded}` : encoded;
+    }
+    case 'impression':
+      return [IMPRESSION_HEADING, ...line.points].join(POINT_DELIMITER);
+    case 'recommendations':
+      return [RECOMMENDATIONS_HEADING, ...line.points].join(POINT_DELIMITER);
+  }
+};
+
+export const serializeReportLine = (line: ReportLine): string => {
+  const body = serializeLineBody(line);
+  return line.macro ? `MACRO[${line.macro.expansionId}:${encodeURIComponent(line.macro.spoken)}]::${body}` : body;
+};
+
+export const isImpressionLine = (raw: string): boolean => parseReportLine(raw).kind === 'impression';
+
+export const parseReport = (findings: string[]): ReportDocument => {
+  const document: ReportDocument = {
+    title: null,
+    clinicalProfile: null,
+    technique: null,
+    findings: [],
+    impression: [],
+    recommendations: [],
+  };
+
+  findings.forEach((raw, index) => {
+    const line = parseReportLine(raw, index);
+    switch (line.kind) {
+      case 'title':
+        if (document.title === null) document.title = line.text;
+        else document.findings.push({ text: line.text, emphasis: 'none' });
+        break;
+      case 'clinicalProfile':
+        document.clinicalProfile = document.clinicalProfile ? `${document.clinicalProfile} ${line.text}` : line.text;
+        break;
+      case 'technique':
+        document.technique = document.technique ? `${document.technique} ${line.text}` : line.text;
+        break;
+      case 'finding':
+        document.findings.push({ text: line.text, emphasis: line.emphasis });
+        break;
+      case 'section':
+        document.findings.push({ text: line.heading, emphasis: line.emphasis, points: line.points });
+        break;
+      case 'impression':
+        document.impression.push(...line.points);
+        break;
+      case 'recommendations':
+        document.recommendations.push(...line.points);
+        break;
+    }
+  });
+  return document;
+};
+
+// Writes the canonical order the template prompt asks for: title, clinical profile, technique, findings, impression.
+export const serializeReport = (document: ReportDocument): string[] => {
+  const lines: ReportLine[] = [];
+  if (document.title !== null) lines.push({ kind: 'title', text: document.title });
+  if (document.clinicalProfile !== null) lines.push({ kind: 'clinicalProfile', text: document.clinicalProfile });
+  if (document.technique !== null) lines.push({ kind: 'technique', text: document.technique });
+  for (const finding of document.findings) {
+    lines.push(finding.points
+      ? { kind: 'section', heading: finding.text, points: finding.points, emphasis: finding.emphasis }
+      : { kind: 'finding', text: finding.text, emphasis: finding.emphasis });
+  }
+  if (document.impression.length > 0) lines.push({ kind: 'impression', points: document.impression });
+  if (document.recommendations.length > 0) lines.push({ kind: 'recommendations', points: document.recommendations });
+  return lines.map(serializeReportLine);
+};
+
+// --- Rendering ---
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const emphasize = (html: string, emphasis: ReportEmphasis) =>
+  emphasis === 'bold' ? `<strong>${html}</strong>` : emphasis === 'italic' ? `<em>${html}</em>` : html;
+
+export const reportLineToPlainText = (line: ReportLine): string => {
+  switch (line.kind) {
+    case 'title':
+    case 'technique':
+    case 'finding':
+      return line.text;
+    case 'clinicalProfile':
+      return `${CLINICAL_PROFILE_LABEL} ${line.text}`.trim();
+    case 'section':
+      return [line.heading, ...line.points].join('\n');
+    case 'impression':
+      return `${IMPRESSION_HEADING}\n${line.points.map(p => `• ${p}`).join('\n')}`;
+    case 'recommendations':
+      return `${RECOMMENDATIONS_HEADING}\n${line.points.map(p => `• ${p}`).join('\n')}`;
+  }
+};
+
+// HTML fragment suitable for rich-text clipboard content and exported documents.
+export const reportLineToHtml = (line: ReportLine): string => {
+  switch (line.kind) {
+    case 'title':
+      return `<p style="text-align:center;"><strong><u>${escapeHtml(line.text)}</u></strong></p>`;
+    case 'clinicalProfile':
+      return `<p><em>${escapeHtml(reportLineToPlainText(line))}</em></p>`;
+    case 'technique':
+      return `<p>${escapeHtml(line.text)}</p>`;
+    case 'finding':
+      return `<p>${emphasize(escapeHtml(line.text), line.emphasis)}</p>`;
+    case 'section':
+      return [line.heading, ...line.points].map(p => `<p>${emphasize(escapeHtml(p), line.emphasis)}</p>`).join('');
+    case 'impression':
+      return `<p><strong style="text-decoration: underline;">${IMPRESSION_HEADING}</strong></p><ul>${line.points.map(p => `<li><strong>${escapeHtml(p)}</strong></li>`).join('')}</ul>`;
+    case 'recommendations':
+      return `<p><strong style="text-decoration: underline;">${RECOMMENDATIONS_HEADING}</strong></p><ul>${line.points.map(p => `<li>${escapeHtml(p)}</li>`).join('')}</ul>`;
+  }
+};
+
+export const findingToPlainText = (raw: string): string => reportLineToPlainText(parseReportLine(raw));
+
+export const findingToHtml = (raw: string): string => reportLineToHtml(parseReportLine(raw));
+
+// --- Editing ---
+
+// Text shown in the inline editor: list-style lines put one point per row and drop their fixed heading.
+export const reportLineToEditableText = (line: ReportLine): string => {
+  switch (line.kind) {
+    case 'section':
+      return [line.heading, ...line.points].join('\n');
+    case 'impression':
+    case 'recommendations':
+      return line.points.join('\n');
+    default:
+      return line.text;
+  }
+};
+
+// Applies edited text to a line, keeping its kind and emphasis, and returns the stored string.
+export const applyEditedText = (raw: string, editedText: string): string => {
+  const line = parseReportLine(raw);
+  const rows = editedText.split('\n').map(r => r.trim()).filter(r => r !== '');
+  switch (line.kind) {
+    case 'section':
+      return serializeReportLine({ ...line, heading: rows[0] ?? '', points: rows.slice(1) });
+    case 'impression':
+    case 'recommendations':
+      return serializeReportLine({ ...line, points: rows });
+    default:
+      return serializeReportLine({ ...line, text: editedText });
+  }
+};
+
+// Appends newly dictated text to a line without disturbing its markers.
+export const appendToFinding = (raw: string, addition: string): string => {
+  const trimmedAddition = addition.trim();
+  if (!trimmedAddition) return raw;
+  const line = parseReportLine(raw);
+  if ('points' in line) {
+    return serializeReportLine({ ...line, points: [...line.points, trimmedAddition] });
+  }
+  const separator = line.text.trim().length > 0 && !line.text.endsWith(' ') ? ' ' : '';
+  return serializeReportLine({ ...line, text: line.text + separator + trimmedAddition });
+};
+
+// Adds a point to the last impression line, or starts an impression (before any recommendations) if there is none.
+export const addImpressionPoint = (findings: string[], point: string): string[] => {
+  const trimmedPoint = point.trim();
+  if (!trimmedPoint) return findings;
+  const impressionIndex = findings.map(isImpressionLine).lastIndexOf(true);
+  if (impressionIndex !== -1) {
+    return findings.map((finding, index) => (index === impressionIndex ? appendToFinding(finding, trimmedPoint) : finding));
+  }
+  const recommendationsIndex = findings.findIndex(finding => parseReportLine(finding).kind === 'recommendations');
+  const at = recommendationsIndex === -1 ? findings.length : recommendationsIndex;
+  return [...findings.slice(0, at), serializeReportLine({ kind: 'impression', points: [trimmedPoint] }), ...findings.slice(at)];
+};
+
+// Merges `source` into `target`; the result keeps the target's kind and emphasis.
+export const mergeFindings = (target: string, source: string): string => {
+  const sourceLine = parseReportLine(source);
+  const sourceText = 'text' in sourceLine ? sourceLine.text : reportLineToEditableText(sourceLine).split('\n').join(' ');
+  const targetLine = parseReportLine(target);
+  if ('points' in targetLine) {
+    return serializeReportLine({ ...targetLine, points: [...targetLine.points, sourceText] });
+  }
+  return serializeReportLine({ ...targetLine, text: `${targetLine.text} ${sourceText}` });
+};
+
+// Rewrites every piece of report text in a line while leaving its markers alone.
+export const mapReportLineText = (line: ReportLine, transform: (text: string) => string): ReportLine => {
+  switch (line.kind) {
+    case 'section':
+      return { ...line, heading: transform(line.heading), points: line.points.map(transform) };
+    case 'impression':
+    case 'recommendations':
+      return { ...line, points: line.points.map(transform) };
+    default:
+      return { ...line, text: transform(line.text) };
+  }
+};
@@ -0,0 +1,110 @@
+import { ReportVersion, ReportVersionSource } from '../types';
+import { AUDIT_ACTION_LABELS } from './auditLog';
+import { findingToPlainText } from './reportModel';
+
+// The first version is always kept; beyond this the oldest later ones are dropped.
+export const MAX_REPORT_VERSIONS = 50;
+
+export const VERSION_SOURCE_LABELS: Record<ReportVersionSource, string> = {
+  ...AUDIT_ACTION_LABELS,
+  dictation: 'Processed',
+  reprocess: 'Reprocessed',
+  live: 'Live dictation',
+  fhirImport: 'Imported from FHIR',
+};
+
+export const createReportVersion = (findings: string[], source: ReportVersionSource, model?: string): ReportVersion => ({
+  id: `version-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  at: Date.now(),
+  source,
+  ...(model ? { model } : {}),
+  findings,
+});
+
+// Adds a version unless the findings are the same as the latest one.
+export const appendReportVersion = (versions: ReportVersion[], findings: string[], source: ReportVersionSource, model?: string): ReportVersion[] => {
+  const latest = versions[versions.length - 1];
+  if (latest && JSON.stringify(latest.findings) === JSON.stringify(findings)) return versions;
+  const next = [...versions, createReportVersion(findings, source, model)];
+  return next.length > MAX_REPORT_VERSIONS ? [next[0], ...next.slice(next.length - MAX_REPORT_VERSIONS + 1)] : next;
+};
+
+export const versionText = (version: ReportVersion): string => version.findings.map(findingToPlainText).join('\n');
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Beyond this many token comparisons the changed middle is shown as one removal and one addition.
+const MAX_DIFF_CELLS = 4000000;
+
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) ?? [];
+
+const pushPart = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+// Word-level diff (longest common subsequence over words and whitespace runs). Tokens with the same `key`
+// count as unchanged; unchanged parts carry the text of `after`.
+export const diffWords = (before: string, after: string, key: (token: string) => string = token => token): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const keysA = a.map(key);
+  const keysB = b.map(key);
+  let start = 0;
+  while (start < a.length && start < b.length && keysA[start] === keysB[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && keysA[endA - 1] === keysB[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, 'same', b.slice(0, start).join(''));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const midKeysA = keysA.slice(start, endA);
+  const midKeysB = keysB.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    pushPart(parts, 'removed', midA.join(''));
+    pushPart(parts, 'added', midB.join(''));
+  } else {
+    // lengths[i][j] is the LCS length of midA[i..] and midB[j..], stored row by row.
+    const width = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = midKeysA[i] === midKeysB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midKeysA[i] === midKeysB[j]) {
+        pushPart(parts, 'same', midB[j]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        pushPart(parts, 'removed', midA[i++]);
+      } else {
+        pushPart(parts, 'added', midB[j++]);
+      }
+    }
+    pushPart(parts, 'removed', midA.slice(i).join(''));
+    pushPart(parts, 'added', midB.slice(j).join(''));
+  }
+
+  pushPart(parts, 'same', b.slice(endB).join(''));
+  return parts;
+};
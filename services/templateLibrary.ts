@@ -0,0 +1,158 @@
+import { REPORT_TEMPLATES, ReportTemplate } from '../constants';
+import { parseReportLine, serializeReportLine } from './reportModel';
+
+export const TEMPLATE_LIBRARY_KEY = 'report_template_library';
+const TEMPLATE_EXPORT_VERSION = 1;
+
+// Editable view of a template's stringified JSON content.
+export interface TemplateContent {
+  title: string;
+  technique: string;
+  normalFindings: string[];
+  defaultImpression: string[];
+}
+
+// The library starts out as the built-in templates; once saved, the stored copy is authoritative.
+export const loadTemplates = (): ReportTemplate[] => {
+  try {
+    const saved = localStorage.getItem(TEMPLATE_LIBRARY_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        return parsed.filter(isReportTemplate);
+      }
+    }
+  } catch (e) {
+    console.error("Failed to load template library:", e);
+  }
+  return REPORT_TEMPLATES.map(t => ({ ...t }));
+};
+
+export const saveTemplates = (templates: ReportTemplate[]) => {
+  localStorage.setItem(TEMPLATE_LIBRARY_KEY, JSON.stringify(templates));
+};
+
+export const createTemplateId = (): string => `tpl-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isReportTemplate = (value: unknown): value is ReportTemplate =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.content === 'string';
+
+export const parseTemplateContent = (content: string): TemplateContent => {
+  try {
+    const parsed = JSON.parse(content);
+    const impression = typeof parsed.default_impression === 'string' ? parseReportLine(parsed.default_impression) : null;
+    return {
+      title: typeof parsed.title === 'string' ? parsed.title : '',
+      technique: typeof parsed.technique === 'string' ? parsed.technique : '',
+      normalFindings: Array.isArray(parsed.normal_findings) ? parsed.normal_findings.filter((f: unknown) => typeof f === 'string') : [],
+      defaultImpression: impression && impression.kind === 'impression' ? impression.points : [],
+    };
+  } catch {
+    return { title: '', technique: '', normalFindings: [], defaultImpression: [] };
+  }
+};
+
+// Produces the JSON shape TEMPLATE_GEMINI_PROMPT is written against.
+export const buildTemplateContent = (content: TemplateContent): string =>
+  JSON.stringify(
+    {
+      title: content.title.trim(),
+      technique: content.technique.trim(),
+      normal_findings: content.normalFindings.map(f => f.trim()).filter(f => f !== ''),
+      default_impression: serializeReportLine({
+        kind: 'impression',
+        points: content.defaultImpression.map(p => p.trim()).filter(p => p !== ''),
+      }),
+    },
+    null,
+    2
+  );
+
+export const createEmptyTemplate = (): ReportTemplate => ({
+  id: createTemplateId(),
+  name: '',
+  description: '',
+  modality: '',
+  bodyPart: '',
+  content: buildTemplateContent({ title: '', technique: '', normalFindings: [], defaultImpression: [] }),
+});
+
+export const cloneTemplate = (template: ReportTemplate): ReportTemplate => ({
+  ...template,
+  id: createTemplateId(),
+  name: `${template.name} (copy)`,
+});
+
+export const exportTemplatesJson = (templates: ReportTemplate[]): string =>
+  JSON.stringify({ version: TEMPLATE_EXPORT_VERSION, templates }, null, 2);
+
+// Accepts an exported library or a bare array of templates. Imported entries without an id get a fresh one.
+export const parseImportedTemplates = (json: string): ReportTemplate[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("The selected file is not valid JSON.");
+  }
+  const entries: unknown = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.templates : undefined;
+  if (!Array.isArray(entries)) {
+    throw new Error("No templates found in the selected file.");
+  }
+  return entries.map((entry: unknown, index: number) => {
+    if (!isRecord(entry) || typeof entry.name !== 'string' || !entry.name.trim()) {
+      throw new Error(`Template #${index + 1} is missing a name.`);
+    }
+    const content = typeof entry.content === 'string' ? entry.content : JSON.stringify(entry.content ?? {}, null, 2);
+    return {
+      id: typeof entry.id === 'string' && entry.id ? entry.id : createTemplateId(),
+      name: entry.name.trim(),
+      description: typeof entry.description === 'string' ? entry.description : '',
+      modality: typeof entry.modality === 'string' ? entry.modality : '',
+      bodyPart: typeof entry.bodyPart === 'string' ? entry.bodyPart : '',
+      content,
+    };
+  });
+};
+
+// Imported templates replace existing ones with the same id; everything else is appended.
+export const mergeTemplates = (existing: ReportTemplate[], imported: ReportTemplate[]): ReportTemplate[] => {
+  const importedById = new Map(imported.map(t => [t.id, t]));
+  const merged = existing.map(t => importedById.get(t.id) ?? t);
+  const existingIds = new Set(existing.map(t => t.id));
+  return [...merged, ...imported.filter(t => !existingIds.has(t.id))];
+};
+
+export const findTemplateById = (templates: ReportTemplate[], id: string | null | undefined): ReportTemplate | undefined =>
+  id ? templates.find(t => t.id === id) : undefined;
+
+// Finds the template named in free-text instructions, preferring the longest matching name.
+export const findTemplateByName = (templates: ReportTemplate[], text: string): ReportTemplate | undefined => {
+  const lowered = text.toLowerCase();
+  return [...templates]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find(t => t.name.trim() !== '' && lowered.includes(t.name.toLowerCase()));
+};
+
+// Sentence the template picker used to write into the custom instructions before templates were a separate setting.
+const LEGACY_TEMPLATE_SENTENCE = /Use the normal .+? report template\. Integrate my dictation and generate a new impression\.\s*/i;
+
+// Saved sessions from before explicit selection name their template inside the prompt; split it back out.
+export const migrateLegacyTemplatePrompt = (customPrompt: string): { customPrompt: string; templateId: string | null } => {
+  if (!customPrompt.toLowerCase().includes('report template')) {
+    return { customPrompt, templateId: null };
+  }
+  const template = findTemplateByName(loadTemplates(), customPrompt);
+  if (!template) {
+    return { customPrompt, templateId: null };
+  }
+  return { customPrompt: customPrompt.replace(LEGACY_TEMPLATE_SENTENCE, '').trim(), templateId: template.id };
+};
+
+export const templateCategory = (template: ReportTemplate): string =>
+  [template.modality, template.bodyPart].filter(part => part && part.trim()).join(' · ') || 'Uncategorised';
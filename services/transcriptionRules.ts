@@ -0,0 +1,175 @@
+import { TranscriptionRule } from '../types';
+import { mapReportLineText, parseReportLine, serializeReportLine } from './reportModel';
+
+export const TRANSCRIPTION_RULES_KEY = 'transcription_rules';
+
+// The rules every prompt used to spell out by hand; used until the user saves their own list.
+export const DEFAULT_TRANSCRIPTION_RULES: TranscriptionRule[] = [
+  {
+    id: 'default-few',
+    kind: 'instruct',
+    enabled: true,
+    pattern: '',
+    replacement: '',
+    instruction: 'Transcribe "few" exactly as "few", not "a few".',
+    caseSensitive: false,
+  },
+  {
+    id: 'default-query',
+    kind: 'instruct',
+    enabled: true,
+    pattern: '',
+    replacement: '',
+    instruction: 'Replace the dictated word "query" with a question mark symbol "?".',
+    caseSensitive: false,
+  },
+  {
+    id: 'default-status-post',
+    kind: 'literal',
+    enabled: true,
+    pattern: 'status post',
+    replacement: 'S/p',
+    instruction: 'Transcribe "status post" as the abbreviation "S/p".',
+    caseSensitive: false,
+  },
+  {
+    id: 'default-dimensions',
+    kind: 'regex',
+    enabled: true,
+    pattern: '(\\d+(?:\\.\\d+)?)\\s*(mm|cm)\\s+into\\s+(\\d+(?:\\.\\d+)?)\\s*(mm|cm)',
+    replacement: '$1 x $3 $4',
+    instruction: 'Format dictated dimensions like "8 mm into 9 mm" as "8 x 9 mm".',
+    caseSensitive: false,
+  },
+  {
+    id: 'default-right-more-than-left',
+    kind: 'literal',
+    enabled: true,
+    pattern: 'right more than left',
+    replacement: '(R > L)',
+    instruction: 'For comparative phrases like "right more than left", use the format "(R > L)".',
+    caseSensitive: false,
+  },
+  {
+    id: 'default-left-more-than-right',
+    kind: 'literal',
+    enabled: true,
+    pattern: 'left more than right',
+    replacement: '(L > R)',
+    instruction: 'For comparative phrases like "left more than right", use the format "(L > R)".',
+    caseSensitive: false,
+  },
+  {
+    id: 'default-complaints-of',
+    kind: 'literal',
+    enabled: true,
+    pattern: 'complaints of',
+    replacement: 'C/o',
+    instruction: 'Abbreviate "complaints of" to "C/o".',
+    caseSensitive: false,
+  },
+  {
+    id: 'default-history-of',
+    kind: 'literal',
+    enabled: true,
+    pattern: 'history of',
+    replacement: 'H/o',
+    instruction: 'Abbreviate "history of" to "H/o".',
+    caseSensitive: false,
+  },
+];
+
+export const loadTranscriptionRules = (): TranscriptionRule[] => {
+  try {
+    const saved = localStorage.getItem(TRANSCRIPTION_RULES_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+    }
+  } catch (e) {
+    console.error("Failed to load transcription rules:", e);
+  }
+  return DEFAULT_TRANSCRIPTION_RULES.map(rule => ({ ...rule }));
+};
+
+export const saveTranscriptionRules = (rules: TranscriptionRule[]) => {
+  localStorage.setItem(TRANSCRIPTION_RULES_KEY, JSON.stringify(rules));
+};
+
+export const createTranscriptionRule = (kind: TranscriptionRule['kind']): TranscriptionRule => ({
+  id: `rule-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  kind,
+  enabled: true,
+  pattern: '',
+  replacement: '',
+  instruction: '',
+  caseSensitive: false,
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Literal patterns match whole words only, so "history of" does not fire inside "prehistory of".
+const compileRule = (rule: TranscriptionRule): RegExp | null => {
+  if (rule.kind === 'instruct' || !rule.pattern) return null;
+  const flags = rule.caseSensitive ? 'g' : 'gi';
+  const source = rule.kind === 'literal' ? `(?<![\\w])${escapeRegExp(rule.pattern)}(?![\\w])` : rule.pattern;
+  try {
+    return new RegExp(source, flags);
+  } catch {
+    return null;
+  }
+};
+
+// Returns a message describing why the rule cannot be saved, or null when it is valid.
+export const validateTranscriptionRule = (rule: TranscriptionRule): string | null => {
+  if (rule.kind === 'instruct') {
+    return rule.instruction.trim() ? null : 'Instruction rules need instruction text.';
+  }
+  if (!rule.pattern) {
+    return 'Enter the text to find.';
+  }
+  if (rule.kind === 'regex') {
+    try {
+      new RegExp(rule.pattern);
+    } catch (e) {
+      return `Invalid regular expression: ${e instanceof Error ? e.message : String(e)}`;
+    }
+  }
+  return null;
+};
+
+const ruleInstruction = (rule: TranscriptionRule): string | null => {
+  if (rule.instruction.trim()) return rule.instruction.trim();
+  if (rule.kind === 'literal' && rule.pattern) return `Transcribe "${rule.pattern}" as "${rule.replacement}".`;
+  return null;
+};
+
+// Bullet list for the "Specific Transcription Rules" section of a prompt, in the user's order.
+export const buildTranscriptionRulesPrompt = (rules: TranscriptionRule[] = loadTranscriptionRules(), indent = '    '): string => {
+  const lines = rules
+    .filter(rule => rule.enabled)
+    .map(ruleInstruction)
+    .filter((line): line is string => line !== null)
+    .map(line => `${indent}- ${line}`);
+  return lines.length > 0 ? lines.join('\n') : `${indent}- No additional transcription rules.`;
+};
+
+// Deterministic pass over text the model returned; instruct rules have nothing to apply here.
+export const applyTranscriptionRules = (text: string, rules: TranscriptionRule[] = loadTranscriptionRules()): string =>
+  rules.reduce((current, rule) => {
+    if (!rule.enabled) return current;
+    const regex = compileRule(rule);
+    return regex ? current.replace(regex, rule.replacement) : current;
+  }, text);
+
+export const applyTranscriptionRulesToFindings = (findings: string[], rules: TranscriptionRule[] = loadTranscriptionRules()): string[] =>
+  findings.map(finding => {
+    const line = parseReportLine(finding);
+    // Macro text is inserted exactly as the user stored it.
+    if (line.macro) return finding;
+    const rewritten = serializeReportLine(mapReportLineText(line, text => applyTranscriptionRules(text, rules)));
+    // Keep untouched findings byte-for-byte, including legacy encodings.
+    return rewritten === serializeReportLine(line) ? finding : rewritten;
+  });
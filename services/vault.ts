@@ -0,0 +1,266 @@
+// Optional encryption at rest. A random AES-GCM data key encrypts credentials and report data; the data key
+// itself is stored wrapped with a key derived from the user's passphrase (PBKDF2), so changing the passphrase
+// only re-wraps it. While the vault is enabled nothing sensitive can be read until it is unlocked.
+export const VAULT_KEY = 'secure_vault';
+
+const PBKDF2_ITERATIONS = 600000;
+const ENCRYPTED_VALUE_PREFIX = 'vault:v1:';
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+interface VaultMetadata {
+  version: 1;
+  salt: string;
+  iterations: number;
+  wrapIv: string;
+  wrappedKey: string;
+  // 0 disables auto-lock.
+  autoLockMinutes: number;
+}
+
+// Encrypted payload as kept in IndexedDB.
+export interface SealedData {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+export interface SealedBlob extends SealedData {
+  type: string;
+}
+
+let dataKey: CryptoKey | null = null;
+// Decrypted values of the secure localStorage entries while unlocked.
+const secureCache = new Map<string, string>();
+const secureStorageKeys = new Set<string>();
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Modules that keep credentials or patient data in localStorage declare those keys so the vault covers them.
+export const registerSecureStorageKeys = (...keys: string[]) => {
+  keys.forEach(key => secureStorageKeys.add(key));
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const loadMetadata = (): VaultMetadata | null => {
+  try {
+    const saved = localStorage.getItem(VAULT_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.error("Failed to load vault settings:", e);
+    return null;
+  }
+};
+
+const saveMetadata = (metadata: VaultMetadata) => {
+  localStorage.setItem(VAULT_KEY, JSON.stringify(metadata));
+};
+
+const deriveWrappingKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+const unwrapDataKey = async (metadata: VaultMetadata, passphrase: string): Promise<CryptoKey> => {
+  const wrappingKey = await deriveWrappingKey(passphrase, fromBase64(metadata.salt), metadata.iterations);
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      fromBase64(metadata.wrappedKey),
+      wrappingKey,
+      { name: 'AES-GCM', iv: fromBase64(metadata.wrapIv) },
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    // AES-GCM authentication fails when the passphrase is wrong.
+    throw new Error("Incorrect passphrase.");
+  }
+};
+
+const wrapDataKey = async (key: CryptoKey, passphrase: string, autoLockMinutes: number): Promise<VaultMetadata> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const wrapIv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const wrappedKey = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv: wrapIv });
+  return {
+    version: 1,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    wrapIv: toBase64(wrapIv),
+    wrappedKey: toBase64(new Uint8Array(wrappedKey)),
+    autoLockMinutes,
+  };
+};
+
+const requireKey = (): CryptoKey => {
+  if (!dataKey) {
+    throw new Error("The vault is locked.");
+  }
+  return dataKey;
+};
+
+export const isVaultEnabled = (): boolean => loadMetadata() !== null;
+
+export const isVaultUnlocked = (): boolean => dataKey !== null;
+
+export const getVaultAutoLockMinutes = (): number => loadMetadata()?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+
+export const setVaultAutoLockMinutes = (minutes: number) => {
+  const metadata = loadMetadata();
+  if (metadata) saveMetadata({ ...metadata, autoLockMinutes: minutes });
+};
+
+export const sealBytes = async (bytes: BufferSource): Promise<SealedData> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, requireKey(), bytes);
+  return { iv, data };
+};
+
+export const openBytes = (sealed: SealedData): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, requireKey(), sealed.data);
+
+export const sealJson = (value: unknown): Promise<SealedData> => sealBytes(new TextEncoder().encode(JSON.stringify(value)));
+
+export const openJson = async <T>(sealed: SealedData): Promise<T> => JSON.parse(new TextDecoder().decode(await openBytes(sealed)));
+
+export const sealBlob = async (blob: Blob): Promise<SealedBlob> => ({ ...(await sealBytes(await blob.arrayBuffer())), type: blob.type });
+
+export const openBlob = async (sealed: SealedBlob): Promise<Blob> => new Blob([await openBytes(sealed)], { type: sealed.type });
+
+const encryptValue = async (value: string): Promise<string> => {
+  const sealed = await sealBytes(new TextEncoder().encode(value));
+  return `${ENCRYPTED_VALUE_PREFIX}${toBase64(sealed.iv)}:${toBase64(new Uint8Array(sealed.data))}`;
+};
+
+const decryptValue = async (stored: string): Promise<string> => {
+  const [iv, data] = stored.slice(ENCRYPTED_VALUE_PREFIX.length).split(':');
+  const plain = await openBytes({ iv: fromBase64(iv), data: fromBase64(data).buffer });
+  return new TextDecoder().decode(plain);
+};
+
+// Serialises encrypted writes so an older value can never land after a newer one.
+const enqueueWrite = (task: () => Promise<void> | void): Promise<void> => {
+  const next = writeQueue.catch(() => undefined).then(task);
+  writeQueue = next;
+  return next;
+};
+
+// localStorage.getItem for registered keys. Returns null while the vault is locked.
+export const getSecureItem = (key: string): string | null => {
+  if (!isVaultEnabled()) return localStorage.getItem(key);
+  return secureCache.get(key) ?? null;
+};
+
+// localStorage.setItem for registered keys; the value is readable through getSecureItem immediately.
+export const setSecureItem = async (key: string, value: string): Promise<void> => {
+  if (!isVaultEnabled()) {
+    localStorage.setItem(key, value);
+    return;
+  }
+  requireKey();
+  secureCache.set(key, value);
+  await enqueueWrite(async () => {
+    localStorage.setItem(key, await encryptValue(value));
+  });
+};
+
+export const removeSecureItem = (key: string) => {
+  secureCache.delete(key);
+  if (!isVaultEnabled()) {
+    localStorage.removeItem(key);
+    return;
+  }
+  enqueueWrite(() => localStorage.removeItem(key)).catch(err => console.error(`Failed to remove ${key}:`, err));
+};
+
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const metadata = loadMetadata();
+  if (!metadata) return;
+  dataKey = await unwrapDataKey(metadata, passphrase);
+  secureCache.clear();
+  for (const key of secureStorageKeys) {
+    const stored = localStorage.getItem(key);
+    if (stored === null) continue;
+    if (!stored.startsWith(ENCRYPTED_VALUE_PREFIX)) {
+      // Written in plain text by an older version; encrypt it now.
+      await setSecureItem(key, stored);
+      continue;
+    }
+    try {
+      secureCache.set(key, await decryptValue(stored));
+    } catch (err) {
+      console.error(`Failed to decrypt ${key}:`, err);
+    }
+  }
+};
+
+// Forgets the key and every decrypted value. Callers reload the page so no report data stays in memory.
+export const lockVault = () => {
+  dataKey = null;
+  secureCache.clear();
+};
+
+// Turns the vault on, encrypting the registered localStorage entries. `reseal` re-encrypts the
+// IndexedDB stores once the key is in place.
+export const enableVault = async (passphrase: string, autoLockMinutes: number, reseal: () => Promise<unknown>): Promise<void> => {
+  if (isVaultEnabled()) {
+    throw new Error("The vault is already enabled.");
+  }
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const plainValues = [...secureStorageKeys]
+    .map(storageKey => [storageKey, localStorage.getItem(storageKey)] as const)
+    .filter((entry): entry is readonly [string, string] => entry[1] !== null);
+
+  dataKey = key;
+  saveMetadata(await wrapDataKey(key, passphrase, autoLockMinutes));
+  for (const [storageKey, value] of plainValues) {
+    await setSecureItem(storageKey, value);
+  }
+  await reseal();
+};
+
+// Turns the vault off after checking the passphrase, writing everything back in plain text.
+export const disableVault = async (passphrase: string, reseal: () => Promise<unknown>): Promise<void> => {
+  const metadata = loadMetadata();
+  if (!metadata) return;
+  dataKey = await unwrapDataKey(metadata, passphrase);
+  await writeQueue.catch(() => undefined);
+  const values = [...secureCache.entries()];
+  localStorage.removeItem(VAULT_KEY);
+  values.forEach(([storageKey, value]) => localStorage.setItem(storageKey, value));
+  // The key is still held here so the stores can be decrypted.
+  await reseal();
+  lockVault();
+};
+
+export const changeVaultPassphrase = async (currentPassphrase: string, newPassphrase: string): Promise<void> => {
+  const metadata = loadMetadata();
+  if (!metadata) {
+    throw new Error("The vault is not enabled.");
+  }
+  const key = await unwrapDataKey(metadata, currentPassphrase);
+  saveMetadata(await wrapDataKey(key, newPassphrase, metadata.autoLockMinutes));
+};
+
+// Last resort for a forgotten passphrase: drops the vault and the encrypted localStorage entries.
+// Callers clear the IndexedDB stores too, since their contents can no longer be read.
+export const resetVault = () => {
+  localStorage.removeItem(VAULT_KEY);
+  secureStorageKeys.forEach(key => localStorage.removeItem(key));
+  lockVault();
+};
@@ -0,0 +1,255 @@
+import { VocabularyEntry } from '../types';
+import { mapReportLineText, parseReportLine, serializeReportLine } from './reportModel';
+
+export const VOCABULARY_KEY = 'personal_vocabulary';
+
+// Fuzzy matching only considers words at least this long; shorter words have too many near neighbours.
+const FUZZY_MIN_LENGTH = 8;
+
+// Prefixes that turn a term into its opposite or a different structure. Words that differ only in one of
+// these ("hypoechoic" and "hyperechoic", "abduction" and "adduction") are never snapped to each other.
+const CONTRASTING_PREFIXES = [['hypo', 'hyper'], ['inter', 'intra'], ['intra', 'extra'], ['ab', 'ad'], ['endo', 'exo'], ['ante', 'anti']];
+
+// Real words one edit apart that mean different things.
+const CONFUSABLE_WORDS = [
+  ['ileum', 'ilium'],
+  ['perineal', 'peroneal'],
+  ['dysphagia', 'dysphasia'],
+  ['prostate', 'prostrate'],
+  ['mucous', 'mucus'],
+  ['humeral', 'humoral'],
+];
+
+// Singular and plural endings of Latin and Greek terms: metastasis/metastases, vertebra/vertebrae,
+// diverticulum/diverticula, bronchus/bronchi, appendix/appendices, ganglion/ganglia.
+const NUMBER_ENDINGS = [['is', 'es'], ['a', 'ae'], ['um', 'a'], ['us', 'i'], ['ix', 'ices'], ['ex', 'ices'], ['on', 'a'], ['', 's'], ['', 'es']];
+
+// Correctly spelt report words that sit one edit away from other report words or likely user terms.
+// A word in this list is never snapped, whatever the user has stored.
+const REPORT_WORDS = new Set([
+  'abdominal', 'abnormal', 'abnormality', 'adenopathy', 'aneurysm', 'anterior', 'appendix', 'appendices',
+  'arthritis', 'arthrosis', 'bilateral', 'calcified', 'calcification', 'calculus', 'cerebral', 'collection',
+  'consolidation', 'contrast', 'diameter', 'dilatation', 'effusion', 'enhancement', 'enhancing', 'fracture',
+  'fractures', 'ganglion', 'haematoma', 'hematoma', 'heterogeneous', 'homogeneous', 'inferior',
+  'interstitial', 'lymphadenopathy', 'malignant', 'metastasis', 'metastases', 'metastatic', 'multiple',
+  'periosteal', 'posterior', 'prominent', 'proximal', 'puncture', 'sclerosis', 'scleroses', 'sclerotic',
+  'stenosis', 'stenoses', 'stenotic', 'superior', 'thickening', 'thrombosis', 'thromboses', 'thrombus',
+  'unremarkable', 'vertebra', 'vertebrae', 'vertebral', 'diverticulum', 'diverticula', 'diverticulosis',
+  'diverticulitis', 'bronchus', 'bronchial', 'pneumonia', 'pneumonitis',
+]);
+
+export const loadVocabulary = (): VocabularyEntry[] => {
+  try {
+    const saved = localStorage.getItem(VOCABULARY_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        return parsed.filter(entry => entry && typeof entry.term === 'string' && Array.isArray(entry.soundsLike));
+      }
+    }
+  } catch (e) {
+    console.error("Failed to load vocabulary:", e);
+  }
+  return [];
+};
+
+export const saveVocabulary = (entries: VocabularyEntry[]) => {
+  localStorage.setItem(VOCABULARY_KEY, JSON.stringify(entries));
+};
+
+export const createVocabularyEntry = (term = '', soundsLike: string[] = []): VocabularyEntry => ({
+  id: `vocab-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  term,
+  soundsLike,
+});
+
+const splitCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows;
+};
+
+const HEADER_NAMES = ['term', 'word', 'preferred', 'preferred spelling', 'spelling'];
+
+// One term per row; any further columns (or ";"-separated values within them) are sounds-like aliases.
+// A plain one-word-per-line list is therefore valid too.
+export const parseVocabularyCsv = (text: string): VocabularyEntry[] => {
+  const rows = splitCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length > 0 && HEADER_NAMES.includes(rows[0][0].trim().toLowerCase())) {
+    rows.shift();
+  }
+  const entries = rows
+    .map(cells => ({
+      term: cells[0].trim(),
+      soundsLike: cells.slice(1).flatMap(cell => cell.split(/[;|]/)).map(alias => alias.trim()).filter(alias => alias !== ''),
+    }))
+    .filter(row => row.term !== '')
+    .map(row => createVocabularyEntry(row.term, row.soundsLike));
+  if (entries.length === 0) {
+    throw new Error("No vocabulary terms found in the selected file.");
+  }
+  return entries;
+};
+
+const uniqueIgnoringCase = (values: string[]): string[] => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Imported terms that already exist (ignoring case) contribute their aliases to the existing entry.
+export const mergeVocabulary = (existing: VocabularyEntry[], imported: VocabularyEntry[]): VocabularyEntry[] => {
+  const merged = existing.map(entry => ({ ...entry, soundsLike: [...entry.soundsLike] }));
+  for (const entry of imported) {
+    const match = merged.find(e => e.term.toLowerCase() === entry.term.toLowerCase());
+    if (match) {
+      match.soundsLike = uniqueIgnoringCase([...match.soundsLike, ...entry.soundsLike]);
+    } else {
+      merged.push({ ...entry, soundsLike: uniqueIgnoringCase(entry.soundsLike) });
+    }
+  }
+  return merged;
+};
+
+// Prompt section listing the user's terms; empty when there is nothing to add.
+export const buildVocabularyPrompt = (entries: VocabularyEntry[] = loadVocabulary()): string => {
+  const lines = entries
+    .filter(entry => entry.term.trim())
+    .map(entry => entry.soundsLike.length > 0
+      ? `- ${entry.term} (may sound like: ${entry.soundsLike.join(', ')})`
+      : `- ${entry.term}`);
+  if (lines.length === 0) return '';
+  return `Preferred Vocabulary:\nSpell these terms exactly as written. If the dictation sounds like one of the listed alternatives, the speaker means the preferred term.\n${lines.join('\n')}`;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// True when the two words are the singular and plural of one term, so "metastases" is never read as a
+// misspelt "metastasis".
+const areNumberForms = (a: string, b: string): boolean =>
+  NUMBER_ENDINGS.some(([singular, plural]) =>
+    (a.endsWith(singular) && b.endsWith(plural) && a.slice(0, a.length - singular.length) === b.slice(0, b.length - plural.length)) ||
+    (b.endsWith(singular) && a.endsWith(plural) && b.slice(0, b.length - singular.length) === a.slice(0, a.length - plural.length)));
+
+const differsOnlyInPrefix = (a: string, b: string): boolean =>
+  CONTRASTING_PREFIXES.some(([first, second]) =>
+    (a.startsWith(first) && b.startsWith(second) && a.slice(first.length) === b.slice(second.length)) ||
+    (a.startsWith(second) && b.startsWith(first) && a.slice(second.length) === b.slice(first.length)));
+
+const areConfusable = (a: string, b: string): boolean =>
+  CONFUSABLE_WORDS.some(([first, second]) => (a === first && b === second) || (a === second && b === first));
+
+// Nearest single-word term one edit away, or null when there is none or the match is ambiguous.
+const closestTerm = (word: string, terms: string[]): string | null => {
+  const lowered = word.toLowerCase();
+  const maxDistance = 1;
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  let tied = false;
+  for (const term of terms) {
+    const candidate = term.toLowerCase();
+    if (candidate[0] !== lowered[0] || Math.abs(candidate.length - lowered.length) > maxDistance) continue;
+    // Singular and plural forms of a term are not misspellings of each other.
+    if (areNumberForms(lowered, candidate)) continue;
+    if (differsOnlyInPrefix(lowered, candidate) || areConfusable(lowered, candidate)) continue;
+    const distance = levenshtein(lowered, candidate);
+    if (distance > maxDistance) continue;
+    if (distance < bestDistance) {
+      best = term;
+      bestDistance = distance;
+      tied = false;
+    } else if (distance === bestDistance) {
+      tied = true;
+    }
+  }
+  return tied ? null : best;
+};
+
+// Deterministic correction of model output: sounds-like aliases and miscased terms are replaced first,
+// then longer single words that are one edit away from a single-word term are snapped to it.
+export const applyVocabulary = (text: string, entries: VocabularyEntry[] = loadVocabulary()): string => {
+  const usable = entries.filter(entry => entry.term.trim());
+  if (usable.length === 0) return text;
+
+  let result = text;
+  for (const entry of usable) {
+    const phrases = [entry.term, ...entry.soundsLike]
+      .map(phrase => phrase.trim())
+      .filter(phrase => phrase !== '')
+      .sort((a, b) => b.length - a.length);
+    const regex = new RegExp(`(?<![\\w])(?:${phrases.map(escapeRegExp).join('|')})(?![\\w])`, 'gi');
+    result = result.replace(regex, entry.term);
+  }
+
+  const singleWordTerms = usable
+    .map(entry => entry.term.trim())
+    .filter(term => /^[A-Za-z][A-Za-z'-]*$/.test(term) && term.length >= FUZZY_MIN_LENGTH);
+  if (singleWordTerms.length === 0) return result;
+  const known = new Set(singleWordTerms.map(term => term.toLowerCase()));
+
+  return result.replace(/[A-Za-z][A-Za-z'-]*/g, word => {
+    if (word.length < FUZZY_MIN_LENGTH || known.has(word.toLowerCase()) || REPORT_WORDS.has(word.toLowerCase())) return word;
+    const term = closestTerm(word, singleWordTerms);
+    if (!term) return word;
+    // Keep a sentence-initial capital when the preferred spelling is lower case.
+    return /^[A-Z]/.test(word) && /^[a-z]/.test(term) ? term[0].toUpperCase() + term.slice(1) : term;
+  });
+};
+
+export const applyVocabularyToFindings = (findings: string[], entries: VocabularyEntry[] = loadVocabulary()): string[] => {
+  if (entries.length === 0) return findings;
+  return findings.map(finding => {
+    const line = parseReportLine(finding);
+    // Macro text is inserted exactly as the user stored it.
+    if (line.macro) return finding;
+    const rewritten = serializeReportLine(mapReportLineText(line, text => applyVocabulary(text, entries)));
+    return rewritten === serializeReportLine(line) ? finding : rewritten;
+  });
+};
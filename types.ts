@@ -11,4 +11,263 @@ export interface IdentifiedError {
   findingIndex: number;
   errorDescription: string;
   severity: 'WARNING' | 'INFO';
-}
\ No newline at end of file
+  // Other findings the issue refers to, shown as links.
+  relatedFindingIndices?: number[];
+}
+
+// Impression cross-check results with the findings they were worked out on, so their indices can follow later edits.
+export interface ImpressionCrossCheck {
+  findings: string[];
+  errors: IdentifiedError[];
+}
+
+export type ReportEmphasis = 'none' | 'bold' | 'italic';
+
+// Where a line came from when it was produced by expanding a dictation macro.
+export interface MacroOrigin {
+  // Shared by every line of one expansion, so a multi-line block reverts as a unit.
+  expansionId: string;
+  // The stored line as dictated, before expansion; reverting restores it.
+  spoken: string;
+}
+
+// One entry of the findings list, decoded from its stored string by services/reportModel.ts.
+export type ReportLine = (
+  | { kind: 'title'; text: string }
+  | { kind: 'clinicalProfile'; text: string }
+  | { kind: 'technique'; text: string }
+  | { kind: 'finding'; text: string; emphasis: ReportEmphasis }
+  | { kind: 'section'; heading: string; points: string[]; emphasis: ReportEmphasis }
+  | { kind: 'impression'; points: string[] }
+  | { kind: 'recommendations'; points: string[] }
+) & { macro?: MacroOrigin };
+
+export interface ReportFinding {
+  text: string;
+  emphasis: ReportEmphasis;
+  // Present for structured findings, where `text` is the heading.
+  points?: string[];
+}
+
+export interface ReportDocument {
+  title: string | null;
+  clinicalProfile: string | null;
+  technique: string | null;
+  findings: ReportFinding[];
+  impression: string[];
+  recommendations: string[];
+}
+
+// literal: plain find/replace; regex: pattern rewrite; instruct: guidance for the model only.
+export type TranscriptionRuleKind = 'literal' | 'regex' | 'instruct';
+
+export interface TranscriptionRule {
+  id: string;
+  kind: TranscriptionRuleKind;
+  enabled: boolean;
+  // Text or regular expression to find; unused by instruct rules.
+  pattern: string;
+  replacement: string;
+  // Sentence given to the model. Literal rules fall back to a generated one when this is empty.
+  instruction: string;
+  caseSensitive: boolean;
+}
+
+export type ExportFormat = 'html' | 'rtf' | 'markdown' | 'plain';
+
+// A named way of formatting copied and downloaded reports for one destination (services/exportProfiles.ts).
+export interface ExportProfile {
+  id: string;
+  name: string;
+  format: ExportFormat;
+  uppercaseHeadings: boolean;
+  numberedImpression: boolean;
+  // Marker for impression and recommendation points in plain text; other formats use their own lists.
+  bullet: string;
+  // Blank line between findings in text and RTF output.
+  blankLines: boolean;
+  // Bold, italic and underlining where the format has them.
+  keepEmphasis: boolean;
+}
+
+export interface VocabularyEntry {
+  id: string;
+  // Preferred spelling, e.g. a drug name, eponym or consultant's name.
+  term: string;
+  // What speech-to-text tends to produce instead, e.g. "kepra" for "Keppra".
+  soundsLike: string[];
+}
+
+export interface DictationMacro {
+  id: string;
+  // Phrase the radiologist says, e.g. "normal chest".
+  trigger: string;
+  // Text inserted in its place. May contain {placeholders} filled from values dictated with the trigger,
+  // and one line per finding using the usual report markers.
+  expansion: string;
+}
+
+export type HistorySource = 'single' | 'live' | 'batch';
+
+// A completed report as kept in the history archive (IndexedDB), blobs included.
+export interface HistoryEntry {
+  id: string;
+  source: HistorySource;
+  name: string;
+  findings: string[];
+  audio: Blob | null;
+  images: Blob[];
+  customPrompt: string;
+  templateId: string | null;
+  model: string;
+  chatHistory: { author: 'You' | 'AI'; text: string }[];
+  createdAt: number;
+  updatedAt: number;
+  // Lower-cased plain text of the report, prompt and chat, used for search.
+  searchText: string;
+  // Absent for entries archived before version history existed.
+  versions?: ReportVersion[];
+  // Only recorded when the dictation was processed with AI corrections shown.
+  transcript?: TranscriptSegment[];
+  // Last impression cross-check, kept so reopening the report does not check it again.
+  impressionCheck?: ImpressionCrossCheck;
+}
+
+export type PhiCategory = 'name' | 'id' | 'phone' | 'address' | 'dob';
+
+// One piece of text removed by the PHI guard (services/phiRedaction.ts).
+export interface PhiRedaction {
+  category: PhiCategory;
+  original: string;
+  placeholder: string;
+}
+
+export type AuditEditAction =
+  | 'edit'
+  | 'dictatedAddition'
+  | 'dictatedEdit'
+  | 'reportDictation'
+  | 'continueDictation'
+  | 'complexImpression'
+  | 'merge'
+  | 'reorder'
+  | 'revertMacro'
+  | 'undo'
+  | 'restore'
+  | 'revertCorrection'
+  | 'computedValue'
+  | 'criticalCommunication'
+  | 'radsCategory';
+
+// Entries of the append-only audit log (services/auditLog.ts). `seq` is assigned by IndexedDB.
+export interface AiCallAuditEntry {
+  seq?: number;
+  kind: 'ai';
+  at: number;
+  operator: string;
+  // The AITask of the request, or 'liveDictation' for a streamed session.
+  task: string;
+  provider: string;
+  model: string;
+  // SHA-256 of the prompt text, custom instructions included; the prompt itself is not kept.
+  promptHash: string;
+  latencyMs: number;
+  retries: number;
+  outcome: 'success' | 'error';
+  error?: string;
+}
+
+export interface EditAuditEntry {
+  seq?: number;
+  kind: 'edit';
+  at: number;
+  operator: string;
+  // History id of the report, or null for one not yet saved (e.g. during live dictation).
+  reportId: string | null;
+  action: AuditEditAction;
+  before: string;
+  after: string;
+}
+
+export type AuditEntry = AiCallAuditEntry | EditAuditEntry;
+
+export type ReportVersionSource = 'dictation' | 'reprocess' | 'live' | 'fhirImport' | AuditEditAction;
+
+// A snapshot of a report's findings after one change, so any two can be compared or restored.
+export interface ReportVersion {
+  id: string;
+  at: number;
+  source: ReportVersionSource;
+  // Model that produced the version, for (re)processed dictations.
+  model?: string;
+  findings: string[];
+}
+
+// What was said for one line of a processed dictation, kept so the corrections the model made can be shown.
+export interface TranscriptSegment {
+  spoken: string;
+  // The line as produced from `spoken`, kept in step when a correction is reverted. Lines edited any other
+  // way no longer match and are shown without corrections.
+  corrected: string;
+}
+
+export type LengthUnit = 'mm' | 'cm';
+
+// A dimension written in a finding, such as "12 x 8 mm" (services/measurements.ts).
+export interface Measurement {
+  findingIndex: number;
+  // The measurement exactly as written.
+  text: string;
+  // Up to three axes, in the order and units written. An axis without its own unit takes the unit written after it.
+  values: number[];
+  units: LengthUnit[];
+  // The same axes in millimetres.
+  axesMm: number[];
+  // The words before the measurement that say what was measured, e.g. "Right kidney".
+  structure: string;
+}
+
+// A finding that has to be communicated to the referring clinician (services/criticalFindings.ts).
+export interface CriticalFinding {
+  findingIndex: number;
+  label: string;
+  source: 'lexicon' | 'model';
+}
+
+// Model classifications with the findings they were made on; they only apply while the findings are unchanged.
+export interface CriticalClassification {
+  findings: string[];
+  critical: CriticalFinding[];
+}
+
+export type CommunicationMethod = 'telephone' | 'inPerson' | 'secureMessage' | 'page';
+
+// Who was told about a critical result, when and how. Written into the report as a standard sentence.
+export interface CriticalCommunication {
+  recipient: string;
+  at: number;
+  method: CommunicationMethod;
+  readBack: boolean;
+}
+
+export type RadsSystem = 'BI-RADS' | 'TI-RADS' | 'LI-RADS' | 'Lung-RADS' | 'PI-RADS';
+
+// One line of the working behind a category: a descriptor, what the finding says about it and what that scored.
+export interface RadsWorkingStep {
+  descriptor: string;
+  value: string;
+  score?: string;
+  // The finding does not describe it; the value the rules use in that case was taken.
+  assumed?: boolean;
+}
+
+// A category worked out from one finding (services/radsScoring.ts).
+export interface RadsAssessment {
+  system: RadsSystem;
+  findingIndex: number;
+  category: string;
+  working: RadsWorkingStep[];
+  // Sentence offered for the report, e.g. "ACR TI-RADS TR4 (5 points)."
+  summary: string;
+  management: string;
+}